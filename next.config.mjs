@@ -56,6 +56,8 @@ const nextConfig = {
   experimental: {
     // Optimize package imports
     optimizePackageImports: ['docx', 'xlsx'],
+    // pdf.js is ESM-only and loads its own worker; keep it out of the server bundle
+    serverComponentsExternalPackages: ['pdfjs-dist'],
   },
 };
 
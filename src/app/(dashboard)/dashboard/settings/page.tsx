@@ -1,6 +1,8 @@
 import Card from "@/components/ui/Card";
 import EconomicOutlookManager from "@/components/settings/EconomicOutlookManager";
 import StyleExampleManager from "@/components/settings/StyleExampleManager";
+import MappingProfileManager from "@/components/settings/MappingProfileManager";
+import AIUsageReport from "@/components/settings/AIUsageReport";
 
 export default function SettingsPage() {
   return (
@@ -8,7 +10,7 @@ export default function SettingsPage() {
       <div>
         <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
         <p className="mt-1 text-gray-500">
-          Manage economic outlooks and style examples for AI-generated content.
+          Manage economic outlooks, style examples and model mapping profiles, and review AI spend.
         </p>
       </div>
 
@@ -21,6 +23,16 @@ export default function SettingsPage() {
       <Card padding="lg">
         <StyleExampleManager />
       </Card>
+
+      {/* Mapping Profiles Section */}
+      <Card padding="lg">
+        <MappingProfileManager />
+      </Card>
+
+      {/* AI Usage Section */}
+      <Card padding="lg">
+        <AIUsageReport />
+      </Card>
     </div>
   );
 }
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth/session';
+import { getMonthlyUsage } from '@/lib/utils/aiUsage';
+import type { ApiResponse } from '@/types/api';
+import type { MonthlyUsage } from '@/types/ai';
+
+// Months reported when ?months= is not given, and the most that can be asked for
+const DEFAULT_MONTHS = 12;
+const MAX_MONTHS = 36;
+
+// GET - Monthly AI spend by client (?months=)
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<MonthlyUsage[]>>> {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const requested = Number(request.nextUrl.searchParams.get('months') ?? DEFAULT_MONTHS);
+    if (!Number.isInteger(requested) || requested < 1 || requested > MAX_MONTHS) {
+      return NextResponse.json(
+        { success: false, error: `Months must be a whole number from 1 to ${MAX_MONTHS}` },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getMonthlyUsage(requested),
+    });
+  } catch (error) {
+    console.error('Error fetching AI usage:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch AI usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "@/lib/auth/session";
 import prisma from "@/lib/db/prisma";
+import { getEngagementUsage } from "@/lib/utils/aiUsage";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -46,7 +47,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({
       success: true,
-      data: engagement,
+      data: { ...engagement, aiUsage: await getEngagementUsage(id) },
     });
   } catch (error) {
     console.error("Error fetching engagement:", error);
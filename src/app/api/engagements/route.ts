@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "@/lib/auth/session";
 import prisma from "@/lib/db/prisma";
+import { isOwnSnapshot } from "@/lib/utils/valuationSnapshot";
+import { getEngagementCosts } from "@/lib/utils/aiUsage";
+import { isPdfFile } from "@/lib/pdf";
 
 // GET /api/engagements - List user's engagements
 export async function GET() {
@@ -39,9 +42,11 @@ export async function GET() {
       },
     });
 
+    const costs = await getEngagementCosts(engagements.map((e) => e.id));
+
     return NextResponse.json({
       success: true,
-      data: engagements,
+      data: engagements.map((e) => ({ ...e, aiCostUsd: costs.get(e.id) ?? 0 })),
     });
   } catch (error) {
     console.error("Error fetching engagements:", error);
@@ -65,7 +70,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { reportType, modelFilePath, qualitativeContext, companyName, valuationDate, selectedApproaches } = body;
+    const { reportType, modelFilePath, exhibitsFilePath, qualitativeContext, companyName, valuationDate, selectedApproaches, priorSnapshotId } = body;
 
     // Validate required fields
     if (!reportType || !modelFilePath) {
@@ -75,12 +80,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Exhibits accompany an Excel model; a PDF model already is the exhibits
+    if (exhibitsFilePath && (isPdfFile(modelFilePath) || !isPdfFile(exhibitsFilePath))) {
+      return NextResponse.json(
+        { success: false, error: "Exhibits must be a PDF uploaded alongside an Excel model" },
+        { status: 400 }
+      );
+    }
+
     // Validate selectedApproaches if provided
     if (selectedApproaches) {
       const hasValidApproach = 
         selectedApproaches.guidelinePublicCompany || 
         selectedApproaches.guidelineTransaction || 
-        selectedApproaches.incomeApproach;
+        selectedApproaches.incomeApproach ||
+        selectedApproaches.pwerm;
       
       if (!hasValidApproach) {
         return NextResponse.json(
@@ -98,6 +112,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate prior valuation if provided
+    if (priorSnapshotId && !(await isOwnSnapshot(session.user.id, priorSnapshotId))) {
+      return NextResponse.json(
+        { success: false, error: "Prior valuation not found" },
+        { status: 400 }
+      );
+    }
+
     // Calculate expiration date (30 days from now)
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + 30);
@@ -117,10 +139,12 @@ export async function POST(request: NextRequest) {
         userId: session.user.id,
         reportType,
         modelFilePath,
+        exhibitsFilePath: exhibitsFilePath || null,
         qualitativeContext: qualitativeContext || null,
         companyName: companyName || null,
         valuationDate: parsedValuationDate,
         selectedApproaches: selectedApproaches || null,
+        priorSnapshotId: priorSnapshotId || null,
         status: "DRAFT",
         expiresAt,
       },
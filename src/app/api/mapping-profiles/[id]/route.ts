@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { getServerSession } from '@/lib/auth/session';
+import { prisma } from '@/lib/db/prisma';
+import { toMappingProfileData, validateMappingProfileInput } from '@/lib/utils/mappingProfile';
+import type { ApiResponse } from '@/types/api';
+import type { MappingProfileData } from '@/types/mapping';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH - Update mapping profile
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse<MappingProfileData>>> {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const existing = await prisma.mappingProfile.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Mapping profile not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const result = validateMappingProfileInput(body);
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, fingerprint, mappings } = result.data;
+
+    // Check name uniqueness if renamed
+    if (name !== existing.name) {
+      const duplicate = await prisma.mappingProfile.findUnique({
+        where: { name },
+      });
+
+      if (duplicate) {
+        return NextResponse.json(
+          { success: false, error: `A mapping profile named "${name}" already exists` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const profile = await prisma.mappingProfile.update({
+      where: { id },
+      data: {
+        name,
+        description,
+        fingerprint: fingerprint as unknown as Prisma.InputJsonValue,
+        mappings: mappings as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: toMappingProfileData(profile),
+    });
+  } catch (error) {
+    console.error('Error updating mapping profile:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update mapping profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete mapping profile
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ApiResponse>> {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const profile = await prisma.mappingProfile.findUnique({
+      where: { id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'Mapping profile not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.mappingProfile.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Mapping profile deleted successfully',
+    });
+  } catch (error) {
+    console.error('Error deleting mapping profile:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete mapping profile' },
+      { status: 500 }
+    );
+  }
+}
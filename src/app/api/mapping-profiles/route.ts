@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { getServerSession } from '@/lib/auth/session';
+import { prisma } from '@/lib/db/prisma';
+import { toMappingProfileData, validateMappingProfileInput } from '@/lib/utils/mappingProfile';
+import type { ApiResponse } from '@/types/api';
+import type { MappingProfileData } from '@/types/mapping';
+
+// GET - List all mapping profiles
+export async function GET(): Promise<NextResponse<ApiResponse<MappingProfileData[]>>> {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const profiles = await prisma.mappingProfile.findMany({
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: profiles.map(toMappingProfileData),
+    });
+  } catch (error) {
+    console.error('Error fetching mapping profiles:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch mapping profiles' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create mapping profile
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<MappingProfileData>>> {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const result = validateMappingProfileInput(body);
+
+    if ('error' in result) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, fingerprint, mappings } = result.data;
+
+    const existing = await prisma.mappingProfile.findUnique({
+      where: { name },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: `A mapping profile named "${name}" already exists` },
+        { status: 400 }
+      );
+    }
+
+    const profile = await prisma.mappingProfile.create({
+      data: {
+        name,
+        description,
+        fingerprint: fingerprint as unknown as Prisma.InputJsonValue,
+        mappings: mappings as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: toMappingProfileData(profile),
+    });
+  } catch (error) {
+    console.error('Error creating mapping profile:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create mapping profile' },
+      { status: 500 }
+    );
+  }
+}
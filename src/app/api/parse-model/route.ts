@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from '@/lib/auth/session';
-import { parseValuationModel, formatForAPI, validateModelFilePath } from '@/lib/excel';
+import { parseModelFile, formatForAPI, validateModelFilePath, ModelParseError } from '@/lib/excel';
+import { isPdfFile } from '@/lib/pdf';
 import { fileExists } from '@/lib/storage';
 import type { ApiResponse, ParsedModelResponse } from '@/types/api';
 
@@ -8,33 +9,6 @@ interface ParseModelRequest {
   filePath: string;
 }
 
-/**
- * Check if file is a PDF
- */
-function isPdfFile(filePath: string): boolean {
-  return filePath.toLowerCase().endsWith('.pdf');
-}
-
-/**
- * Create a response for PDF files - requires manual input
- */
-function createPdfResponse(): ParsedModelResponse {
-  return {
-    companyName: null,
-    valuationDate: null,
-    exhibitCount: 1,
-    exhibitNames: ['PDF Exhibits'],
-    approaches: [],
-    concludedValue: null,
-    dlom: null,
-    warnings: [
-      'PDF file uploaded - please enter company name and valuation date manually',
-      'Valuation approaches should be selected manually',
-    ],
-    errors: [],
-  };
-}
-
 // POST - Parse a valuation model
 export async function POST(
   request: NextRequest
@@ -76,25 +50,18 @@ export async function POST(
       );
     }
 
-    // Handle PDF files differently - no parsing, just return skeleton
-    if (isPdfFile(filePath)) {
-      console.log('PDF file detected - returning manual input response');
-      return NextResponse.json({
-        success: true,
-        data: createPdfResponse(),
-      });
-    }
-
-    // Parse Excel model
-    const validation = validateModelFilePath(filePath);
-    if (!validation.valid) {
-      return NextResponse.json(
-        { success: false, error: validation.error },
-        { status: 400 }
-      );
+    // Excel models are validated further; PDF exhibits are read from their text layer
+    if (!isPdfFile(filePath)) {
+      const validation = validateModelFilePath(filePath);
+      if (!validation.valid) {
+        return NextResponse.json(
+          { success: false, error: validation.error },
+          { status: 400 }
+        );
+      }
     }
 
-    const parsedModel = await parseValuationModel(filePath);
+    const parsedModel = await parseModelFile(filePath);
 
     // Check for critical errors
     if (parsedModel.errors.length > 0 && !parsedModel.companyName && !parsedModel.valuationDate) {
@@ -115,6 +82,13 @@ export async function POST(
       data: response,
     });
   } catch (error) {
+    if (error instanceof ModelParseError) {
+      console.error(`Model parse ${error.reason}:`, error.message);
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.reason === 'worker' ? 500 : 422 }
+      );
+    }
     console.error('Error parsing model:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to parse model' },
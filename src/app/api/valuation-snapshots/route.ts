@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from '@/lib/auth/session';
+import { listPriorValuations } from '@/lib/utils/valuationSnapshot';
+import type { ApiResponse } from '@/types/api';
+import type { PriorValuationSummary } from '@/types/rollforward';
+
+// GET - List prior valuations of a company (?companyName=)
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<ApiResponse<PriorValuationSummary[]>>> {
+  try {
+    const session = await getServerSession();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const companyName = request.nextUrl.searchParams.get('companyName')?.trim();
+    if (!companyName) {
+      return NextResponse.json(
+        { success: false, error: 'Company name is required' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listPriorValuations(session.user.id, companyName),
+    });
+  } catch (error) {
+    console.error('Error fetching prior valuations:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch prior valuations' },
+      { status: 500 }
+    );
+  }
+}
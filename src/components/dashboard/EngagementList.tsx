@@ -30,6 +30,10 @@ export default function EngagementList({
     }
   };
 
+  const formatCost = (costUsd: number) => {
+    return costUsd > 0 ? `$${costUsd.toFixed(2)}` : "—";
+  };
+
   const getReportTypeLabel = (type: string) => {
     return type === "FOUR09A" ? "409A" : "59-60";
   };
@@ -135,6 +139,9 @@ export default function EngagementList({
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Created
               </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                AI Cost
+              </th>
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
               </th>
@@ -168,6 +175,11 @@ export default function EngagementList({
                     {formatDate(engagement.createdAt)}
                   </span>
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right">
+                  <span className="text-sm text-gray-500">
+                    {formatCost(engagement.aiCostUsd)}
+                  </span>
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                   {engagement.status === "DRAFT" && (
                     <Link
@@ -227,6 +239,7 @@ export default function EngagementList({
             <div className="flex items-center justify-between pt-2 border-t border-gray-100">
               <span className="text-xs text-gray-400">
                 Created {formatDate(engagement.createdAt)}
+                {engagement.aiCostUsd > 0 && ` • AI ${formatCost(engagement.aiCostUsd)}`}
               </span>
 
               {engagement.status === "DRAFT" && (
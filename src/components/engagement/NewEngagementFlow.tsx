@@ -22,13 +22,17 @@ export default function NewEngagementFlow() {
   const [reportType, setReportType] = useState<ReportType | null>(null);
   const [modelFilePath, setModelFilePath] = useState<string | null>(null);
   const [modelFileName, setModelFileName] = useState<string | null>(null);
+  const [exhibitsFilePath, setExhibitsFilePath] = useState<string | null>(null);
+  const [exhibitsFileName, setExhibitsFileName] = useState<string | null>(null);
   const [parsedData, setParsedData] = useState<ParsedModelResponse | null>(null);
   const [selectedApproaches, setSelectedApproaches] = useState<ApproachSelection>({
     guidelinePublicCompany: false,
     guidelineTransaction: false,
     incomeApproach: false,
+    pwerm: false,
   });
   const [qualitativeContext, setQualitativeContext] = useState("");
+  const [priorSnapshotId, setPriorSnapshotId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -60,6 +64,17 @@ export default function NewEngagementFlow() {
     setModelFileName(fileName);
     setParsedData(data);
     setError(null);
+
+    // A PDF model is already the exhibits
+    if (fileName.toLowerCase().endsWith(".pdf")) {
+      setExhibitsFilePath(null);
+      setExhibitsFileName(null);
+    }
+  };
+
+  const handleExhibitsUploaded = (filePath: string | null, fileName: string | null) => {
+    setExhibitsFilePath(filePath);
+    setExhibitsFileName(fileName);
   };
 
   const handleGenerate = async () => {
@@ -86,10 +101,12 @@ export default function NewEngagementFlow() {
         body: JSON.stringify({
           reportType,
           modelFilePath,
+          exhibitsFilePath,
           qualitativeContext: qualitativeContext || null,
           companyName: parsedData.companyName,
           valuationDate: parsedData.valuationDate,
           selectedApproaches,
+          priorSnapshotId,
         }),
       });
 
@@ -151,6 +168,8 @@ export default function NewEngagementFlow() {
             onModelParsed={handleModelParsed}
             currentFileName={modelFileName}
             parsedData={parsedData}
+            onExhibitsUploaded={handleExhibitsUploaded}
+            exhibitsFileName={exhibitsFileName}
           />
         );
       case 3:
@@ -165,6 +184,9 @@ export default function NewEngagementFlow() {
           <StepQualitativeContext
             value={qualitativeContext}
             onChange={setQualitativeContext}
+            companyName={parsedData?.companyName ?? null}
+            priorSnapshotId={priorSnapshotId}
+            onPriorSnapshotChange={setPriorSnapshotId}
           />
         );
       case 5:
@@ -173,6 +195,7 @@ export default function NewEngagementFlow() {
             reportType={reportType!}
             parsedData={parsedData!}
             modelFileName={modelFileName!}
+            exhibitsFileName={exhibitsFileName}
             qualitativeContext={qualitativeContext}
             selectedApproaches={selectedApproaches}
             onGenerate={handleGenerate}
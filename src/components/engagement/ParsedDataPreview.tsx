@@ -1,6 +1,13 @@
 "use client";
 
+import { useState } from "react";
 import type { ParsedModelResponse } from "@/types/excel";
+import {
+  describeProvenance,
+  formatCellReference,
+  formatProvenanceField,
+} from "@/lib/excel/provenance";
+import { DEFAULT_CURRENCY } from "@/lib/utils/currency";
 
 interface ParsedDataPreviewProps {
   data: ParsedModelResponse;
@@ -43,6 +50,24 @@ function CheckIcon() {
 }
 
 export default function ParsedDataPreview({ data }: ParsedDataPreviewProps) {
+  const [showSources, setShowSources] = useState(false);
+  const provenance = data.provenance || {};
+  const sourceEntries = Object.entries(provenance);
+  const healthFindings = data.healthFindings || [];
+  const noteCount = (data.exhibitNotes || []).reduce((sum, e) => sum + e.notes.length, 0);
+  const healthErrors = healthFindings.filter((f) => f.severity === "error");
+
+  // Cell reference shown under an extracted value
+  const renderSource = (field: string) => {
+    const source = provenance[field];
+    if (!source) return null;
+    return (
+      <p className="text-xs text-gray-400" title={describeProvenance(source)}>
+        {formatCellReference(source)}
+      </p>
+    );
+  };
+
   const formatDate = (dateStr: string | null) => {
     if (!dateStr) return null;
     try {
@@ -60,7 +85,7 @@ export default function ParsedDataPreview({ data }: ParsedDataPreviewProps) {
     if (value === null) return null;
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency: data.currency ?? DEFAULT_CURRENCY,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value);
@@ -83,6 +108,7 @@ export default function ParsedDataPreview({ data }: ParsedDataPreviewProps) {
                 <span className="text-amber-600 italic">Not found</span>
               )}
             </p>
+            {renderSource("companyName")}
           </div>
         </div>
 
@@ -98,6 +124,7 @@ export default function ParsedDataPreview({ data }: ParsedDataPreviewProps) {
                 <span className="text-amber-600 italic">Not found</span>
               )}
             </p>
+            {renderSource("valuationDate")}
           </div>
         </div>
 
@@ -110,7 +137,7 @@ export default function ParsedDataPreview({ data }: ParsedDataPreviewProps) {
             </p>
             <p className="text-gray-900">
               {data.exhibitCount > 0 ? (
-                `${data.exhibitCount} found`
+                `${data.exhibitCount} found${noteCount > 0 ? `, ${noteCount} analyst note${noteCount === 1 ? "" : "s"}` : ""}`
               ) : (
                 <span className="text-amber-600 italic">None found</span>
               )}
@@ -130,6 +157,7 @@ export default function ParsedDataPreview({ data }: ParsedDataPreviewProps) {
                 <span className="text-amber-600 italic">Not found</span>
               )}
             </p>
+            {renderSource("concludedValue")}
           </div>
         </div>
       </div>
@@ -167,10 +195,72 @@ export default function ParsedDataPreview({ data }: ParsedDataPreviewProps) {
               DLOM
             </p>
             <p className="text-gray-900">{Math.round(data.dlom * 100)}%</p>
+            {renderSource("dlom")}
           </div>
         </div>
       )}
 
+      {/* Mapping Profile */}
+      {data.mappingProfileName && (
+        <p className="text-xs text-gray-500">
+          Mapped with profile: <span className="font-medium">{data.mappingProfileName}</span>
+        </p>
+      )}
+
+      {/* Cell References */}
+      {sourceEntries.length > 0 && (
+        <div className="pt-4 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={() => setShowSources(!showSources)}
+            className="text-xs font-medium text-gray-500 uppercase tracking-wider hover:text-gray-700"
+          >
+            {showSources ? "▾" : "▸"} Cell References ({sourceEntries.length})
+          </button>
+          {showSources && (
+            <ul className="mt-2 space-y-1 max-h-64 overflow-y-auto">
+              {sourceEntries.map(([field, source]) => (
+                <li key={field} className="text-xs text-gray-600 flex justify-between gap-4">
+                  <span>{formatProvenanceField(field)}</span>
+                  <span className="text-gray-400 text-right">{describeProvenance(source)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Model Health */}
+      {healthFindings.length > 0 && (
+        <div className="pt-4 border-t border-gray-200">
+          <p className={`text-xs font-medium uppercase tracking-wider mb-2 ${healthErrors.length > 0 ? "text-red-600" : "text-amber-600"}`}>
+            Model Health ({healthFindings.length} {healthFindings.length === 1 ? "finding" : "findings"})
+          </p>
+          {healthErrors.length > 0 && (
+            <p className="text-sm text-red-600 mb-2">
+              The model contains error cells. Fix them in Excel and re-upload before generating a report.
+            </p>
+          )}
+          <ul className="space-y-1">
+            {healthFindings.map((finding, index) => (
+              <li
+                key={index}
+                className={`text-sm flex items-start gap-2 ${
+                  finding.severity === "error"
+                    ? "text-red-600"
+                    : finding.severity === "warning"
+                      ? "text-amber-600"
+                      : "text-gray-500"
+                }`}
+              >
+                {finding.severity === "info" ? <span className="w-4" /> : <WarningIcon />}
+                <span>{finding.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Warnings */}
       {data.warnings.length > 0 && (
         <div className="pt-4 border-t border-gray-200">
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Select from "@/components/ui/Select";
+import type { PriorValuationSummary } from "@/types/rollforward";
+import { formatCurrencyAmount } from "@/lib/utils/currency";
+
+interface PriorValuationSelectProps {
+  companyName: string | null;
+  value: string | null;
+  onChange: (value: string | null) => void;
+}
+
+/**
+ * Label a prior valuation by date and concluded value
+ */
+function describeValuation(valuation: PriorValuationSummary): string {
+  const date = valuation.valuationDate
+    ? new Date(valuation.valuationDate).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      })
+    : `Prepared ${new Date(valuation.createdAt).toLocaleDateString("en-US")}`;
+  const value = valuation.concludedValue !== null
+    ? ` - ${formatCurrencyAmount(valuation.concludedValue, valuation.currency)}`
+    : "";
+  return `${date}${value} (${valuation.reportType === "FOUR09A" ? "409A" : "Gift & Estate"})`;
+}
+
+export default function PriorValuationSelect({
+  companyName,
+  value,
+  onChange,
+}: PriorValuationSelectProps) {
+  const [valuations, setValuations] = useState<PriorValuationSummary[]>([]);
+
+  const fetchValuations = useCallback(async () => {
+    if (!companyName) {
+      setValuations([]);
+      return;
+    }
+    try {
+      const response = await fetch(
+        `/api/valuation-snapshots?companyName=${encodeURIComponent(companyName)}`
+      );
+      const data = await response.json();
+      if (data.success) {
+        setValuations(data.data);
+      }
+    } catch (err) {
+      console.error("Failed to fetch prior valuations:", err);
+    }
+  }, [companyName]);
+
+  useEffect(() => {
+    fetchValuations();
+  }, [fetchValuations]);
+
+  // Nothing to roll forward from for a first-time client
+  if (valuations.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <Select
+        label="Prior Valuation"
+        value={value ?? ""}
+        onChange={(e) => onChange(e.target.value || null)}
+        options={[
+          { value: "", label: "None - don't compare to a prior valuation" },
+          ...valuations.map((v) => ({ value: v.id, label: describeValuation(v) })),
+        ]}
+      />
+      <p className="text-sm text-gray-500">
+        Adds a &quot;Changes Since Prior Valuation&quot; section explaining what moved the value
+        since the selected valuation of {companyName}.
+      </p>
+    </div>
+  );
+}
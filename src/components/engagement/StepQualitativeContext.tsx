@@ -1,15 +1,22 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import PriorValuationSelect from "./PriorValuationSelect";
 
 interface StepQualitativeContextProps {
   value: string;
   onChange: (value: string) => void;
+  companyName: string | null;
+  priorSnapshotId: string | null;
+  onPriorSnapshotChange: (value: string | null) => void;
 }
 
 export default function StepQualitativeContext({
   value,
   onChange,
+  companyName,
+  priorSnapshotId,
+  onPriorSnapshotChange,
 }: StepQualitativeContextProps) {
   const [localValue, setLocalValue] = useState(value);
 
@@ -59,6 +66,13 @@ For example:
         </div>
       </div>
 
+      {/* Prior Valuation */}
+      <PriorValuationSelect
+        companyName={companyName}
+        value={priorSnapshotId}
+        onChange={onPriorSnapshotChange}
+      />
+
       {/* Tips */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <div className="flex items-start gap-3">
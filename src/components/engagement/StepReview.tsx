@@ -10,12 +10,14 @@ const APPROACH_LABELS: Record<keyof ApproachSelection, string> = {
   guidelinePublicCompany: "Guideline Public Company Method",
   guidelineTransaction: "Guideline Comparable Transaction Method",
   incomeApproach: "Income Approach (DCF)",
+  pwerm: "Probability-Weighted Expected Return Method (PWERM)",
 };
 
 interface StepReviewProps {
   reportType: ReportType;
   parsedData: ParsedModelResponse;
   modelFileName: string;
+  exhibitsFileName?: string | null;
   qualitativeContext: string;
   selectedApproaches: ApproachSelection;
   onGenerate: () => void;
@@ -80,6 +82,7 @@ export default function StepReview({
   reportType,
   parsedData,
   modelFileName,
+  exhibitsFileName,
   qualitativeContext,
   selectedApproaches,
   onGenerate,
@@ -109,6 +112,10 @@ export default function StepReview({
     !parsedData.valuationDate ||
     parsedData.warnings.length > 0;
 
+  const integrityChecks = parsedData.integrityChecks || [];
+  const failedChecks = integrityChecks.filter((c) => c.status === "failed");
+  const passedChecks = integrityChecks.filter((c) => c.status === "passed");
+
   const selectedApproachList = (Object.keys(selectedApproaches) as Array<keyof ApproachSelection>)
     .filter(key => selectedApproaches[key])
     .map(key => APPROACH_LABELS[key]);
@@ -184,6 +191,69 @@ export default function StepReview({
           </div>
         </div>
 
+        {/* Exhibits PDF */}
+        {exhibitsFileName && (
+          <div className="p-4 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <CheckIcon />
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Exhibits PDF
+                </p>
+                <p className="text-gray-900 font-medium">{exhibitsFileName}</p>
+                <p className="text-sm text-gray-500">
+                  Figures come from the model; differences from the exhibits are flagged for review
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Model Integrity */}
+        {integrityChecks.length > 0 && (
+          <div className="p-4 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              {failedChecks.length === 0 ? <CheckIcon /> : <WarningIcon />}
+              <div>
+                <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Model Integrity
+                </p>
+                <p className="text-gray-900 font-medium">
+                  {failedChecks.length === 0 ? (
+                    `${passedChecks.length} of ${integrityChecks.length} checks passed`
+                  ) : (
+                    <span className="text-red-600">
+                      {failedChecks.length} check{failedChecks.length === 1 ? "" : "s"} failed
+                    </span>
+                  )}
+                </p>
+              </div>
+            </div>
+            <details className="text-sm">
+              <summary className="cursor-pointer text-slate-600 hover:text-slate-800">
+                View checks
+              </summary>
+              <ul className="mt-2 p-3 bg-white rounded border border-gray-200 text-gray-600 text-sm space-y-1">
+                {integrityChecks.map((result) => (
+                  <li
+                    key={result.check}
+                    className={
+                      result.status === "failed"
+                        ? "text-red-600"
+                        : result.status === "skipped"
+                          ? "text-gray-400"
+                          : "text-gray-600"
+                    }
+                  >
+                    {result.status === "passed" ? "✓" : result.status === "failed" ? "✗" : "–"}{" "}
+                    {result.message}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          </div>
+        )}
+
         {/* Selected Approaches */}
         <div className="p-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
@@ -237,6 +307,29 @@ export default function StepReview({
         </div>
       </div>
 
+      {/* Integrity Failures */}
+      {failedChecks.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <div className="flex items-start gap-3">
+            <WarningIcon />
+            <div>
+              <p className="font-medium text-red-800">
+                Model figures do not reconcile
+              </p>
+              <ul className="mt-2 text-sm text-red-700 space-y-1">
+                {failedChecks.map((result) => (
+                  <li key={result.check}>• {result.message}</li>
+                ))}
+              </ul>
+              <p className="mt-2 text-sm text-red-600">
+                Narratives may quote these figures. Correct the model or review
+                the flagged items in the generated document.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Warnings */}
       {hasWarnings && (
         <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
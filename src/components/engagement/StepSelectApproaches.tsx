@@ -18,6 +18,11 @@ const APPROACHES = [
     label: "Income Approach (DCF)",
     description: "Discounted cash flow analysis based on projected financial performance",
   },
+  {
+    id: "pwerm" as const,
+    label: "Probability-Weighted Expected Return Method (PWERM)",
+    description: "Scenario-based allocation, including hybrid OPM/PWERM, explaining scenario selection and probability weighting",
+  },
 ];
 
 interface StepSelectApproachesProps {
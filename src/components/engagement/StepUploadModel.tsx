@@ -14,14 +14,20 @@ interface StepUploadModelProps {
   ) => void;
   currentFileName: string | null;
   parsedData: ParsedModelResponse | null;
+  // Issued exhibits PDF uploaded alongside an Excel model
+  onExhibitsUploaded: (filePath: string | null, fileName: string | null) => void;
+  exhibitsFileName: string | null;
 }
 
 export default function StepUploadModel({
   onModelParsed,
   currentFileName,
   parsedData,
+  onExhibitsUploaded,
+  exhibitsFileName,
 }: StepUploadModelProps) {
   const [isUploading, setIsUploading] = useState(false);
+  const [isUploadingExhibits, setIsUploadingExhibits] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
@@ -54,6 +60,34 @@ export default function StepUploadModel({
     }
   };
 
+  const handleExhibitsFile = async (file: File) => {
+    setError(null);
+    setIsUploadingExhibits(true);
+
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("type", "model");
+
+      const uploadResponse = await fetch("/api/upload", {
+        method: "POST",
+        body: formData,
+      });
+
+      if (!uploadResponse.ok) {
+        const errorData = await uploadResponse.json();
+        throw new Error(errorData.error || "Upload failed");
+      }
+
+      const uploadResult = await uploadResponse.json();
+      onExhibitsUploaded(uploadResult.filePath, file.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsUploadingExhibits(false);
+    }
+  };
+
   const handleFile = async (file: File) => {
     setError(null);
     setIsUploading(true);
@@ -237,12 +271,37 @@ export default function StepUploadModel({
         </div>
       )}
 
+      {/* Optional exhibits PDF alongside an Excel model */}
+      {parsedData && !error && currentFileName && !currentFileName.toLowerCase().endsWith(".pdf") && (
+        <div className="space-y-3">
+          <div>
+            <h3 className="font-medium text-gray-900">Issued Exhibits PDF (optional)</h3>
+            <p className="text-sm text-gray-500">
+              Add the exhibits PDF to use its layout and descriptions as context. Figures still come
+              from the model, and any that differ from the exhibits are flagged for review.
+            </p>
+          </div>
+          <FileDropzone
+            accept=".pdf"
+            onFile={handleExhibitsFile}
+            uploading={isUploadingExhibits}
+            currentFileName={exhibitsFileName}
+          />
+          {exhibitsFileName && (
+            <Button variant="outline" size="sm" onClick={() => onExhibitsUploaded(null, null)}>
+              Remove Exhibits
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Help text */}
       <div className="text-sm text-gray-500 bg-gray-50 p-4 rounded-lg">
         <p className="font-medium text-gray-700 mb-2">Supported formats:</p>
         <ul className="list-disc list-inside space-y-1">
           <li>PDF files (.pdf) - Exhibits in PDF format</li>
           <li>Excel files (.xlsx, .xls, .xlsm) - Valuation models</li>
+          <li>Excel model plus exhibits PDF - figures from the model, context from the exhibits</li>
           <li>Company name and valuation date can be entered manually</li>
         </ul>
       </div>
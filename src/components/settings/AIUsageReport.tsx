@@ -0,0 +1,160 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Table from "@/components/ui/Table";
+import type { MonthlyUsage } from "@/types/ai";
+
+type ClientUsage = MonthlyUsage["clients"][number];
+
+const formatUsd = (value: number) =>
+  value.toLocaleString("en-US", { style: "currency", currency: "USD" });
+
+const formatCount = (value: number) => value.toLocaleString("en-US");
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  });
+
+export default function AIUsageReport() {
+  const [months, setMonths] = useState<MonthlyUsage[]>([]);
+  const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch("/api/ai-usage");
+      const data = await response.json();
+      if (data.success) {
+        setMonths(data.data);
+        setSelectedMonth(data.data[0]?.month ?? null);
+      } else {
+        setError(data.error);
+      }
+    } catch {
+      setError("Failed to fetch AI usage");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsage();
+  }, [fetchUsage]);
+
+  const selected = months.find((m) => m.month === selectedMonth);
+
+  const monthColumns = [
+    {
+      key: "month",
+      header: "Month",
+      render: (item: MonthlyUsage) => (
+        <button
+          onClick={() => setSelectedMonth(item.month)}
+          className={`font-medium ${
+            item.month === selectedMonth
+              ? "text-slate-900 underline"
+              : "text-slate-600 hover:text-slate-900"
+          }`}
+        >
+          {formatMonth(item.month)}
+        </button>
+      ),
+    },
+    {
+      key: "calls",
+      header: "Calls",
+      render: (item: MonthlyUsage) => formatCount(item.calls),
+    },
+    {
+      key: "tokens",
+      header: "Tokens (in / out)",
+      render: (item: MonthlyUsage) => (
+        <span className="text-gray-500">
+          {formatCount(item.inputTokens)} / {formatCount(item.outputTokens)}
+        </span>
+      ),
+    },
+    {
+      key: "costUsd",
+      header: "Cost",
+      className: "text-right",
+      render: (item: MonthlyUsage) => formatUsd(item.costUsd),
+    },
+  ];
+
+  const clientColumns = [
+    { key: "companyName", header: "Client" },
+    {
+      key: "engagements",
+      header: "Engagements",
+      render: (item: ClientUsage) => formatCount(item.engagements),
+    },
+    {
+      key: "calls",
+      header: "Calls",
+      render: (item: ClientUsage) => formatCount(item.calls),
+    },
+    {
+      key: "costUsd",
+      header: "Cost",
+      className: "text-right",
+      render: (item: ClientUsage) => formatUsd(item.costUsd),
+    },
+  ];
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-900">AI Usage</h3>
+        <p className="text-sm text-gray-500">
+          Monthly spend on AI calls, by client, for billing and budgeting
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+          <button
+            onClick={() => setError(null)}
+            className="ml-2 text-red-800 hover:text-red-900"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-slate-800"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <Table
+            columns={monthColumns}
+            data={months}
+            keyExtractor={(item) => item.month}
+            emptyMessage="No AI usage recorded yet"
+          />
+
+          {selected && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">
+                {formatMonth(selected.month)} by client
+              </h4>
+              <Table
+                columns={clientColumns}
+                data={selected.clients}
+                keyExtractor={(item) => item.companyName}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,544 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Button from "@/components/ui/Button";
+import Modal from "@/components/ui/Modal";
+import Table from "@/components/ui/Table";
+import { MAPPABLE_FIELDS } from "@/types/mapping";
+import type {
+  CellLocator,
+  MappableField,
+  MappingProfileData,
+  MarkerCell,
+} from "@/types/mapping";
+
+type LocatorType = CellLocator["type"];
+
+// Flat editable row for a single field mapping
+interface MappingRow {
+  field: MappableField;
+  type: LocatorType;
+  sheet: string;
+  address: string;
+  name: string;
+  pattern: string;
+}
+
+const FIELD_OPTIONS = Object.entries(MAPPABLE_FIELDS) as [
+  MappableField,
+  { label: string },
+][];
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-slate-500 focus:border-slate-500 text-sm";
+
+const emptyMappingRow = (): MappingRow => ({
+  field: "companyName",
+  type: "cell",
+  sheet: "",
+  address: "",
+  name: "",
+  pattern: "",
+});
+
+const emptyMarkerCell = (): MarkerCell => ({
+  sheet: "",
+  address: "",
+  contains: "",
+});
+
+function toLocator(row: MappingRow): CellLocator {
+  switch (row.type) {
+    case "namedRange":
+      return { type: "namedRange", name: row.name };
+    case "label":
+      return { type: "label", sheet: row.sheet || undefined, pattern: row.pattern };
+    default:
+      return { type: "cell", sheet: row.sheet, address: row.address };
+  }
+}
+
+function toMappingRow(field: MappableField, locator: CellLocator): MappingRow {
+  const row = { ...emptyMappingRow(), field, type: locator.type };
+  switch (locator.type) {
+    case "namedRange":
+      return { ...row, name: locator.name };
+    case "label":
+      return { ...row, sheet: locator.sheet || "", pattern: locator.pattern };
+    default:
+      return { ...row, sheet: locator.sheet, address: locator.address };
+  }
+}
+
+function describeLocator(locator: CellLocator): string {
+  switch (locator.type) {
+    case "namedRange":
+      return `Name ${locator.name}`;
+    case "label":
+      return `Label /${locator.pattern}/${locator.sheet ? ` in ${locator.sheet}` : ""}`;
+    default:
+      return `${locator.sheet}!${locator.address}`;
+  }
+}
+
+export default function MappingProfileManager() {
+  const [profiles, setProfiles] = useState<MappingProfileData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [sheetNames, setSheetNames] = useState("");
+  const [markerCells, setMarkerCells] = useState<MarkerCell[]>([]);
+  const [mappingRows, setMappingRows] = useState<MappingRow[]>([emptyMappingRow()]);
+
+  const fetchProfiles = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await fetch("/api/mapping-profiles");
+      const data = await response.json();
+      if (data.success) {
+        setProfiles(data.data);
+      } else {
+        setError(data.error);
+      }
+    } catch {
+      setError("Failed to fetch mapping profiles");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfiles();
+  }, [fetchProfiles]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+    setSheetNames("");
+    setMarkerCells([]);
+    setMappingRows([emptyMappingRow()]);
+  };
+
+  const openEdit = (profile: MappingProfileData) => {
+    setEditingId(profile.id);
+    setName(profile.name);
+    setDescription(profile.description || "");
+    setSheetNames(profile.fingerprint.sheetNames.join(", "));
+    setMarkerCells(profile.fingerprint.markerCells);
+    setMappingRows(
+      profile.mappings.length > 0
+        ? profile.mappings.map((m) => toMappingRow(m.field, m.locator))
+        : [emptyMappingRow()]
+    );
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    resetForm();
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const payload = {
+        name,
+        description,
+        fingerprint: {
+          sheetNames: sheetNames
+            .split(",")
+            .map((s) => s.trim())
+            .filter(Boolean),
+          markerCells,
+        },
+        mappings: mappingRows.map((row) => ({
+          field: row.field,
+          locator: toLocator(row),
+        })),
+      };
+
+      const response = await fetch(
+        editingId ? `/api/mapping-profiles/${editingId}` : "/api/mapping-profiles",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+
+      const data = await response.json();
+      if (data.success) {
+        closeModal();
+        fetchProfiles();
+      } else {
+        setError(data.error);
+      }
+    } catch {
+      setError("Failed to save mapping profile");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const response = await fetch(`/api/mapping-profiles/${id}`, {
+        method: "DELETE",
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        fetchProfiles();
+      } else {
+        setError(data.error);
+      }
+    } catch {
+      setError("Failed to delete mapping profile");
+    } finally {
+      setDeleteId(null);
+    }
+  };
+
+  const updateMappingRow = (index: number, changes: Partial<MappingRow>) => {
+    setMappingRows((rows) =>
+      rows.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+  };
+
+  const updateMarkerCell = (index: number, changes: Partial<MarkerCell>) => {
+    setMarkerCells((cells) =>
+      cells.map((cell, i) => (i === index ? { ...cell, ...changes } : cell))
+    );
+  };
+
+  const columns = [
+    {
+      key: "name",
+      header: "Profile",
+      render: (item: MappingProfileData) => (
+        <div>
+          <span className="font-medium">{item.name}</span>
+          {item.description && (
+            <p className="text-xs text-gray-500">{item.description}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "fingerprint",
+      header: "Matches",
+      render: (item: MappingProfileData) => (
+        <span className="text-gray-600">
+          {[
+            ...item.fingerprint.sheetNames,
+            ...item.fingerprint.markerCells.map(
+              (m) => `${m.sheet}!${m.address} ∋ "${m.contains}"`
+            ),
+          ].join(", ")}
+        </span>
+      ),
+    },
+    {
+      key: "mappings",
+      header: "Fields",
+      render: (item: MappingProfileData) => (
+        <span
+          title={item.mappings
+            .map((m) => `${MAPPABLE_FIELDS[m.field]?.label}: ${describeLocator(m.locator)}`)
+            .join("\n")}
+        >
+          {item.mappings.length}
+        </span>
+      ),
+    },
+    {
+      key: "actions",
+      header: "Actions",
+      render: (item: MappingProfileData) => (
+        <div className="space-x-3">
+          <button
+            onClick={() => openEdit(item)}
+            className="text-slate-600 hover:text-slate-900 text-sm font-medium"
+          >
+            Edit
+          </button>
+          <button
+            onClick={() => setDeleteId(item.id)}
+            className="text-red-600 hover:text-red-800 text-sm font-medium"
+          >
+            Delete
+          </button>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">
+            Model Mapping Profiles
+          </h3>
+          <p className="text-sm text-gray-500">
+            Map model fields to cells, named ranges or labels for known model
+            templates. Unmapped fields fall back to automatic detection.
+          </p>
+        </div>
+        <Button onClick={() => setIsModalOpen(true)}>Add Profile</Button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+          <button
+            onClick={() => setError(null)}
+            className="ml-2 text-red-800 hover:text-red-900"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-slate-800"></div>
+        </div>
+      ) : (
+        <Table
+          columns={columns}
+          data={profiles}
+          keyExtractor={(item) => item.id}
+          emptyMessage="No mapping profiles defined yet"
+        />
+      )}
+
+      {/* Create / Edit Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={closeModal}
+        title={editingId ? "Edit Mapping Profile" : "Add Mapping Profile"}
+        size="xl"
+      >
+        <form onSubmit={handleSave} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Description
+              </label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Required Sheets (comma-separated)
+            </label>
+            <input
+              type="text"
+              value={sheetNames}
+              onChange={(e) => setSheetNames(e.target.value)}
+              placeholder="LEs, Summary, DCF"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">
+                Marker Cells
+              </label>
+              <button
+                type="button"
+                onClick={() => setMarkerCells((cells) => [...cells, emptyMarkerCell()])}
+                className="text-slate-600 hover:text-slate-900 text-sm font-medium"
+              >
+                + Add marker
+              </button>
+            </div>
+            <div className="space-y-2">
+              {markerCells.map((cell, index) => (
+                <div key={index} className="grid grid-cols-[1fr_6rem_1fr_auto] gap-2">
+                  <input
+                    type="text"
+                    value={cell.sheet}
+                    onChange={(e) => updateMarkerCell(index, { sheet: e.target.value })}
+                    placeholder="Sheet"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={cell.address}
+                    onChange={(e) => updateMarkerCell(index, { address: e.target.value })}
+                    placeholder="A1"
+                    className={inputClass}
+                  />
+                  <input
+                    type="text"
+                    value={cell.contains}
+                    onChange={(e) => updateMarkerCell(index, { contains: e.target.value })}
+                    placeholder="Contains text"
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setMarkerCells((cells) => cells.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-800 text-sm font-medium px-2"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-sm font-medium text-gray-700">
+                Field Mappings
+              </label>
+              <button
+                type="button"
+                onClick={() => setMappingRows((rows) => [...rows, emptyMappingRow()])}
+                className="text-slate-600 hover:text-slate-900 text-sm font-medium"
+              >
+                + Add field
+              </button>
+            </div>
+            <div className="space-y-2">
+              {mappingRows.map((row, index) => (
+                <div key={index} className="grid grid-cols-[1fr_8rem_1fr_1fr_auto] gap-2">
+                  <select
+                    value={row.field}
+                    onChange={(e) => updateMappingRow(index, { field: e.target.value as MappableField })}
+                    className={inputClass}
+                  >
+                    {FIELD_OPTIONS.map(([field, { label }]) => (
+                      <option key={field} value={field}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={row.type}
+                    onChange={(e) => updateMappingRow(index, { type: e.target.value as LocatorType })}
+                    className={inputClass}
+                  >
+                    <option value="cell">Cell</option>
+                    <option value="namedRange">Named range</option>
+                    <option value="label">Label</option>
+                  </select>
+                  {row.type === "namedRange" ? (
+                    <input
+                      type="text"
+                      value={row.name}
+                      onChange={(e) => updateMappingRow(index, { name: e.target.value })}
+                      placeholder="Range name"
+                      className={`${inputClass} col-span-2`}
+                    />
+                  ) : (
+                    <>
+                      <input
+                        type="text"
+                        value={row.sheet}
+                        onChange={(e) => updateMappingRow(index, { sheet: e.target.value })}
+                        placeholder={row.type === "label" ? "Sheet (any)" : "Sheet"}
+                        className={inputClass}
+                      />
+                      {row.type === "cell" ? (
+                        <input
+                          type="text"
+                          value={row.address}
+                          onChange={(e) => updateMappingRow(index, { address: e.target.value })}
+                          placeholder="G819"
+                          className={inputClass}
+                        />
+                      ) : (
+                        <input
+                          type="text"
+                          value={row.pattern}
+                          onChange={(e) => updateMappingRow(index, { pattern: e.target.value })}
+                          placeholder="Label pattern (regex)"
+                          className={inputClass}
+                        />
+                      )}
+                    </>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setMappingRows((rows) => rows.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-800 text-sm font-medium px-2"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <Button type="button" variant="secondary" onClick={closeModal}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={isSaving}>
+              {editingId ? "Save Changes" : "Create Profile"}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={!!deleteId}
+        onClose={() => setDeleteId(null)}
+        title="Delete Mapping Profile"
+        size="sm"
+      >
+        <p className="text-gray-600 mb-6">
+          Are you sure you want to delete this mapping profile? Models matching
+          it will fall back to automatic detection.
+        </p>
+        <div className="flex justify-end space-x-3">
+          <Button variant="secondary" onClick={() => setDeleteId(null)}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={() => deleteId && handleDelete(deleteId)}
+          >
+            Delete
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -24,8 +24,11 @@ export function getAnthropicClient(): Anthropic {
     );
   }
 
+  // Retries are left to the shared scheduler (scheduler.ts), which pauses every
+  // queued call on a rate limit rather than retrying each one separately
   clientInstance = new Anthropic({
     apiKey,
+    maxRetries: 0,
   });
 
   return clientInstance;
@@ -56,16 +56,14 @@ export function parseAnthropicError(error: unknown): AIError {
     
     // Check for rate limit error
     if (err.status === 429) {
-      const retryAfter = typeof err.headers === "object" && err.headers
-        ? (err.headers as Record<string, string>)["retry-after"]
-        : undefined;
-      
+      const retryAfter = readRetryAfter(err.headers);
+
       return new AIError(
         {
           type: "rate_limit",
           message: "Rate limit exceeded",
           retryable: true,
-          retryAfter: retryAfter ? parseInt(retryAfter, 10) : 60,
+          retryAfter: retryAfter ?? 60,
         },
         error instanceof Error ? error : undefined
       );
@@ -149,6 +147,26 @@ export function parseAnthropicError(error: unknown): AIError {
   );
 }
 
+/**
+ * Seconds to wait from a rate-limit response's retry-after header
+ * The SDK passes headers as a Headers object; older versions used a plain record
+ */
+function readRetryAfter(headers: unknown): number | undefined {
+  if (!headers || typeof headers !== "object") return undefined;
+
+  const value = typeof (headers as Headers).get === "function"
+    ? (headers as Headers).get("retry-after")
+    : (headers as Record<string, string | undefined>)["retry-after"];
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+
+  // HTTP-date form
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
 /**
  * Delay helper for retry logic
  */
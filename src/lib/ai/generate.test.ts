@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { generateJSON } from "./generate";
+import { completeRequest } from "./scheduler";
+import { AIError } from "./errors";
+import { companyResearchSchema, industryResearchSchema } from "@/lib/research/schemas";
+import type { LLMRequest } from "@/types/ai";
+
+vi.mock("./scheduler", () => ({ completeRequest: vi.fn() }));
+
+const COMPANY_RESEARCH = {
+  companyDescription: "Acme Robotics designs and manufactures autonomous warehouse picking robots for e-commerce fulfillment centers.",
+  businessModel: "Hardware sales with recurring software subscriptions",
+  products: ["PickBot", "Fleet Manager"],
+  revenueStreams: "Robot sales and per-robot software fees",
+  targetMarket: "Third-party logistics providers and large retailers",
+  competitivePosition: "One of several venture-backed entrants",
+  recentDevelopments: "Closed a Series B financing in January 2025",
+  keyFacts: ["Founded in 2018", "Headquartered in Boston"],
+  industry: "Warehouse Automation",
+  confidence: "High - well documented",
+};
+
+/**
+ * Queue model responses, one per call
+ */
+function respondWith(...texts: string[]) {
+  const mock = vi.mocked(completeRequest);
+  for (const text of texts) {
+    mock.mockResolvedValueOnce({ text, usage: { inputTokens: 100, outputTokens: 100 }, stopReason: "end_turn" });
+  }
+  return mock;
+}
+
+/**
+ * Prompt sent on each call
+ */
+function sentPrompts(): string[] {
+  return vi.mocked(completeRequest).mock.calls.map(([request]: [LLMRequest]) => request.prompt);
+}
+
+beforeEach(() => {
+  vi.mocked(completeRequest).mockReset();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("generateJSON", () => {
+  it("returns a valid response on the first call, fenced or not", async () => {
+    respondWith("```json\n" + JSON.stringify(COMPANY_RESEARCH) + "\n```");
+
+    const parsed = await generateJSON("Research Acme", "You are a researcher", companyResearchSchema);
+
+    expect(parsed).toEqual({ ...COMPANY_RESEARCH, confidence: "high" });
+    expect(completeRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it("sends a response that isn't JSON back to be corrected", async () => {
+    respondWith("Here is the research you asked for: {", JSON.stringify(COMPANY_RESEARCH));
+
+    await expect(generateJSON("Research Acme", "You are a researcher", companyResearchSchema)).resolves.toMatchObject({
+      industry: "Warehouse Automation",
+    });
+
+    const [first, repair] = sentPrompts();
+    expect(first).toBe("Research Acme");
+    expect(repair).toMatch(/^Research Acme\n\n---\n\nYour previous response could not be used:\n\nHere is the research you asked for: \{/);
+    expect(repair).toMatch(/- Response was not valid JSON \(/);
+  });
+
+  it("lists each schema problem by field in the repair prompt", async () => {
+    const invalid: Record<string, unknown> = { ...COMPANY_RESEARCH, products: "PickBot", confidence: "unsure", companyDescription: "Robots." };
+    delete invalid.industry;
+    respondWith(JSON.stringify(invalid), JSON.stringify(COMPANY_RESEARCH));
+
+    await generateJSON("Research Acme", "You are a researcher", companyResearchSchema);
+
+    const repair = sentPrompts()[1];
+    expect(repair).toContain("- companyDescription: must be a full description of the company (at least 50 characters)");
+    expect(repair).toContain("- products: must be an array of strings");
+    expect(repair).toContain("- industry: is required");
+    expect(repair).toContain('- confidence: must be "high", "medium" or "low"');
+  });
+
+  it("gives up with the last problems after the repair attempts run out", async () => {
+    const invalid = JSON.stringify({ ...COMPANY_RESEARCH, keyFacts: [""] });
+    respondWith(invalid, invalid, invalid);
+
+    const result = generateJSON("Research Acme", "You are a researcher", companyResearchSchema);
+
+    await expect(result).rejects.toBeInstanceOf(AIError);
+    await expect(result).rejects.toThrow("AI response did not match the expected structure: keyFacts.0: must not be empty");
+    expect(completeRequest).toHaveBeenCalledTimes(3);
+  });
+
+  it("validates industry research citations and drivers", async () => {
+    const industry = {
+      industryName: "Warehouse Automation",
+      overview: "Warehouse automation covers robotics, conveyors and software that move goods through distribution centers.",
+      marketSize: "$25 billion",
+      growthRate: "12% CAGR",
+      keyDrivers: [],
+      competitiveLandscape: "Fragmented",
+      regulatoryEnvironment: "Light",
+      recentTrends: ["Robotics as a service"],
+      majorPlayers: ["Symbotic"],
+      outlook: "Positive",
+      citations: [{ text: "Market size", source: "" }],
+    };
+    const repaired = { ...industry, keyDrivers: ["E-commerce growth"], citations: [{ text: "Market size", source: "Industry report" }] };
+    respondWith(JSON.stringify(industry), JSON.stringify(repaired));
+
+    await expect(generateJSON("Research the industry", "You are a researcher", industryResearchSchema)).resolves.toEqual(repaired);
+
+    const repair = sentPrompts()[1];
+    expect(repair).toContain("- keyDrivers: must list at least one driver");
+    expect(repair).toContain("- citations.0.source: must not be empty");
+  });
+
+  it("parses JSON without a schema", async () => {
+    respondWith('{"sections": 3}');
+    await expect(generateJSON("Count sections", "You are a reviewer")).resolves.toEqual({ sections: 3 });
+  });
+});
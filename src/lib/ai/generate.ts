@@ -1,20 +1,24 @@
-import { getAnthropicClient } from "./client";
-import { AIError, parseAnthropicError, delay, getBackoffDelay } from "./errors";
+import { completeRequest } from "./scheduler";
+import { AIError } from "./errors";
+import { buildJsonRepairPrompt } from "./prompts";
+import { DEFAULT_MODEL_CONFIG } from "@/types/ai";
 import type { GenerateOptions } from "@/types/ai";
+import type { ZodType, ZodTypeDef } from "zod";
 
-const MAX_RETRIES = 3;
+// Times a malformed structured response is sent back to be corrected
+const MAX_REPAIR_ATTEMPTS = 2;
 
 /**
- * Default model configuration
+ * Default generation settings; the model is chosen by the provider
  */
 const defaultConfig = {
-  model: "claude-sonnet-4-20250514",
-  maxTokens: 4096,
-  temperature: 0.7,
+  maxTokens: DEFAULT_MODEL_CONFIG.maxTokens,
+  temperature: DEFAULT_MODEL_CONFIG.temperature,
 };
 
 /**
- * Generate text using Claude API
+ * Generate text using the configured LLM provider
+ * Calls go through the shared scheduler, which handles rate limits and retries
  * 
  * @param prompt - The user prompt to send
  * @param options - Optional generation parameters
@@ -24,69 +28,15 @@ export async function generateText(
   prompt: string,
   options?: GenerateOptions
 ): Promise<string> {
-  const client = getAnthropicClient();
-  
-  const maxTokens = options?.maxTokens ?? defaultConfig.maxTokens;
-  const temperature = options?.temperature ?? defaultConfig.temperature;
-  const systemPrompt = options?.systemPrompt;
-
-  let lastError: AIError | null = null;
-
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const response = await client.messages.create({
-        model: defaultConfig.model,
-        max_tokens: maxTokens,
-        temperature,
-        system: systemPrompt,
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        ...(options?.stopSequences && { stop_sequences: options.stopSequences }),
-      });
-
-      // Extract text from response
-      const textContent = response.content.find((block) => block.type === "text");
-      if (!textContent || textContent.type !== "text") {
-        throw new Error("No text content in response");
-      }
-
-      return textContent.text;
-    } catch (error) {
-      lastError = parseAnthropicError(error);
-      
-      console.error(`AI generation attempt ${attempt + 1} failed:`, {
-        type: lastError.type,
-        message: lastError.message,
-        retryable: lastError.retryable,
-      });
-
-      // If error is not retryable, throw immediately
-      if (!lastError.retryable) {
-        throw lastError;
-      }
-
-      // If we have more retries, wait before trying again
-      if (attempt < MAX_RETRIES - 1) {
-        const backoffDelay = lastError.retryAfter 
-          ? lastError.retryAfter * 1000 
-          : getBackoffDelay(attempt);
-        
-        console.log(`Retrying in ${backoffDelay}ms...`);
-        await delay(backoffDelay);
-      }
-    }
-  }
-
-  // All retries exhausted
-  throw lastError || new AIError({
-    type: "unknown",
-    message: "All retry attempts failed",
-    retryable: false,
+  const response = await completeRequest({
+    prompt,
+    systemPrompt: options?.systemPrompt,
+    maxTokens: options?.maxTokens ?? defaultConfig.maxTokens,
+    temperature: options?.temperature ?? defaultConfig.temperature,
+    stopSequences: options?.stopSequences,
   });
+
+  return response.text;
 }
 
 /**
@@ -102,67 +52,20 @@ export async function generateWithContext(
   userPrompt: string,
   context?: string
 ): Promise<string> {
-  const client = getAnthropicClient();
-
   // Build the full user message with context
   let fullUserPrompt = userPrompt;
   if (context) {
     fullUserPrompt = `Context:\n${context}\n\n---\n\n${userPrompt}`;
   }
 
-  let lastError: AIError | null = null;
-
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const response = await client.messages.create({
-        model: defaultConfig.model,
-        max_tokens: defaultConfig.maxTokens,
-        temperature: defaultConfig.temperature,
-        system: systemPrompt,
-        messages: [
-          {
-            role: "user",
-            content: fullUserPrompt,
-          },
-        ],
-      });
-
-      // Extract text from response
-      const textContent = response.content.find((block) => block.type === "text");
-      if (!textContent || textContent.type !== "text") {
-        throw new Error("No text content in response");
-      }
-
-      return textContent.text;
-    } catch (error) {
-      lastError = parseAnthropicError(error);
-      
-      console.error(`AI generation with context attempt ${attempt + 1} failed:`, {
-        type: lastError.type,
-        message: lastError.message,
-        retryable: lastError.retryable,
-      });
-
-      if (!lastError.retryable) {
-        throw lastError;
-      }
-
-      if (attempt < MAX_RETRIES - 1) {
-        const backoffDelay = lastError.retryAfter 
-          ? lastError.retryAfter * 1000 
-          : getBackoffDelay(attempt);
-        
-        console.log(`Retrying in ${backoffDelay}ms...`);
-        await delay(backoffDelay);
-      }
-    }
-  }
-
-  throw lastError || new AIError({
-    type: "unknown",
-    message: "All retry attempts failed",
-    retryable: false,
+  const response = await completeRequest({
+    prompt: fullUserPrompt,
+    systemPrompt,
+    maxTokens: defaultConfig.maxTokens,
+    temperature: defaultConfig.temperature,
   });
+
+  return response.text;
 }
 
 /**
@@ -184,43 +87,93 @@ export async function generateExtended(
 
 /**
  * Generate structured output (JSON)
+ * With a schema, the response is validated field by field; a response that isn't
+ * valid JSON or fails validation is sent back with the errors to be corrected,
+ * up to MAX_REPAIR_ATTEMPTS times
  * 
  * @param prompt - The user prompt
  * @param systemPrompt - System prompt that instructs JSON output
+ * @param schema - Optional runtime schema the parsed object must match
  * @returns Parsed JSON object
  */
 export async function generateJSON<T>(
   prompt: string,
-  systemPrompt: string
+  systemPrompt: string,
+  schema?: ZodType<T, ZodTypeDef, unknown>
 ): Promise<T> {
-  const response = await generateText(prompt, {
-    systemPrompt: `${systemPrompt}\n\nIMPORTANT: Respond ONLY with valid JSON. No markdown, no code blocks, no explanations.`,
-    temperature: 0.3, // Lower temperature for more consistent JSON
-  });
+  let attemptPrompt = prompt;
+  let issues: string[] = [];
 
-  // Try to parse the response as JSON
-  try {
-    // Handle potential markdown code blocks
-    let jsonStr = response.trim();
-    
-    // Remove markdown code blocks if present
-    if (jsonStr.startsWith("```json")) {
-      jsonStr = jsonStr.slice(7);
-    } else if (jsonStr.startsWith("```")) {
-      jsonStr = jsonStr.slice(3);
-    }
-    if (jsonStr.endsWith("```")) {
-      jsonStr = jsonStr.slice(0, -3);
-    }
-    
-    return JSON.parse(jsonStr.trim()) as T;
-  } catch {
-    console.error("Failed to parse AI response as JSON:", response);
-    throw new AIError({
-      type: "invalid_request",
-      message: "AI response was not valid JSON",
-      retryable: false,
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const response = await generateText(attemptPrompt, {
+      systemPrompt: `${systemPrompt}\n\nIMPORTANT: Respond ONLY with valid JSON. No markdown, no code blocks, no explanations.`,
+      temperature: 0.3, // Lower temperature for more consistent JSON
     });
+
+    const result = parseStructuredResponse(response, schema);
+    if (result.success) {
+      if (attempt > 0) {
+        console.log(`AI response repaired after ${attempt} attempt(s)`);
+      }
+      return result.data;
+    }
+
+    issues = result.issues;
+    console.warn(`AI response failed validation (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):`, issues);
+    attemptPrompt = buildJsonRepairPrompt(prompt, response, issues);
   }
+
+  throw new AIError({
+    type: "invalid_request",
+    message: `AI response did not match the expected structure: ${issues.join("; ")}`,
+    retryable: false,
+  });
 }
 
+/**
+ * Parse a JSON response and check it against the schema
+ * Problems come back as "field: message" lines the model can act on
+ */
+function parseStructuredResponse<T>(
+  response: string,
+  schema?: ZodType<T, ZodTypeDef, unknown>
+): { success: true; data: T } | { success: false; issues: string[] } {
+  // Handle potential markdown code blocks
+  let jsonStr = response.trim();
+
+  // Remove markdown code blocks if present
+  if (jsonStr.startsWith("```json")) {
+    jsonStr = jsonStr.slice(7);
+  } else if (jsonStr.startsWith("```")) {
+    jsonStr = jsonStr.slice(3);
+  }
+  if (jsonStr.endsWith("```")) {
+    jsonStr = jsonStr.slice(0, -3);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonStr.trim());
+  } catch (error) {
+    return {
+      success: false,
+      issues: [`Response was not valid JSON (${error instanceof Error ? error.message : "parse error"})`],
+    };
+  }
+
+  if (!schema) {
+    return { success: true, data: parsed as T };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    ),
+  };
+}
@@ -1,135 +1,212 @@
 /**
- * PDF Document Analysis with Claude
- * Sends PDFs directly to Claude for analysis
+ * PDF Document Analysis
+ * Sends PDFs directly to the configured LLM provider for analysis
  */
 
-import Anthropic from "@anthropic-ai/sdk";
 import fs from "fs/promises";
+import { PDFDocument } from "pdf-lib";
+import { completeRequest } from "./scheduler";
+import { buildPdfAnalysisPrompt } from "./prompts/approachPrompts";
+import type { GenerateResponse, PdfAnalysisResult, PdfSectionKey } from "@/types/ai";
+import type { StyleGuide } from "@/types/style";
 
-const client = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+// Room for every section in one response (six sections of 2-5 paragraphs each)
+const ANALYSIS_MAX_TOKENS = 16000;
+// Anything shorter than this is not a usable report section
+const MIN_SECTION_LENGTH = 200;
 
 /**
  * Generate content by analyzing a PDF document with Claude
+ * Pass `pages` (1-based) to send only those pages instead of the whole document
  */
 export async function generateWithPDF(
   pdfFilePath: string,
   systemPrompt: string,
   userPrompt: string,
-  additionalContext?: string
+  additionalContext?: string,
+  pages?: number[]
 ): Promise<string> {
   console.log("=== generateWithPDF called ===");
   console.log("PDF file path:", pdfFilePath);
 
-  // Verify file exists
+  const pdfBase64 = await readPdfAsBase64(pdfFilePath, pages);
+
+  // Build the complete user prompt
+  const fullUserPrompt = withAnalystContext(userPrompt, additionalContext);
+
+  console.log("Making AI call with PDF document...");
+  console.log("Prompt length:", fullUserPrompt.length, "characters");
+
+  const response = await createPdfMessage(pdfBase64, systemPrompt, fullUserPrompt, 4096);
+  return response.text;
+}
+
+/**
+ * Write several report sections from one pass over a PDF
+ * The document is sent once and every section comes back in a single JSON response;
+ * sections missing from the response or failing validation are returned in `failed`
+ * so the caller can generate just those with generateWithPDF. A style guide adds each
+ * section's style references to its instructions
+ */
+export async function analyzePdfSections(
+  pdfFilePath: string,
+  sections: PdfSectionKey[],
+  systemPrompt: string,
+  additionalContext?: string,
+  pages?: number[],
+  styleGuide?: StyleGuide
+): Promise<PdfAnalysisResult> {
+  if (sections.length === 0) {
+    return { sections: {}, failed: [] };
+  }
+
+  console.log(`=== analyzePdfSections called for ${sections.length} section(s) ===`);
+  console.log("PDF file path:", pdfFilePath);
+
+  const pdfBase64 = await readPdfAsBase64(pdfFilePath, pages);
+  const fullUserPrompt = withAnalystContext(buildPdfAnalysisPrompt(sections, styleGuide), additionalContext);
+
+  const response = await createPdfMessage(
+    pdfBase64,
+    `${systemPrompt}\n\nIMPORTANT: Respond ONLY with valid JSON. No markdown, no code blocks, no explanations.`,
+    fullUserPrompt,
+    ANALYSIS_MAX_TOKENS
+  );
+
+  if (response.stopReason === "max_tokens") {
+    console.warn("PDF analysis response was truncated at the token limit");
+  }
+
+  const result = validatePdfSections(response.text, sections);
+  console.log(
+    `PDF analysis: ${sections.length - result.failed.length}/${sections.length} section(s) valid` +
+    (result.failed.length > 0 ? `, falling back for ${result.failed.join(", ")}` : "")
+  );
+  return result;
+}
+
+/**
+ * Check a single-pass response against the requested sections
+ */
+function validatePdfSections(text: string, sections: PdfSectionKey[]): PdfAnalysisResult {
+  let parsed: unknown;
   try {
-    await fs.access(pdfFilePath);
+    parsed = JSON.parse(extractJsonObject(text));
   } catch {
-    throw new Error(`PDF file not found: ${pdfFilePath}`);
+    console.error("PDF analysis response was not valid JSON");
+    return { sections: {}, failed: [...sections] };
   }
 
-  // Step 1: Read the PDF file from disk
-  const pdfBuffer = await fs.readFile(pdfFilePath);
-  console.log("PDF buffer size:", pdfBuffer.length, "bytes");
-  
-  if (pdfBuffer.length === 0) {
-    throw new Error("PDF file is empty");
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    console.error("PDF analysis response was not a JSON object");
+    return { sections: {}, failed: [...sections] };
   }
-  
-  if (pdfBuffer.length > 30 * 1024 * 1024) {
-    throw new Error(`PDF file too large: ${pdfBuffer.length} bytes (max 30MB)`);
+
+  const record = parsed as Record<string, unknown>;
+  const result: PdfAnalysisResult = { sections: {}, failed: [] };
+
+  for (const key of sections) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim().length >= MIN_SECTION_LENGTH) {
+      result.sections[key] = value.trim();
+    } else {
+      result.failed.push(key);
+    }
   }
 
-  // Step 2: Convert to base64
-  const pdfBase64 = pdfBuffer.toString("base64");
-  console.log("Base64 preview:", pdfBase64.substring(0, 100) + "...");
+  return result;
+}
+
+/**
+ * Take the outermost JSON object, dropping any code fence or surrounding prose
+ */
+function extractJsonObject(text: string): string {
+  const trimmed = text.trim();
+  const start = trimmed.indexOf("{");
+  const end = trimmed.lastIndexOf("}");
+  return start !== -1 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
 
-  // Step 3: Build the complete user prompt
-  const fullUserPrompt = additionalContext
+/**
+ * Append the analyst's qualitative context to a prompt
+ */
+function withAnalystContext(userPrompt: string, additionalContext?: string): string {
+  return additionalContext
     ? `${userPrompt}\n\nADDITIONAL CONTEXT FROM ANALYST:\n${additionalContext}`
     : userPrompt;
+}
 
-  console.log("Making Claude API call with PDF document...");
-  console.log("Prompt length:", fullUserPrompt.length, "characters");
+/**
+ * Read a PDF from disk and encode it for a document content block
+ * With `pages`, a new PDF holding just those pages is encoded instead
+ */
+async function readPdfAsBase64(pdfFilePath: string, pages?: number[]): Promise<string> {
+  // Verify file exists
+  try {
+    await fs.access(pdfFilePath);
+  } catch {
+    throw new Error(`PDF file not found: ${pdfFilePath}`);
+  }
 
-  // Step 4: Make the API call with retry logic for rate limits
-  let response;
-  const maxRetries = 3;
-  let lastError: Error | null = null;
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      console.log(`API attempt ${attempt}/${maxRetries}...`);
-      response = await client.messages.create({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 4096,
-        system: systemPrompt,
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "document",
-                source: {
-                  type: "base64",
-                  media_type: "application/pdf",
-                  data: pdfBase64,
-                },
-              },
-              {
-                type: "text",
-                text: fullUserPrompt,
-              },
-            ],
-          },
-        ],
-      });
-      // Success - break out of retry loop
-      break;
-    } catch (apiError) {
-      console.error(`Claude API error (attempt ${attempt}):`, apiError);
-      lastError = apiError instanceof Error ? apiError : new Error(String(apiError));
-      
-      // Check if it's a rate limit error
-      const errorMessage = lastError.message || '';
-      if (errorMessage.includes('429') || errorMessage.includes('rate_limit')) {
-        // Wait before retrying (exponential backoff: 30s, 60s, 90s)
-        const waitTime = attempt * 30000;
-        console.log(`Rate limited. Waiting ${waitTime/1000}s before retry...`);
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-      } else {
-        // Non-rate-limit error, don't retry
-        throw new Error(`Claude API failed: ${lastError.message}`);
-      }
-    }
+  let pdfBuffer: Buffer = await fs.readFile(pdfFilePath);
+  if (pages && pages.length > 0) {
+    pdfBuffer = await extractPdfPages(pdfBuffer, pages);
+    console.log(`Sending ${pages.length} page(s): ${pages.join(", ")}`);
+  }
+  console.log("PDF buffer size:", pdfBuffer.length, "bytes");
+
+  if (pdfBuffer.length === 0) {
+    throw new Error("PDF file is empty");
   }
-  
-  if (!response) {
-    throw new Error(`Claude API failed after ${maxRetries} attempts: ${lastError?.message || 'Unknown error'}`);
+
+  if (pdfBuffer.length > 30 * 1024 * 1024) {
+    throw new Error(`PDF file too large: ${pdfBuffer.length} bytes (max 30MB)`);
   }
 
-  console.log("Claude API response received");
-  console.log("Stop reason:", response.stop_reason);
-  console.log("Usage:", response.usage);
+  return pdfBuffer.toString("base64");
+}
 
-  // Step 5: Extract the text response
-  const textBlock = response.content.find(
-    (block): block is Anthropic.TextBlock => block.type === "text"
-  );
+/**
+ * Copy the given 1-based pages into a new PDF
+ * Pages outside the document are ignored
+ */
+async function extractPdfPages(pdfBuffer: Buffer, pages: number[]): Promise<Buffer> {
+  const source = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true });
+  const indices = Array.from(new Set(pages))
+    .filter(page => page >= 1 && page <= source.getPageCount())
+    .sort((a, b) => a - b)
+    .map(page => page - 1);
 
-  if (!textBlock) {
-    throw new Error("No text response received from Claude");
+  if (indices.length === 0 || indices.length === source.getPageCount()) {
+    return pdfBuffer;
   }
 
-  console.log("Response length:", textBlock.text.length, "characters");
-  return textBlock.text;
+  const subset = await PDFDocument.create();
+  const copied = await subset.copyPages(source, indices);
+  copied.forEach(page => subset.addPage(page));
+  return Buffer.from(await subset.save());
 }
 
 /**
- * Check if a file is a PDF
+ * Send the PDF and prompt through the shared scheduler
  */
-export function isPdfFile(filePath: string): boolean {
-  return filePath.toLowerCase().endsWith(".pdf");
-}
+async function createPdfMessage(
+  pdfBase64: string,
+  systemPrompt: string,
+  userPrompt: string,
+  maxTokens: number
+): Promise<GenerateResponse> {
+  const response = await completeRequest({
+    prompt: userPrompt,
+    systemPrompt,
+    pdfBase64,
+    maxTokens,
+  });
+
+  console.log("AI response received");
+  console.log("Stop reason:", response.stopReason);
+  console.log("Usage:", response.usage);
+  console.log("Response length:", response.text.length, "characters");
 
+  return response;
+}
@@ -6,6 +6,35 @@
 // Client
 export { getAnthropicClient, validateApiKey, resetClient } from "./client";
 
+// Providers
+export {
+  getLLMProvider,
+  setLLMProvider,
+  getProviderName,
+  createAnthropicProvider,
+  createFixtureProvider,
+  withFixtureRecording,
+} from "./providers";
+
+// Usage ledger
+export {
+  withUsageContext,
+  getUsageContext,
+  getModelPricing,
+  calculateCost,
+  recordUsage,
+} from "./usage";
+
+// Scheduler
+export {
+  completeRequest,
+  getAIScheduler,
+  getSchedulerLimits,
+  getCallPriority,
+  estimateCallCost,
+  AIScheduler,
+} from "./scheduler";
+
 // Generation functions
 export {
   generateText,
@@ -24,5 +53,6 @@ export {
   buildPromptWithContext,
   formatReportType,
   formatDateForPrompt,
+  buildJsonRepairPrompt,
 } from "./prompts";
 
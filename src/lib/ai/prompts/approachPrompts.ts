@@ -3,6 +3,10 @@
  * These prompts instruct Claude to analyze the uploaded PDF exhibits
  */
 
+import { formatStyleReference } from "@/lib/style";
+import type { PdfSectionKey } from "@/types/ai";
+import type { StyleGuide } from "@/types/style";
+
 export const VALUATION_SYSTEM_PROMPT = `You are an expert valuation analyst writing sections for a formal valuation report. 
 
 Your task is to analyze the uploaded PDF exhibits and write professional narrative sections that:
@@ -172,3 +176,32 @@ PARAGRAPH 4 - Outlook & Implications for Valuation:
 
 Use your knowledge of the industry as of the valuation date. Write in formal language suitable for a valuation report.`;
 
+/**
+ * Section prompts keyed by the report section they write
+ */
+export const PDF_SECTION_PROMPTS: Record<PdfSectionKey, string> = {
+  companyOverview: COMPANY_OVERVIEW_PROMPT,
+  industryOutlook: INDUSTRY_OUTLOOK_PROMPT,
+  guidelinePublicCompany: GUIDELINE_PUBLIC_COMPANY_PROMPT,
+  guidelineTransaction: GUIDELINE_TRANSACTION_PROMPT,
+  incomeApproach: INCOME_APPROACH_PROMPT,
+  conclusion: CONCLUSION_PROMPT,
+};
+
+/**
+ * Build one prompt that asks for every requested section as a single JSON object
+ * With a style guide, each section's instructions carry its own style reference
+ */
+export function buildPdfAnalysisPrompt(sections: PdfSectionKey[], styleGuide?: StyleGuide): string {
+  const keys = sections.map(key => `"${key}"`).join(", ");
+  const instructions = sections
+    .map(key => `=== ${key} ===\n${PDF_SECTION_PROMPTS[key]}${formatStyleReference(styleGuide?.[key])}`)
+    .join("\n\n");
+
+  return `Analyze the uploaded PDF exhibits once and write each of the report sections described below.
+
+Respond ONLY with a JSON object with exactly these keys: ${keys}.
+Each value is the complete text of that section as a single string, with paragraphs separated by a blank line ("\\n\\n"). Do not include section headings, paragraph labels, markdown or code blocks.
+
+${instructions}`;
+}
@@ -22,7 +22,8 @@ Respond ONLY in valid JSON format with no additional text or markdown.`;
  */
 export function buildCompanyResearchPrompt(
   companyName: string,
-  context?: string
+  context?: string,
+  styleReference?: string
 ): string {
   let prompt = `Research the following company and provide comprehensive information for a business valuation report.
 
@@ -58,6 +59,11 @@ Important:
 - Set confidence to "low" if you have very limited information about this company
 - All text should be suitable for inclusion in a formal valuation report`;
 
+  // Example passages from the firm's reports (see lib/style)
+  if (styleReference) {
+    prompt += `\n\nWrite "companyDescription" in the style of the reference below.${styleReference}`;
+  }
+
   return prompt;
 }
 
@@ -66,6 +66,29 @@ export function buildPromptWithContext(
   return `${contextParts.join("\n")}\n\n---\n\n${basePrompt}`;
 }
 
+/**
+ * Ask the model to correct a structured response that failed validation
+ * The original request is repeated so the corrected response is complete
+ */
+export function buildJsonRepairPrompt(
+  originalPrompt: string,
+  previousResponse: string,
+  issues: string[]
+): string {
+  return `${originalPrompt}
+
+---
+
+Your previous response could not be used:
+
+${previousResponse}
+
+It had these problems:
+${issues.map(issue => `- ${issue}`).join("\n")}
+
+Respond again with the complete JSON object, correcting every problem listed. Keep the content that was valid.`;
+}
+
 /**
  * Format a report type for display
  */
@@ -22,7 +22,8 @@ Respond ONLY in valid JSON format with no additional text or markdown.`;
  */
 export function buildIndustryResearchPrompt(
   industry: string,
-  companyContext?: string
+  companyContext?: string,
+  styleReference?: string
 ): string {
   let prompt = `Provide a comprehensive industry analysis for the following industry, suitable for inclusion in a business valuation report.
 
@@ -64,6 +65,11 @@ Important:
 - If you don't have specific data for a field, provide your best analysis based on available knowledge
 - The overview section should be detailed and suitable as a standalone industry description`;
 
+  // Example passages from the firm's reports (see lib/style)
+  if (styleReference) {
+    prompt += `\n\nWrite "overview" in the style of the reference below.${styleReference}`;
+  }
+
   return prompt;
 }
 
@@ -5,21 +5,19 @@
  * that reference actual extracted values from the valuation model.
  */
 
-import type { ApproachData, DetailedModelData } from "@/types/excel";
+import type { ApproachData, DetailedModelData, MultipleRange, AppliedMetric, WACCBuildUp, EquityBridge, IncomeApproachData, YearlyProjection, ExhibitData, ExhibitApproach } from "@/types/excel";
 import type { WeightData, NarrativeContext } from "@/types/narrative";
+import type { ModelDiff, MetricChange, ComparableSetChange } from "@/types/rollforward";
+import type { StyleGuide } from "@/types/style";
+import { APPLIED_METRIC_LABELS, computeMultipleRange, describeMultiplePosition } from "@/lib/excel/multipleAnalysis";
+import { currencySymbol, formatCurrencyAmount, formatCurrencyPrice } from "@/lib/utils/currency";
 
 /**
- * Format a number as currency
+ * Format a number as currency in the model's currency (USD when not stated)
  */
-function formatCurrency(value: number | null | undefined): string {
+function formatCurrency(value: number | null | undefined, currency?: string): string {
   if (value === null || value === undefined) return "[Not Available]";
-  if (Math.abs(value) >= 1000000) {
-    return `$${(value / 1000000).toFixed(1)} million`;
-  }
-  if (Math.abs(value) >= 1000) {
-    return `$${(value / 1000).toFixed(0)} thousand`;
-  }
-  return `$${value.toLocaleString()}`;
+  return formatCurrencyAmount(value, currency);
 }
 
 /**
@@ -39,6 +37,209 @@ function formatPercent(value: number | null | undefined): string {
   return `${(value * 100).toFixed(1)}%`;
 }
 
+/**
+ * Format multiple statistics and where the selected multiple falls in the range
+ */
+function formatMultipleAnalysis(
+  title: string,
+  range: MultipleRange | null,
+  selected: number | null
+): string {
+  if (!range) return "";
+
+  let block = `
+${title} (${range.count} observations):
+- Range: ${formatMultiple(range.low)} - ${formatMultiple(range.high)}
+- 25th Percentile: ${formatMultiple(range.percentile25)}
+- Median: ${formatMultiple(range.median)}
+- Mean: ${formatMultiple(range.mean)}
+- 75th Percentile: ${formatMultiple(range.percentile75)}
+`;
+  if (selected !== null) {
+    block += `- Selected Multiple: ${formatMultiple(selected)} (${describeMultiplePosition(selected, range)})
+`;
+  }
+  return block;
+}
+
+/**
+ * Format the applied metric and resulting calculation
+ */
+function formatAppliedMetric(
+  metric: AppliedMetric | null,
+  metricValue: number | null,
+  selected: number | null,
+  currency?: string
+): string {
+  if (!metric) return "";
+
+  let block = `
+APPLIED METRIC: Subject Company ${APPLIED_METRIC_LABELS[metric]}${metricValue !== null ? ` of ${formatCurrency(metricValue, currency)}` : ""}
+`;
+  if (selected !== null && metricValue !== null) {
+    block += `- Calculation: ${formatMultiple(selected)} × ${formatCurrency(metricValue, currency)} = ${formatCurrency(selected * metricValue, currency)}
+`;
+  }
+  return block;
+}
+
+/**
+ * Format the discount rate build-up, showing how the components combine
+ */
+function formatWaccBuildUp(buildUp: WACCBuildUp): string {
+  const line = (label: string, value: string | null) => (value ? `- ${label}: ${value}\n` : "");
+  const rate = (value: number | null) => (value !== null ? formatPercent(value) : null);
+  const beta = (value: number | null) => (value !== null ? value.toFixed(2) : null);
+
+  let block = `
+DISCOUNT RATE BUILD-UP (from model):
+Cost of Equity:
+${line("Risk-Free Rate", rate(buildUp.riskFreeRate))}${line("Equity Risk Premium", rate(buildUp.equityRiskPremium))}${line("Unlevered Beta", beta(buildUp.unleveredBeta))}${line("Levered Beta", beta(buildUp.leveredBeta))}${line("Size Premium", rate(buildUp.sizePremium))}${line("Industry Risk Premium", rate(buildUp.industryRiskPremium))}${line("Company-Specific Risk Premium", rate(buildUp.companySpecificRiskPremium))}${line("Cost of Equity", rate(buildUp.costOfEquity))}`;
+
+  // Show the CAPM arithmetic when the core inputs are present
+  if (buildUp.riskFreeRate !== null && buildUp.equityRiskPremium !== null && buildUp.leveredBeta !== null) {
+    const premiums = [buildUp.sizePremium, buildUp.industryRiskPremium, buildUp.companySpecificRiskPremium]
+      .filter((v): v is number => v !== null);
+    const implied = buildUp.riskFreeRate + buildUp.leveredBeta * buildUp.equityRiskPremium + premiums.reduce((sum, v) => sum + v, 0);
+    const terms = [rate(buildUp.riskFreeRate), `${beta(buildUp.leveredBeta)} × ${rate(buildUp.equityRiskPremium)}`, ...premiums.map(rate)];
+    block += `- CAPM Calculation: ${terms.join(" + ")} = ${formatPercent(implied)}\n`;
+  }
+
+  if (buildUp.preTaxCostOfDebt !== null || buildUp.afterTaxCostOfDebt !== null) {
+    block += `Cost of Debt:
+${line("Pre-Tax Cost of Debt", rate(buildUp.preTaxCostOfDebt))}${line("Tax Rate", rate(buildUp.taxRate))}${line("After-Tax Cost of Debt", rate(buildUp.afterTaxCostOfDebt))}`;
+  }
+
+  if (buildUp.equityWeight !== null || buildUp.debtWeight !== null) {
+    block += `Capital Structure:
+${line("Equity Weight", rate(buildUp.equityWeight))}${line("Debt Weight", rate(buildUp.debtWeight))}`;
+  }
+
+  const costOfEquity = buildUp.costOfEquity;
+  const costOfDebt = buildUp.afterTaxCostOfDebt;
+  if (costOfEquity !== null && costOfDebt !== null && buildUp.equityWeight !== null && buildUp.debtWeight !== null) {
+    const weighted = costOfEquity * buildUp.equityWeight + costOfDebt * buildUp.debtWeight;
+    block += `- WACC Calculation: ${formatPercent(costOfEquity)} × ${formatPercent(buildUp.equityWeight)} + ${formatPercent(costOfDebt)} × ${formatPercent(buildUp.debtWeight)} = ${formatPercent(weighted)}\n`;
+  }
+  block += line("Concluded WACC", rate(buildUp.wacc));
+
+  return block;
+}
+
+/**
+ * Format the projection table year by year with growth, margins and revenue CAGR
+ */
+function formatProjections(incomeData: IncomeApproachData, currency?: string): string {
+  const metrics: [string, YearlyProjection[]][] = [
+    ["Revenue", incomeData.revenueProjections],
+    ["Gross Profit", incomeData.grossProfitProjections],
+    ["EBITDA", incomeData.ebitdaProjections],
+    ["Capital Expenditures", incomeData.capexProjections],
+    ["Change in NWC", incomeData.nwcChangeProjections],
+    ["Free Cash Flow", incomeData.cashFlowProjections],
+  ];
+  const present = metrics.filter(([, projections]) => projections.length > 0);
+  if (present.length === 0) return "";
+
+  // Periods in column order; LTM is keyed by its label so it never merges with a fiscal year
+  const periodKey = (p: YearlyProjection) => (p.period === "ltm" || p.year === null ? `ltm:${p.label ?? "LTM"}` : `fy:${p.year}`);
+  const periods = new Map<string, YearlyProjection>();
+  present.forEach(([, projections]) => projections.forEach(p => {
+    if (!periods.has(periodKey(p))) periods.set(periodKey(p), p);
+  }));
+  const find = (projections: YearlyProjection[], key: string) => projections.find(p => periodKey(p) === key);
+  // Growth can exceed 100% for early-stage companies, which formatPercent would read as already scaled
+  const rate = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const margin = (value: number, revenue: YearlyProjection | undefined) =>
+    revenue && revenue.value > 0 ? ` (${formatPercent(value / revenue.value)} margin)` : "";
+
+  let block = `
+PROJECTIONS BY YEAR (from model):
+`;
+  for (const [key, period] of Array.from(periods)) {
+    const heading = period.label ?? String(period.year);
+    const kind = period.period === "historical" ? " - Actual" : period.period === "ltm" && !/ltm|ttm/i.test(heading) ? " - LTM" : "";
+    const revenue = find(incomeData.revenueProjections, key);
+
+    const parts = present.flatMap(([name, projections]) => {
+      const entry = find(projections, key);
+      if (!entry) return [];
+      let text = `${name} ${formatCurrency(entry.value, currency)}`;
+      if (name === "Revenue" && entry.growthRate !== undefined) text += ` (${rate(entry.growthRate)} growth)`;
+      if (name === "Gross Profit" || name === "EBITDA") text += margin(entry.value, revenue);
+      return [text];
+    });
+    block += `- ${heading}${kind}: ${parts.join("; ")}\n`;
+  }
+
+  // CAGR over the projected years only, so historical periods don't distort the trajectory
+  const projected = incomeData.revenueProjections.filter(p => p.period !== "historical" && p.period !== "ltm");
+  const first = projected[0];
+  const last = projected[projected.length - 1];
+  if (first?.year && last?.year && last.year > first.year && first.value > 0 && last.value > 0) {
+    const cagr = Math.pow(last.value / first.value, 1 / (last.year - first.year)) - 1;
+    block += `- Revenue CAGR (${first.label ?? first.year} to ${last.label ?? last.year}): ${rate(cagr)}\n`;
+  }
+
+  return block;
+}
+
+/**
+ * Format the enterprise-to-equity bridge as a running calculation
+ */
+function formatEquityBridge(bridge: EquityBridge, currency?: string): string {
+  let block = `
+ENTERPRISE TO EQUITY BRIDGE (from model):
+- Concluded Enterprise Value: ${formatCurrency(bridge.enterpriseValue, currency)}
+`;
+  bridge.items.forEach(item => {
+    block += `- ${item.amount < 0 ? "Less" : "Plus"}: ${item.label}: ${formatCurrency(Math.abs(item.amount), currency)}
+`;
+  });
+  block += `- Equity Value: ${formatCurrency(bridge.equityValue, currency)}
+`;
+
+  if (bridge.enterpriseValue !== null && bridge.equityValue !== null) {
+    const computed = bridge.enterpriseValue + bridge.items.reduce((sum, item) => sum + item.amount, 0);
+    if (Math.abs(computed - bridge.equityValue) > Math.max(1000, Math.abs(bridge.equityValue) * 0.001)) {
+      block += `- Note: the listed adjustments sum to ${formatCurrency(computed, currency)}, not the equity value shown; describe only the adjustments listed
+`;
+    }
+  }
+  return block;
+}
+
+// Bound the notes block so a heavily annotated model can't crowd out the data
+const MAX_EXHIBIT_NOTES = 15;
+const MAX_NOTE_LENGTH = 400;
+
+/**
+ * Format the analyst's notes from the exhibits mapped to an approach
+ */
+function formatExhibitNotes(exhibits: ExhibitData[] | undefined, approach: ExhibitApproach): string {
+  const annotated = (exhibits || []).filter(e => e.approach === approach && e.notes.length > 0);
+  if (annotated.length === 0) return "";
+
+  let block = `
+ANALYST NOTES FROM EXHIBITS:
+`;
+  let remaining = MAX_EXHIBIT_NOTES;
+  for (const exhibit of annotated) {
+    if (remaining <= 0) break;
+    block += `[${exhibit.sheetName}]
+`;
+    exhibit.notes.slice(0, remaining).forEach(note => {
+      const text = note.length > MAX_NOTE_LENGTH ? `${note.slice(0, MAX_NOTE_LENGTH)}...` : note;
+      block += `- ${text}
+`;
+    });
+    remaining -= exhibit.notes.length;
+  }
+  block += `These notes are the analyst's own reasoning (exclusions, outliers, selected inputs). Reflect them in the narrative and do not contradict them.
+`;
+  return block;
+}
+
 /**
  * System prompt for valuation narratives - now requires specific data references
  */
@@ -61,6 +262,10 @@ CRITICAL INSTRUCTIONS:
  */
 export interface ExtendedNarrativeContext extends NarrativeContext {
   detailedData?: DetailedModelData;
+  // Exhibits with harvested notes, mapped to approaches
+  exhibits?: ExhibitData[];
+  // Passages from the firm's example reports of this report type
+  styleGuide?: StyleGuide;
 }
 
 /**
@@ -71,6 +276,7 @@ export function buildGuidelineCompanyPrompt(
   data: ApproachData,
   context?: ExtendedNarrativeContext
 ): string {
+  const currency = context?.currency;
   const detailed = context?.detailedData;
   const companies = detailed?.guidelinePublicCompanies || [];
   const financials = detailed?.companyFinancials;
@@ -86,8 +292,8 @@ export function buildGuidelineCompanyPrompt(
 SUBJECT COMPANY DATA:
 - Company Name: ${context?.companyName || "[Company Name]"}
 - Valuation Date: ${context?.valuationDate || "[Valuation Date]"}
-${financials?.ltmRevenue ? `- LTM Revenue: ${formatCurrency(financials.ltmRevenue)}` : ""}
-${financials?.ltmEbitda ? `- LTM EBITDA: ${formatCurrency(financials.ltmEbitda)}` : ""}
+${financials?.ltmRevenue ? `- LTM Revenue: ${formatCurrency(financials.ltmRevenue, currency)}` : ""}
+${financials?.ltmEbitda ? `- LTM EBITDA: ${formatCurrency(financials.ltmEbitda, currency)}` : ""}
 ${context?.industry ? `- Industry: ${context.industry}` : ""}
 `;
 
@@ -106,38 +312,27 @@ GUIDELINE COMPANIES SELECTED (${companies.length} companies):
       prompt += `\n`;
     });
     
-    // Calculate ranges
-    const revMultiples = companies.map(c => c.revenueMultiple).filter((m): m is number => m !== null);
-    const ebitdaMultiples = companies.map(c => c.ebitdaMultiple).filter((m): m is number => m !== null);
+    // Multiple statistics (computed from the model, or from the comps if analysis is unavailable)
+    const analysis = detailed?.gpcAnalysis;
+    const revRange = analysis?.revenueMultipleRange ?? computeMultipleRange(companies.map(c => c.revenueMultiple));
+    const ebitdaRange = analysis?.ebitdaMultipleRange ?? computeMultipleRange(companies.map(c => c.ebitdaMultiple));
     
-    if (revMultiples.length > 0) {
-      const revMin = Math.min(...revMultiples);
-      const revMax = Math.max(...revMultiples);
-      const revMedian = revMultiples.sort((a, b) => a - b)[Math.floor(revMultiples.length / 2)];
-      prompt += `
-REVENUE MULTIPLE ANALYSIS:
-- Range: ${formatMultiple(revMin)} - ${formatMultiple(revMax)}
-- Median: ${formatMultiple(revMedian)}
-`;
-    }
+    prompt += formatMultipleAnalysis("REVENUE MULTIPLE ANALYSIS", revRange, analysis?.selectedRevenueMultiple ?? null);
+    prompt += formatMultipleAnalysis("EBITDA MULTIPLE ANALYSIS", ebitdaRange, analysis?.selectedEbitdaMultiple ?? null);
     
-    if (ebitdaMultiples.length > 0) {
-      const ebitdaMin = Math.min(...ebitdaMultiples);
-      const ebitdaMax = Math.max(...ebitdaMultiples);
-      const ebitdaMedian = ebitdaMultiples.sort((a, b) => a - b)[Math.floor(ebitdaMultiples.length / 2)];
-      prompt += `
-EBITDA MULTIPLE ANALYSIS:
-- Range: ${formatMultiple(ebitdaMin)} - ${formatMultiple(ebitdaMax)}
-- Median: ${formatMultiple(ebitdaMedian)}
-`;
+    if (analysis) {
+      const selected = analysis.appliedMetric === "ebitda" ? analysis.selectedEbitdaMultiple : analysis.selectedRevenueMultiple;
+      prompt += formatAppliedMetric(analysis.appliedMetric, analysis.appliedMetricValue, selected, currency);
     }
   }
 
   prompt += `
-INDICATED VALUE FROM THIS APPROACH: ${data.indicatedValue ? formatCurrency(data.indicatedValue) : gpcApproach?.indicatedValue ? formatCurrency(gpcApproach.indicatedValue) : "[Not Available]"}
+INDICATED VALUE FROM THIS APPROACH: ${data.indicatedValue ? formatCurrency(data.indicatedValue, currency) : gpcApproach?.indicatedValue ? formatCurrency(gpcApproach.indicatedValue, currency) : "[Not Available]"}
 WEIGHT ASSIGNED: ${data.weight ? formatPercent(data.weight) : gpcApproach?.weight ? formatPercent(gpcApproach.weight) : "[Not Specified]"}
 `;
 
+  prompt += formatExhibitNotes(context?.exhibits, "gpc");
+
   if (context?.qualitativeContext) {
     prompt += `
 ANALYST QUALITATIVE CONTEXT:
@@ -148,7 +343,7 @@ ${context.qualitativeContext}
   prompt += `
 Write a 2-4 paragraph narrative that:
 1. Names the specific guideline companies selected and explains WHY they are comparable (similar business model, size, market, growth profile)
-2. States the multiple ranges observed and discusses which multiple was selected
+2. States the multiple ranges observed and where the selected multiple falls within them (use the percentile positioning provided)
 3. Explains WHY the selected multiple is appropriate given the Subject Company's characteristics vs. the comps
 4. Shows the calculation: selected multiple × Subject Company metric = indicated value
 5. Notes any size adjustments or other considerations
@@ -166,6 +361,7 @@ export function buildMATransactionPrompt(
   data: ApproachData,
   context?: ExtendedNarrativeContext
 ): string {
+  const currency = context?.currency;
   const detailed = context?.detailedData;
   const transactions = detailed?.guidelineTransactions || [];
   const financials = detailed?.companyFinancials;
@@ -180,8 +376,8 @@ export function buildMATransactionPrompt(
 SUBJECT COMPANY DATA:
 - Company Name: ${context?.companyName || "[Company Name]"}
 - Valuation Date: ${context?.valuationDate || "[Valuation Date]"}
-${financials?.ltmRevenue ? `- LTM Revenue: ${formatCurrency(financials.ltmRevenue)}` : ""}
-${financials?.ltmEbitda ? `- LTM EBITDA: ${formatCurrency(financials.ltmEbitda)}` : ""}
+${financials?.ltmRevenue ? `- LTM Revenue: ${formatCurrency(financials.ltmRevenue, currency)}` : ""}
+${financials?.ltmEbitda ? `- LTM EBITDA: ${formatCurrency(financials.ltmEbitda, currency)}` : ""}
 ${context?.industry ? `- Industry: ${context.industry}` : ""}
 `;
 
@@ -192,32 +388,33 @@ GUIDELINE TRANSACTIONS SELECTED (${transactions.length} transactions):
     transactions.forEach((tx, i) => {
       prompt += `${i + 1}. ${tx.targetName}`;
       if (tx.transactionDate) prompt += ` (${tx.transactionDate.toLocaleDateString?.() || tx.transactionDate})`;
-      if (tx.dealValue) prompt += ` - Deal Value: ${formatCurrency(tx.dealValue)}`;
+      if (tx.dealValue) prompt += ` - Deal Value: ${formatCurrency(tx.dealValue, currency)}`;
       if (tx.revenueMultiple) prompt += `, EV/Revenue: ${formatMultiple(tx.revenueMultiple)}`;
       if (tx.ebitdaMultiple) prompt += `, EV/EBITDA: ${formatMultiple(tx.ebitdaMultiple)}`;
       prompt += `\n`;
     });
     
-    // Calculate ranges
-    const revMultiples = transactions.map(t => t.revenueMultiple).filter((m): m is number => m !== null);
+    // Multiple statistics (computed from the model, or from the transactions if analysis is unavailable)
+    const analysis = detailed?.transactionAnalysis;
+    const revRange = analysis?.revenueMultipleRange ?? computeMultipleRange(transactions.map(t => t.revenueMultiple));
+    const ebitdaRange = analysis?.ebitdaMultipleRange ?? computeMultipleRange(transactions.map(t => t.ebitdaMultiple));
     
-    if (revMultiples.length > 0) {
-      const revMin = Math.min(...revMultiples);
-      const revMax = Math.max(...revMultiples);
-      const revMedian = revMultiples.sort((a, b) => a - b)[Math.floor(revMultiples.length / 2)];
-      prompt += `
-TRANSACTION MULTIPLE ANALYSIS:
-- Revenue Multiple Range: ${formatMultiple(revMin)} - ${formatMultiple(revMax)}
-- Median: ${formatMultiple(revMedian)}
-`;
+    prompt += formatMultipleAnalysis("TRANSACTION REVENUE MULTIPLE ANALYSIS", revRange, analysis?.selectedRevenueMultiple ?? null);
+    prompt += formatMultipleAnalysis("TRANSACTION EBITDA MULTIPLE ANALYSIS", ebitdaRange, analysis?.selectedEbitdaMultiple ?? null);
+    
+    if (analysis) {
+      const selected = analysis.appliedMetric === "ebitda" ? analysis.selectedEbitdaMultiple : analysis.selectedRevenueMultiple;
+      prompt += formatAppliedMetric(analysis.appliedMetric, analysis.appliedMetricValue, selected, currency);
     }
   }
 
   prompt += `
-INDICATED VALUE FROM THIS APPROACH: ${data.indicatedValue ? formatCurrency(data.indicatedValue) : gtmApproach?.indicatedValue ? formatCurrency(gtmApproach.indicatedValue) : "[Not Available]"}
+INDICATED VALUE FROM THIS APPROACH: ${data.indicatedValue ? formatCurrency(data.indicatedValue, currency) : gtmApproach?.indicatedValue ? formatCurrency(gtmApproach.indicatedValue, currency) : "[Not Available]"}
 WEIGHT ASSIGNED: ${data.weight ? formatPercent(data.weight) : gtmApproach?.weight ? formatPercent(gtmApproach.weight) : "[Not Specified]"}
 `;
 
+  prompt += formatExhibitNotes(context?.exhibits, "gtm");
+
   if (context?.qualitativeContext) {
     prompt += `
 ANALYST QUALITATIVE CONTEXT:
@@ -229,7 +426,7 @@ ${context.qualitativeContext}
 Write a 2-4 paragraph narrative that:
 1. Names the specific transactions selected and their relevance
 2. Notes the transaction dates and discusses timing relevance (more recent = more relevant)
-3. States the multiple ranges and the selected/applied multiple
+3. States the multiple ranges and where the selected/applied multiple falls within them (use the percentile positioning provided)
 4. Explains adjustments for any differences vs. the Subject Company
 5. Shows the math: selected multiple × metric = indicated value
 
@@ -246,6 +443,7 @@ export function buildIncomeApproachPrompt(
   data: ApproachData,
   context?: ExtendedNarrativeContext
 ): string {
+  const currency = context?.currency;
   const detailed = context?.detailedData;
   const incomeData = detailed?.incomeApproachData;
   const financials = detailed?.companyFinancials;
@@ -255,8 +453,8 @@ export function buildIncomeApproachPrompt(
 SUBJECT COMPANY DATA:
 - Company Name: ${context?.companyName || "[Company Name]"}
 - Valuation Date: ${context?.valuationDate || "[Valuation Date]"}
-${financials?.ltmRevenue ? `- Current Revenue: ${formatCurrency(financials.ltmRevenue)}` : ""}
-${financials?.ltmEbitda ? `- Current EBITDA: ${formatCurrency(financials.ltmEbitda)}` : ""}
+${financials?.ltmRevenue ? `- Current Revenue: ${formatCurrency(financials.ltmRevenue, currency)}` : ""}
+${financials?.ltmEbitda ? `- Current EBITDA: ${formatCurrency(financials.ltmEbitda, currency)}` : ""}
 `;
 
   if (incomeData) {
@@ -269,37 +467,27 @@ DCF MODEL INPUTS:
 - Projection Period: ${incomeData.projectionYears ? `${incomeData.projectionYears} years` : "[Not Available]"}
 `;
 
-    if (incomeData.revenueProjections.length > 0) {
-      prompt += `
-REVENUE PROJECTIONS:
-`;
-      incomeData.revenueProjections.forEach(proj => {
-        prompt += `- Year ${proj.year}: ${formatCurrency(proj.value)}${proj.growthRate ? ` (${formatPercent(proj.growthRate)} growth)` : ""}\n`;
-      });
+    if (incomeData.waccBuildUp) {
+      prompt += formatWaccBuildUp(incomeData.waccBuildUp);
     }
 
-    if (incomeData.cashFlowProjections.length > 0) {
-      prompt += `
-CASH FLOW PROJECTIONS:
-`;
-      incomeData.cashFlowProjections.forEach(proj => {
-        prompt += `- Year ${proj.year}: ${formatCurrency(proj.value)}\n`;
-      });
-    }
+    prompt += formatProjections(incomeData, currency);
 
     prompt += `
 DCF RESULTS:
-${incomeData.presentValueCashFlows ? `- PV of Discrete Period Cash Flows: ${formatCurrency(incomeData.presentValueCashFlows)}` : ""}
-${incomeData.terminalValue ? `- Terminal Value: ${formatCurrency(incomeData.terminalValue)}` : ""}
-${incomeData.presentValueTerminal ? `- PV of Terminal Value: ${formatCurrency(incomeData.presentValueTerminal)}` : ""}
+${incomeData.presentValueCashFlows ? `- PV of Discrete Period Cash Flows: ${formatCurrency(incomeData.presentValueCashFlows, currency)}` : ""}
+${incomeData.terminalValue ? `- Terminal Value: ${formatCurrency(incomeData.terminalValue, currency)}` : ""}
+${incomeData.presentValueTerminal ? `- PV of Terminal Value: ${formatCurrency(incomeData.presentValueTerminal, currency)}` : ""}
 `;
   }
 
   prompt += `
-INDICATED VALUE FROM THIS APPROACH: ${data.indicatedValue ? formatCurrency(data.indicatedValue) : incomeData?.indicatedValue ? formatCurrency(incomeData.indicatedValue) : "[Not Available]"}
+INDICATED VALUE FROM THIS APPROACH: ${data.indicatedValue ? formatCurrency(data.indicatedValue, currency) : incomeData?.indicatedValue ? formatCurrency(incomeData.indicatedValue, currency) : "[Not Available]"}
 WEIGHT ASSIGNED: ${data.weight ? formatPercent(data.weight) : "[Not Specified]"}
 `;
 
+  prompt += formatExhibitNotes(context?.exhibits, "income");
+
   if (context?.qualitativeContext) {
     prompt += `
 ANALYST QUALITATIVE CONTEXT:
@@ -310,13 +498,15 @@ ${context.qualitativeContext}
   prompt += `
 PARAGRAPH 1 - Projection Overview:
 - State the projection period used (e.g., 5 years)
-- Summarize the revenue trajectory with specific numbers (Year 1: $X, Year 5: $Y, CAGR of Z%)
+- Summarize the revenue trajectory with specific numbers (Year 1: $X, Year 5: $Y, CAGR of Z%), using the fiscal-year labels and the Revenue CAGR from PROJECTIONS BY YEAR when provided
+- Distinguish actual / LTM periods from projected periods
 - Describe the profitability trajectory (when does the company reach profitability, what are terminal margins)
 - Note whether projections were provided by management or developed by the analyst
 - Reference specific projection figures from the data above
 
 PARAGRAPH 2 - Discount Rate / Cost of Equity:
 - State the concluded discount rate used
+- If a DISCOUNT RATE BUILD-UP is provided above, walk through it component by component using those exact figures and show how they sum to the cost of equity and, if applicable, combine into the WACC
 - Identify the methodology: CAPM build-up, WACC, or Venture Capital method
 - If CAPM build-up, detail the components:
   - Risk-free rate (and source, e.g., 20-year Treasury)
@@ -345,6 +535,81 @@ Reference specific numbers throughout. Do not generalize or use placeholder lang
   return prompt;
 }
 
+/**
+ * Build prompt for PWERM / hybrid scenario narrative
+ */
+export function buildPWERMPrompt(
+  data: ApproachData,
+  context?: ExtendedNarrativeContext
+): string {
+  const currency = context?.currency;
+  const pwerm = context?.detailedData?.pwermData;
+
+  let prompt = `Analyze the Probability-Weighted Expected Return Method (PWERM) exhibits and write 2-3 paragraphs covering:
+
+SUBJECT COMPANY DATA:
+- Company Name: ${context?.companyName || "[Company Name]"}
+- Valuation Date: ${context?.valuationDate || "[Valuation Date]"}
+`;
+
+  if (pwerm && pwerm.scenarios.length > 0) {
+    prompt += `
+METHOD: ${pwerm.isHybrid ? "Hybrid method (PWERM with an OPM scenario)" : "PWERM"}
+
+SCENARIOS (${pwerm.scenarios.length} total):
+`;
+    pwerm.scenarios.forEach((scenario, index) => {
+      prompt += `${index + 1}. ${scenario.name}
+   - Probability: ${formatPercent(scenario.probability)}
+   - Exit Timing: ${scenario.exitTiming !== null ? `${scenario.exitTiming.toFixed(2)} years` : "[N/A]"}
+   - Exit Value: ${formatCurrency(scenario.exitValue, currency)}
+   - Discount Rate: ${formatPercent(scenario.discountRate)}
+`;
+      scenario.perShareValues.forEach(v => {
+        prompt += `   - ${v.className} Value per Share: ${currencySymbol(currency)}${v.value.toFixed(4)}\n`;
+      });
+    });
+
+    const totalProbability = pwerm.scenarios.reduce((sum, s) => sum + (s.probability ?? 0), 0);
+    prompt += `
+Total Probability: ${formatPercent(totalProbability)}
+${pwerm.probabilityWeightedCommonValue !== null ? `Probability-Weighted Common Value per Share: ${currencySymbol(currency)}${pwerm.probabilityWeightedCommonValue.toFixed(4)}` : ""}
+`;
+  }
+
+  prompt += `
+INDICATED VALUE FROM THIS APPROACH: ${data.indicatedValue ? formatCurrency(data.indicatedValue, currency) : "[Not Available]"}
+WEIGHT ASSIGNED: ${data.weight ? formatPercent(data.weight) : "[Not Specified]"}
+`;
+
+  prompt += formatExhibitNotes(context?.exhibits, "pwerm");
+
+  if (context?.qualitativeContext) {
+    prompt += `
+ANALYST QUALITATIVE CONTEXT:
+${context.qualitativeContext}
+`;
+  }
+
+  prompt += `
+PARAGRAPH 1 - Scenario Selection:
+- Identify each exit scenario considered (e.g., IPO, strategic sale, dissolution, stay private) and why it is a plausible outcome for this company
+- State the expected exit timing and exit value for each scenario using the figures above
+- If a scenario is valued with an OPM (hybrid method), say so and explain why
+
+PARAGRAPH 2 - Probability Weighting:
+- State the probability assigned to each scenario and explain what supports it (stage of development, financing history, market conditions, management's plans)
+- Note the discount rate applied to each scenario's future value
+
+PARAGRAPH 3 - Allocation and Conclusion:
+- Describe how scenario values were allocated to each share class
+- Show the probability-weighted common value per share
+
+Reference specific numbers throughout. Do not write a generic description of PWERM.`;
+
+  return prompt;
+}
+
 // Note: Backsolve/OPM sections use templated methodology language, not AI-generated narratives
 
 /**
@@ -356,6 +621,7 @@ export function buildConclusionPrompt(
   weights: WeightData[],
   context?: ExtendedNarrativeContext
 ): string {
+  const currency = context?.currency;
   const detailed = context?.detailedData;
   const weighting = detailed?.weightingData;
   
@@ -381,20 +647,26 @@ VALUATION APPROACHES AND WEIGHTING:
     const appliedWeight = weight?.weight || approach.weight || 0;
     prompt += `
 ${index + 1}. ${approach.name}
-   - Indicated Value: ${formatCurrency(approach.indicatedValue)}
+   - Indicated Value: ${formatCurrency(approach.indicatedValue, currency)}
    - Weight: ${formatPercent(appliedWeight)}
-   - Weighted Value: ${formatCurrency(approach.indicatedValue * appliedWeight)}
+   - Weighted Value: ${formatCurrency(approach.indicatedValue * appliedWeight, currency)}
 `;
   });
 
   prompt += `
 CONCLUDED VALUES:
-- Concluded Enterprise Value: ${weighting?.concludedEnterpriseValue ? formatCurrency(weighting.concludedEnterpriseValue) : "[Calculate from above]"}
+- Concluded Enterprise Value: ${weighting?.concludedEnterpriseValue ? formatCurrency(weighting.concludedEnterpriseValue, currency) : "[Calculate from above]"}
 ${weighting?.dlomPercentage ? `- DLOM Applied: ${formatPercent(weighting.dlomPercentage)}` : ""}
-${weighting?.valueAfterDlom ? `- Value After DLOM: ${formatCurrency(weighting.valueAfterDlom)}` : ""}
-${weighting?.perShareValue ? `- Per Share Value: $${weighting.perShareValue.toFixed(4)}` : ""}
+${weighting?.valueAfterDlom ? `- Value After DLOM: ${formatCurrency(weighting.valueAfterDlom, currency)}` : ""}
+${weighting?.perShareValue ? `- Per Share Value: ${currencySymbol(currency)}${weighting.perShareValue.toFixed(4)}` : ""}
 `;
 
+  if (detailed?.equityBridge) {
+    prompt += formatEquityBridge(detailed.equityBridge, currency);
+  }
+
+  prompt += formatExhibitNotes(context?.exhibits, "conclusion");
+
   if (context?.qualitativeContext) {
     prompt += `
 ANALYST QUALITATIVE CONTEXT:
@@ -415,7 +687,7 @@ PARAGRAPH 1 - Weighting Rationale:
 PARAGRAPH 2 - Concluded Value:
 - Show the weighted average calculation
 - State the concluded enterprise value
-- Note adjustments for net debt/cash position
+- Walk from enterprise value to equity value using the ENTERPRISE TO EQUITY BRIDGE above if provided (cash, debt, debt-like items, non-operating assets); otherwise note adjustments for net debt/cash position
 - State the concluded equity value on a marketable basis
 - If DLOM is applied, note it here (the DLOM section itself is templated, but reference the concluded marketable value before DLOM)
 - State the final concluded value and per-share value if applicable
@@ -425,6 +697,112 @@ Be specific with numbers. Reference the actual indicated values and weights from
   return prompt;
 }
 
+/**
+ * Format one side of a rollforward figure
+ */
+function formatMetricValue(change: MetricChange, value: number | null, currency?: string): string {
+  if (value === null) return "[N/A]";
+  switch (change.format) {
+    case "currency": return formatCurrency(value, currency);
+    case "price": return formatCurrencyPrice(value, currency);
+    case "percent": return formatPercent(value);
+    case "multiple": return formatMultiple(value);
+    case "years": return `${value.toFixed(2)} years`;
+  }
+}
+
+/**
+ * Describe the movement in a rollforward figure, e.g. "+12.5%" or "+5.0 pts"
+ */
+function formatMetricMovement(change: MetricChange): string {
+  if (change.change === null) return change.prior === null ? "new this period" : "not in current model";
+  if (change.format === "percent") {
+    const points = change.change * 100;
+    return `${points >= 0 ? "+" : ""}${points.toFixed(1)} pts`;
+  }
+  if (change.percentChange === null) return "n/m";
+  const percent = change.percentChange * 100;
+  return `${percent >= 0 ? "+" : ""}${percent.toFixed(1)}%`;
+}
+
+/**
+ * Format a comparable set change for the prompt
+ */
+function formatSetChange(label: string, change: ComparableSetChange): string {
+  if (change.added.length + change.removed.length + change.retained.length === 0) return "";
+  return `
+${label}:
+- Retained (${change.retained.length}): ${change.retained.join(", ") || "None"}
+- Added (${change.added.length}): ${change.added.join(", ") || "None"}
+- Removed (${change.removed.length}): ${change.removed.join(", ") || "None"}
+`;
+}
+
+/**
+ * Build prompt for the Changes Since Prior Valuation section
+ * Explains the drivers of the change between the prior and current model
+ */
+export function buildRollforwardPrompt(
+  diff: ModelDiff,
+  context?: ExtendedNarrativeContext
+): string {
+  const currency = diff.currency;
+
+  let prompt = `Write 2-3 paragraphs for the "Changes Since Prior Valuation" section, explaining what drove the change in value since the prior valuation.
+
+SUBJECT COMPANY:
+- Company Name: ${context?.companyName || "[Company Name]"}
+- Current Valuation Date: ${context?.valuationDate || diff.currentValuationDate || "[Valuation Date]"}
+- Prior Valuation Date: ${diff.priorValuationDate ? new Date(diff.priorValuationDate).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }) : "[Not Available]"}
+${diff.monthsElapsed !== null ? `- Time Elapsed: ${diff.monthsElapsed} months` : ""}
+${diff.priorCurrency ? `- NOTE: The prior model was in ${diff.priorCurrency}; amounts are not directly comparable` : ""}
+
+KEY FIGURES (prior → current):
+`;
+
+  for (const change of diff.metrics) {
+    prompt += `- ${change.label}: ${formatMetricValue(change, change.prior, diff.priorCurrency ?? currency)} → ${formatMetricValue(change, change.current, currency)} (${formatMetricMovement(change)})
+`;
+  }
+
+  if (diff.weights.length > 0) {
+    prompt += `
+APPROACH WEIGHTING (prior → current):
+`;
+    for (const weight of diff.weights) {
+      prompt += `- ${weight.name}: weight ${formatPercent(weight.priorWeight)} → ${formatPercent(weight.currentWeight)}; indicated value ${formatCurrency(weight.priorValue, diff.priorCurrency ?? currency)} → ${formatCurrency(weight.currentValue, currency)}
+`;
+    }
+  }
+
+  prompt += formatSetChange("GUIDELINE PUBLIC COMPANIES", diff.guidelineCompanies);
+  prompt += formatSetChange("GUIDELINE TRANSACTIONS", diff.guidelineTransactions);
+
+  if (context?.qualitativeContext) {
+    prompt += `
+ANALYST QUALITATIVE CONTEXT:
+${context.qualitativeContext}
+`;
+  }
+
+  prompt += `
+PARAGRAPH 1 - Change in Value:
+- State the prior and current concluded value and per-share value, and the change in each
+- Note the time elapsed between the valuation dates
+
+PARAGRAPH 2 - Drivers:
+- Attribute the change to the figures above: company performance (revenue, EBITDA), market multiples, discount rate, weighting changes and the DLOM
+- Explain changes to the comparable set and approach weights, citing added or removed companies by name
+- Use the analyst context for events between the valuations (financings, milestones, market conditions); do not invent events
+
+PARAGRAPH 3 (only if relevant) - Marketability and Volatility:
+- Explain changes in volatility, time to liquidity and the DLOM
+
+Only reference figures provided above. If a figure is only available for one period, say so rather than estimating it.`;
+
+  return prompt;
+}
+
 /**
  * Build a generic approach narrative prompt
  */
@@ -432,6 +810,7 @@ export function buildGenericApproachPrompt(
   data: ApproachData,
   context?: ExtendedNarrativeContext
 ): string {
+  const currency = context?.currency;
   let prompt = `Write a narrative section for the "${data.name}" valuation approach in a ${context?.reportType === "FOUR09A" ? "409A valuation" : "Gift & Estate valuation"} report.
 
 SUBJECT COMPANY:
@@ -439,7 +818,7 @@ SUBJECT COMPANY:
 - Valuation Date: ${context?.valuationDate || "[Valuation Date]"}
 
 APPROACH DETAILS:
-- Indicated Value: ${data.indicatedValue ? formatCurrency(data.indicatedValue) : "[Not Specified]"}
+- Indicated Value: ${data.indicatedValue ? formatCurrency(data.indicatedValue, currency) : "[Not Specified]"}
 - Weight Applied: ${data.weight ? formatPercent(data.weight) : "[Not Specified]"}
 `;
 
@@ -466,7 +845,7 @@ Reference specific values where available.`;
  * Note: Backsolve/OPM uses templated language, not AI-generated
  */
 export function canGenerateApproachSection(
-  approachType: 'gpc' | 'gtm' | 'income',
+  approachType: 'gpc' | 'gtm' | 'income' | 'pwerm',
   detailedData?: DetailedModelData
 ): { canGenerate: boolean; reason: string } {
   if (!detailedData) {
@@ -492,6 +871,12 @@ export function canGenerateApproachSection(
       }
       return { canGenerate: false, reason: 'No DCF/income approach data extracted' };
     
+    case 'pwerm':
+      if (detailedData.pwermData?.scenarios.length) {
+        return { canGenerate: true, reason: `${detailedData.pwermData.scenarios.length} PWERM scenarios found` };
+      }
+      return { canGenerate: false, reason: 'No PWERM scenarios extracted' };
+    
     default:
       return { canGenerate: false, reason: 'Unknown approach type' };
   }
@@ -540,6 +925,11 @@ export function getDataAvailabilitySummary(detailedData?: DetailedModelData): st
     summary.push('⚠️ No DCF/income approach data found');
   }
 
+  // PWERM
+  if (detailedData.pwermData?.scenarios.length) {
+    summary.push(`✓ PWERM: ${detailedData.pwermData.scenarios.length} scenarios${detailedData.pwermData.isHybrid ? ' (hybrid)' : ''}`);
+  }
+
   // Note: Backsolve/OPM uses templated language, not AI-generated
 
   // Weighting
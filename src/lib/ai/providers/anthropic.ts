@@ -0,0 +1,69 @@
+/**
+ * Anthropic Provider
+ * Serves completions from the Claude Messages API
+ */
+
+import type Anthropic from "@anthropic-ai/sdk";
+import { getAnthropicClient } from "../client";
+import { DEFAULT_MODEL_CONFIG } from "@/types/ai";
+import type { GenerateResponse, LLMProvider, LLMRequest } from "@/types/ai";
+
+/**
+ * Create a provider backed by the Anthropic API
+ * The model can be overridden with ANTHROPIC_MODEL; SDK errors are thrown as-is
+ * so callers' retry logic can read their status and headers
+ */
+export function createAnthropicProvider(): LLMProvider {
+  const model = process.env.ANTHROPIC_MODEL || DEFAULT_MODEL_CONFIG.model;
+
+  return {
+    name: "anthropic",
+    model,
+    async complete(request: LLMRequest): Promise<GenerateResponse> {
+      const client = getAnthropicClient();
+
+      const content: Anthropic.MessageParam["content"] = request.pdfBase64
+        ? [
+          {
+            type: "document",
+            source: {
+              type: "base64",
+              media_type: "application/pdf",
+              data: request.pdfBase64,
+            },
+          },
+          {
+            type: "text",
+            text: request.prompt,
+          },
+        ]
+        : request.prompt;
+
+      const response = await client.messages.create({
+        model,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        system: request.systemPrompt,
+        messages: [{ role: "user", content }],
+        ...(request.stopSequences && { stop_sequences: request.stopSequences }),
+      });
+
+      // Extract text from response
+      const textContent = response.content.find(
+        (block): block is Anthropic.TextBlock => block.type === "text"
+      );
+      if (!textContent) {
+        throw new Error("No text content in response");
+      }
+
+      return {
+        text: textContent.text,
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+        },
+        stopReason: response.stop_reason,
+      };
+    },
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Fixture Provider
+ * Replays recorded responses from disk so the pipeline runs with no network:
+ * for demos, development and regression checks. Requests without a recording
+ * get a deterministic templated response shaped like what the prompt asks for
+ */
+
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import type { GenerateResponse, LLMProvider, LLMRequest } from "@/types/ai";
+
+const DEFAULT_FIXTURE_DIR = "./fixtures/ai";
+
+// Prompt text saved beside a recording so fixtures can be found by eye
+const PROMPT_PREVIEW_LENGTH = 500;
+
+interface FixtureFile {
+  request: {
+    systemPrompt: string | null;
+    promptPreview: string;
+    hasDocument: boolean;
+  };
+  response: GenerateResponse;
+}
+
+/**
+ * Directory fixtures are read from and recorded to
+ */
+export function getFixtureDir(): string {
+  return path.resolve(process.env.AI_FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+}
+
+/**
+ * Stable key for a request: the same prompt, system prompt and document
+ * always replay the same fixture
+ */
+export function fixtureKey(request: LLMRequest): string {
+  return createHash("sha256")
+    .update(JSON.stringify({
+      systemPrompt: request.systemPrompt ?? null,
+      prompt: request.prompt,
+      document: request.pdfBase64 ? createHash("sha256").update(request.pdfBase64).digest("hex") : null,
+    }))
+    .digest("hex")
+    .slice(0, 24);
+}
+
+/**
+ * Save a live response so the fixture provider can replay it
+ */
+export function recordFixture(request: LLMRequest, response: GenerateResponse): void {
+  const dir = getFixtureDir();
+  mkdirSync(dir, { recursive: true });
+
+  const fixture: FixtureFile = {
+    request: {
+      systemPrompt: request.systemPrompt ?? null,
+      promptPreview: request.prompt.slice(0, PROMPT_PREVIEW_LENGTH),
+      hasDocument: Boolean(request.pdfBase64),
+    },
+    response,
+  };
+  writeFileSync(path.join(dir, `${fixtureKey(request)}.json`), JSON.stringify(fixture, null, 2));
+}
+
+/**
+ * Wrap a provider so every response it returns is recorded as a fixture
+ */
+export function withFixtureRecording(provider: LLMProvider): LLMProvider {
+  return {
+    ...provider,
+    async complete(request: LLMRequest): Promise<GenerateResponse> {
+      const response = await provider.complete(request);
+      try {
+        recordFixture(request, response);
+      } catch (error) {
+        console.warn("Could not record AI fixture:", error);
+      }
+      return response;
+    },
+  };
+}
+
+/**
+ * Sample JSON object in the prompt ("...with the following structure: { ... }")
+ * Its placeholder values make a response with the shape the caller parses
+ */
+function findJsonTemplate(prompt: string): Record<string, unknown> | null {
+  const lines = prompt.split("\n");
+  const start = lines.findIndex(line => line.trim() === "{");
+  if (start === -1) return null;
+
+  for (let end = start + 1; end < lines.length; end++) {
+    if (lines[end].trim() !== "}") continue;
+    try {
+      const parsed = JSON.parse(lines.slice(start, end + 1).join("\n"));
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // Keep looking for a closing brace that completes valid JSON
+    }
+  }
+  return null;
+}
+
+/**
+ * Placeholder prose for a templated response, long enough to pass section validation
+ */
+function templatedText(subject: string): string {
+  return [
+    `[Offline response for ${subject}.] This text was produced by the fixture provider because no recorded response matches this request.`,
+    "It stands in for AI-generated content so the rest of the pipeline can run without network access. Record a fixture with AI_RECORD_FIXTURES=true to replay real output for this prompt.",
+  ].join("\n\n");
+}
+
+/**
+ * Deterministic response for a request without a recording
+ * JSON requests get an object with the keys the prompt asks for; others get prose
+ */
+function templatedResponse(request: LLMRequest): string {
+  const wantsJson = /respond only (?:with|in) valid json/i.test(`${request.systemPrompt ?? ""}\n${request.prompt}`);
+
+  if (wantsJson) {
+    // Single-pass PDF analysis lists its section keys
+    const keyList = request.prompt.match(/exactly these keys: ([^\n]+?)\.\s*$/m);
+    if (keyList) {
+      const keys = Array.from(keyList[1].matchAll(/"([^"]+)"/g), match => match[1]);
+      return JSON.stringify(Object.fromEntries(keys.map(key => [key, templatedText(key)])));
+    }
+
+    const template = findJsonTemplate(request.prompt);
+    if (template) {
+      return JSON.stringify(template);
+    }
+  }
+
+  const firstLine = request.prompt.trim().split("\n")[0].slice(0, 80);
+  return templatedText(`"${firstLine}"`);
+}
+
+/**
+ * Create a provider that replays fixtures, falling back to templated responses
+ */
+export function createFixtureProvider(): LLMProvider {
+  return {
+    name: "fixture",
+    model: "fixture",
+    async complete(request: LLMRequest): Promise<GenerateResponse> {
+      const file = path.join(getFixtureDir(), `${fixtureKey(request)}.json`);
+
+      if (existsSync(file)) {
+        const fixture = JSON.parse(readFileSync(file, "utf-8")) as FixtureFile;
+        return fixture.response;
+      }
+
+      const text = templatedResponse(request);
+      return {
+        text,
+        usage: {
+          inputTokens: Math.ceil((request.prompt.length + (request.systemPrompt?.length ?? 0)) / 4),
+          outputTokens: Math.ceil(text.length / 4),
+        },
+        stopReason: "end_turn",
+      };
+    },
+  };
+}
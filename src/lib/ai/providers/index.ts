@@ -0,0 +1,54 @@
+/**
+ * LLM Provider Selection
+ * AI_PROVIDER picks the backend: "anthropic" (default) or "fixture" for offline runs.
+ * AI_RECORD_FIXTURES=true records live responses for later replay
+ */
+
+import { createAnthropicProvider } from "./anthropic";
+import { createFixtureProvider, withFixtureRecording } from "./fixture";
+import type { LLMProvider, LLMProviderName } from "@/types/ai";
+
+// Cache the provider instance
+let providerInstance: LLMProvider | null = null;
+
+/**
+ * Configured provider name
+ */
+export function getProviderName(): LLMProviderName {
+  return process.env.AI_PROVIDER === "fixture" ? "fixture" : "anthropic";
+}
+
+/**
+ * Get or create the configured provider
+ */
+export function getLLMProvider(): LLMProvider {
+  if (providerInstance) {
+    return providerInstance;
+  }
+
+  if (getProviderName() === "fixture") {
+    providerInstance = createFixtureProvider();
+  } else {
+    const provider = createAnthropicProvider();
+    providerInstance = process.env.AI_RECORD_FIXTURES === "true" ? withFixtureRecording(provider) : provider;
+  }
+
+  console.log(`Using ${providerInstance.name} AI provider (${providerInstance.model})`);
+  return providerInstance;
+}
+
+/**
+ * Use a specific provider, or reset to the configured one with null
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  providerInstance = provider;
+}
+
+export { createAnthropicProvider } from "./anthropic";
+export {
+  createFixtureProvider,
+  withFixtureRecording,
+  recordFixture,
+  fixtureKey,
+  getFixtureDir,
+} from "./fixture";
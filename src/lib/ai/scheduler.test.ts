@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { AIScheduler, estimateCallCost, getCallPriority, type SchedulerLimits } from "./scheduler";
+import type { AIPriority } from "@/types/ai";
+
+// The scheduler imports the usage ledger for completeRequest; these tests never write to it
+vi.mock("@/lib/db/prisma", () => ({ default: {} }));
+
+const LIMITS: SchedulerLimits = {
+  requestsPerMinute: 100,
+  inputTokensPerMinute: 100_000,
+  outputTokensPerMinute: 100_000,
+  maxConcurrent: 10,
+};
+
+const SMALL_CALL = { requests: 1, inputTokens: 100, outputTokens: 100 };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/**
+ * Queue calls and record the order they start in
+ */
+function queueCalls(scheduler: AIScheduler, calls: { name: string; priority?: AIPriority; cost?: typeof SMALL_CALL }[]) {
+  const started: string[] = [];
+  for (const { name, priority = "normal", cost = SMALL_CALL } of calls) {
+    void scheduler.acquire(cost, priority).then(() => started.push(name));
+  }
+  return started;
+}
+
+describe("AIScheduler", () => {
+  it("holds calls beyond the concurrency limit until a slot frees", async () => {
+    const scheduler = new AIScheduler({ ...LIMITS, maxConcurrent: 2 });
+    const started = queueCalls(scheduler, [{ name: "a" }, { name: "b" }, { name: "c" }]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(["a", "b"]);
+    expect(scheduler.queued).toBe(1);
+
+    scheduler.finish(SMALL_CALL, { inputTokens: 100, outputTokens: 100 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(["a", "b", "c"]);
+  });
+
+  it("starts waiting calls in priority order, then in arrival order", async () => {
+    const scheduler = new AIScheduler({ ...LIMITS, maxConcurrent: 1 });
+    const started = queueCalls(scheduler, [
+      { name: "running" },
+      { name: "low", priority: "low" },
+      { name: "normal-1" },
+      { name: "high", priority: "high" },
+      { name: "normal-2" },
+    ]);
+
+    for (let i = 0; i < 5; i++) {
+      await vi.advanceTimersByTimeAsync(0);
+      scheduler.finish(SMALL_CALL, null);
+    }
+    expect(started).toEqual(["running", "high", "normal-1", "normal-2", "low"]);
+  });
+
+  it("waits for the request bucket to refill", async () => {
+    const scheduler = new AIScheduler({ ...LIMITS, requestsPerMinute: 2 });
+    const started = queueCalls(scheduler, [{ name: "a" }, { name: "b" }, { name: "c" }]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(["a", "b"]);
+
+    // One request refills every 30 seconds at 2 per minute
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(started).toEqual(["a", "b"]);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(started).toEqual(["a", "b", "c"]);
+  });
+
+  it("refunds reserved output tokens the call didn't use", async () => {
+    const scheduler = new AIScheduler({ ...LIMITS, outputTokensPerMinute: 1_000 });
+    const reserved = { requests: 1, inputTokens: 100, outputTokens: 1_000 };
+    const started = queueCalls(scheduler, [
+      { name: "a", cost: reserved },
+      { name: "b", cost: { ...reserved, outputTokens: 500 } },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(["a"]);
+
+    scheduler.finish(reserved, { inputTokens: 100, outputTokens: 200 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(["a", "b"]);
+  });
+
+  it("lets an oversized call through on a full bucket and slows the next one", async () => {
+    const scheduler = new AIScheduler({ ...LIMITS, inputTokensPerMinute: 10_000 });
+    const started = queueCalls(scheduler, [
+      { name: "oversized", cost: { ...SMALL_CALL, inputTokens: 15_000 } },
+      { name: "next", cost: { ...SMALL_CALL, inputTokens: 5_000 } },
+    ]);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual(["oversized"]);
+
+    // The bucket is 5,000 in debt and needs 10,000 to cover the next call: a full minute
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(started).toEqual(["oversized"]);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(started).toEqual(["oversized", "next"]);
+  });
+
+  it("holds every call while paused for a rate limit", async () => {
+    const scheduler = new AIScheduler(LIMITS);
+    scheduler.pause(5_000);
+    const started = queueCalls(scheduler, [{ name: "a" }, { name: "b", priority: "high" }]);
+
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(started).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(["b", "a"]);
+  });
+});
+
+describe("estimateCallCost", () => {
+  it("estimates input from the prompt and PDF and reserves maxTokens of output", () => {
+    expect(estimateCallCost({ prompt: "x".repeat(4_000), systemPrompt: "y".repeat(400), maxTokens: 2_000 })).toEqual({
+      requests: 1,
+      inputTokens: 1_100,
+      outputTokens: 2_000,
+    });
+    // 40,000 base64 characters decode to 30,000 bytes
+    expect(estimateCallCost({ prompt: "", pdfBase64: "A".repeat(40_000), maxTokens: 100 }).inputTokens).toBe(1_500);
+  });
+});
+
+describe("getCallPriority", () => {
+  it("prefers an explicit priority, then the section's, then whether a user is waiting", () => {
+    expect(getCallPriority({ engagementId: "e1", section: "pdfAnalysis", priority: "low" })).toBe("low");
+    expect(getCallPriority({ engagementId: "e1", section: "pdfAnalysis" })).toBe("high");
+    expect(getCallPriority({ engagementId: "e1", section: "priorValuationChanges" })).toBe("low");
+    expect(getCallPriority({ engagementId: "e1", section: "companyOverview" })).toBe("normal");
+    expect(getCallPriority({})).toBe("high");
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * AI Call Scheduler
+ * Process-wide gate every AI call passes through, so concurrent generation jobs
+ * share the API's rate limits instead of each backing off on its own.
+ *
+ * Requests, input tokens and output tokens per minute are each a token bucket
+ * that refills continuously. A call waits until every bucket can cover it and a
+ * concurrency slot is free; waiting calls start in priority order. A 429 pauses
+ * all calls until its retry-after has passed
+ */
+
+import { getLLMProvider } from "./providers";
+import { recordUsage, recordFailure, getUsageContext } from "./usage";
+import { AIError, parseAnthropicError, delay, getBackoffDelay } from "./errors";
+import type { AIPriority, AIUsageContext, GenerateResponse, LLMRequest } from "@/types/ai";
+
+const MAX_ATTEMPTS = 3;
+const MINUTE_MS = 60_000;
+
+// Anthropic's tier 1 limits for Sonnet; raise them to match the organization's tier
+const DEFAULT_REQUESTS_PER_MINUTE = 50;
+const DEFAULT_INPUT_TOKENS_PER_MINUTE = 30_000;
+const DEFAULT_OUTPUT_TOKENS_PER_MINUTE = 8_000;
+const DEFAULT_MAX_CONCURRENT = 4;
+
+// Rough token counts for estimating a request before it is sent; the buckets
+// are corrected with the real usage once the response arrives
+const CHARS_PER_TOKEN = 4;
+const PDF_BYTES_PER_TOKEN = 20;
+
+// Lower runs first
+const PRIORITY_ORDER: Record<AIPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+// Sections other calls wait on go first; the rollforward narrative is optional
+const SECTION_PRIORITIES: Record<string, AIPriority> = {
+  pdfAnalysis: "high",
+  priorValuationChanges: "low",
+};
+
+export interface SchedulerLimits {
+  requestsPerMinute: number;
+  inputTokensPerMinute: number;
+  outputTokensPerMinute: number;
+  maxConcurrent: number;
+}
+
+// What a call takes from each bucket
+interface CallCost {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+interface Waiter {
+  priority: number;
+  sequence: number;
+  cost: CallCost;
+  start: () => void;
+}
+
+/**
+ * A per-minute budget that refills continuously
+ * A cost larger than the whole budget is let through once the bucket is full,
+ * leaving it in debt, so oversized calls are slowed rather than blocked forever
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly capacity: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Milliseconds until `amount` can be taken, 0 if it can now
+   */
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity) - this.tokens;
+    return needed <= 0 ? 0 : Math.ceil((needed / this.capacity) * MINUTE_MS);
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.tokens -= amount;
+  }
+
+  give(amount: number): void {
+    this.refill();
+    this.tokens = Math.min(this.capacity, this.tokens + amount);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / MINUTE_MS) * this.capacity);
+    this.lastRefill = now;
+  }
+}
+
+/**
+ * Shared rate limiter and concurrency gate
+ */
+export class AIScheduler {
+  private readonly requests: TokenBucket;
+  private readonly inputTokens: TokenBucket;
+  private readonly outputTokens: TokenBucket;
+  private readonly maxConcurrent: number;
+  private readonly waiting: Waiter[] = [];
+  private running = 0;
+  private sequence = 0;
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(limits: SchedulerLimits) {
+    this.requests = new TokenBucket(limits.requestsPerMinute);
+    this.inputTokens = new TokenBucket(limits.inputTokensPerMinute);
+    this.outputTokens = new TokenBucket(limits.outputTokensPerMinute);
+    this.maxConcurrent = limits.maxConcurrent;
+  }
+
+  /**
+   * Wait for the budget and a free slot, then take them
+   * Call finish() with the real usage (or null on failure) when the call is done
+   */
+  acquire(cost: CallCost, priority: AIPriority): Promise<void> {
+    return new Promise(resolve => {
+      this.waiting.push({
+        priority: PRIORITY_ORDER[priority],
+        sequence: this.sequence++,
+        cost,
+        start: resolve,
+      });
+      this.waiting.sort((a, b) => a.priority - b.priority || a.sequence - b.sequence);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Free the call's slot and correct the token buckets with what it really used
+   * A failed call keeps its request but gives its tokens back
+   */
+  finish(reserved: CallCost, usage: GenerateResponse["usage"] | null): void {
+    this.running--;
+
+    const inputDelta = reserved.inputTokens - (usage?.inputTokens ?? 0);
+    if (inputDelta > 0) this.inputTokens.give(inputDelta);
+    else this.inputTokens.take(-inputDelta);
+
+    const outputDelta = reserved.outputTokens - (usage?.outputTokens ?? 0);
+    if (outputDelta > 0) this.outputTokens.give(outputDelta);
+    else this.outputTokens.take(-outputDelta);
+
+    this.dispatch();
+  }
+
+  /**
+   * Hold every call until the API's retry-after has passed
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.dispatch();
+  }
+
+  /**
+   * Calls waiting for budget or a slot
+   */
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Start waiting calls in priority order while budget and slots allow
+   * Only the head of the queue may start, so small calls can't starve a large one
+   */
+  private dispatch(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.waiting.length > 0 && this.running < this.maxConcurrent) {
+      const head = this.waiting[0];
+      const wait = Math.max(
+        this.pausedUntil - Date.now(),
+        this.requests.waitTime(head.cost.requests),
+        this.inputTokens.waitTime(head.cost.inputTokens),
+        this.outputTokens.waitTime(head.cost.outputTokens)
+      );
+
+      if (wait > 0) {
+        this.timer = setTimeout(() => this.dispatch(), wait);
+        return;
+      }
+
+      this.waiting.shift();
+      this.requests.take(head.cost.requests);
+      this.inputTokens.take(head.cost.inputTokens);
+      this.outputTokens.take(head.cost.outputTokens);
+      this.running++;
+      head.start();
+    }
+  }
+}
+
+const globalForScheduler = globalThis as unknown as { aiScheduler: AIScheduler | undefined };
+
+/**
+ * Limits from the environment (AI_REQUESTS_PER_MINUTE, AI_INPUT_TOKENS_PER_MINUTE,
+ * AI_OUTPUT_TOKENS_PER_MINUTE, AI_MAX_CONCURRENT_REQUESTS)
+ */
+export function getSchedulerLimits(): SchedulerLimits {
+  return {
+    requestsPerMinute: readLimit("AI_REQUESTS_PER_MINUTE", DEFAULT_REQUESTS_PER_MINUTE),
+    inputTokensPerMinute: readLimit("AI_INPUT_TOKENS_PER_MINUTE", DEFAULT_INPUT_TOKENS_PER_MINUTE),
+    outputTokensPerMinute: readLimit("AI_OUTPUT_TOKENS_PER_MINUTE", DEFAULT_OUTPUT_TOKENS_PER_MINUTE),
+    maxConcurrent: readLimit("AI_MAX_CONCURRENT_REQUESTS", DEFAULT_MAX_CONCURRENT),
+  };
+}
+
+/**
+ * The process-wide scheduler, kept on globalThis so every route and job shares it
+ */
+export function getAIScheduler(): AIScheduler {
+  if (!globalForScheduler.aiScheduler) {
+    globalForScheduler.aiScheduler = new AIScheduler(getSchedulerLimits());
+  }
+  return globalForScheduler.aiScheduler;
+}
+
+/**
+ * Estimate what a request takes from each bucket before it is sent
+ * Output is reserved at maxTokens and refunded once the real count is known
+ */
+export function estimateCallCost(request: LLMRequest): CallCost {
+  const textChars = request.prompt.length + (request.systemPrompt?.length ?? 0);
+  const pdfBytes = request.pdfBase64 ? (request.pdfBase64.length * 3) / 4 : 0;
+
+  return {
+    requests: 1,
+    inputTokens: Math.ceil(textChars / CHARS_PER_TOKEN + pdfBytes / PDF_BYTES_PER_TOKEN),
+    outputTokens: request.maxTokens,
+  };
+}
+
+/**
+ * Priority of a call from the context it runs in: an explicit priority, then its
+ * section's, and calls outside a generation run (someone is waiting on them) go first
+ */
+export function getCallPriority(context: AIUsageContext): AIPriority {
+  if (context.priority) return context.priority;
+  if (context.section && SECTION_PRIORITIES[context.section]) return SECTION_PRIORITIES[context.section];
+  return context.engagementId ? "normal" : "high";
+}
+
+/**
+ * Send a request through the scheduler to the configured provider
+ * Retryable failures are retried; rate limits pause every call for their retry-after.
+ * The call is recorded in the usage ledger whether it succeeds or fails for good
+ */
+export async function completeRequest(request: LLMRequest): Promise<GenerateResponse> {
+  const provider = getLLMProvider();
+  const scheduler = getAIScheduler();
+  const priority = getCallPriority(getUsageContext());
+  const cost = estimateCallCost(request);
+
+  let lastError: AIError | null = null;
+  let latencyMs = 0;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    await scheduler.acquire(cost, priority);
+
+    const callStart = Date.now();
+    let response: GenerateResponse;
+    try {
+      response = await provider.complete(request);
+    } catch (error) {
+      scheduler.finish(cost, null);
+      latencyMs = Date.now() - callStart;
+      lastError = parseAnthropicError(error);
+
+      console.error(`AI call attempt ${attempt + 1}/${MAX_ATTEMPTS} failed:`, {
+        type: lastError.type,
+        message: lastError.message,
+        retryable: lastError.retryable,
+      });
+
+      if (!lastError.retryable) {
+        await recordFailure(provider, lastError.type, latencyMs, attempt);
+        throw lastError;
+      }
+
+      if (lastError.type === "rate_limit") {
+        // Every queued call waits, not just this one
+        const retryAfterMs = (lastError.retryAfter ?? 60) * 1000;
+        console.log(`Rate limited - pausing AI calls for ${retryAfterMs / 1000}s`);
+        scheduler.pause(retryAfterMs);
+      } else if (attempt < MAX_ATTEMPTS - 1) {
+        const backoffDelay = getBackoffDelay(attempt);
+        console.log(`Retrying in ${backoffDelay}ms...`);
+        await delay(backoffDelay);
+      }
+      continue;
+    }
+
+    scheduler.finish(cost, response.usage);
+    await recordUsage(provider, response, Date.now() - callStart, attempt);
+    return response;
+  }
+
+  const finalError = lastError || new AIError({
+    type: "unknown",
+    message: "All retry attempts failed",
+    retryable: false,
+  });
+  await recordFailure(provider, finalError.type, latencyMs, MAX_ATTEMPTS - 1);
+  throw finalError;
+}
+
+/**
+ * Helper: Positive whole number from the environment, or the default
+ */
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
@@ -0,0 +1,113 @@
+/**
+ * AI Usage Ledger
+ * Records every AI call with its tokens, latency, retries and cost so spend can be
+ * billed per engagement and budgeted by month. The engagement and section a call
+ * belongs to are set with withUsageContext around the code that makes it
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import prisma from "@/lib/db/prisma";
+import { DEFAULT_MODEL_CONFIG } from "@/types/ai";
+import type { AIErrorType, AIUsageContext, GenerateResponse, LLMProvider, ModelPricing } from "@/types/ai";
+
+// USD per million tokens, from the Anthropic price list
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "claude-sonnet-4-20250514": { input: 3, output: 15 },
+  "claude-3-7-sonnet-20250219": { input: 3, output: 15 },
+  "claude-3-5-sonnet-20241022": { input: 3, output: 15 },
+  "claude-opus-4-20250514": { input: 15, output: 75 },
+  "claude-3-5-haiku-20241022": { input: 0.8, output: 4 },
+};
+
+const usageContext = new AsyncLocalStorage<AIUsageContext>();
+
+/**
+ * Run `fn` with AI calls billed to the given context
+ * Fields not given are inherited, so a section can be set inside an engagement's run
+ */
+export function withUsageContext<T>(context: AIUsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn);
+}
+
+/**
+ * Context the current AI call is billed to
+ */
+export function getUsageContext(): AIUsageContext {
+  return usageContext.getStore() ?? {};
+}
+
+/**
+ * Price of a model's tokens; models missing from the price list are charged
+ * at the default model's rate rather than recorded as free
+ */
+export function getModelPricing(model: string): ModelPricing {
+  return MODEL_PRICING[model] ?? MODEL_PRICING[DEFAULT_MODEL_CONFIG.model];
+}
+
+/**
+ * Cost of a call in USD
+ */
+export function calculateCost(model: string, usage: GenerateResponse["usage"]): number {
+  const pricing = getModelPricing(model);
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Add a completed call to the ledger
+ * Fixture responses cost nothing
+ */
+export async function recordUsage(
+  provider: LLMProvider,
+  response: GenerateResponse,
+  latencyMs: number,
+  retryCount: number
+): Promise<void> {
+  await writeLedgerRow(provider, response.usage, latencyMs, retryCount, null);
+}
+
+/**
+ * Add a call that failed for good to the ledger, with no tokens and the error type
+ */
+export async function recordFailure(
+  provider: LLMProvider,
+  errorType: AIErrorType,
+  latencyMs: number,
+  retryCount: number
+): Promise<void> {
+  await writeLedgerRow(provider, { inputTokens: 0, outputTokens: 0 }, latencyMs, retryCount, errorType);
+}
+
+/**
+ * Helper: Write one ledger row for the current context
+ * A failed write is logged rather than failing the call
+ */
+async function writeLedgerRow(
+  provider: LLMProvider,
+  usage: GenerateResponse["usage"],
+  latencyMs: number,
+  retryCount: number,
+  errorType: AIErrorType | null
+): Promise<void> {
+  const context = getUsageContext();
+
+  try {
+    await prisma.aiUsage.create({
+      data: {
+        userId: context.userId ?? null,
+        engagementId: context.engagementId ?? null,
+        companyName: context.companyName ?? null,
+        section: context.section ?? null,
+        provider: provider.name,
+        model: provider.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        latencyMs: Math.round(latencyMs),
+        retryCount,
+        costUsd: provider.name === "fixture" ? 0 : calculateCost(provider.model, usage),
+        errorType,
+      },
+    });
+  } catch (error) {
+    console.warn("Could not record AI usage:", error);
+  }
+}
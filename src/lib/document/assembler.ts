@@ -10,6 +10,7 @@ import {
   createHeading,
   createParagraph,
   createPlaceholder,
+  createParagraphWithPlaceholders,
   createFlaggedContent,
   generateDocumentBuffer,
   createTable,
@@ -19,7 +20,16 @@ type DocumentChild = Paragraph | Table;
 import { addFootnotes } from "./footnotes";
 import { STORAGE_DIRS, generateFileName, saveFile } from "@/lib/storage";
 import type { Engagement } from "@prisma/client";
-import type { ReportContent, Flag } from "@/types/generation";
+import type { ReportContent, Flag, SectionContent } from "@/types/generation";
+import type { MultipleRange, AppliedMetric, CapTable, ShareClass, EquityBridge, DLOMAnalysis } from "@/types/excel";
+import type { ModelDiff, MetricChange, ComparableSetChange } from "@/types/rollforward";
+import { APPLIED_METRIC_LABELS, describeMultiplePosition } from "@/lib/excel/multipleAnalysis";
+import { currencySymbol, formatCurrencyAmount } from "@/lib/utils/currency";
+import {
+  EXTRACTION_RULE_LABELS,
+  formatCellReference,
+  formatProvenanceField,
+} from "@/lib/excel/provenance";
 import type { DocumentOptions, GeneratedDocument } from "@/types/document";
 
 /**
@@ -67,6 +77,14 @@ export async function assembleReport(
   sections.push(...createEconomicSection(content));
   sections.push(createSeparator());
 
+  // Capital Structure
+  const capTable = content.detailedData?.capTable;
+  if (capTable && (capTable.shareClasses.length > 0 || capTable.dilutiveSecurities.length > 0)) {
+    sections.push(createHeading("CAPITAL STRUCTURE", 1));
+    sections.push(...createCapTableSection(capTable, content.currency));
+    sections.push(createSeparator());
+  }
+
   // Valuation Analysis Sections
   for (const narrative of content.approachNarratives) {
     sections.push(createHeading(`VALUATION ANALYSIS - ${narrative.approachName.toUpperCase()}`, 1));
@@ -74,11 +92,32 @@ export async function assembleReport(
     sections.push(createSeparator());
   }
 
+  // OPM Backsolve (templated)
+  if (content.backsolveMethodology) {
+    sections.push(createHeading("VALUATION ANALYSIS - OPM BACKSOLVE", 1));
+    sections.push(...createBacksolveSection(content.backsolveMethodology, content));
+    sections.push(createSeparator());
+  }
+
+  // DLOM (templated)
+  if (content.dlomMethodology) {
+    sections.push(createHeading("DISCOUNT FOR LACK OF MARKETABILITY", 1));
+    sections.push(...createDLOMSection(content.dlomMethodology, content.detailedData?.dlomAnalysis));
+    sections.push(createSeparator());
+  }
+
   // Conclusion & Weighting
   sections.push(createHeading("CONCLUSION & WEIGHTING RATIONALE", 1));
   sections.push(...createConclusionSection(content));
   sections.push(createSeparator());
 
+  // Changes Since Prior Valuation
+  if (content.priorValuationChanges) {
+    sections.push(createHeading("CHANGES SINCE PRIOR VALUATION", 1));
+    sections.push(...createPriorValuationSection(content.priorValuationChanges.diff, content.priorValuationChanges.narrative));
+    sections.push(createSeparator());
+  }
+
   // Flags & Review Notes
   sections.push(createHeading("FLAGS & REVIEW NOTES", 1));
   sections.push(...createFlagsSection(content.flags, content));
@@ -212,6 +251,88 @@ function createEconomicSection(content: ReportContent): DocumentChild[] {
   return sections;
 }
 
+/**
+ * Create capital structure section with share class and option/warrant tables
+ */
+function createCapTableSection(capTable: CapTable, currency?: string): DocumentChild[] {
+  const sections: DocumentChild[] = [];
+
+  if (capTable.shareClasses.length > 0) {
+    sections.push(createParagraph("Share Classes:", { bold: true, spacing: { after: 200 } }));
+    sections.push(createTable({
+      headers: ["Class", "Shares Outstanding", "Original Issue Price", "Liquidation Preference", "Participation", "Conversion Ratio"],
+      rows: capTable.shareClasses.map(c => ({
+        cells: [
+          { content: c.name },
+          { content: formatShares(c.sharesOutstanding), alignment: "right" as const },
+          { content: formatPrice(c.originalIssuePrice, currency), alignment: "right" as const },
+          { content: formatLiquidationPreference(c, currency), alignment: "right" as const },
+          { content: formatParticipation(c) },
+          { content: c.conversionRatio !== null ? `${c.conversionRatio.toFixed(2)}:1` : "-", alignment: "right" as const },
+        ],
+      })),
+      headerStyle: "bold" as const,
+    }));
+    sections.push(createParagraph("", { spacing: { before: 200 } }));
+  }
+
+  if (capTable.dilutiveSecurities.length > 0) {
+    sections.push(createParagraph("Options and Warrants:", { bold: true, spacing: { after: 200 } }));
+    sections.push(createTable({
+      headers: ["Security", "Quantity", "Strike Price"],
+      rows: capTable.dilutiveSecurities.map(s => ({
+        cells: [
+          { content: s.name },
+          { content: formatShares(s.quantity), alignment: "right" as const },
+          { content: formatPrice(s.strikePrice, currency), alignment: "right" as const },
+        ],
+      })),
+      headerStyle: "bold" as const,
+    }));
+    sections.push(createParagraph("", { spacing: { before: 200 } }));
+  }
+
+  if (capTable.totalFullyDilutedShares) {
+    sections.push(createParagraph(`Fully Diluted Shares: ${formatShares(capTable.totalFullyDilutedShares)}`, { bold: true }));
+  }
+
+  return sections;
+}
+
+/**
+ * Format a share count for display
+ */
+function formatShares(value: number | null): string {
+  return value !== null ? Math.round(value).toLocaleString("en-US") : "-";
+}
+
+/**
+ * Format a per-share price for display
+ */
+function formatPrice(value: number | null, currency?: string): string {
+  return value !== null ? `${currencySymbol(currency)}${value.toFixed(4).replace(/0{1,2}$/, "")}` : "-";
+}
+
+/**
+ * Format a liquidation preference as a multiple or amount
+ */
+function formatLiquidationPreference(shareClass: ShareClass, currency?: string): string {
+  if (shareClass.liquidationPreference !== null) return `${shareClass.liquidationPreference.toFixed(2)}x`;
+  if (shareClass.liquidationPreferenceAmount !== null) return formatCurrency(shareClass.liquidationPreferenceAmount, currency);
+  return shareClass.type === "common" ? "None" : "-";
+}
+
+/**
+ * Describe participation rights for a share class
+ */
+function formatParticipation(shareClass: ShareClass): string {
+  if (shareClass.participating === null) return shareClass.type === "common" ? "N/A" : "-";
+  if (!shareClass.participating) return "Non-participating";
+  return shareClass.participationCap !== null
+    ? `Participating (${shareClass.participationCap.toFixed(1)}x cap)`
+    : "Participating";
+}
+
 /**
  * Create valuation approach section with summary block
  */
@@ -246,6 +367,61 @@ function createApproachSection(
   return sections;
 }
 
+/**
+ * Create templated OPM backsolve section with summary block
+ */
+function createBacksolveSection(section: SectionContent, content: ReportContent): DocumentChild[] {
+  const sections: DocumentChild[] = section.content
+    .split("\n\n")
+    .filter((p) => p.trim())
+    .map((para) => createParagraphWithPlaceholders(para));
+
+  const summaryBlock = createApproachSummaryBlock("OPM Backsolve", content);
+  if (summaryBlock.length > 0) {
+    sections.push(createParagraph("", { spacing: { before: 200 } }));
+    sections.push(createParagraph("Summary:", { bold: true, spacing: { after: 100 } }));
+    sections.push(...summaryBlock);
+  }
+
+  return sections;
+}
+
+/**
+ * Create templated DLOM section with a method summary table
+ */
+function createDLOMSection(section: SectionContent, analysis?: DLOMAnalysis): DocumentChild[] {
+  const sections: DocumentChild[] = section.content
+    .split("\n\n")
+    .filter((p) => p.trim())
+    .map((para) => createParagraphWithPlaceholders(para));
+
+  if (analysis && analysis.methods.length > 0) {
+    const percent = (value: number | null) => (value !== null ? `${(value * 100).toFixed(1)}%` : "-");
+
+    sections.push(createParagraph("", { spacing: { before: 200 } }));
+    sections.push(createParagraph("DLOM Summary:", { bold: true, spacing: { after: 200 } }));
+    sections.push(createTable({
+      headers: ["Method", "Volatility", "Term (Years)", "Indicated DLOM", "Weight"],
+      rows: analysis.methods.map(m => ({
+        cells: [
+          { content: m.name },
+          { content: percent(m.volatility), alignment: "right" as const },
+          { content: m.term !== null ? m.term.toFixed(1) : "-", alignment: "right" as const },
+          { content: percent(m.indication), alignment: "right" as const },
+          { content: percent(m.weight), alignment: "right" as const },
+        ],
+      })),
+      headerStyle: "bold" as const,
+    }));
+    if (analysis.concludedDlom !== null) {
+      sections.push(createParagraph("", { spacing: { before: 200 } }));
+      sections.push(createParagraph(`Concluded DLOM: ${percent(analysis.concludedDlom)}`, { bold: true }));
+    }
+  }
+
+  return sections;
+}
+
 /**
  * Create summary block for an approach with actual extracted data
  */
@@ -253,6 +429,7 @@ function createApproachSummaryBlock(approachName: string, content?: ReportConten
   const blocks: DocumentChild[] = [];
   const nameLower = approachName.toLowerCase();
   const detailed = content?.detailedData;
+  const currency = content?.currency;
   
   if (!detailed) return blocks;
 
@@ -265,15 +442,22 @@ function createApproachSummaryBlock(approachName: string, content?: ReportConten
       ).join(', ');
       blocks.push(createParagraph(`• Guideline Companies: ${companyNames}`, { indent: { left: 360 } }));
       
-      const revMultiples = companies.map(c => c.revenueMultiple).filter((m): m is number => m != null);
-      if (revMultiples.length > 0) {
-        const min = Math.min(...revMultiples).toFixed(2);
-        const max = Math.max(...revMultiples).toFixed(2);
-        blocks.push(createParagraph(`• Revenue Multiple Range: ${min}x - ${max}x`, { indent: { left: 360 } }));
-      }
-      
-      if (detailed.companyFinancials?.revenue) {
-        blocks.push(createParagraph(`• Applied To: Revenue of ${formatCurrency(detailed.companyFinancials.revenue)}`, { indent: { left: 360 } }));
+      const analysis = detailed.gpcAnalysis;
+      if (analysis) {
+        blocks.push(...createMultipleStatsBlock("Revenue", analysis.revenueMultipleRange, analysis.selectedRevenueMultiple));
+        blocks.push(...createMultipleStatsBlock("EBITDA", analysis.ebitdaMultipleRange, analysis.selectedEbitdaMultiple));
+        blocks.push(...createAppliedMetricBlock(analysis.appliedMetric, analysis.appliedMetricValue, analysis.indicatedValue, currency));
+      } else {
+        const revMultiples = companies.map(c => c.revenueMultiple).filter((m): m is number => m != null);
+        if (revMultiples.length > 0) {
+          const min = Math.min(...revMultiples).toFixed(2);
+          const max = Math.max(...revMultiples).toFixed(2);
+          blocks.push(createParagraph(`• Revenue Multiple Range: ${min}x - ${max}x`, { indent: { left: 360 } }));
+        }
+        
+        if (detailed.companyFinancials?.revenue) {
+          blocks.push(createParagraph(`• Applied To: Revenue of ${formatCurrency(detailed.companyFinancials.revenue, currency)}`, { indent: { left: 360 } }));
+        }
       }
     }
   }
@@ -286,11 +470,18 @@ function createApproachSummaryBlock(approachName: string, content?: ReportConten
       const txNames = transactions.slice(0, 3).map(t => t.targetName).join(', ');
       blocks.push(createParagraph(`• Targets: ${txNames}`, { indent: { left: 360 } }));
       
-      const revMultiples = transactions.map(t => t.revenueMultiple).filter((m): m is number => m != null);
-      if (revMultiples.length > 0) {
-        const min = Math.min(...revMultiples).toFixed(2);
-        const max = Math.max(...revMultiples).toFixed(2);
-        blocks.push(createParagraph(`• Revenue Multiple Range: ${min}x - ${max}x`, { indent: { left: 360 } }));
+      const analysis = detailed.transactionAnalysis;
+      if (analysis) {
+        blocks.push(...createMultipleStatsBlock("Revenue", analysis.revenueMultipleRange, analysis.selectedRevenueMultiple));
+        blocks.push(...createMultipleStatsBlock("EBITDA", analysis.ebitdaMultipleRange, analysis.selectedEbitdaMultiple));
+        blocks.push(...createAppliedMetricBlock(analysis.appliedMetric, analysis.appliedMetricValue, analysis.indicatedValue, currency));
+      } else {
+        const revMultiples = transactions.map(t => t.revenueMultiple).filter((m): m is number => m != null);
+        if (revMultiples.length > 0) {
+          const min = Math.min(...revMultiples).toFixed(2);
+          const max = Math.max(...revMultiples).toFixed(2);
+          blocks.push(createParagraph(`• Revenue Multiple Range: ${min}x - ${max}x`, { indent: { left: 360 } }));
+        }
       }
     }
   }
@@ -306,11 +497,31 @@ function createApproachSummaryBlock(approachName: string, content?: ReportConten
         blocks.push(createParagraph(`• Terminal Growth Rate: ${(income.terminalGrowthRate * 100).toFixed(1)}%`, { indent: { left: 360 } }));
       }
       if (income.indicatedValue) {
-        blocks.push(createParagraph(`• Indicated Value: ${formatCurrency(income.indicatedValue)}`, { indent: { left: 360 } }));
+        blocks.push(createParagraph(`• Indicated Value: ${formatCurrency(income.indicatedValue, currency)}`, { indent: { left: 360 } }));
       }
     }
   }
 
+  // PWERM summary
+  if (nameLower.includes('pwerm') || nameLower.includes('probability')) {
+    const pwerm = detailed.pwerm;
+    if (pwerm) {
+      for (const scenario of pwerm.scenarios) {
+        const details = [
+          scenario.probability !== null ? `${(scenario.probability * 100).toFixed(0)}% probability` : null,
+          scenario.exitTiming !== null ? `exit in ${scenario.exitTiming.toFixed(1)} years` : null,
+          scenario.exitValue !== null ? `exit value of ${formatCurrency(scenario.exitValue, currency)}` : null,
+          scenario.discountRate !== null ? `${(scenario.discountRate * 100).toFixed(1)}% discount rate` : null,
+        ].filter(Boolean);
+        blocks.push(createParagraph(`• ${scenario.name}: ${details.length > 0 ? details.join(", ") : "[From model]"}`, { indent: { left: 360 } }));
+      }
+      if (pwerm.probabilityWeightedCommonValue !== null) {
+        blocks.push(createParagraph(`• Probability-Weighted Common Value: ${currencySymbol(currency)}${pwerm.probabilityWeightedCommonValue.toFixed(4)} per share`, { indent: { left: 360 } }));
+      }
+    }
+    return blocks;
+  }
+
   // Backsolve/OPM summary
   if (nameLower.includes('backsolve') || nameLower.includes('opm') || nameLower.includes('option')) {
     const backsolve = detailed.backsolve;
@@ -322,7 +533,7 @@ function createApproachSummaryBlock(approachName: string, content?: ReportConten
         blocks.push(createParagraph(`• Time to Liquidity: ${backsolve.timeToLiquidity.toFixed(1)} years`, { indent: { left: 360 } }));
       }
       if (backsolve.indicatedValue) {
-        blocks.push(createParagraph(`• Indicated Value: ${formatCurrency(backsolve.indicatedValue)}`, { indent: { left: 360 } }));
+        blocks.push(createParagraph(`• Indicated Value: ${formatCurrency(backsolve.indicatedValue, currency)}`, { indent: { left: 360 } }));
       }
     }
   }
@@ -331,16 +542,64 @@ function createApproachSummaryBlock(approachName: string, content?: ReportConten
 }
 
 /**
- * Format currency for display
+ * Create multiple range / selected multiple lines for a summary block
+ */
+function createMultipleStatsBlock(
+  metricLabel: string,
+  range: MultipleRange | null,
+  selected: number | null
+): DocumentChild[] {
+  if (!range) return [];
+
+  const blocks: DocumentChild[] = [
+    createParagraph(
+      `• ${metricLabel} Multiple Range: ${range.low.toFixed(2)}x - ${range.high.toFixed(2)}x (median ${range.median.toFixed(2)}x, mean ${range.mean.toFixed(2)}x, n=${range.count})`,
+      { indent: { left: 360 } }
+    ),
+    createParagraph(
+      `• ${metricLabel} Interquartile Range: ${range.percentile25.toFixed(2)}x - ${range.percentile75.toFixed(2)}x`,
+      { indent: { left: 360 } }
+    ),
+  ];
+
+  if (selected !== null) {
+    blocks.push(
+      createParagraph(
+        `• Selected ${metricLabel} Multiple: ${selected.toFixed(2)}x (${describeMultiplePosition(selected, range)})`,
+        { indent: { left: 360 } }
+      )
+    );
+  }
+
+  return blocks;
+}
+
+/**
+ * Create applied metric / indicated value lines for a summary block
  */
-function formatCurrency(value: number): string {
-  if (Math.abs(value) >= 1000000) {
-    return `$${(value / 1000000).toFixed(1)} million`;
+function createAppliedMetricBlock(
+  metric: AppliedMetric | null,
+  metricValue: number | null,
+  indicatedValue: number | null,
+  currency?: string
+): DocumentChild[] {
+  const blocks: DocumentChild[] = [];
+  if (metric) {
+    const valueText = metricValue !== null ? ` of ${formatCurrency(metricValue, currency)}` : "";
+    blocks.push(createParagraph(`• Applied To: ${APPLIED_METRIC_LABELS[metric]}${valueText}`, { indent: { left: 360 } }));
   }
-  if (Math.abs(value) >= 1000) {
-    return `$${(value / 1000).toFixed(0)} thousand`;
+  if (indicatedValue !== null) {
+    blocks.push(createParagraph(`• Indicated Value: ${formatCurrency(indicatedValue, currency)}`, { indent: { left: 360 } }));
   }
-  return `$${value.toLocaleString()}`;
+
+  return blocks;
+}
+
+/**
+ * Format currency for display
+ */
+function formatCurrency(value: number, currency?: string): string {
+  return formatCurrencyAmount(value, currency);
 }
 
 /**
@@ -348,6 +607,7 @@ function formatCurrency(value: number): string {
  */
 function createConclusionSection(content: ReportContent): DocumentChild[] {
   const sections: DocumentChild[] = [];
+  const currency = content.currency;
   const weighting = content.detailedData?.weighting;
 
   // Create weighting table with actual data if available
@@ -367,7 +627,7 @@ function createConclusionSection(content: ReportContent): DocumentChild[] {
       rows: approaches.map(a => ({
         cells: [
           { content: a.name },
-          { content: a.indicatedValue > 0 ? formatCurrency(a.indicatedValue) : "[From model]", alignment: "right" as const },
+          { content: a.indicatedValue > 0 ? formatCurrency(a.indicatedValue, currency) : "[From model]", alignment: "right" as const },
           { content: a.weight > 0 ? `${(a.weight * 100).toFixed(0)}%` : "[From model]", alignment: "right" as const }
         ]
       })),
@@ -379,16 +639,19 @@ function createConclusionSection(content: ReportContent): DocumentChild[] {
 
     // Add concluded value line if available
     if (weighting?.concludedValue) {
-      sections.push(createParagraph(`Concluded Enterprise Value: ${formatCurrency(weighting.concludedValue)}`, { bold: true }));
+      sections.push(createParagraph(`Concluded Enterprise Value: ${formatCurrency(weighting.concludedValue, currency)}`, { bold: true }));
+    }
+    if (content.detailedData?.equityBridge) {
+      sections.push(...createEquityBridgeTable(content.detailedData.equityBridge, currency));
     }
     if (weighting?.dlom) {
       sections.push(createParagraph(`DLOM Applied: ${(weighting.dlom * 100).toFixed(1)}%`));
     }
     if (weighting?.valueAfterDlom) {
-      sections.push(createParagraph(`Value After DLOM: ${formatCurrency(weighting.valueAfterDlom)}`, { bold: true }));
+      sections.push(createParagraph(`Value After DLOM: ${formatCurrency(weighting.valueAfterDlom, currency)}`, { bold: true }));
     }
     if (content.concludedValue && !weighting?.concludedValue) {
-      sections.push(createParagraph(`Concluded Value: ${formatCurrency(content.concludedValue)}`, { bold: true }));
+      sections.push(createParagraph(`Concluded Value: ${formatCurrency(content.concludedValue, currency)}`, { bold: true }));
     }
     if (content.dlom && !weighting?.dlom) {
       sections.push(createParagraph(`DLOM: ${(content.dlom * 100).toFixed(1)}%`));
@@ -411,6 +674,148 @@ function createConclusionSection(content: ReportContent): DocumentChild[] {
   return sections;
 }
 
+/**
+ * Format one side of a rollforward figure for the change table
+ */
+function formatChangeValue(change: MetricChange, value: number | null, currency?: string): string {
+  if (value === null) return "-";
+  switch (change.format) {
+    case "currency": return formatCurrency(value, currency);
+    case "price": return formatPrice(value, currency);
+    case "percent": return `${(value * 100).toFixed(1)}%`;
+    case "multiple": return `${value.toFixed(2)}x`;
+    case "years": return value.toFixed(2);
+  }
+}
+
+/**
+ * Format the movement in a rollforward figure; percentages move in points
+ */
+function formatChangeMovement(change: MetricChange): string {
+  if (change.change === null) return change.prior === null ? "New" : "Not in model";
+  if (change.format === "percent") {
+    const points = change.change * 100;
+    return `${points >= 0 ? "+" : ""}${points.toFixed(1)} pts`;
+  }
+  if (change.percentChange === null) return "n/m";
+  const percent = change.percentChange * 100;
+  return `${percent >= 0 ? "+" : ""}${percent.toFixed(1)}%`;
+}
+
+/**
+ * Describe additions to and removals from a comparable set
+ */
+function describeSetChange(label: string, change: ComparableSetChange): Paragraph | null {
+  if (change.added.length === 0 && change.removed.length === 0) return null;
+  const parts = [`${change.retained.length} retained`];
+  if (change.added.length > 0) parts.push(`added ${change.added.join(", ")}`);
+  if (change.removed.length > 0) parts.push(`removed ${change.removed.join(", ")}`);
+  return createParagraph(`${label}: ${parts.join("; ")}`);
+}
+
+/**
+ * Create changes since prior valuation section with a change table
+ */
+function createPriorValuationSection(diff: ModelDiff, narrative: SectionContent): DocumentChild[] {
+  const sections: DocumentChild[] = [];
+  const priorCurrency = diff.priorCurrency ?? diff.currency;
+
+  if (diff.priorValuationDate) {
+    const priorDate = new Date(diff.priorValuationDate).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "long",
+      day: "numeric",
+    });
+    const elapsed = diff.monthsElapsed !== null ? ` (${diff.monthsElapsed} months prior)` : "";
+    sections.push(createParagraph(`Prior Valuation Date: ${priorDate}${elapsed}`, { spacing: { after: 200 } }));
+  }
+
+  if (diff.metrics.length > 0) {
+    sections.push(createParagraph("Change Summary:", { bold: true, spacing: { after: 200 } }));
+    sections.push(createTable({
+      headers: ["Item", "Prior", "Current", "Change"],
+      rows: diff.metrics.map(m => ({
+        cells: [
+          { content: m.label },
+          { content: formatChangeValue(m, m.prior, priorCurrency), alignment: "right" as const },
+          { content: formatChangeValue(m, m.current, diff.currency), alignment: "right" as const },
+          { content: formatChangeMovement(m), alignment: "right" as const },
+        ],
+      })),
+      headerStyle: "bold" as const,
+    }));
+    sections.push(createParagraph("", { spacing: { before: 200 } }));
+  }
+
+  if (diff.weights.length > 0) {
+    const percent = (value: number | null) => (value !== null ? `${(value * 100).toFixed(0)}%` : "-");
+    sections.push(createParagraph("Approach Weighting:", { bold: true, spacing: { after: 200 } }));
+    sections.push(createTable({
+      headers: ["Approach", "Prior Weight", "Current Weight"],
+      rows: diff.weights.map(w => ({
+        cells: [
+          { content: w.name },
+          { content: percent(w.priorWeight), alignment: "right" as const },
+          { content: percent(w.currentWeight), alignment: "right" as const },
+        ],
+      })),
+      headerStyle: "bold" as const,
+    }));
+    sections.push(createParagraph("", { spacing: { before: 200 } }));
+  }
+
+  const companyChanges = describeSetChange("Guideline Public Companies", diff.guidelineCompanies);
+  const transactionChanges = describeSetChange("Guideline Transactions", diff.guidelineTransactions);
+  if (companyChanges) sections.push(companyChanges);
+  if (transactionChanges) sections.push(transactionChanges);
+  if (companyChanges || transactionChanges) {
+    sections.push(createParagraph("", { spacing: { before: 200 } }));
+  }
+
+  const paragraphs = narrative.content.split("\n\n").filter((p) => p.trim());
+  for (const para of paragraphs) {
+    sections.push(createParagraph(para));
+  }
+  if (paragraphs.length === 0) {
+    sections.push(createPlaceholder("Changes since prior valuation narrative could not be generated"));
+  }
+
+  return sections;
+}
+
+/**
+ * Create enterprise-to-equity bridge table
+ */
+function createEquityBridgeTable(bridge: EquityBridge, currency?: string): DocumentChild[] {
+  const rows = [
+    {
+      cells: [
+        { content: "Concluded Enterprise Value", bold: true },
+        { content: bridge.enterpriseValue !== null ? formatCurrency(bridge.enterpriseValue, currency) : "[From model]", alignment: "right" as const, bold: true },
+      ],
+    },
+    ...bridge.items.map(item => ({
+      cells: [
+        { content: `${item.amount < 0 ? "Less" : "Plus"}: ${item.label}` },
+        { content: item.amount < 0 ? `(${formatCurrency(Math.abs(item.amount), currency)})` : formatCurrency(item.amount, currency), alignment: "right" as const },
+      ],
+    })),
+    {
+      cells: [
+        { content: "Equity Value", bold: true },
+        { content: bridge.equityValue !== null ? formatCurrency(bridge.equityValue, currency) : "[From model]", alignment: "right" as const, bold: true },
+      ],
+    },
+  ];
+
+  return [
+    createParagraph("", { spacing: { before: 200 } }),
+    createParagraph("Enterprise to Equity Bridge:", { bold: true, spacing: { after: 200 } }),
+    createTable({ headers: ["Item", "Amount"], rows, headerStyle: "bold" as const }),
+    createParagraph("", { spacing: { before: 200 } }),
+  ];
+}
+
 /**
  * Create flags and review notes section
  */
@@ -466,9 +871,38 @@ function createFlagsSection(flags: Flag[], content: ReportContent): DocumentChil
     );
   }
 
+  sections.push(...createSourceReferences(content));
+
   return sections;
 }
 
+/**
+ * Create source cell reference table so reviewers can tie figures back to the model
+ */
+function createSourceReferences(content: ReportContent): DocumentChild[] {
+  const entries = Object.entries(content.provenance || {});
+  if (entries.length === 0) {
+    return [];
+  }
+
+  return [
+    createParagraph("Source Cell References:", { bold: true, spacing: { before: 300, after: 200 } }),
+    createTable({
+      headers: ["Figure", "Source Cell", "Matched Label", "Rule"],
+      rows: entries.map(([field, source]) => ({
+        cells: [
+          { content: formatProvenanceField(field) },
+          { content: formatCellReference(source) },
+          { content: source.label || "-" },
+          { content: EXTRACTION_RULE_LABELS[source.rule] },
+        ],
+      })),
+      widths: [2800, 2000, 2700, 1500],
+      headerStyle: "bold",
+    }),
+  ];
+}
+
 /**
  * Save generated report to storage
  */
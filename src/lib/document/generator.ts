@@ -33,6 +33,8 @@ import {
   REPORT_TYPE_STYLES,
 } from "./styles";
 
+import { DEFAULT_CURRENCY } from "@/lib/utils/currency";
+
 import type {
   DocumentOptions,
   ParagraphOptions,
@@ -287,6 +289,36 @@ export function createPlaceholder(message: string): Paragraph {
   });
 }
 
+/**
+ * Create a body paragraph with inline [MISSING: ...] placeholders highlighted
+ */
+export function createParagraphWithPlaceholders(text: string): Paragraph {
+  const parts = text.split(/(\[MISSING: [^\]]+\])/).filter(Boolean);
+
+  return new Paragraph({
+    children: parts.map(part =>
+      part.startsWith("[MISSING: ")
+        ? new TextRun({
+            text: part,
+            highlight: "yellow",
+            bold: true,
+            font: FONTS.primary,
+            size: FONT_SIZES.body,
+          })
+        : new TextRun({
+            text: part,
+            font: FONTS.primary,
+            size: FONT_SIZES.body,
+          })
+    ),
+    alignment: AlignmentType.JUSTIFIED,
+    spacing: {
+      after: SPACING.paragraphAfter,
+      line: SPACING.lineSpacing,
+    },
+  });
+}
+
 /**
  * Create a flagged content paragraph (needs review)
  */
@@ -409,7 +441,7 @@ export function createValuationSummaryTable(data: ValuationSummaryData): Table {
     if (value === null) return "N/A";
     return new Intl.NumberFormat("en-US", {
       style: "currency",
-      currency: "USD",
+      currency: data.currency ?? DEFAULT_CURRENCY,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0,
     }).format(value);
@@ -9,6 +9,7 @@ export {
   createParagraph,
   createHighlightedText,
   createPlaceholder,
+  createParagraphWithPlaceholders,
   createFlaggedContent,
   createTable,
   createValuationSummaryTable,
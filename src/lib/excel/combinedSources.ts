@@ -0,0 +1,210 @@
+/**
+ * Combined Sources
+ * For engagements with both a live Excel model and the issued exhibits PDF: the
+ * Excel model supplies the numbers, the exhibits fill in layout context the
+ * workbook lacks, and figures that disagree between the two are listed so the
+ * report isn't written from a stale model or a superseded set of exhibits
+ */
+
+import type { ParsedModel, SourceConflict } from '@/types/excel';
+import type { MetricChange } from '@/types/rollforward';
+import { formatCurrencyAmount, formatCurrencyPrice } from '@/lib/utils/currency';
+import { createModelSnapshot, diffModelSnapshots, normalizeCompanyName } from './modelDiff';
+
+// Exhibits print amounts rounded (often to thousands), so amounts match within 1%
+const AMOUNT_TOLERANCE = 0.01;
+// Multiples are printed to two decimals
+const MULTIPLE_TOLERANCE = 0.01;
+// Rates and weights in absolute decimal terms (0.5 points)
+const RATE_TOLERANCE = 0.005;
+// Per-share values are printed to the cent
+const PRICE_TOLERANCE = 0.01;
+
+/**
+ * Format one side of a compared figure
+ */
+function formatValue(change: MetricChange, value: number | null, currency: string): string | null {
+  if (value === null) return null;
+  switch (change.format) {
+    case 'currency': return formatCurrencyAmount(value, currency);
+    case 'price': return formatCurrencyPrice(value, currency);
+    case 'percent': return `${(value * 100).toFixed(1)}%`;
+    case 'multiple': return `${value.toFixed(2)}x`;
+    case 'years': return `${value.toFixed(2)} years`;
+  }
+}
+
+/**
+ * Whether the two sides of a figure agree within the printed precision
+ */
+function valuesAgree(change: MetricChange): boolean {
+  if (change.prior === null || change.current === null) return true;
+  const difference = Math.abs(change.current - change.prior);
+
+  switch (change.format) {
+    case 'currency':
+      return change.prior === 0 ? difference < 1 : difference / Math.abs(change.prior) <= AMOUNT_TOLERANCE;
+    case 'price':
+      return difference <= PRICE_TOLERANCE;
+    case 'multiple':
+      return difference <= MULTIPLE_TOLERANCE;
+    case 'percent':
+      return difference <= RATE_TOLERANCE;
+    case 'years':
+      return difference <= MULTIPLE_TOLERANCE;
+  }
+}
+
+/**
+ * List comparable names for a message, capped so long sets stay readable
+ */
+function listNames(names: string[]): string {
+  const shown = names.slice(0, 5).join(', ');
+  return names.length > 5 ? `${shown} and ${names.length - 5} more` : shown;
+}
+
+/**
+ * Compare the Excel model with the exhibits PDF
+ * Figures only one source has are not conflicts; the Excel model supplies them
+ */
+export function findSourceConflicts(excelModel: ParsedModel, pdfModel: ParsedModel): SourceConflict[] {
+  const conflicts: SourceConflict[] = [];
+  const excel = createModelSnapshot(excelModel);
+  const pdf = createModelSnapshot(pdfModel);
+
+  if (excel.companyName && pdf.companyName
+    && normalizeCompanyName(excel.companyName) !== normalizeCompanyName(pdf.companyName)) {
+    conflicts.push({
+      field: 'companyName',
+      label: 'Company Name',
+      excelValue: excel.companyName,
+      pdfValue: pdf.companyName,
+      message: `Company name is "${excel.companyName}" in the model but "${pdf.companyName}" in the exhibits`,
+    });
+  }
+
+  const excelDate = excel.valuationDate?.slice(0, 10) ?? null;
+  const pdfDate = pdf.valuationDate?.slice(0, 10) ?? null;
+  if (excelDate && pdfDate && excelDate !== pdfDate) {
+    conflicts.push({
+      field: 'valuationDate',
+      label: 'Valuation Date',
+      excelValue: excelDate,
+      pdfValue: pdfDate,
+      message: `Valuation date is ${excelDate} in the model but ${pdfDate} in the exhibits`,
+    });
+  }
+
+  if (excel.currency !== pdf.currency) {
+    conflicts.push({
+      field: 'currency',
+      label: 'Currency',
+      excelValue: excel.currency,
+      pdfValue: pdf.currency,
+      message: `Model is in ${excel.currency} but the exhibits are in ${pdf.currency} - amounts were not compared`,
+    });
+  }
+
+  // The PDF is the "prior" side of the diff, the Excel model the "current" side
+  const diff = diffModelSnapshots(pdf, excel);
+
+  if (!diff.priorCurrency) {
+    for (const change of diff.metrics) {
+      if (valuesAgree(change)) continue;
+      const excelValue = formatValue(change, change.current, excel.currency);
+      const pdfValue = formatValue(change, change.prior, pdf.currency);
+      conflicts.push({
+        field: change.metric,
+        label: change.label,
+        excelValue,
+        pdfValue,
+        message: `${change.label} is ${excelValue} in the model but ${pdfValue} in the exhibits`,
+      });
+    }
+  }
+
+  for (const weight of diff.weights) {
+    if (weight.priorWeight === null || weight.currentWeight === null) continue;
+    if (Math.abs(weight.currentWeight - weight.priorWeight) <= RATE_TOLERANCE) continue;
+    const excelValue = `${(weight.currentWeight * 100).toFixed(1)}%`;
+    const pdfValue = `${(weight.priorWeight * 100).toFixed(1)}%`;
+    conflicts.push({
+      field: 'weight',
+      label: `${weight.name} Weight`,
+      excelValue,
+      pdfValue,
+      message: `${weight.name} is weighted ${excelValue} in the model but ${pdfValue} in the exhibits`,
+    });
+  }
+
+  const sets = [
+    { field: 'guidelineCompanies', label: 'Guideline Companies', change: diff.guidelineCompanies },
+    { field: 'guidelineTransactions', label: 'Guideline Transactions', change: diff.guidelineTransactions },
+  ];
+  for (const { field, label, change } of sets) {
+    // A source that found no comparables at all didn't extract them; that isn't a disagreement
+    if (change.retained.length === 0) continue;
+    if (change.added.length === 0 && change.removed.length === 0) continue;
+
+    const parts = [
+      change.added.length > 0 ? `only in the model: ${listNames(change.added)}` : null,
+      change.removed.length > 0 ? `only in the exhibits: ${listNames(change.removed)}` : null,
+    ].filter(Boolean);
+    conflicts.push({
+      field,
+      label,
+      excelValue: change.added.length > 0 ? change.added.join(', ') : null,
+      pdfValue: change.removed.length > 0 ? change.removed.join(', ') : null,
+      message: `${label} differ - ${parts.join('; ')}`,
+    });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Fill context the Excel model lacks from the exhibits PDF: comparable descriptions
+ * and analyst notes for approaches whose sheets carry none. Figures are never taken
+ * from the exhibits
+ */
+export function supplementFromExhibits(excelModel: ParsedModel, pdfModel: ParsedModel): ParsedModel {
+  const detailed = excelModel.detailedData;
+  const pdfDetailed = pdfModel.detailedData;
+
+  let detailedData = detailed;
+  if (detailed && pdfDetailed) {
+    const companyDescriptions = new Map(
+      pdfDetailed.guidelinePublicCompanies
+        .filter(c => c.description)
+        .map(c => [normalizeCompanyName(c.name), c.description])
+    );
+    const transactionDescriptions = new Map(
+      pdfDetailed.guidelineTransactions
+        .filter(t => t.description)
+        .map(t => [normalizeCompanyName(t.targetName), t.description])
+    );
+
+    detailedData = {
+      ...detailed,
+      guidelinePublicCompanies: detailed.guidelinePublicCompanies.map(c => ({
+        ...c,
+        description: c.description ?? companyDescriptions.get(normalizeCompanyName(c.name)) ?? null,
+      })),
+      guidelineTransactions: detailed.guidelineTransactions.map(t => ({
+        ...t,
+        description: t.description ?? transactionDescriptions.get(normalizeCompanyName(t.targetName)) ?? null,
+      })),
+    };
+  }
+
+  const annotated = new Set(excelModel.exhibits.filter(e => e.notes.length > 0).map(e => e.approach));
+  const exhibitNotes = pdfModel.exhibits
+    .filter(e => e.approach && e.notes.length > 0 && !annotated.has(e.approach))
+    .map(e => ({ sheetName: `${e.sheetName} (PDF)`, data: [], notes: e.notes, approach: e.approach }));
+
+  return {
+    ...excelModel,
+    exhibits: [...excelModel.exhibits, ...exhibitNotes],
+    detailedData,
+  };
+}
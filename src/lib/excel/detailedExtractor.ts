@@ -13,23 +13,47 @@ import type {
   BacksolveData,
   WeightingData,
   YearlyProjection,
+  ProvenanceMap,
+  CapTable,
+  ShareClass,
+  WACCBuildUp,
+  EquityBridge,
+  EquityBridgeItem,
+  PWERMData,
+  PWERMScenario,
+  DLOMAnalysis,
+  DLOMMethodIndication,
+  DilutiveSecurity,
 } from '@/types/excel';
-import { getSheetData, getSheetNames } from './parser';
+import { getSheetData, getSheetNames, getSheetUnits } from './parser';
+import { toSheetUnits } from './units';
+import { recordProvenance } from './provenance';
+import { readProjectionTable, PROJECTION_FIELDS } from './projections';
+import type { ProjectionMetric, ProjectionTable } from './projections';
 
 /**
  * Extract all detailed data from the workbook
  */
 export function extractDetailedData(workbook: WorkbookData): DetailedModelData {
   const missingData: string[] = [];
+  const provenance: ProvenanceMap = {};
   
   console.log('Extracting detailed model data...');
   
-  const companyFinancials = extractCompanyFinancials(workbook, missingData);
-  const guidelinePublicCompanies = extractGuidelinePublicCompanies(workbook, missingData);
-  const guidelineTransactions = extractGuidelineTransactions(workbook, missingData);
-  const incomeApproachData = extractIncomeApproachData(workbook, missingData);
-  const backsolveData = extractBacksolveData(workbook, missingData);
-  const weightingData = extractWeightingData(workbook, missingData);
+  const companyFinancials = extractCompanyFinancials(workbook, missingData, provenance);
+  const guidelinePublicCompanies = extractGuidelinePublicCompanies(workbook, missingData, provenance);
+  const guidelineTransactions = extractGuidelineTransactions(workbook, missingData, provenance);
+  const incomeApproachData = extractIncomeApproachData(workbook, missingData, provenance);
+  const backsolveData = extractBacksolveData(workbook, missingData, provenance);
+  const weightingData = extractWeightingData(workbook, missingData, provenance);
+  const capTable = extractCapTable(workbook, missingData, provenance);
+  const equityBridge = extractEquityBridge(workbook, missingData, provenance);
+  const pwermData = extractPWERMData(workbook, provenance);
+  const dlomAnalysis = extractDLOMAnalysis(workbook, provenance);
+
+  if (weightingData && weightingData.dlomMethod === null && dlomAnalysis?.methods.length) {
+    weightingData.dlomMethod = dlomAnalysis.methods.map(m => m.name).join(', ');
+  }
   
   console.log(`Detailed extraction complete. Missing data: ${missingData.length} items`);
   
@@ -40,7 +64,14 @@ export function extractDetailedData(workbook: WorkbookData): DetailedModelData {
     incomeApproachData,
     backsolveData,
     weightingData,
+    capTable,
+    equityBridge,
+    pwermData,
+    dlomAnalysis,
+    gpcAnalysis: null,
+    transactionAnalysis: null,
     missingData,
+    provenance,
   };
 }
 
@@ -55,22 +86,37 @@ function findSheets(workbook: WorkbookData, patterns: RegExp[]): string[] {
 }
 
 /**
- * Search for a value near a label in sheet data
+ * Options for label-based value search
  */
-function findValueNearLabel(
+export interface LabelSearchOptions {
+  maxRowsToScan?: number;
+  lookRight?: number;
+  lookBelow?: number;
+  valueType?: 'number' | 'percentage' | 'string' | 'date';
+  minValue?: number;
+  maxValue?: number;
+}
+
+/**
+ * A value found near a label, with its 0-based row/col position
+ */
+export interface LocatedValue {
+  value: unknown;
+  row: number;
+  col: number;
+  label: string;
+}
+
+/**
+ * Search for a value near a label in sheet data and return where it was found
+ */
+export function locateValueNearLabel(
   data: unknown[][],
   labelPatterns: RegExp[],
-  options: { 
-    maxRowsToScan?: number;
-    lookRight?: number;
-    lookBelow?: number;
-    valueType?: 'number' | 'percentage' | 'string' | 'date';
-    minValue?: number;
-    maxValue?: number;
-  } = {}
-): unknown | null {
+  options: LabelSearchOptions = {}
+): LocatedValue | null {
   const { 
-    maxRowsToScan = 200,
+    maxRowsToScan = Infinity,
     lookRight = 5,
     lookBelow = 3,
     valueType = 'number',
@@ -89,7 +135,7 @@ function findValueNearLabel(
         for (let c = col + 1; c <= col + lookRight && c < rowData.length; c++) {
           const val = rowData[c];
           if (isValidValue(val, valueType, minValue, maxValue)) {
-            return val;
+            return { value: val, row, col: c, label: cell };
           }
         }
         
@@ -98,12 +144,12 @@ function findValueNearLabel(
           const belowRow = data[r] || [];
           const val = belowRow[col];
           if (isValidValue(val, valueType, minValue, maxValue)) {
-            return val;
+            return { value: val, row: r, col, label: cell };
           }
           // Also check same position + 1
           const valRight = belowRow[col + 1];
           if (isValidValue(valRight, valueType, minValue, maxValue)) {
-            return valRight;
+            return { value: valRight, row: r, col: col + 1, label: cell };
           }
         }
       }
@@ -113,6 +159,39 @@ function findValueNearLabel(
   return null;
 }
 
+/**
+ * Target for recording where a found value came from
+ */
+interface ProvenanceTarget {
+  provenance: ProvenanceMap;
+  sheet: string;
+  field: string;
+}
+
+/**
+ * Search for a value near a label in sheet data, recording its source when found
+ */
+function findValueNearLabel(
+  data: unknown[][],
+  labelPatterns: RegExp[],
+  options: LabelSearchOptions = {},
+  target?: ProvenanceTarget
+): unknown | null {
+  const found = locateValueNearLabel(data, labelPatterns, options);
+  if (!found) return null;
+
+  if (target) {
+    recordProvenance(target.provenance, target.field, {
+      sheet: target.sheet,
+      row: found.row,
+      col: found.col,
+      label: found.label,
+      rule: 'labelSearch',
+    });
+  }
+  return found.value;
+}
+
 function isValidValue(
   val: unknown, 
   valueType: string, 
@@ -144,7 +223,8 @@ function isValidValue(
  */
 function extractCompanyFinancials(
   workbook: WorkbookData,
-  missingData: string[]
+  missingData: string[],
+  provenance: ProvenanceMap
 ): CompanyFinancials | null {
   const sheets = findSheets(workbook, [
     /balance/i, /income/i, /financial/i, /subject/i, /company/i, /summary/i
@@ -155,68 +235,55 @@ function extractCompanyFinancials(
     return null;
   }
   
-  const financials: CompanyFinancials = {
-    ltmRevenue: null,
-    currentYearRevenue: null,
-    projectedRevenue: null,
-    ltmEbitda: null,
-    currentYearEbitda: null,
-    grossProfit: null,
-    grossMargin: null,
-    netIncome: null,
-    totalAssets: null,
-    totalEquity: null,
-    totalDebt: null,
-    cash: null,
-    enterpriseValue: null,
-    equityValue: null,
-  };
+  const financials = createEmptyCompanyFinancials();
   
   for (const sheetName of sheets) {
     const data = getSheetData(workbook, sheetName);
+    const units = getSheetUnits(workbook, sheetName);
+    const source = (field: string) => ({ provenance, sheet: sheetName, field });
     
     // Revenue patterns
     financials.ltmRevenue ??= findValueNearLabel(data, [
       /ltm.*revenue/i, /trailing.*twelve.*month.*revenue/i, /ttm.*revenue/i
-    ], { minValue: 1000 }) as number | null;
+    ], { minValue: toSheetUnits(1000, units) }, source('companyFinancials.ltmRevenue')) as number | null;
     
     financials.currentYearRevenue ??= findValueNearLabel(data, [
       /(?:20\d{2}|fy\s*\d{2,4}).*revenue/i, /revenue.*(?:20\d{2}|fy)/i, /^revenue$/i
-    ], { minValue: 1000 }) as number | null;
+    ], { minValue: toSheetUnits(1000, units) }, source('companyFinancials.currentYearRevenue')) as number | null;
     
     // EBITDA patterns
     financials.ltmEbitda ??= findValueNearLabel(data, [
       /ltm.*ebitda/i, /trailing.*ebitda/i, /ttm.*ebitda/i
-    ], { minValue: -10000000 }) as number | null;
+    ], { minValue: toSheetUnits(-10000000, units) }, source('companyFinancials.ltmEbitda')) as number | null;
     
     financials.currentYearEbitda ??= findValueNearLabel(data, [
       /ebitda/i
-    ], { minValue: -10000000, maxValue: 100000000 }) as number | null;
+    ], { minValue: toSheetUnits(-10000000, units), maxValue: toSheetUnits(100000000, units) }, source('companyFinancials.currentYearEbitda')) as number | null;
     
     // Other metrics
     financials.grossProfit ??= findValueNearLabel(data, [
       /gross\s*profit/i
-    ], { minValue: 0 }) as number | null;
+    ], { minValue: 0 }, source('companyFinancials.grossProfit')) as number | null;
     
     financials.netIncome ??= findValueNearLabel(data, [
       /net\s*income/i, /net\s*earnings/i
-    ]) as number | null;
+    ], {}, source('companyFinancials.netIncome')) as number | null;
     
     financials.totalAssets ??= findValueNearLabel(data, [
       /total\s*assets/i
-    ], { minValue: 0 }) as number | null;
+    ], { minValue: 0 }, source('companyFinancials.totalAssets')) as number | null;
     
     financials.totalEquity ??= findValueNearLabel(data, [
       /total\s*equity/i, /shareholders.*equity/i, /stockholders.*equity/i
-    ]) as number | null;
+    ], {}, source('companyFinancials.totalEquity')) as number | null;
     
     financials.enterpriseValue ??= findValueNearLabel(data, [
       /enterprise\s*value/i, /ev\b/i
-    ], { minValue: 10000 }) as number | null;
+    ], { minValue: toSheetUnits(10000, units) }, source('companyFinancials.enterpriseValue')) as number | null;
     
     financials.equityValue ??= findValueNearLabel(data, [
       /equity\s*value/i, /market\s*cap/i
-    ], { minValue: 10000 }) as number | null;
+    ], { minValue: toSheetUnits(10000, units) }, source('companyFinancials.equityValue')) as number | null;
   }
   
   // Track missing key data
@@ -232,7 +299,8 @@ function extractCompanyFinancials(
  */
 function extractGuidelinePublicCompanies(
   workbook: WorkbookData,
-  missingData: string[]
+  missingData: string[],
+  provenance: ProvenanceMap
 ): GuidelineCompany[] {
   const sheets = findSheets(workbook, [
     /guideline.*public/i, /gpc/i, /public.*comp/i, /market.*approach/i, /comparable/i
@@ -288,10 +356,18 @@ function extractGuidelinePublicCompanies(
           };
           
           // Only add if we have at least a name and one multiple
-          if (company.revenueMultiple !== null || company.ebitdaMultiple !== null) {
-            companies.push(company);
-          } else if (company.name && companies.length < 10) {
-            // Still add for context even without multiples
+          const hasMultiple = company.revenueMultiple !== null || company.ebitdaMultiple !== null;
+          // Still add for context even without multiples
+          if (hasMultiple || (company.name && companies.length < 10)) {
+            recordTableRow(provenance, `guidelinePublicCompanies[${companies.length}]`, sheetName, row, headers, {
+              name: nameCol,
+              ticker: colIndices.ticker,
+              revenueMultiple: colIndices.revMultiple,
+              ebitdaMultiple: colIndices.ebitdaMultiple,
+              revenue: colIndices.revenue,
+              ebitda: colIndices.ebitda,
+              enterpriseValue: colIndices.ev,
+            }, company);
             companies.push(company);
           }
         }
@@ -323,6 +399,31 @@ function findHeaderRow(data: unknown[][], patterns: RegExp[]): number | null {
   return null;
 }
 
+/**
+ * Record table-column sources for the populated fields of an extracted row
+ */
+function recordTableRow(
+  provenance: ProvenanceMap,
+  prefix: string,
+  sheet: string,
+  row: number,
+  headers: unknown[],
+  columns: Record<string, number | undefined>,
+  values: object
+): void {
+  const record = values as Record<string, unknown>;
+  for (const [field, col] of Object.entries(columns)) {
+    if (col === undefined || record[field] === null || record[field] === undefined) continue;
+    recordProvenance(provenance, `${prefix}.${field}`, {
+      sheet,
+      row,
+      col,
+      label: typeof headers[col] === 'string' ? headers[col] as string : null,
+      rule: 'tableColumn',
+    });
+  }
+}
+
 function getColumnIndices(headers: unknown[]): Record<string, number> {
   const indices: Record<string, number> = {};
   
@@ -404,7 +505,8 @@ function isHeaderOrLabel(text: string): boolean {
  */
 function extractGuidelineTransactions(
   workbook: WorkbookData,
-  missingData: string[]
+  missingData: string[],
+  provenance: ProvenanceMap
 ): GuidelineTransaction[] {
   const sheets = findSheets(workbook, [
     /transaction/i, /m&a/i, /merger/i, /acquisition/i, /gtm/i, /deal/i
@@ -419,6 +521,7 @@ function extractGuidelineTransactions(
   
   for (const sheetName of sheets) {
     const data = getSheetData(workbook, sheetName);
+    const minDealValue = toSheetUnits(1000000, getSheetUnits(workbook, sheetName));
     
     const headerRow = findHeaderRow(data, [/target/i, /company/i, /deal/i]);
     
@@ -448,6 +551,8 @@ function extractGuidelineTransactions(
             description: null,
           };
           
+          const columns: Record<string, number | undefined> = { targetName: targetIdx };
+          
           // Look for multiples in the row
           for (let col = 0; col < rowData.length; col++) {
             const val = rowData[col];
@@ -456,17 +561,21 @@ function extractGuidelineTransactions(
             if (typeof val === 'number') {
               if (/ev\/rev|rev.*mult/i.test(header) && val > 0 && val < 50) {
                 transaction.revenueMultiple = val;
+                columns.revenueMultiple = col;
               }
               if (/ev\/ebitda|ebitda.*mult/i.test(header) && val > 0 && val < 50) {
                 transaction.ebitdaMultiple = val;
+                columns.ebitdaMultiple = col;
               }
-              if (/deal.*value|transaction.*value|ev\b/i.test(header) && val > 1000000) {
+              if (/deal.*value|transaction.*value|ev\b/i.test(header) && val > minDealValue) {
                 transaction.dealValue = val;
+                columns.dealValue = col;
               }
             }
           }
           
           if (transaction.revenueMultiple || transaction.ebitdaMultiple) {
+            recordTableRow(provenance, `guidelineTransactions[${transactions.length}]`, sheetName, row, headers, columns, transaction);
             transactions.push(transaction);
           }
         }
@@ -488,7 +597,8 @@ function extractGuidelineTransactions(
  */
 function extractIncomeApproachData(
   workbook: WorkbookData,
-  missingData: string[]
+  missingData: string[],
+  provenance: ProvenanceMap
 ): IncomeApproachData | null {
   const sheets = findSheets(workbook, [
     /income/i, /dcf/i, /discount.*cash/i, /cash.*flow/i
@@ -499,48 +609,40 @@ function extractIncomeApproachData(
     return null;
   }
   
-  const incomeData: IncomeApproachData = {
-    projectionYears: null,
-    projectionStartYear: null,
-    revenueProjections: [],
-    ebitdaProjections: [],
-    cashFlowProjections: [],
-    discountRate: null,
-    wacc: null,
-    terminalGrowthRate: null,
-    terminalMultiple: null,
-    terminalMethodology: null,
-    presentValueCashFlows: null,
-    terminalValue: null,
-    presentValueTerminal: null,
-    indicatedValue: null,
-    keyAssumptions: [],
-  };
+  const incomeData = createEmptyIncomeApproachData();
   
   for (const sheetName of sheets) {
     const data = getSheetData(workbook, sheetName);
+    const units = getSheetUnits(workbook, sheetName);
+    const source = (field: string) => ({ provenance, sheet: sheetName, field });
     
     // Find discount rate / WACC
     incomeData.discountRate ??= findValueNearLabel(data, [
       /discount\s*rate/i, /wacc/i, /weighted.*average.*cost/i
-    ], { minValue: 0.05, maxValue: 0.50 }) as number | null;
+    ], { minValue: 0.05, maxValue: 0.50 }, source('incomeApproachData.discountRate')) as number | null;
     
-    incomeData.wacc ??= incomeData.discountRate;
+    if (incomeData.wacc === null && incomeData.discountRate !== null) {
+      incomeData.wacc = incomeData.discountRate;
+      const discountSource = provenance['incomeApproachData.discountRate'];
+      if (discountSource) {
+        provenance['incomeApproachData.wacc'] = { ...discountSource, rule: 'derived' };
+      }
+    }
     
     // Terminal growth rate
     incomeData.terminalGrowthRate ??= findValueNearLabel(data, [
       /terminal.*growth/i, /perpetuity.*growth/i, /long.*term.*growth/i
-    ], { minValue: 0.01, maxValue: 0.10 }) as number | null;
+    ], { minValue: 0.01, maxValue: 0.10 }, source('incomeApproachData.terminalGrowthRate')) as number | null;
     
     // Terminal multiple
     incomeData.terminalMultiple ??= findValueNearLabel(data, [
       /exit.*multiple/i, /terminal.*multiple/i
-    ], { minValue: 1, maxValue: 30 }) as number | null;
+    ], { minValue: 1, maxValue: 30 }, source('incomeApproachData.terminalMultiple')) as number | null;
     
     // Indicated value
     incomeData.indicatedValue ??= findValueNearLabel(data, [
       /indicated.*value/i, /enterprise.*value/i, /equity.*value/i, /concluded/i
-    ], { minValue: 100000 }) as number | null;
+    ], { minValue: toSheetUnits(100000, units) }, source('incomeApproachData.indicatedValue')) as number | null;
     
     // Determine terminal methodology
     if (incomeData.terminalGrowthRate) {
@@ -549,9 +651,28 @@ function extractIncomeApproachData(
       incomeData.terminalMethodology = 'exitMultiple';
     }
     
-    // Extract projections
-    incomeData.revenueProjections = extractProjections(data, /revenue/i);
-    incomeData.cashFlowProjections = extractProjections(data, /cash\s*flow|fcf|cf/i);
+  }
+  
+  extractProjectionTable(workbook, sheets, incomeData, provenance);
+  
+  incomeData.waccBuildUp = extractWaccBuildUp(workbook, sheets, provenance);
+  const buildUp = incomeData.waccBuildUp;
+
+  // Prefer the build-up's concluded rate when the DCF sheet doesn't label one
+  if (buildUp) {
+    const concluded: [keyof WACCBuildUp, number | null][] = [['wacc', buildUp.wacc], ['costOfEquity', buildUp.costOfEquity]];
+    const [field, rate] = concluded.find(([, v]) => v !== null) ?? [null, null];
+    if (incomeData.discountRate === null && field && rate !== null) {
+      incomeData.discountRate = rate;
+      provenance['incomeApproachData.discountRate'] = {
+        ...provenance[`incomeApproachData.waccBuildUp.${field}`],
+        rule: 'derived',
+      };
+    }
+    if (buildUp.wacc !== null) {
+      incomeData.wacc = buildUp.wacc;
+      provenance['incomeApproachData.wacc'] = provenance['incomeApproachData.waccBuildUp.wacc'];
+    }
   }
   
   if (!incomeData.discountRate) {
@@ -561,38 +682,115 @@ function extractIncomeApproachData(
   return incomeData;
 }
 
-function extractProjections(data: unknown[][], metricPattern: RegExp): YearlyProjection[] {
-  const projections: YearlyProjection[] = [];
-  
-  for (let row = 0; row < Math.min(50, data.length); row++) {
-    const rowData = data[row] || [];
-    const firstCell = rowData[0];
-    
-    if (typeof firstCell === 'string' && metricPattern.test(firstCell)) {
-      // Look for year headers and values
-      for (let col = 1; col < Math.min(15, rowData.length); col++) {
-        const val = rowData[col];
-        if (typeof val === 'number' && Math.abs(val) > 100) {
-          // Check if there's a year in the header row
-          const headerRow = data[row - 1] || data[0] || [];
-          const yearCell = headerRow[col];
-          let year = 2024 + col; // Default guess
-          
-          if (typeof yearCell === 'number' && yearCell > 2000 && yearCell < 2100) {
-            year = yearCell;
-          } else if (typeof yearCell === 'string') {
-            const yearMatch = yearCell.match(/20\d{2}/);
-            if (yearMatch) year = parseInt(yearMatch[0]);
-          }
-          
-          projections.push({ year, value: val });
-        }
-      }
-      break;
+/**
+ * Read the projection table from the income approach or projection sheets
+ * Keeps the table with the most metrics and sets the projection period from it
+ */
+function extractProjectionTable(
+  workbook: WorkbookData,
+  incomeSheets: string[],
+  incomeData: IncomeApproachData,
+  provenance: ProvenanceMap
+): void {
+  const projectionSheets = findSheets(workbook, [
+    /projection/i, /forecast/i, /budget/i, /\bplan\b/i
+  ]);
+  const sheets = [...incomeSheets, ...projectionSheets.filter(s => !incomeSheets.includes(s))];
+
+  let best: { table: ProjectionTable; provenance: ProvenanceMap } | null = null;
+  for (const sheetName of sheets) {
+    const sheetProvenance: ProvenanceMap = {};
+    const table = readProjectionTable(getSheetData(workbook, sheetName), sheetName, sheetProvenance);
+    if (table && (!best || Object.keys(table.metrics).length > Object.keys(best.table.metrics).length)) {
+      best = { table, provenance: sheetProvenance };
     }
   }
-  
-  return projections;
+
+  if (!best) return;
+
+  for (const [metric, projections] of Object.entries(best.table.metrics) as [ProjectionMetric, YearlyProjection[]][]) {
+    incomeData[PROJECTION_FIELDS[metric]] = projections;
+  }
+  Object.assign(provenance, best.provenance);
+
+  const projectedYears = Array.from(new Set(
+    Object.values(best.table.metrics).flatMap(p => p.flatMap(y => (y.period === 'projected' && y.year !== null ? [y.year] : [])))
+  )).sort((a, b) => a - b);
+  if (projectedYears.length > 0) {
+    incomeData.projectionStartYear = projectedYears[0];
+    incomeData.projectionYears = projectedYears.length;
+  }
+}
+
+/**
+ * WACC build-up components and the labels they appear under
+ */
+const WACC_COMPONENTS: { key: keyof WACCBuildUp; patterns: RegExp[]; min: number; max: number }[] = [
+  { key: 'riskFreeRate', patterns: [/risk[-\s]*free/i, /\brf\b/i], min: 0.001, max: 0.15 },
+  { key: 'equityRiskPremium', patterns: [/equity\s*risk\s*premium/i, /market\s*risk\s*premium/i, /\berp\b/i], min: 0.01, max: 0.20 },
+  { key: 'unleveredBeta', patterns: [/unlevered\s*beta/i, /beta.*\(\s*unlevered/i, /asset\s*beta/i], min: 0.1, max: 5 },
+  { key: 'leveredBeta', patterns: [/\b(?:re-?)?levered\s*beta/i, /beta.*\(\s*(?:re-?)?levered/i, /^\s*beta\s*$/i], min: 0.1, max: 5 },
+  { key: 'sizePremium', patterns: [/size\s*premium/i, /small\s*(?:company|stock|cap)\s*premium/i], min: 0.001, max: 0.20 },
+  { key: 'industryRiskPremium', patterns: [/industry\s*(?:risk\s*)?premium/i], min: -0.10, max: 0.20 },
+  { key: 'companySpecificRiskPremium', patterns: [/company[-\s]*specific/i, /\bcsrp\b/i, /specific\s*risk\s*premium/i], min: 0.001, max: 0.50 },
+  { key: 'costOfEquity', patterns: [/cost\s*of\s*equity/i, /required\s*return\s*on\s*equity/i], min: 0.03, max: 1 },
+  { key: 'preTaxCostOfDebt', patterns: [/pre[-\s]*tax\s*cost\s*of\s*debt/i, /cost\s*of\s*debt.*pre[-\s]*tax/i, /^\s*cost\s*of\s*debt\s*$/i], min: 0.005, max: 0.30 },
+  { key: 'taxRate', patterns: [/tax\s*rate/i], min: 0.01, max: 0.60 },
+  { key: 'afterTaxCostOfDebt', patterns: [/after[-\s]*tax\s*cost\s*of\s*debt/i, /cost\s*of\s*debt.*after[-\s]*tax/i], min: 0.005, max: 0.30 },
+  { key: 'equityWeight', patterns: [/equity\s*(?:weight|to\s*(?:total\s*)?capital|\/\s*(?:total\s*)?capital)/i, /weight.*equity/i, /%\s*equity/i, /e\s*\/\s*\(?\s*d\s*\+\s*e/i], min: 0.01, max: 1 },
+  { key: 'debtWeight', patterns: [/debt\s*(?:weight|to\s*(?:total\s*)?capital|\/\s*(?:total\s*)?capital)/i, /weight.*debt/i, /%\s*debt/i, /d\s*\/\s*\(?\s*d\s*\+\s*e/i], min: 0, max: 1 },
+  { key: 'wacc', patterns: [/^\s*(?:concluded\s*|selected\s*)?wacc\s*(?:\(.*\))?:?\s*$/i, /weighted\s*average\s*cost\s*of\s*capital/i, /concluded\s*discount\s*rate/i], min: 0.03, max: 1 },
+];
+
+/**
+ * Extract the discount rate build-up from WACC / cost of capital sheets,
+ * falling back to the income approach sheets
+ */
+function extractWaccBuildUp(
+  workbook: WorkbookData,
+  incomeSheets: string[],
+  provenance: ProvenanceMap
+): WACCBuildUp | null {
+  const waccSheets = findSheets(workbook, [
+    /wacc/i, /cost.*capital/i, /discount.*rate/i, /capm/i, /build.*up/i
+  ]);
+  const sheets = [...waccSheets, ...incomeSheets.filter(s => !waccSheets.includes(s))];
+
+  const buildUp = createEmptyWACCBuildUp();
+
+  for (const sheetName of sheets) {
+    const data = getSheetData(workbook, sheetName);
+
+    // Build-ups are label/value rows; looking below would pick up the next component
+    for (const { key, patterns, min, max } of WACC_COMPONENTS) {
+      buildUp[key] ??= findValueNearLabel(data, patterns, { minValue: min, maxValue: max, lookBelow: 0 }, {
+        provenance, sheet: sheetName, field: `incomeApproachData.waccBuildUp.${key}`,
+      }) as number | null;
+    }
+  }
+
+  if (Object.values(buildUp).every(v => v === null)) {
+    return null;
+  }
+
+  const derive = (field: keyof WACCBuildUp, from: keyof WACCBuildUp, value: number) => {
+    buildUp[field] = value;
+    const source = provenance[`incomeApproachData.waccBuildUp.${from}`];
+    if (source) {
+      provenance[`incomeApproachData.waccBuildUp.${field}`] = { ...source, rule: 'derived' };
+    }
+  };
+
+  if (buildUp.afterTaxCostOfDebt === null && buildUp.preTaxCostOfDebt !== null && buildUp.taxRate !== null) {
+    derive('afterTaxCostOfDebt', 'preTaxCostOfDebt', buildUp.preTaxCostOfDebt * (1 - buildUp.taxRate));
+  }
+  if (buildUp.debtWeight === null && buildUp.equityWeight !== null) {
+    derive('debtWeight', 'equityWeight', 1 - buildUp.equityWeight);
+  } else if (buildUp.equityWeight === null && buildUp.debtWeight !== null) {
+    derive('equityWeight', 'debtWeight', 1 - buildUp.debtWeight);
+  }
+
+  return buildUp;
 }
 
 /**
@@ -600,7 +798,8 @@ function extractProjections(data: unknown[][], metricPattern: RegExp): YearlyPro
  */
 function extractBacksolveData(
   workbook: WorkbookData,
-  missingData: string[]
+  missingData: string[],
+  provenance: ProvenanceMap
 ): BacksolveData | null {
   const sheets = findSheets(workbook, [
     /backsolve/i, /opm/i, /option.*pricing/i, /recent.*transaction/i, /funding/i
@@ -611,53 +810,51 @@ function extractBacksolveData(
     return null;
   }
   
-  const backsolve: BacksolveData = {
-    transactionDate: null,
-    securityType: null,
-    pricePerShare: null,
-    sharesIssued: null,
-    transactionAmount: null,
-    preMoneyValuation: null,
-    postMoneyValuation: null,
-    impliedEquityValue: null,
-    volatility: null,
-    riskFreeRate: null,
-    timeToLiquidity: null,
-    indicatedCommonValue: null,
-    indicatedPerShareValue: null,
-    methodology: null,
-  };
+  const backsolve = createEmptyBacksolveData();
   
   for (const sheetName of sheets) {
     const data = getSheetData(workbook, sheetName);
+    const units = getSheetUnits(workbook, sheetName);
+    const source = (field: string) => ({ provenance, sheet: sheetName, field });
     
     // Volatility
     backsolve.volatility ??= findValueNearLabel(data, [
       /volatility/i
-    ], { minValue: 0.20, maxValue: 1.50 }) as number | null;
+    ], { minValue: 0.20, maxValue: 1.50 }, source('backsolveData.volatility')) as number | null;
     
     // Risk-free rate
     backsolve.riskFreeRate ??= findValueNearLabel(data, [
       /risk.*free/i, /rf/i
-    ], { minValue: 0.01, maxValue: 0.10 }) as number | null;
+    ], { minValue: 0.01, maxValue: 0.10 }, source('backsolveData.riskFreeRate')) as number | null;
     
     // Time to liquidity
     backsolve.timeToLiquidity ??= findValueNearLabel(data, [
       /time.*liquidity/i, /term/i, /years/i
-    ], { minValue: 0.5, maxValue: 10 }) as number | null;
+    ], { minValue: 0.5, maxValue: 10 }, source('backsolveData.timeToLiquidity')) as number | null;
     
     // Transaction details
+    if (backsolve.transactionDate === null) {
+      const date = findValueNearLabel(data, [
+        /transaction\s*date/i, /closing\s*date/i, /financing\s*date/i, /round\s*date/i, /date\s*of\s*(?:transaction|financing|issuance)/i
+      ], { valueType: 'date' }, source('backsolveData.transactionDate'));
+      backsolve.transactionDate = toDate(date);
+    }
+
+    backsolve.securityType ??= findValueNearLabel(data, [
+      /^\s*(?:security|security\s*(?:issued|type)|financing\s*round|round|class\s*issued)\s*:?\s*$/i
+    ], { valueType: 'string' }, source('backsolveData.securityType')) as string | null;
+
     backsolve.pricePerShare ??= findValueNearLabel(data, [
       /price.*share/i, /pps/i
-    ], { minValue: 0.01 }) as number | null;
+    ], { minValue: 0.01 }, source('backsolveData.pricePerShare')) as number | null;
     
     backsolve.postMoneyValuation ??= findValueNearLabel(data, [
       /post.*money/i, /post-money/i
-    ], { minValue: 100000 }) as number | null;
+    ], { minValue: toSheetUnits(100000, units) }, source('backsolveData.postMoneyValuation')) as number | null;
     
     backsolve.indicatedCommonValue ??= findValueNearLabel(data, [
       /common.*value/i, /indicated.*value/i, /fair.*value/i
-    ], { minValue: 0.01 }) as number | null;
+    ], { minValue: 0.01 }, source('backsolveData.indicatedCommonValue')) as number | null;
     
     // Determine methodology
     if (sheetName.toLowerCase().includes('opm') || backsolve.volatility) {
@@ -674,12 +871,221 @@ function extractBacksolveData(
   return backsolve;
 }
 
+/**
+ * Convert a date cell (Date or Excel serial number) to a Date
+ */
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') {
+    // Excel serial date: days since 1899-12-30
+    return new Date(Math.round((value - 25569) * 86400000));
+  }
+  return null;
+}
+
+/**
+ * DLOM methods and the labels they appear under
+ */
+const DLOM_METHODS: { method: DLOMMethodIndication['method']; name: string; pattern: RegExp }[] = [
+  { method: 'finnerty', name: 'Finnerty average-strike put', pattern: /finnerty/i },
+  { method: 'chaffee', name: 'Chaffee protective put', pattern: /chaffee|protective\s*put|european\s*put/i },
+  { method: 'longstaff', name: 'Longstaff lookback put', pattern: /longstaff|look-?\s*back/i },
+  { method: 'ghaidarov', name: 'Ghaidarov average-strike put', pattern: /ghaidarov/i },
+  { method: 'restrictedStock', name: 'Restricted stock studies', pattern: /restricted\s*stock|stock\s*stud(?:y|ies)|pre-?\s*ipo\s*stud/i },
+];
+
+/**
+ * DLOM model input labels
+ */
+const DLOM_INPUTS: { key: 'volatility' | 'term' | 'riskFreeRate' | 'dividendYield' | 'indication' | 'weight'; pattern: RegExp }[] = [
+  { key: 'volatility', pattern: /volatility/i },
+  { key: 'term', pattern: /term|time\s*to|holding\s*period|years/i },
+  { key: 'riskFreeRate', pattern: /risk[-\s]*free/i },
+  { key: 'dividendYield', pattern: /dividend/i },
+  { key: 'weight', pattern: /weight/i },
+  { key: 'indication', pattern: /dlom|discount|indicat|put\s*(?:value|price)\s*%|implied/i },
+];
+
+/**
+ * Normalize a DLOM input value; rates may be stored as whole percentages
+ */
+function normalizeDLOMInput(key: typeof DLOM_INPUTS[number]['key'], raw: unknown): number | null {
+  const value = parseNumericCell(raw);
+  if (value === null || value < 0) return null;
+  if (key === 'term') return value > 0 && value <= 20 ? value : null;
+  if (key === 'volatility') return value > 2 ? (value <= 300 ? value / 100 : null) : value;
+  if (value > 100) return null;
+  return value > 1 ? value / 100 : value;
+}
+
+/**
+ * Create an empty DLOM method indication
+ */
+function createDLOMMethod(method: DLOMMethodIndication['method'], name: string): DLOMMethodIndication {
+  return {
+    method,
+    name,
+    volatility: null,
+    term: null,
+    riskFreeRate: null,
+    dividendYield: null,
+    indication: null,
+    weight: null,
+  };
+}
+
+/**
+ * Extract the DLOM methods used, their inputs and indications
+ */
+function extractDLOMAnalysis(
+  workbook: WorkbookData,
+  provenance: ProvenanceMap
+): DLOMAnalysis | null {
+  const sheets = findSheets(workbook, [/dlom/i, /marketability/i, /discount.*lack/i]);
+
+  for (const sheetName of sheets) {
+    const data = getSheetData(workbook, sheetName);
+    const methods = readDLOMMethodsByColumn(data, sheetName, provenance)
+      ?? readDLOMMethodsByBlock(data, sheetName, provenance);
+
+    const concludedDlom = normalizeDLOMInput('indication', findValueNearLabel(data, [
+      /(?:concluded|selected|applied)\s*(?:dlom|discount)/i, /dlom\s*(?:conclusion|selected|applied|concluded)/i
+    ], { minValue: 0.001, maxValue: 50 }, { provenance, sheet: sheetName, field: 'dlomAnalysis.concludedDlom' }));
+
+    if (methods || concludedDlom !== null) {
+      return { methods: methods ?? [], concludedDlom };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Column layout: method names across a header row, inputs as row labels
+ */
+function readDLOMMethodsByColumn(
+  data: unknown[][],
+  sheetName: string,
+  provenance: ProvenanceMap
+): DLOMMethodIndication[] | null {
+  for (let headerRow = 0; headerRow < Math.min(80, data.length); headerRow++) {
+    const headers = data[headerRow] || [];
+    const methodCols = headers.flatMap((h, col) => {
+      if (typeof h !== 'string') return [];
+      const match = DLOM_METHODS.find(m => m.pattern.test(h));
+      return match ? [{ col, method: createDLOMMethod(match.method, match.name) }] : [];
+    });
+
+    if (methodCols.length < 2) continue;
+
+    for (let row = headerRow + 1; row < Math.min(headerRow + 30, data.length); row++) {
+      const rowData = data[row] || [];
+      const labelCol = rowData.findIndex(c => typeof c === 'string' && c.trim().length > 0);
+      if (labelCol < 0 || labelCol >= methodCols[0].col) continue;
+
+      const label = (rowData[labelCol] as string).trim();
+      const input = DLOM_INPUTS.find(i => i.pattern.test(label));
+      if (!input) continue;
+
+      methodCols.forEach(({ col, method }, i) => {
+        if (method[input.key] !== null) return;
+        const value = normalizeDLOMInput(input.key, rowData[col]);
+        if (value === null) return;
+        method[input.key] = value;
+        recordProvenance(provenance, `dlomAnalysis.methods[${i}].${input.key}`, {
+          sheet: sheetName, row, col, label, rule: 'rowScan',
+        });
+      });
+    }
+
+    if (methodCols.some(({ method }) => method.indication !== null)) {
+      return methodCols.map(({ method }) => method);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Block layout: each method is a labelled row (optionally with its indication alongside)
+ * followed by its inputs in the rows below
+ */
+function readDLOMMethodsByBlock(
+  data: unknown[][],
+  sheetName: string,
+  provenance: ProvenanceMap
+): DLOMMethodIndication[] | null {
+  const methods: DLOMMethodIndication[] = [];
+  const seen = new Set<DLOMMethodIndication['method']>();
+  const isMethodRow = (rowData: unknown[]) =>
+    rowData.some(c => typeof c === 'string' && DLOM_METHODS.some(m => m.pattern.test(c)));
+
+  for (let row = 0; row < Math.min(150, data.length); row++) {
+    const rowData = data[row] || [];
+    const labelCol = rowData.findIndex(c => typeof c === 'string' && DLOM_METHODS.some(m => m.pattern.test(c)));
+    if (labelCol < 0) continue;
+
+    const label = (rowData[labelCol] as string).trim();
+    const match = DLOM_METHODS.find(m => m.pattern.test(label));
+    if (!match || seen.has(match.method)) continue;
+    seen.add(match.method);
+
+    const index = methods.length;
+    const method = createDLOMMethod(match.method, match.name);
+
+    // Summary row: indication (and weight) to the right of the method name
+    const rowValues = rowData
+      .map((v, col) => ({ col, value: normalizeDLOMInput('indication', v) }))
+      .filter(({ col, value }) => col > labelCol && value !== null && value > 0);
+    if (rowValues.length > 0) {
+      method.indication = rowValues[0].value;
+      recordProvenance(provenance, `dlomAnalysis.methods[${index}].indication`, {
+        sheet: sheetName, row, col: rowValues[0].col, label, rule: 'rowScan',
+      });
+    }
+    if (rowValues.length > 1) {
+      method.weight = rowValues[1].value;
+      recordProvenance(provenance, `dlomAnalysis.methods[${index}].weight`, {
+        sheet: sheetName, row, col: rowValues[1].col, label, rule: 'rowScan',
+      });
+    }
+
+    // Input rows below the method name, until the next method
+    for (let r = row + 1; r < Math.min(row + 15, data.length); r++) {
+      const inputRow = data[r] || [];
+      if (isMethodRow(inputRow)) break;
+
+      const inputLabelCol = inputRow.findIndex(c => typeof c === 'string' && c.trim().length > 0);
+      if (inputLabelCol < 0) continue;
+
+      const inputLabel = (inputRow[inputLabelCol] as string).trim();
+      const input = DLOM_INPUTS.find(i => i.pattern.test(inputLabel));
+      if (!input || method[input.key] !== null) continue;
+
+      for (let c = inputLabelCol + 1; c < Math.min(inputLabelCol + 6, inputRow.length); c++) {
+        const value = normalizeDLOMInput(input.key, inputRow[c]);
+        if (value === null) continue;
+        method[input.key] = value;
+        recordProvenance(provenance, `dlomAnalysis.methods[${index}].${input.key}`, {
+          sheet: sheetName, row: r, col: c, label: inputLabel, rule: 'rowScan',
+        });
+        break;
+      }
+    }
+
+    methods.push(method);
+  }
+
+  return methods.length > 0 ? methods : null;
+}
+
 /**
  * Extract weighting and conclusion data
  */
 function extractWeightingData(
   workbook: WorkbookData,
-  missingData: string[]
+  missingData: string[],
+  provenance: ProvenanceMap
 ): WeightingData | null {
   const sheets = findSheets(workbook, [
     /summary/i, /conclusion/i, /valuation/i, /weight/i
@@ -690,17 +1096,7 @@ function extractWeightingData(
     return null;
   }
   
-  const weighting: WeightingData = {
-    approaches: [],
-    concludedEnterpriseValue: null,
-    concludedEquityValue: null,
-    dlomPercentage: null,
-    dlomMethod: null,
-    valueAfterDlom: null,
-    sharesOutstanding: null,
-    perShareValue: null,
-    perShareValueAfterDlom: null,
-  };
+  const weighting = createEmptyWeightingData();
   
   // Approach patterns to look for
   const approachPatterns = [
@@ -713,6 +1109,10 @@ function extractWeightingData(
   
   for (const sheetName of sheets) {
     const data = getSheetData(workbook, sheetName);
+    const units = getSheetUnits(workbook, sheetName);
+    // Amounts must clear 1 in the sheet's units so weights aren't taken as values
+    const minApproachValue = Math.max(toSheetUnits(10000, units), 1);
+    const minAmount = Math.max(toSheetUnits(1000, units), 1);
     
     for (let row = 0; row < Math.min(100, data.length); row++) {
       const rowData = data[row] || [];
@@ -726,22 +1126,36 @@ function extractWeightingData(
             if (pattern.test(cell) && !weighting.approaches.find(a => a.name === name)) {
               let indicatedValue: number | null = null;
               let weight: number | null = null;
+              let valueCol = -1;
+              let weightCol = -1;
               
               // Look for values in same row
               for (let c = col + 1; c < Math.min(col + 8, rowData.length); c++) {
                 const val = rowData[c];
                 if (typeof val === 'number') {
-                  if (!indicatedValue && val > 10000) {
+                  if (!indicatedValue && val > minApproachValue) {
                     indicatedValue = val;
+                    valueCol = c;
                   } else if (!weight && val > 0 && val <= 1) {
                     weight = val;
+                    weightCol = c;
                   } else if (!weight && val > 0 && val <= 100) {
                     weight = val / 100;
+                    weightCol = c;
                   }
                 }
               }
               
               if (indicatedValue !== null) {
+                const prefix = `weightingData.approaches[${weighting.approaches.length}]`;
+                recordProvenance(provenance, `${prefix}.indicatedValue`, {
+                  sheet: sheetName, row, col: valueCol, label: cell, rule: 'rowScan',
+                });
+                if (weightCol >= 0) {
+                  recordProvenance(provenance, `${prefix}.weight`, {
+                    sheet: sheetName, row, col: weightCol, label: cell, rule: 'rowScan',
+                  });
+                }
                 weighting.approaches.push({
                   name,
                   indicatedValue,
@@ -756,8 +1170,11 @@ function extractWeightingData(
           if (/concluded.*value|weighted.*average|total.*value/i.test(cell)) {
             for (let c = col + 1; c < Math.min(col + 5, rowData.length); c++) {
               const val = rowData[c];
-              if (typeof val === 'number' && val > 10000) {
+              if (typeof val === 'number' && val > minApproachValue) {
                 weighting.concludedEnterpriseValue = val;
+                recordProvenance(provenance, 'weightingData.concludedEnterpriseValue', {
+                  sheet: sheetName, row, col: c, label: cell, rule: 'rowScan',
+                });
                 break;
               }
             }
@@ -773,6 +1190,11 @@ function extractWeightingData(
                 } else if (val > 0 && val < 100) {
                   weighting.dlomPercentage = val / 100;
                 }
+                if (val > 0 && val < 100) {
+                  recordProvenance(provenance, 'weightingData.dlomPercentage', {
+                    sheet: sheetName, row, col: c, label: cell, rule: 'rowScan',
+                  });
+                }
                 break;
               }
             }
@@ -782,8 +1204,11 @@ function extractWeightingData(
           if (/after.*dlom|marketable.*minority/i.test(cell)) {
             for (let c = col + 1; c < Math.min(col + 5, rowData.length); c++) {
               const val = rowData[c];
-              if (typeof val === 'number' && val > 1000) {
+              if (typeof val === 'number' && val > minAmount) {
                 weighting.valueAfterDlom = val;
+                recordProvenance(provenance, 'weightingData.valueAfterDlom', {
+                  sheet: sheetName, row, col: c, label: cell, rule: 'rowScan',
+                });
                 break;
               }
             }
@@ -795,6 +1220,9 @@ function extractWeightingData(
               const val = rowData[c];
               if (typeof val === 'number' && val > 0 && val < 10000) {
                 weighting.perShareValue = val;
+                recordProvenance(provenance, 'weightingData.perShareValue', {
+                  sheet: sheetName, row, col: c, label: cell, rule: 'rowScan',
+                });
                 break;
               }
             }
@@ -813,3 +1241,793 @@ function extractWeightingData(
   return weighting;
 }
 
+const SCENARIO_NAME = /\bipo\b|initial\s*public|\bsale\b|m&a|merger|acqui|strategic|dissolution|liquidation\s*scenario|downside|stay\s*private|remain\s*private|status\s*quo|\bopm\b|scenario/i;
+
+/**
+ * Scenario attribute labels (column layout) / headers (row layout)
+ */
+const SCENARIO_ATTRIBUTES: { key: 'probability' | 'exitTiming' | 'exitValue' | 'discountRate'; pattern: RegExp }[] = [
+  { key: 'probability', pattern: /probab|scenario\s*weight|^\s*weight(?:ing)?\s*(?:%|\(%\))?\s*$/i },
+  { key: 'exitTiming', pattern: /years?\s*to|time\s*to|exit\s*(?:timing|year|period)|holding\s*period|^\s*term\b/i },
+  { key: 'exitValue', pattern: /exit\s*value|equity\s*value|enterprise\s*value|exit\s*proceeds|exit\s*price/i },
+  { key: 'discountRate', pattern: /discount\s*rate|required\s*(?:rate\s*of\s*)?return|cost\s*of\s*equity/i },
+];
+
+/**
+ * Classify a scenario by its name
+ */
+function classifyScenario(name: string): PWERMScenario['type'] {
+  if (/\bipo\b|initial\s*public/i.test(name)) return 'ipo';
+  if (/dissol|liquidation|downside|wind/i.test(name)) return 'dissolution';
+  if (/stay|remain|private|status\s*quo|\bopm\b/i.test(name)) return 'stayPrivate';
+  if (/sale|m&a|merger|acqui|strategic|exit/i.test(name)) return 'sale';
+  return 'other';
+}
+
+/**
+ * Set a scenario attribute from a raw cell value
+ * Returns true if the value was usable
+ */
+function setScenarioAttribute(
+  scenario: PWERMScenario,
+  key: typeof SCENARIO_ATTRIBUTES[number]['key'],
+  raw: unknown
+): boolean {
+  const value = parseNumericCell(raw);
+  if (value === null || scenario[key] !== null) return false;
+
+  switch (key) {
+    case 'probability':
+    case 'discountRate':
+      if (value <= 0 || value > 100) return false;
+      scenario[key] = value > 1 ? value / 100 : value;
+      return true;
+    case 'exitTiming':
+      if (value <= 0 || value > 20) return false;
+      scenario.exitTiming = value;
+      return true;
+    case 'exitValue':
+      if (value < 1000) return false;
+      scenario.exitValue = value;
+      return true;
+  }
+}
+
+/**
+ * Create a scenario with all values unset
+ */
+function createScenario(name: string): PWERMScenario {
+  return {
+    name,
+    type: classifyScenario(name),
+    probability: null,
+    exitTiming: null,
+    exitValue: null,
+    discountRate: null,
+    perShareValues: [],
+  };
+}
+
+/**
+ * Extract PWERM / hybrid scenarios
+ * Supports scenarios across columns (attributes as row labels) or down rows (attributes as headers)
+ */
+function extractPWERMData(
+  workbook: WorkbookData,
+  provenance: ProvenanceMap
+): PWERMData | null {
+  const sheets = findSheets(workbook, [/pwerm/i, /scenario/i, /probab/i, /hybrid/i]);
+
+  for (const sheetName of sheets) {
+    const data = getSheetData(workbook, sheetName);
+    const scenarios = readScenariosByColumn(data, sheetName, provenance)
+      ?? readScenariosByRow(data, sheetName, provenance);
+    if (!scenarios) continue;
+
+    const probabilityWeightedCommonValue = findValueNearLabel(data, [
+      /probability[-\s]*weighted.*(?:common|per\s*share)/i, /weighted.*common.*(?:value|per\s*share)/i
+    ], { minValue: 0.0001, maxValue: 10000 }, {
+      provenance, sheet: sheetName, field: 'pwermData.probabilityWeightedCommonValue',
+    }) as number | null;
+
+    return {
+      scenarios,
+      isHybrid: scenarios.some(s => /\bopm\b|option\s*pricing/i.test(s.name)),
+      probabilityWeightedCommonValue,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Column layout: scenario names across a header row
+ */
+function readScenariosByColumn(
+  data: unknown[][],
+  sheetName: string,
+  provenance: ProvenanceMap
+): PWERMScenario[] | null {
+  for (let headerRow = 0; headerRow < Math.min(60, data.length); headerRow++) {
+    const headers = data[headerRow] || [];
+    const scenarioCols = headers
+      .map((h, col) => ({ h, col }))
+      .filter(({ h }) => typeof h === 'string' && SCENARIO_NAME.test(h) && !/total|weighted/i.test(h));
+
+    if (scenarioCols.length < 2) continue;
+
+    const scenarios = scenarioCols.map(({ h }) => createScenario((h as string).trim()));
+
+    for (let row = headerRow + 1; row < Math.min(headerRow + 50, data.length); row++) {
+      const rowData = data[row] || [];
+      const labelCol = rowData.findIndex(c => typeof c === 'string' && c.trim().length > 0);
+      if (labelCol < 0 || labelCol >= scenarioCols[0].col) continue;
+
+      const label = (rowData[labelCol] as string).trim();
+      if (/weighted/i.test(label)) continue;
+
+      const attribute = SCENARIO_ATTRIBUTES.find(a => a.pattern.test(label));
+      const isClassValue = !attribute && SHARE_CLASS_NAME.test(label);
+
+      scenarioCols.forEach(({ col }, i) => {
+        if (attribute) {
+          if (setScenarioAttribute(scenarios[i], attribute.key, rowData[col])) {
+            recordProvenance(provenance, `pwermData.scenarios[${i}].${attribute.key}`, {
+              sheet: sheetName, row, col, label, rule: 'rowScan',
+            });
+          }
+        } else if (isClassValue) {
+          const value = parseNumericCell(rowData[col]);
+          if (value === null || value < 0 || value >= 10000) return;
+          recordProvenance(provenance, `pwermData.scenarios[${i}].perShareValues[${scenarios[i].perShareValues.length}]`, {
+            sheet: sheetName, row, col, label, rule: 'rowScan',
+          });
+          scenarios[i].perShareValues.push({ className: label, value });
+        }
+      });
+    }
+
+    if (scenarios.some(s => s.probability !== null)) {
+      scenarioCols.forEach(({ col }, i) => {
+        recordProvenance(provenance, `pwermData.scenarios[${i}].name`, {
+          sheet: sheetName, row: headerRow, col, label: scenarios[i].name, rule: 'tableColumn',
+        });
+      });
+      return scenarios;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Row layout: one scenario per row, attributes and class values as columns
+ */
+function readScenariosByRow(
+  data: unknown[][],
+  sheetName: string,
+  provenance: ProvenanceMap
+): PWERMScenario[] | null {
+  for (let headerRow = 0; headerRow < Math.min(60, data.length); headerRow++) {
+    const headers = data[headerRow] || [];
+    const attributeCols: Partial<Record<typeof SCENARIO_ATTRIBUTES[number]['key'], number>> = {};
+    const classCols: { col: number; className: string }[] = [];
+
+    headers.forEach((h, col) => {
+      if (typeof h !== 'string' || /weighted/i.test(h)) return;
+      const attribute = SCENARIO_ATTRIBUTES.find(a => a.pattern.test(h));
+      if (attribute && attributeCols[attribute.key] === undefined) {
+        attributeCols[attribute.key] = col;
+      } else if (!attribute && SHARE_CLASS_NAME.test(h)) {
+        classCols.push({ col, className: h.trim() });
+      }
+    });
+
+    if (attributeCols.probability === undefined || Object.keys(attributeCols).length < 2) continue;
+
+    const scenarios: PWERMScenario[] = [];
+    for (let row = headerRow + 1; row < Math.min(headerRow + 20, data.length); row++) {
+      const rowData = data[row] || [];
+      const nameCol = rowData.findIndex(c => typeof c === 'string' && SCENARIO_NAME.test(c));
+      if (nameCol < 0) continue;
+
+      const name = (rowData[nameCol] as string).trim();
+      if (/^total|weighted/i.test(name)) break;
+
+      const scenario = createScenario(name);
+      const prefix = `pwermData.scenarios[${scenarios.length}]`;
+      recordProvenance(provenance, `${prefix}.name`, {
+        sheet: sheetName, row, col: nameCol, label: name, rule: 'tableColumn',
+      });
+
+      for (const [key, col] of Object.entries(attributeCols) as [typeof SCENARIO_ATTRIBUTES[number]['key'], number][]) {
+        if (setScenarioAttribute(scenario, key, rowData[col])) {
+          recordProvenance(provenance, `${prefix}.${key}`, {
+            sheet: sheetName, row, col, label: String(headers[col]), rule: 'tableColumn',
+          });
+        }
+      }
+      for (const { col, className } of classCols) {
+        const value = parseNumericCell(rowData[col]);
+        if (value === null || value < 0 || value >= 10000) continue;
+        recordProvenance(provenance, `${prefix}.perShareValues[${scenario.perShareValues.length}]`, {
+          sheet: sheetName, row, col, label: className, rule: 'tableColumn',
+        });
+        scenario.perShareValues.push({ className, value });
+      }
+
+      scenarios.push(scenario);
+    }
+
+    if (scenarios.length >= 2) return scenarios;
+  }
+
+  return null;
+}
+
+const ENTERPRISE_VALUE_LABEL = /enterprise\s*value|business\s*enterprise|invested\s*capital|\bbev\b|\btic\b/i;
+const EQUITY_VALUE_LABEL = /equity\s*value|value\s*of\s*equity/i;
+
+/**
+ * Bridge item categories, checked in order
+ */
+const BRIDGE_CATEGORIES: { category: EquityBridgeItem['category']; pattern: RegExp }[] = [
+  { category: 'debtLike', pattern: /debt[-\s]*like|lease|deferred\s*revenue|pension|accrued|transaction\s*(?:fee|cost|expense)|earn[-\s]*out|unpaid|payable/i },
+  { category: 'debt', pattern: /debt|loan|note|borrow|line\s*of\s*credit|revolver|convertible|safe\b|financing/i },
+  { category: 'cash', pattern: /cash/i },
+  { category: 'nonOperating', pattern: /non[-\s]*operating|excess|investment|\bnol\b|tax\s*asset|real\s*estate|receivable.*(?:officer|shareholder|related)/i },
+];
+
+/**
+ * Extract the bridge from concluded enterprise value to equity value
+ * Reads the rows between an enterprise value row and the equity value row below it
+ */
+function extractEquityBridge(
+  workbook: WorkbookData,
+  missingData: string[],
+  provenance: ProvenanceMap
+): EquityBridge | null {
+  const sheets = findSheets(workbook, [
+    /summary/i, /conclusion/i, /bridge/i, /equity/i, /valuation/i, /weight/i
+  ]);
+
+  for (const sheetName of sheets) {
+    const data = getSheetData(workbook, sheetName);
+    const bridge = readEquityBridge(data, sheetName, provenance);
+    if (bridge) return bridge;
+  }
+
+  missingData.push('Enterprise-to-equity bridge not found');
+  return null;
+}
+
+/**
+ * Find the first string cell in a row and the first numeric cell to its right
+ * (or in the preferred column when given)
+ */
+function readLabelledRow(
+  rowData: unknown[],
+  preferredCol: number | null
+): { label: string; labelCol: number; value: number | null; valueCol: number } | null {
+  const labelCol = rowData.findIndex(c => typeof c === 'string' && c.trim().length > 0);
+  if (labelCol < 0) return null;
+
+  const label = (rowData[labelCol] as string).trim();
+  if (preferredCol !== null && preferredCol > labelCol && typeof rowData[preferredCol] === 'number') {
+    return { label, labelCol, value: rowData[preferredCol] as number, valueCol: preferredCol };
+  }
+  for (let c = labelCol + 1; c < Math.min(labelCol + 8, rowData.length); c++) {
+    if (typeof rowData[c] === 'number') {
+      return { label, labelCol, value: rowData[c] as number, valueCol: c };
+    }
+  }
+  return { label, labelCol, value: null, valueCol: -1 };
+}
+
+/**
+ * Read an enterprise-to-equity bridge from a single sheet
+ */
+function readEquityBridge(
+  data: unknown[][],
+  sheetName: string,
+  provenance: ProvenanceMap
+): EquityBridge | null {
+  for (let row = 0; row < Math.min(200, data.length); row++) {
+    const start = readLabelledRow(data[row] || [], null);
+    if (!start || start.value === null || start.value < 10000) continue;
+    if (!ENTERPRISE_VALUE_LABEL.test(start.label) || EQUITY_VALUE_LABEL.test(start.label)) continue;
+
+    const items: EquityBridgeItem[] = [];
+    const itemRows: { row: number; col: number; label: string }[] = [];
+    let equity: { row: number; col: number; label: string; value: number } | null = null;
+    let netDebtRow: { row: number; col: number; label: string; amount: number } | null = null;
+
+    for (let r = row + 1; r < Math.min(row + 25, data.length); r++) {
+      const line = readLabelledRow(data[r] || [], start.valueCol);
+      if (!line || line.value === null) continue;
+
+      if (EQUITY_VALUE_LABEL.test(line.label)) {
+        equity = { row: r, col: line.valueCol, label: line.label, value: line.value };
+        break;
+      }
+      if (ENTERPRISE_VALUE_LABEL.test(line.label) || /^\s*(?:total|sub-?total)\b/i.test(line.label)) continue;
+
+      // Net debt / net cash subtotals are only used when no components are listed
+      if (/net\s*(?:debt|cash)/i.test(line.label)) {
+        const isCash = /net\s*cash/i.test(line.label);
+        netDebtRow = {
+          row: r,
+          col: line.valueCol,
+          label: line.label,
+          amount: signBridgeAmount(line.label, line.value, isCash ? 'cash' : 'debt'),
+        };
+        continue;
+      }
+
+      const category = BRIDGE_CATEGORIES.find(c => c.pattern.test(line.label))?.category ?? 'other';
+      items.push({
+        label: line.label.replace(/^\s*(?:less|plus|add|minus|deduct)\s*[:\-]?\s*/i, ''),
+        category,
+        amount: signBridgeAmount(line.label, line.value, category),
+      });
+      itemRows.push({ row: r, col: line.valueCol, label: line.label });
+    }
+
+    if (!equity) continue;
+
+    if (items.length === 0 && netDebtRow) {
+      items.push({
+        label: netDebtRow.label,
+        category: netDebtRow.amount >= 0 ? 'cash' : 'debt',
+        amount: netDebtRow.amount,
+      });
+      itemRows.push(netDebtRow);
+    }
+
+    recordProvenance(provenance, 'equityBridge.enterpriseValue', {
+      sheet: sheetName, row, col: start.valueCol, label: start.label, rule: 'rowScan',
+    });
+    itemRows.forEach((item, i) => {
+      recordProvenance(provenance, `equityBridge.items[${i}].amount`, {
+        sheet: sheetName, row: item.row, col: item.col, label: item.label, rule: 'rowScan',
+      });
+    });
+    recordProvenance(provenance, 'equityBridge.equityValue', {
+      sheet: sheetName, row: equity.row, col: equity.col, label: equity.label, rule: 'rowScan',
+    });
+
+    return {
+      enterpriseValue: start.value,
+      items,
+      equityValue: equity.value,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Sign a bridge amount by its label and category
+ * Negative values in the model are kept as deductions
+ */
+function signBridgeAmount(label: string, value: number, category: EquityBridgeItem['category']): number {
+  if (value < 0) return value;
+  if (/^\s*(?:less|minus|deduct)\b/i.test(label)) return -value;
+  if (/^\s*(?:plus|add)\b/i.test(label)) return value;
+  return category === 'debt' || category === 'debtLike' ? -value : value;
+}
+
+/**
+ * Cap table attribute headers (row layout) / row labels (column layout)
+ */
+const CAP_TABLE_ATTRIBUTES: { key: keyof ShareClass; pattern: RegExp }[] = [
+  { key: 'sharesOutstanding', pattern: /shares?\s*(?:outstanding|issued|o\/s)|^\s*(?:#\s*of\s*)?shares\s*$|share\s*count/i },
+  { key: 'originalIssuePrice', pattern: /original\s*issue|issue\s*price|\boip\b|price\s*per\s*share/i },
+  { key: 'liquidationPreference', pattern: /liq(?:uidation)?\.?\s*pref/i },
+  // Before participating, which would otherwise claim "Participation Cap"
+  { key: 'participationCap', pattern: /participation\s*cap|\bcap\b/i },
+  { key: 'participating', pattern: /participat/i },
+  // A conversion price is not a ratio
+  { key: 'conversionRatio', pattern: /conver(?:sion|t)(?!\w*\s+price)(?:\s*(?:ratio|rate))?/i },
+];
+
+const SHARE_CLASS_NAME = /series\s+[a-z0-9-]+|preferred|common|seed|class\s+[a-z0-9]+/i;
+const DILUTIVE_NAME = /option|warrant|\bpool\b|\brsu/i;
+
+/**
+ * Extract capital structure from cap table / OPM breakpoint sheets
+ * Supports classes listed down rows (attributes as columns) or across columns
+ */
+function extractCapTable(
+  workbook: WorkbookData,
+  missingData: string[],
+  provenance: ProvenanceMap
+): CapTable | null {
+  const sheets = findSheets(workbook, [
+    /cap.*table/i, /capitali[sz]ation/i, /breakpoint/i, /waterfall/i, /opm/i, /equity.*struct/i
+  ]);
+
+  if (sheets.length === 0) {
+    missingData.push('Cap table sheet not found');
+    return null;
+  }
+
+  const capTable: CapTable = {
+    shareClasses: [],
+    dilutiveSecurities: [],
+    totalFullyDilutedShares: null,
+  };
+
+  for (const sheetName of sheets) {
+    const data = getSheetData(workbook, sheetName);
+
+    if (capTable.shareClasses.length === 0) {
+      extractShareClassesByRow(data, sheetName, capTable, provenance);
+    }
+    if (capTable.shareClasses.length === 0) {
+      extractShareClassesByColumn(data, sheetName, capTable, provenance);
+    }
+    if (capTable.dilutiveSecurities.length === 0) {
+      extractDilutiveSecurities(data, sheetName, capTable, provenance);
+    }
+
+    capTable.totalFullyDilutedShares ??= findValueNearLabel(data, [
+      /fully\s*diluted/i, /total\s*shares/i
+    ], { minValue: 1 }, { provenance, sheet: sheetName, field: 'capTable.totalFullyDilutedShares' }) as number | null;
+
+    if (capTable.shareClasses.length > 0 && capTable.dilutiveSecurities.length > 0) break;
+  }
+
+  if (capTable.shareClasses.length === 0) {
+    missingData.push('No share classes extracted from cap table');
+    if (capTable.dilutiveSecurities.length === 0 && capTable.totalFullyDilutedShares === null) {
+      return null;
+    }
+  }
+
+  return capTable;
+}
+
+/**
+ * Create a share class with all terms unset
+ */
+function createShareClass(name: string): ShareClass {
+  return {
+    name,
+    type: /preferred|series|seed/i.test(name) && !/common/i.test(name) ? 'preferred' : 'common',
+    sharesOutstanding: null,
+    originalIssuePrice: null,
+    liquidationPreference: null,
+    liquidationPreferenceAmount: null,
+    participating: null,
+    participationCap: null,
+    conversionRatio: null,
+  };
+}
+
+/**
+ * Set a share class term from a raw cell value
+ * Returns true if the value was usable
+ */
+function setShareClassTerm(shareClass: ShareClass, key: keyof ShareClass, raw: unknown): boolean {
+  if (raw === null || raw === undefined || raw === '') return false;
+
+  switch (key) {
+    case 'participating': {
+      if (typeof raw === 'boolean') {
+        shareClass.participating = raw;
+      } else if (typeof raw === 'number') {
+        shareClass.participating = raw > 0;
+      } else {
+        const text = String(raw).trim().toLowerCase();
+        if (/^(?:no|n|none|non[-\s]?participating|false)$/.test(text)) {
+          shareClass.participating = false;
+        } else if (/^(?:yes|y|full|participating|capped|true)/.test(text)) {
+          shareClass.participating = true;
+        } else {
+          return false;
+        }
+      }
+      return true;
+    }
+
+    case 'liquidationPreference': {
+      const value = parseNumericCell(raw);
+      if (value === null || value < 0) return false;
+      // Small values are multiples of OIP (1.0x); larger values are dollar amounts
+      if (value <= 5) {
+        shareClass.liquidationPreference = value;
+      } else {
+        shareClass.liquidationPreferenceAmount = value;
+      }
+      return true;
+    }
+
+    case 'sharesOutstanding':
+    case 'originalIssuePrice':
+    case 'participationCap':
+    case 'conversionRatio': {
+      const value = parseNumericCell(raw);
+      if (value === null || value < 0) return false;
+      shareClass[key] = value;
+      return true;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Parse numbers that may be stored as text (e.g. "1.0x", "$1.25", "1,000,000")
+ */
+function parseNumericCell(raw: unknown): number | null {
+  if (typeof raw === 'number') return isFinite(raw) ? raw : null;
+  if (typeof raw !== 'string') return null;
+  const parsed = parseFloat(raw.replace(/[$,x×\s]/gi, ''));
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Row layout: one share class per row, terms in columns
+ */
+function extractShareClassesByRow(
+  data: unknown[][],
+  sheetName: string,
+  capTable: CapTable,
+  provenance: ProvenanceMap
+): void {
+  for (let headerRow = 0; headerRow < Math.min(60, data.length); headerRow++) {
+    const headers = data[headerRow] || [];
+    const columns: Partial<Record<keyof ShareClass, number>> = {};
+
+    headers.forEach((h, col) => {
+      if (typeof h !== 'string') return;
+      for (const { key, pattern } of CAP_TABLE_ATTRIBUTES) {
+        if (columns[key] === undefined && pattern.test(h)) {
+          columns[key] = col;
+          break;
+        }
+      }
+    });
+
+    if (Object.keys(columns).length < 2) continue;
+
+    const termCols = Object.values(columns) as number[];
+    for (let row = headerRow + 1; row < Math.min(headerRow + 30, data.length); row++) {
+      const rowData = data[row] || [];
+      const nameCol = rowData.findIndex((c, i) => typeof c === 'string' && c.trim().length > 0 && !termCols.includes(i));
+      if (nameCol < 0) continue;
+
+      const name = (rowData[nameCol] as string).trim();
+      if (/^total/i.test(name)) break;
+      if (DILUTIVE_NAME.test(name) || !SHARE_CLASS_NAME.test(name)) continue;
+
+      const shareClass = createShareClass(name);
+      const prefix = `capTable.shareClasses[${capTable.shareClasses.length}]`;
+      recordProvenance(provenance, `${prefix}.name`, {
+        sheet: sheetName, row, col: nameCol, label: name, rule: 'tableColumn',
+      });
+
+      for (const [key, col] of Object.entries(columns) as [keyof ShareClass, number][]) {
+        if (setShareClassTerm(shareClass, key, rowData[col])) {
+          recordProvenance(provenance, `${prefix}.${key}`, {
+            sheet: sheetName, row, col, label: String(headers[col]), rule: 'tableColumn',
+          });
+        }
+      }
+
+      capTable.shareClasses.push(shareClass);
+    }
+
+    if (capTable.shareClasses.length > 0) return;
+  }
+}
+
+/**
+ * Column layout: share classes across a header row, terms down the rows
+ * (typical of OPM breakpoint sheets)
+ */
+function extractShareClassesByColumn(
+  data: unknown[][],
+  sheetName: string,
+  capTable: CapTable,
+  provenance: ProvenanceMap
+): void {
+  for (let headerRow = 0; headerRow < Math.min(60, data.length); headerRow++) {
+    const headers = data[headerRow] || [];
+    const classCols = headers
+      .map((h, col) => ({ h, col }))
+      .filter(({ h }) => typeof h === 'string' && SHARE_CLASS_NAME.test(h) && !DILUTIVE_NAME.test(h) && !/total/i.test(h));
+
+    if (classCols.length < 2) continue;
+
+    const classes = classCols.map(({ h }) => createShareClass((h as string).trim()));
+    const startIndex = capTable.shareClasses.length;
+
+    for (let row = headerRow + 1; row < Math.min(headerRow + 40, data.length); row++) {
+      const rowData = data[row] || [];
+      const labelCol = rowData.findIndex(c => typeof c === 'string' && c.trim().length > 0);
+      if (labelCol < 0 || labelCol >= classCols[0].col) continue;
+
+      const label = rowData[labelCol] as string;
+      const attribute = CAP_TABLE_ATTRIBUTES.find(a => a.pattern.test(label));
+      if (!attribute) continue;
+
+      classCols.forEach(({ col }, i) => {
+        if (setShareClassTerm(classes[i], attribute.key, rowData[col])) {
+          recordProvenance(provenance, `capTable.shareClasses[${startIndex + i}].${attribute.key}`, {
+            sheet: sheetName, row, col, label, rule: 'rowScan',
+          });
+        }
+      });
+    }
+
+    // Only accept the header row if at least one term was found
+    if (classes.some(c => c.sharesOutstanding !== null || c.originalIssuePrice !== null)) {
+      classCols.forEach(({ col }, i) => {
+        recordProvenance(provenance, `capTable.shareClasses[${startIndex + i}].name`, {
+          sheet: sheetName, row: headerRow, col, label: classes[i].name, rule: 'tableColumn',
+        });
+      });
+      capTable.shareClasses.push(...classes);
+      return;
+    }
+  }
+}
+
+/**
+ * Extract option / warrant tranches with strike prices
+ */
+function extractDilutiveSecurities(
+  data: unknown[][],
+  sheetName: string,
+  capTable: CapTable,
+  provenance: ProvenanceMap
+): void {
+  for (let headerRow = 0; headerRow < Math.min(80, data.length); headerRow++) {
+    const headers = data[headerRow] || [];
+    const strikeCol = headers.findIndex(h => typeof h === 'string' && /strike|exercise\s*price/i.test(h));
+    if (strikeCol < 0) continue;
+
+    const quantityCol = headers.findIndex((h, i) =>
+      i !== strikeCol && typeof h === 'string' && /options?|warrants?|quantity|number|outstanding|shares/i.test(h) && !/price/i.test(h)
+    );
+
+    for (let row = headerRow + 1; row < Math.min(headerRow + 30, data.length); row++) {
+      const rowData = data[row] || [];
+      const nameCol = rowData.findIndex((c, i) => typeof c === 'string' && c.trim().length > 0 && i !== strikeCol && i !== quantityCol);
+      const strike = parseNumericCell(rowData[strikeCol]);
+      if (nameCol < 0 || strike === null) continue;
+
+      const name = (rowData[nameCol] as string).trim();
+      if (/^total/i.test(name)) break;
+
+      const security: DilutiveSecurity = {
+        name,
+        type: /warrant/i.test(name) ? 'warrant' : 'option',
+        quantity: quantityCol >= 0 ? parseNumericCell(rowData[quantityCol]) : null,
+        strikePrice: strike,
+      };
+
+      recordTableRow(provenance, `capTable.dilutiveSecurities[${capTable.dilutiveSecurities.length}]`, sheetName, row, headers, {
+        name: nameCol,
+        quantity: quantityCol >= 0 ? quantityCol : undefined,
+        strikePrice: strikeCol,
+      }, security);
+      capTable.dilutiveSecurities.push(security);
+    }
+
+    if (capTable.dilutiveSecurities.length > 0) return;
+  }
+}
+
+/**
+ * Create an empty CompanyFinancials record
+ */
+export function createEmptyCompanyFinancials(): CompanyFinancials {
+  return {
+    ltmRevenue: null,
+    currentYearRevenue: null,
+    projectedRevenue: null,
+    ltmEbitda: null,
+    currentYearEbitda: null,
+    grossProfit: null,
+    grossMargin: null,
+    netIncome: null,
+    totalAssets: null,
+    totalEquity: null,
+    totalDebt: null,
+    cash: null,
+    enterpriseValue: null,
+    equityValue: null,
+  };
+}
+
+/**
+ * Create an empty IncomeApproachData record
+ */
+export function createEmptyIncomeApproachData(): IncomeApproachData {
+  return {
+    projectionYears: null,
+    projectionStartYear: null,
+    revenueProjections: [],
+    grossProfitProjections: [],
+    ebitdaProjections: [],
+    capexProjections: [],
+    nwcChangeProjections: [],
+    cashFlowProjections: [],
+    discountRate: null,
+    wacc: null,
+    terminalGrowthRate: null,
+    terminalMultiple: null,
+    terminalMethodology: null,
+    waccBuildUp: null,
+    presentValueCashFlows: null,
+    terminalValue: null,
+    presentValueTerminal: null,
+    indicatedValue: null,
+    keyAssumptions: [],
+  };
+}
+
+/**
+ * Create an empty WACCBuildUp record
+ */
+export function createEmptyWACCBuildUp(): WACCBuildUp {
+  return {
+    riskFreeRate: null,
+    equityRiskPremium: null,
+    leveredBeta: null,
+    unleveredBeta: null,
+    sizePremium: null,
+    industryRiskPremium: null,
+    companySpecificRiskPremium: null,
+    costOfEquity: null,
+    preTaxCostOfDebt: null,
+    taxRate: null,
+    afterTaxCostOfDebt: null,
+    equityWeight: null,
+    debtWeight: null,
+    wacc: null,
+  };
+}
+
+/**
+ * Create an empty BacksolveData record
+ */
+export function createEmptyBacksolveData(): BacksolveData {
+  return {
+    transactionDate: null,
+    securityType: null,
+    pricePerShare: null,
+    sharesIssued: null,
+    transactionAmount: null,
+    preMoneyValuation: null,
+    postMoneyValuation: null,
+    impliedEquityValue: null,
+    volatility: null,
+    riskFreeRate: null,
+    timeToLiquidity: null,
+    indicatedCommonValue: null,
+    indicatedPerShareValue: null,
+    methodology: null,
+  };
+}
+
+/**
+ * Create an empty WeightingData record
+ */
+export function createEmptyWeightingData(): WeightingData {
+  return {
+    approaches: [],
+    concludedEnterpriseValue: null,
+    concludedEquityValue: null,
+    dlomPercentage: null,
+    dlomMethod: null,
+    valueAfterDlom: null,
+    sharesOutstanding: null,
+    perShareValue: null,
+    perShareValueAfterDlom: null,
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { harvestNotes, classifyExhibitApproach } from "./exhibitNotes";
+
+describe("harvestNotes", () => {
+  it("does not read company descriptions in a table column as notes", () => {
+    const data: unknown[][] = [
+      ["Company", "Ticker", "Business Description"],
+      ["Alpha Corp", "ALP", "Alpha Corp provides cloud-based billing software to mid-market companies."],
+      ["Beta Inc", "BET", "Beta Inc develops payment processing hardware for retail merchants."],
+      [],
+      ["Beta was excluded from the median as an outlier due to its pending acquisition."],
+    ];
+
+    expect(harvestNotes(data)).toEqual([
+      "Beta was excluded from the median as an outlier due to its pending acquisition.",
+    ]);
+  });
+
+  it("reads text under a Notes label and footnotes", () => {
+    const data: unknown[][] = [
+      ["Multiple", 4.5],
+      [],
+      ["Notes:"],
+      ["Selected multiple reflects lower growth than the peer set"],
+      [],
+      ["(1) Revenue multiples are based on LTM figures as of the valuation date"],
+    ];
+
+    expect(harvestNotes(data)).toEqual([
+      "Selected multiple reflects lower growth than the peer set",
+      "(1) Revenue multiples are based on LTM figures as of the valuation date",
+    ]);
+  });
+});
+
+describe("classifyExhibitApproach", () => {
+  it("reads income approach exhibits by name and title", () => {
+    expect(classifyExhibitApproach("DCF")).toBe("income");
+    expect(classifyExhibitApproach("Income Approach")).toBe("income");
+    expect(classifyExhibitApproach("Exhibit 6", [["Acme, Inc."], ["Discounted Cash Flow Analysis"]])).toBe("income");
+    expect(classifyExhibitApproach("Exhibit 7", [["WACC Calculation"]])).toBe("income");
+  });
+
+  it("does not read historical financial statements as income approach exhibits", () => {
+    expect(classifyExhibitApproach("Income Statement")).toBeNull();
+    expect(classifyExhibitApproach("Historical Income")).toBeNull();
+    expect(classifyExhibitApproach("Exhibit 4", [["Acme, Inc."], ["Historical Income Statement"]])).toBeNull();
+    expect(classifyExhibitApproach("Cash Flow Statement")).toBeNull();
+  });
+
+  it("keeps backsolve and DLOM ahead of the market and income patterns", () => {
+    expect(classifyExhibitApproach("OPM Backsolve")).toBe("backsolve");
+    expect(classifyExhibitApproach("Discount for Lack of Marketability")).toBe("dlom");
+    expect(classifyExhibitApproach("Guideline Public Companies")).toBe("gpc");
+  });
+
+  it("reads OPM allocation exhibits as backsolve", () => {
+    expect(classifyExhibitApproach("Exhibit 9 - Allocation of Value")).toBe("backsolve");
+    expect(classifyExhibitApproach("Exhibit 9", [["Acme, Inc."], ["Breakpoint Analysis"]])).toBe("backsolve");
+  });
+});
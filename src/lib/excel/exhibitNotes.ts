@@ -0,0 +1,190 @@
+/**
+ * Exhibit Notes
+ * Harvests the analyst's notes, footnotes and cell comments from exhibit sheets and
+ * maps each exhibit to the valuation approach it supports, so narratives can carry
+ * the analyst's own reasoning ("excluded XYZ as an outlier due to pending acquisition")
+ */
+
+import type { ExhibitApproach } from '@/types/excel';
+
+export interface SheetComment {
+  cell: string; // A1 address
+  text: string;
+}
+
+// Title block checked when the sheet name doesn't identify the approach
+const TITLE_ROWS = 6;
+const MAX_TITLE_LENGTH = 80;
+
+// Cells read below or beside a "Notes" label
+const MAX_NOTE_ROWS = 10;
+const MAX_NOTE_COLS = 5;
+
+// Free text shorter than this is a table label, not a note
+const MIN_NOTE_WORDS = 5;
+
+/**
+ * Sheet name and title patterns per approach, checked in order
+ * Backsolve and DLOM come first so "OPM Backsolve" and "Discount for Lack of
+ * Marketability" aren't read as market or income exhibits; OPM allocation
+ * exhibits ("Allocation of Value", breakpoint tables) count as backsolve.
+ * Historical financial statements support no single approach, so "Income
+ * Statement" and "Cash Flow Statement" stop the search before the broad market
+ * and cash flow patterns
+ */
+const APPROACH_PATTERNS: { approach: ExhibitApproach | null; pattern: RegExp }[] = [
+  { approach: 'backsolve', pattern: /backsolve|\bopm\b|option\s*pricing|allocation\s+of\s+(?:equity\s+)?value|equity\s+allocation|break\s*points?|black[\s-]*scholes/i },
+  { approach: 'pwerm', pattern: /pwerm|scenario|probab|hybrid/i },
+  { approach: 'dlom', pattern: /dlom|marketability|discount.*lack/i },
+  { approach: 'income', pattern: /income\s+approach|\bdcf\b|discounted\s+cash|\bwacc\b|discount\s*rate|projection|projected|forecast/i },
+  {
+    approach: null,
+    pattern: /income\s+statement|balance\s+sheet|cash\s*flows?\s+statement|statements?\s+of\s+(?:cash|operations|income)|financial\s+statement|historical\s+(?:income|financial|results|balance|cash)|profit\s+(?:and|&)\s+loss|\bp\s*&\s*l\b/i,
+  },
+  { approach: 'gtm', pattern: /guideline.*transaction|transaction|m&a|\bgtm\b|precedent/i },
+  { approach: 'gpc', pattern: /guideline.*public|\bgpc\b|public.*comp|market.*approach|comparable/i },
+  { approach: 'income', pattern: /cash\s*flow/i },
+  { approach: 'conclusion', pattern: /summary|conclusion|weighting|reconcil/i },
+];
+
+// "Notes", "Note:", "Source: ...", "Analyst comments -" at the start of a cell
+const NOTE_LABEL = /^\s*(?:analyst\s+)?(notes?|footnotes?|comments?|commentary|sources?|rationale)\s*(?:[:\-–]\s*([\s\S]*))?$/i;
+
+// Sources are kept labeled so a data provider isn't read as commentary
+const SOURCE_LABEL = /^sources?$/i;
+
+// Footnote markers: (1), [2], 3), 1., *, †, (a), a)
+const FOOTNOTE_MARKER = /^\s*(?:\(\d{1,2}\)|\[\d{1,2}\]|\d{1,2}[.)]|\*{1,3}|[†‡]|\([a-z]\)|[a-z]\))\s+\S/;
+
+// Sentence-like text ends with punctuation; row labels don't
+const SENTENCE_END = /[.!?]["')]?$/;
+
+/**
+ * Collapse whitespace in a note
+ */
+function cleanNote(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Count whitespace-separated words
+ */
+function wordCount(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Text cell content, or null for numbers, dates and empty cells
+ */
+function textCell(cell: unknown): string | null {
+  return typeof cell === 'string' && cell.trim() ? cell : null;
+}
+
+/**
+ * Whether a cell is a body cell of a table column: its row has other values and
+ * the cells above it run unbroken up to a short text header
+ * Company descriptions on comparables sheets read like sentences but are data
+ */
+function isTableCell(data: unknown[][], row: number, col: number): boolean {
+  const rowData = data[row] || [];
+  if (!rowData.some((cell, i) => i !== col && cell !== null && cell !== undefined && cell !== '')) return false;
+
+  for (let above = row - 1; above >= 0; above--) {
+    const cell = data[above]?.[col];
+    if (cell === null || cell === undefined || cell === '') return false;
+    const text = textCell(cell);
+    if (text && wordCount(text) < MIN_NOTE_WORDS && !SENTENCE_END.test(text.trim())) return true;
+  }
+  return false;
+}
+
+/**
+ * Harvest notes and footnotes from exhibit sheet data
+ * Reads text under or beside a "Notes" label, footnote lines and sentence-like
+ * commentary outside table columns, then appends cell comments
+ */
+export function harvestNotes(data: unknown[][], comments: SheetComment[] = []): string[] {
+  const notes: string[] = [];
+  const consumed = new Set<string>();
+
+  const take = (row: number, col: number, text: string, prefix = '') => {
+    consumed.add(`${row}:${col}`);
+    const note = cleanNote(text);
+    if (note) notes.push(`${prefix}${note}`);
+  };
+
+  for (let row = 0; row < data.length; row++) {
+    const rowData = data[row] || [];
+
+    for (let col = 0; col < rowData.length; col++) {
+      if (consumed.has(`${row}:${col}`)) continue;
+      const text = textCell(rowData[col]);
+      if (!text) continue;
+
+      const label = text.match(NOTE_LABEL);
+      if (label) {
+        consumed.add(`${row}:${col}`);
+        const prefix = SOURCE_LABEL.test(label[1]) ? 'Source: ' : '';
+        if (label[2] && wordCount(label[2]) >= 2) {
+          take(row, col, label[2], prefix);
+          continue;
+        }
+
+        // Label on its own: the notes follow below it, or sit beside it
+        let found = false;
+        for (let next = row + 1; next < Math.min(row + 1 + MAX_NOTE_ROWS, data.length); next++) {
+          const below = textCell(data[next]?.[col]);
+          if (!below) break;
+          take(next, col, below, prefix);
+          found = true;
+        }
+        if (!found) {
+          for (let next = col + 1; next < Math.min(col + 1 + MAX_NOTE_COLS, rowData.length); next++) {
+            const beside = textCell(rowData[next]);
+            if (beside) {
+              take(row, next, beside, prefix);
+              break;
+            }
+          }
+        }
+        continue;
+      }
+
+      const words = wordCount(text);
+      if (
+        words >= MIN_NOTE_WORDS &&
+        (FOOTNOTE_MARKER.test(text) || (SENTENCE_END.test(text.trim()) && !isTableCell(data, row, col)))
+      ) {
+        take(row, col, text);
+      }
+    }
+  }
+
+  for (const comment of comments) {
+    // Legacy comments start with the author's name on its own line
+    const text = cleanNote(comment.text.replace(/^[^:\n]{1,40}:\s*\n/, ''));
+    if (text) notes.push(`Comment on ${comment.cell}: ${text}`);
+  }
+
+  return Array.from(new Set(notes));
+}
+
+/**
+ * Map an exhibit to the valuation approach it supports
+ * Uses the sheet name, then the title block for sheets named "Exhibit 4" and the like
+ * Financial statement exhibits map to no approach
+ */
+export function classifyExhibitApproach(sheetName: string, data: unknown[][] = []): ExhibitApproach | null {
+  const byName = APPROACH_PATTERNS.find(p => p.pattern.test(sheetName));
+  if (byName) return byName.approach;
+
+  for (let row = 0; row < Math.min(TITLE_ROWS, data.length); row++) {
+    for (const cell of data[row] || []) {
+      if (typeof cell !== 'string' || cell.length > MAX_TITLE_LENGTH) continue;
+      const byTitle = APPROACH_PATTERNS.find(p => p.pattern.test(cell));
+      if (byTitle) return byTitle.approach;
+    }
+  }
+
+  return null;
+}
@@ -1,4 +1,6 @@
 import type { ParsedModel, ParsedModelResponse } from '@/types/excel';
+import { collectProvenance } from './provenance';
+import { currencySymbol } from '@/lib/utils/currency';
 
 /**
  * Formats parsed model data for API response
@@ -15,6 +17,14 @@ export function formatForAPI(parsed: ParsedModel): ParsedModelResponse {
     dlom: parsed.dlom,
     warnings: parsed.warnings,
     errors: parsed.errors,
+    mappingProfileName: parsed.mappingProfile?.name ?? null,
+    provenance: collectProvenance(parsed),
+    integrityChecks: parsed.integrityChecks,
+    currency: parsed.currency,
+    healthFindings: parsed.healthFindings,
+    exhibitNotes: parsed.exhibits
+      .filter(e => e.notes.length > 0)
+      .map(e => ({ sheetName: e.sheetName, approach: e.approach ?? null, notes: e.notes })),
   };
 }
 
@@ -32,20 +42,34 @@ export function createParseSummary(parsed: ParsedModel): string {
     lines.push(`Valuation Date: ${parsed.valuationDate.toLocaleDateString()}`);
   }
 
+  if (parsed.mappingProfile) {
+    lines.push(`Mapping Profile: ${parsed.mappingProfile.name}`);
+  }
+
   lines.push(`Exhibits Found: ${parsed.exhibits.length}`);
 
+  const noteCount = parsed.exhibits.reduce((sum, e) => sum + e.notes.length, 0);
+  if (noteCount > 0) {
+    lines.push(`Exhibit Notes: ${noteCount}`);
+  }
+
   if (parsed.summary?.approaches.length) {
     lines.push(`Approaches: ${parsed.summary.approaches.map(a => a.name).join(', ')}`);
   }
 
   if (parsed.summary?.concludedValue) {
-    lines.push(`Concluded Value: $${parsed.summary.concludedValue.toLocaleString()}`);
+    lines.push(`Concluded Value: ${currencySymbol(parsed.currency)}${parsed.summary.concludedValue.toLocaleString()}`);
   }
 
   if (parsed.dlom) {
     lines.push(`DLOM: ${(parsed.dlom * 100).toFixed(1)}%`);
   }
 
+  const healthErrors = (parsed.healthFindings ?? []).filter(f => f.severity === 'error');
+  if (healthErrors.length > 0) {
+    lines.push(`Model Health Errors: ${healthErrors.length}`);
+  }
+
   if (parsed.warnings.length > 0) {
     lines.push(`\nWarnings: ${parsed.warnings.length}`);
   }
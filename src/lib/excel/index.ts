@@ -8,15 +8,85 @@ export {
   extractCompanyInfo,
   extractExhibits,
   findNotesInSheet,
+  getSheetComments,
+  readSheets,
   extractSummaryData,
   extractDLOM,
+  getSheetUnits,
+  detectWorkbookUnits,
 } from './parser';
 
+export {
+  UNIT_CAPTION_ROWS,
+  detectSheetUnits,
+  toSheetUnits,
+  resolveModelCurrency,
+  normalizeModelUnits,
+} from './units';
+
 export {
   parseValuationModel,
   validateModelFilePath,
 } from './parseValuationModel';
 
+export type { ParseModelOptions } from './parseValuationModel';
+
+export {
+  parseModelFile,
+  hashFile,
+  ModelParseError,
+} from './parseModelFile';
+
+export {
+  scoreFingerprint,
+  selectMappingProfile,
+  resolveLocator,
+  coerceMappedValue,
+  applyMappingProfile,
+  applyProfileToDetailedData,
+  recordMappedProvenance,
+} from './mappingProfiles';
+
+export {
+  APPLIED_METRIC_LABELS,
+  percentile,
+  computeMultipleRange,
+  describeMultiplePosition,
+  analyzeGuidelineCompanies,
+  analyzeGuidelineTransactions,
+} from './multipleAnalysis';
+
+export { validateModelIntegrity } from './integrity';
+
+export { scanModelHealth } from './modelHealth';
+
+export { harvestNotes, classifyExhibitApproach } from './exhibitNotes';
+
+export type { SheetComment } from './exhibitNotes';
+
+export { createModelSnapshot, diffModelSnapshots, normalizeCompanyName } from './modelDiff';
+
+export { findSourceConflicts, supplementFromExhibits } from './combinedSources';
+
+export {
+  parsePeriodLabel,
+  applyGrowthRates,
+  readProjectionTable,
+  PROJECTION_FIELDS,
+} from './projections';
+
+export type { ProjectionMetric, ProjectionTable } from './projections';
+
+export {
+  EXTRACTION_RULE_LABELS,
+  toCellAddress,
+  recordProvenance,
+  formatCellReference,
+  describeProvenance,
+  formatProvenanceField,
+  collectProvenance,
+} from './provenance';
+
 export {
   formatForAPI,
   createParseSummary,
@@ -34,5 +104,21 @@ export type {
   ExhibitBoundaries,
   CompanyInfo,
   ParsedModelResponse,
+  ExtractionRule,
+  ValueProvenance,
+  ProvenanceMap,
+  IntegrityCheckId,
+  IntegrityCheckResult,
+  CapTable,
+  ShareClass,
+  DilutiveSecurity,
+  YearlyProjection,
+  ProjectionPeriodType,
+  SheetUnits,
+  ModelHealthIssue,
+  ModelHealthFinding,
+  ExhibitApproach,
+  ExhibitNotes,
+  ModelParseFailure,
 } from '@/types/excel';
 
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { validateModelIntegrity } from "./integrity";
+import { createEmptyWeightingData } from "./detailedExtractor";
+import type { DetailedModelData, WeightingData, IntegrityCheckId } from "@/types/excel";
+
+/**
+ * A model whose weighting table foots: 60/40 weights, 20% DLOM, 1,000,000 shares
+ */
+function buildModel(overrides: Partial<WeightingData> = {}, dlom: number | null = 0.2, currency = "USD") {
+  const weightingData: WeightingData = {
+    ...createEmptyWeightingData(),
+    approaches: [
+      { name: "Guideline Public Company Method", indicatedValue: 10000000, weight: 0.6, weightedValue: 6000000 },
+      { name: "Discounted Cash Flow", indicatedValue: 12500000, weight: 0.4, weightedValue: 5000000 },
+    ],
+    concludedEnterpriseValue: 11000000,
+    concludedEquityValue: 11000000,
+    dlomPercentage: 0.2,
+    valueAfterDlom: 8800000,
+    sharesOutstanding: 1000000,
+    perShareValueAfterDlom: 8.8,
+    ...overrides,
+  };
+
+  return {
+    summary: null,
+    detailedData: { weightingData } as DetailedModelData,
+    dlom,
+    currency,
+  };
+}
+
+function findCheck(model: ReturnType<typeof buildModel>, check: IntegrityCheckId) {
+  return validateModelIntegrity(model).find(result => result.check === check);
+}
+
+describe("validateModelIntegrity", () => {
+  it("passes every check on a model that foots", () => {
+    expect(validateModelIntegrity(buildModel()).map(result => [result.check, result.status])).toEqual([
+      ["weightsSum", "passed"],
+      ["weightedValue", "passed"],
+      ["valueAfterDlom", "passed"],
+      ["perShareValue", "passed"],
+      ["dlomConsistency", "passed"],
+    ]);
+  });
+
+  it("fails weights that don't sum to 100%", () => {
+    const model = buildModel({
+      approaches: [
+        { name: "Guideline Public Company Method", indicatedValue: 10000000, weight: 0.6, weightedValue: 6000000 },
+        { name: "Discounted Cash Flow", indicatedValue: 12500000, weight: 0.3, weightedValue: 3750000 },
+      ],
+    });
+
+    expect(findCheck(model, "weightsSum")).toMatchObject({
+      status: "failed",
+      message: "Approach weights sum to 90.0%, expected 100.0%",
+      actual: expect.closeTo(0.9),
+    });
+  });
+
+  it("fails a concluded value the weighted values don't reconcile to", () => {
+    expect(findCheck(buildModel({ concludedEnterpriseValue: 11500000 }), "weightedValue")).toMatchObject({
+      status: "failed",
+      message: "Weighted indicated values total $11,000,000 but the concluded value is $11,500,000",
+    });
+  });
+
+  it("tolerates rounding within half a percent", () => {
+    expect(findCheck(buildModel({ valueAfterDlom: 8820000 }), "valueAfterDlom")?.status).toBe("passed");
+    expect(findCheck(buildModel({ valueAfterDlom: 9000000 }), "valueAfterDlom")?.status).toBe("failed");
+  });
+
+  it("checks per-share value against equity when no after-DLOM figure is reported", () => {
+    const model = buildModel({ perShareValueAfterDlom: null, perShareValue: 12 });
+
+    expect(findCheck(model, "perShareValue")).toMatchObject({
+      status: "failed",
+      message: "Per-share value is $12.0000 but equity value ÷ 1,000,000 shares = $11.0000",
+    });
+  });
+
+  it("flags a summary DLOM that disagrees with the weighting table", () => {
+    expect(findCheck(buildModel({}, 0.25), "dlomConsistency")).toMatchObject({
+      status: "failed",
+      message: "DLOM exhibit shows 25.0% but the weighting summary applies 20.0%",
+    });
+  });
+
+  it("writes amounts in the model's currency", () => {
+    const model = buildModel({ concludedEnterpriseValue: 11500000 }, 0.2, "EUR");
+    expect(findCheck(model, "weightedValue")?.message).toBe(
+      "Weighted indicated values total €11,000,000 but the concluded value is €11,500,000"
+    );
+  });
+
+  it("skips checks whose inputs the model lacks", () => {
+    const results = validateModelIntegrity({ summary: null, dlom: null, currency: "USD" });
+    expect(results.every(result => result.status === "skipped")).toBe(true);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Model Integrity Checks
+ * Recomputes the model's own arithmetic from WeightingData and SummaryData
+ * so narratives never quote figures that don't foot
+ */
+
+import type { ParsedModel, IntegrityCheckResult, IntegrityCheckId } from '@/types/excel';
+import { currencySymbol } from '@/lib/utils/currency';
+
+// Tolerances: weights/DLOM in absolute decimal terms, values relative to expected
+const WEIGHT_TOLERANCE = 0.005;
+const DLOM_TOLERANCE = 0.0005;
+const VALUE_TOLERANCE = 0.005;
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+// Whole figures rather than formatCurrencyAmount's "12.5 million", so small differences show
+function formatAmount(value: number, currency?: string): string {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}${currencySymbol(currency)}${Math.round(Math.abs(value)).toLocaleString('en-US')}`;
+}
+
+function formatPerShare(value: number, currency?: string): string {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}${currencySymbol(currency)}${Math.abs(value).toFixed(4)}`;
+}
+
+function skipped(check: IntegrityCheckId, message: string): IntegrityCheckResult {
+  return { check, status: 'skipped', message, expected: null, actual: null };
+}
+
+function valuesMatch(expected: number, actual: number): boolean {
+  if (expected === 0) return Math.abs(actual) < 1;
+  return Math.abs(actual - expected) / Math.abs(expected) <= VALUE_TOLERANCE;
+}
+
+/**
+ * Approach weights with indicated values, preferring the detailed weighting table
+ */
+function getWeightedApproaches(parsed: Pick<ParsedModel, 'summary' | 'detailedData'>): { name: string; indicatedValue: number | null; weight: number | null }[] {
+  const weighting = parsed.detailedData?.weightingData;
+  if (weighting && weighting.approaches.length > 0) {
+    return weighting.approaches;
+  }
+  return parsed.summary?.approaches ?? [];
+}
+
+/**
+ * Check that approach weights sum to 100%
+ */
+function checkWeightsSum(parsed: Pick<ParsedModel, 'summary' | 'detailedData'>): IntegrityCheckResult {
+  const weights = getWeightedApproaches(parsed)
+    .map(a => a.weight)
+    .filter((w): w is number => typeof w === 'number');
+
+  if (weights.length === 0) {
+    return skipped('weightsSum', 'No approach weights found');
+  }
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const passed = Math.abs(total - 1) <= WEIGHT_TOLERANCE;
+
+  return {
+    check: 'weightsSum',
+    status: passed ? 'passed' : 'failed',
+    message: passed
+      ? `Approach weights sum to ${formatPercent(total)}`
+      : `Approach weights sum to ${formatPercent(total)}, expected 100.0%`,
+    expected: 1,
+    actual: total,
+  };
+}
+
+/**
+ * Check that Σ(indicated value × weight) equals the concluded value
+ */
+function checkWeightedValue(parsed: Pick<ParsedModel, 'summary' | 'detailedData' | 'currency'>): IntegrityCheckResult {
+  const approaches = getWeightedApproaches(parsed)
+    .filter(a => typeof a.indicatedValue === 'number' && typeof a.weight === 'number' && a.weight > 0);
+  const concluded = parsed.detailedData?.weightingData?.concludedEnterpriseValue ?? parsed.summary?.concludedValue ?? null;
+
+  if (approaches.length === 0 || concluded === null) {
+    return skipped('weightedValue', 'Weighted approaches or concluded value not found');
+  }
+
+  const weighted = approaches.reduce((sum, a) => sum + (a.indicatedValue as number) * (a.weight as number), 0);
+  const passed = valuesMatch(concluded, weighted);
+
+  return {
+    check: 'weightedValue',
+    status: passed ? 'passed' : 'failed',
+    message: passed
+      ? `Weighted indicated values (${formatAmount(weighted, parsed.currency)}) reconcile to the concluded value`
+      : `Weighted indicated values total ${formatAmount(weighted, parsed.currency)} but the concluded value is ${formatAmount(concluded, parsed.currency)}`,
+    expected: concluded,
+    actual: weighted,
+  };
+}
+
+/**
+ * Check that value after DLOM equals concluded × (1 − DLOM)
+ */
+function checkValueAfterDlom(parsed: Pick<ParsedModel, 'summary' | 'detailedData' | 'dlom' | 'currency'>): IntegrityCheckResult {
+  const weighting = parsed.detailedData?.weightingData;
+  const dlom = weighting?.dlomPercentage ?? parsed.dlom;
+  const concluded = weighting?.concludedEquityValue ?? weighting?.concludedEnterpriseValue ?? parsed.summary?.concludedValue ?? null;
+  const afterDlom = weighting?.valueAfterDlom ?? null;
+
+  if (dlom === null || concluded === null || afterDlom === null) {
+    return skipped('valueAfterDlom', 'DLOM, concluded value or value after DLOM not found');
+  }
+
+  const expected = concluded * (1 - dlom);
+  const passed = valuesMatch(expected, afterDlom);
+
+  return {
+    check: 'valueAfterDlom',
+    status: passed ? 'passed' : 'failed',
+    message: passed
+      ? `Value after DLOM reconciles to ${formatAmount(concluded, parsed.currency)} × (1 − ${formatPercent(dlom)})`
+      : `Value after DLOM is ${formatAmount(afterDlom, parsed.currency)} but ${formatAmount(concluded, parsed.currency)} × (1 − ${formatPercent(dlom)}) = ${formatAmount(expected, parsed.currency)}`,
+    expected,
+    actual: afterDlom,
+  };
+}
+
+/**
+ * Check that per-share value equals equity ÷ shares outstanding
+ */
+function checkPerShareValue(parsed: Pick<ParsedModel, 'detailedData' | 'currency'>): IntegrityCheckResult {
+  const weighting = parsed.detailedData?.weightingData;
+  const shares = weighting?.sharesOutstanding ?? null;
+
+  if (!weighting || !shares) {
+    return skipped('perShareValue', 'Shares outstanding not found');
+  }
+
+  // Compare against the after-DLOM per-share figure when the model reports one
+  const pairs: [number | null, number | null, string][] = [
+    [weighting.perShareValueAfterDlom, weighting.valueAfterDlom, 'value after DLOM'],
+    [weighting.perShareValue, weighting.concludedEquityValue, 'equity value'],
+  ];
+  const pair = pairs.find(([perShare, equity]) => perShare !== null && equity !== null);
+
+  if (!pair) {
+    return skipped('perShareValue', 'Per-share value or equity value not found');
+  }
+
+  const [perShare, equity, basis] = pair as [number, number, string];
+  const expected = equity / shares;
+  const passed = valuesMatch(expected, perShare);
+
+  return {
+    check: 'perShareValue',
+    status: passed ? 'passed' : 'failed',
+    message: passed
+      ? `Per-share value reconciles to ${basis} ÷ ${shares.toLocaleString('en-US')} shares`
+      : `Per-share value is ${formatPerShare(perShare, parsed.currency)} but ${basis} ÷ ${shares.toLocaleString('en-US')} shares = ${formatPerShare(expected, parsed.currency)}`,
+    expected,
+    actual: perShare,
+  };
+}
+
+/**
+ * Check that the summary DLOM agrees with the weighting table DLOM
+ */
+function checkDlomConsistency(parsed: Pick<ParsedModel, 'detailedData' | 'dlom'>): IntegrityCheckResult {
+  const weightingDlom = parsed.detailedData?.weightingData?.dlomPercentage ?? null;
+
+  if (parsed.dlom === null || weightingDlom === null) {
+    return skipped('dlomConsistency', 'DLOM found in only one location');
+  }
+
+  const passed = Math.abs(parsed.dlom - weightingDlom) <= DLOM_TOLERANCE;
+
+  return {
+    check: 'dlomConsistency',
+    status: passed ? 'passed' : 'failed',
+    message: passed
+      ? `DLOM of ${formatPercent(parsed.dlom)} is consistent across the model`
+      : `DLOM exhibit shows ${formatPercent(parsed.dlom)} but the weighting summary applies ${formatPercent(weightingDlom)}`,
+    expected: weightingDlom,
+    actual: parsed.dlom,
+  };
+}
+
+/**
+ * Run all model integrity checks
+ * Amounts in the messages are written in the model's currency
+ */
+export function validateModelIntegrity(
+  parsed: Pick<ParsedModel, 'summary' | 'detailedData' | 'dlom' | 'currency'>
+): IntegrityCheckResult[] {
+  return [
+    checkWeightsSum(parsed),
+    checkWeightedValue(parsed),
+    checkValueAfterDlom(parsed),
+    checkPerShareValue(parsed),
+    checkDlomConsistency(parsed),
+  ];
+}
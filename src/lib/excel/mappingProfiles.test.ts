@@ -0,0 +1,112 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { loadWorkbook } from "./parser";
+import { resolveLocator, applyMappingProfile, scoreFingerprint, coerceMappedValue } from "./mappingProfiles";
+import { writeTestWorkbook } from "@/lib/test/workbook";
+import type { MappingProfileData } from "@/types/mapping";
+
+let cleanup: (() => void) | null = null;
+
+afterEach(() => {
+  cleanup?.();
+  cleanup = null;
+});
+
+/**
+ * A template with its inputs at fixed cells, a named DLOM cell and a labelled revenue row
+ */
+async function loadTemplate() {
+  const file = writeTestWorkbook(
+    {
+      Cover: [["Model Template v3"], ["Company", "Acme Robotics, Inc."]],
+      Inputs: [
+        ["Input", "Value"],
+        ["DLOM", 0.25],
+        ["Volatility", 1.2],
+        ["LTM Revenue", 1250000],
+      ],
+    },
+    {
+      names: [{ Name: "ConcludedDLOM", Ref: "Inputs!$B$2" }],
+      formats: [{ sheet: "Inputs", address: "B2", format: "0%" }],
+    }
+  );
+  cleanup = file.cleanup;
+  return loadWorkbook(file.filePath);
+}
+
+describe("resolveLocator on an xlsx file", () => {
+  it("resolves a cell locator", async () => {
+    const workbook = await loadTemplate();
+    expect(resolveLocator(workbook, { type: "cell", sheet: "cover", address: "b2" }, "string")).toEqual({
+      value: "Acme Robotics, Inc.",
+      sheet: "Cover",
+      address: "B2",
+    });
+  });
+
+  it("resolves a named range locator", async () => {
+    const workbook = await loadTemplate();
+    expect(resolveLocator(workbook, { type: "namedRange", name: "concludeddlom" }, "percentage")).toEqual({
+      value: 0.25,
+      sheet: "Inputs",
+      address: "B2",
+      label: "ConcludedDLOM",
+    });
+  });
+
+  it("resolves a label locator to a number", async () => {
+    const workbook = await loadTemplate();
+    const resolved = resolveLocator(workbook, { type: "label", sheet: "Inputs", pattern: "ltm\\s*revenue" }, "number");
+    expect(resolved).toMatchObject({ value: 1250000, sheet: "Inputs", address: "B4" });
+  });
+});
+
+describe("applyMappingProfile", () => {
+  it("matches the fingerprint and reads every mapped field", async () => {
+    const workbook = await loadTemplate();
+    const profile: MappingProfileData = {
+      id: "template-v3",
+      name: "Template v3",
+      description: null,
+      fingerprint: { sheetNames: ["Inputs"], markerCells: [{ sheet: "Cover", address: "A1", contains: "template v3" }] },
+      mappings: [
+        { field: "companyName", locator: { type: "cell", sheet: "Cover", address: "B2" } },
+        { field: "dlom", locator: { type: "namedRange", name: "ConcludedDLOM" } },
+        { field: "backsolveData.volatility", locator: { type: "cell", sheet: "Inputs", address: "B3" } },
+        { field: "companyFinancials.ltmRevenue", locator: { type: "label", pattern: "ltm\\s*revenue" } },
+        { field: "valuationDate", locator: { type: "cell", sheet: "Cover", address: "B9" } },
+      ],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    expect(scoreFingerprint(workbook, profile.fingerprint)).toBe(2);
+
+    const applied = applyMappingProfile(workbook, profile);
+    expect(applied.values).toEqual({
+      companyName: "Acme Robotics, Inc.",
+      dlom: 0.25,
+      "backsolveData.volatility": 1.2,
+      "companyFinancials.ltmRevenue": 1250000,
+    });
+    expect(applied.unresolved).toEqual(["valuationDate"]);
+  });
+});
+
+describe("coerceMappedValue", () => {
+  it("reads whole-percent numbers above the field's fraction range as percentages", () => {
+    expect(coerceMappedValue(25, "percentage", 0.5)).toBe(0.25);
+    expect(coerceMappedValue(0.25, "percentage", 0.5)).toBe(0.25);
+    expect(coerceMappedValue(12, "percentage")).toBe(0.12);
+  });
+
+  it("keeps fractions above 100% for fields that allow them", () => {
+    expect(coerceMappedValue(1.2, "percentage", 2)).toBe(1.2);
+    expect(coerceMappedValue(120, "percentage", 2)).toBe(1.2);
+  });
+
+  it("rescales percent text", () => {
+    expect(coerceMappedValue("25%", "percentage", 0.5)).toBe(0.25);
+    expect(coerceMappedValue("(1,250)", "number")).toBe(-1250);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Model Mapping Profiles
+ * Resolves profile-defined cell, named range and label locations against a workbook
+ * so known model templates don't depend on heuristic label scanning
+ */
+
+import * as XLSX from 'xlsx';
+import type { WorkbookData, DetailedModelData, ProvenanceMap } from '@/types/excel';
+import type {
+  AppliedProfile,
+  CellLocator,
+  MappableField,
+  MappedValueType,
+  MappingProfileData,
+  ProfileFingerprint,
+  ResolvedCell,
+} from '@/types/mapping';
+import { MAPPABLE_FIELDS } from '@/types/mapping';
+import { getCellValue, getSheetData, getSheetNames } from './parser';
+import {
+  locateValueNearLabel,
+  createEmptyCompanyFinancials,
+  createEmptyIncomeApproachData,
+  createEmptyBacksolveData,
+  createEmptyWeightingData,
+} from './detailedExtractor';
+
+/**
+ * Find the actual sheet name in the workbook (case-insensitive)
+ */
+function findSheetName(workbook: WorkbookData, name: string): string | null {
+  const target = name.trim().toLowerCase();
+  return getSheetNames(workbook).find(s => s.trim().toLowerCase() === target) ?? null;
+}
+
+/**
+ * Score how well a workbook matches a profile fingerprint
+ * Returns 0 when any criterion fails, otherwise the number of criteria matched
+ */
+export function scoreFingerprint(workbook: WorkbookData, fingerprint: ProfileFingerprint): number {
+  const sheetNames = fingerprint.sheetNames || [];
+  const markerCells = fingerprint.markerCells || [];
+
+  if (sheetNames.length === 0 && markerCells.length === 0) {
+    return 0;
+  }
+
+  for (const name of sheetNames) {
+    if (!findSheetName(workbook, name)) {
+      return 0;
+    }
+  }
+
+  for (const marker of markerCells) {
+    const sheet = findSheetName(workbook, marker.sheet);
+    if (!sheet) return 0;
+
+    const value = getCellValue(workbook, sheet, marker.address.toUpperCase());
+    if (value === null || !String(value).toLowerCase().includes(marker.contains.toLowerCase())) {
+      return 0;
+    }
+  }
+
+  return sheetNames.length + markerCells.length;
+}
+
+/**
+ * Select the most specific profile whose fingerprint matches the workbook
+ */
+export function selectMappingProfile(
+  workbook: WorkbookData,
+  profiles: MappingProfileData[]
+): MappingProfileData | null {
+  let best: MappingProfileData | null = null;
+  let bestScore = 0;
+
+  for (const profile of profiles) {
+    const score = scoreFingerprint(workbook, profile.fingerprint);
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parse a defined name reference like 'Sheet 1'!$G$819 or Sheet1!$A$1:$B$2
+ * Ranges resolve to their top-left cell
+ */
+function parseNameRef(ref: string): { sheet: string; address: string } | null {
+  const match = ref.match(/^(?:'((?:[^']|'')+)'|([^!]+))!\$?([A-Z]+)\$?(\d+)/i);
+  if (!match) return null;
+
+  const sheet = (match[1] ?? match[2]).replace(/''/g, "'");
+  return { sheet, address: `${match[3].toUpperCase()}${match[4]}` };
+}
+
+/**
+ * Resolve a locator to a cell value and its location
+ */
+export function resolveLocator(
+  workbook: WorkbookData,
+  locator: CellLocator,
+  valueType: MappedValueType = 'number'
+): ResolvedCell | null {
+  switch (locator.type) {
+    case 'cell': {
+      const sheet = findSheetName(workbook, locator.sheet);
+      if (!sheet) return null;
+      const address = locator.address.toUpperCase();
+      const value = getCellValue(workbook, sheet, address);
+      return value === null ? null : { value, sheet, address };
+    }
+
+    case 'namedRange': {
+      const names = workbook.rawWorkbook.Workbook?.Names || [];
+      const defined = names.find(n => n.Name.toLowerCase() === locator.name.toLowerCase());
+      if (!defined) return null;
+      const ref = parseNameRef(defined.Ref);
+      if (!ref) return null;
+      const sheet = findSheetName(workbook, ref.sheet);
+      if (!sheet) return null;
+      const value = getCellValue(workbook, sheet, ref.address);
+      return value === null ? null : { value, sheet, address: ref.address, label: defined.Name };
+    }
+
+    case 'label': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(locator.pattern, 'i');
+      } catch {
+        return null;
+      }
+
+      const sheets = locator.sheet
+        ? [findSheetName(workbook, locator.sheet)].filter((s): s is string => s !== null)
+        : getSheetNames(workbook);
+
+      for (const sheet of sheets) {
+        const found = locateValueNearLabel(getSheetData(workbook, sheet), [pattern], {
+          lookRight: locator.lookRight,
+          lookBelow: locator.lookBelow,
+          valueType: valueType === 'percentage' ? 'number' : valueType,
+        });
+        if (found) {
+          return {
+            value: found.value,
+            sheet,
+            address: XLSX.utils.encode_cell({ r: found.row, c: found.col }),
+            label: found.label,
+          };
+        }
+      }
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Coerce a raw cell value to the field's expected type
+ * Percentages are returned as fractions: "45%" text is rescaled, and so are numbers
+ * above `maxFraction` (a DLOM of 25 is 25%, while a volatility of 1.2 is 120%)
+ */
+export function coerceMappedValue(
+  raw: unknown,
+  valueType: MappedValueType,
+  maxFraction = 1
+): string | number | Date | null {
+  if (raw === null || raw === undefined) return null;
+
+  switch (valueType) {
+    case 'string': {
+      const text = String(raw).trim();
+      return text.length > 0 ? text : null;
+    }
+
+    case 'date': {
+      if (raw instanceof Date) return raw;
+      if (typeof raw === 'number') {
+        const parsed = XLSX.SSF.parse_date_code(raw);
+        return parsed ? new Date(parsed.y, parsed.m - 1, parsed.d) : null;
+      }
+      if (typeof raw === 'object' && 'y' in raw && 'm' in raw && 'd' in raw) {
+        const code = raw as { y: number; m: number; d: number };
+        return new Date(code.y, code.m - 1, code.d);
+      }
+      if (typeof raw === 'string') {
+        const date = new Date(raw);
+        return isNaN(date.getTime()) ? null : date;
+      }
+      return null;
+    }
+
+    case 'number':
+    case 'percentage': {
+      let num: number | null = null;
+      let isPercentText = false;
+      if (typeof raw === 'number') {
+        num = raw;
+      } else if (typeof raw === 'string') {
+        isPercentText = raw.includes('%');
+        const cleaned = raw.replace(/[$,%\s]/g, '').replace(/^\((.*)\)$/, '-$1');
+        const parsed = parseFloat(cleaned);
+        num = isNaN(parsed) ? null : parsed;
+      }
+      if (num === null) return null;
+      if (valueType === 'percentage' && (isPercentText || num > maxFraction)) {
+        return num / 100;
+      }
+      return num;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read every mapped field for a profile from the workbook
+ */
+export function applyMappingProfile(
+  workbook: WorkbookData,
+  profile: MappingProfileData
+): AppliedProfile {
+  const applied: AppliedProfile = {
+    profileId: profile.id,
+    profileName: profile.name,
+    values: {},
+    sources: {},
+    unresolved: [],
+  };
+
+  for (const mapping of profile.mappings) {
+    const definition = MAPPABLE_FIELDS[mapping.field];
+    if (!definition) continue;
+
+    const resolved = resolveLocator(workbook, mapping.locator, definition.valueType);
+    const value = resolved ? coerceMappedValue(resolved.value, definition.valueType, definition.maxFraction) : null;
+
+    if (value === null) {
+      applied.unresolved.push(mapping.field);
+    } else {
+      applied.values[mapping.field] = value;
+      applied.sources[mapping.field] = resolved ?? undefined;
+    }
+  }
+
+  return applied;
+}
+
+/**
+ * Record the profile-resolved source of a mapped field
+ */
+export function recordMappedProvenance(
+  provenance: ProvenanceMap,
+  field: MappableField,
+  applied: AppliedProfile
+): void {
+  const source = applied.sources[field];
+  if (!source) return;
+
+  provenance[field] = {
+    sheet: source.sheet,
+    cell: source.address,
+    label: source.label ?? null,
+    rule: 'mappingProfile',
+  };
+}
+
+/**
+ * Overlay profile-mapped values onto heuristically extracted detailed data
+ * Creates any section the heuristics could not find
+ */
+export function applyProfileToDetailedData(
+  detailedData: DetailedModelData,
+  applied: AppliedProfile
+): void {
+  const sectionFactories = {
+    companyFinancials: createEmptyCompanyFinancials,
+    incomeApproachData: createEmptyIncomeApproachData,
+    backsolveData: createEmptyBacksolveData,
+    weightingData: createEmptyWeightingData,
+  };
+
+  for (const [field, value] of Object.entries(applied.values) as [MappableField, unknown][]) {
+    const [sectionKey, prop] = field.split('.') as [keyof typeof sectionFactories, string | undefined];
+    if (!prop || !(sectionKey in sectionFactories)) continue;
+
+    if (!detailedData[sectionKey]) {
+      detailedData[sectionKey] = sectionFactories[sectionKey]() as never;
+    }
+    (detailedData[sectionKey] as unknown as Record<string, unknown>)[prop] = value;
+    recordMappedProvenance(detailedData.provenance, field, applied);
+  }
+
+  // Keep derived income fields consistent with mapped inputs
+  const income = detailedData.incomeApproachData;
+  if (income) {
+    if (applied.values['incomeApproachData.discountRate'] !== undefined) {
+      income.wacc = income.discountRate;
+      detailedData.provenance['incomeApproachData.wacc'] = {
+        ...detailedData.provenance['incomeApproachData.discountRate'],
+        rule: 'derived',
+      };
+    }
+    if (income.terminalGrowthRate) {
+      income.terminalMethodology = 'perpetuity';
+    } else if (income.terminalMultiple) {
+      income.terminalMethodology = 'exitMultiple';
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import { createModelSnapshot, diffModelSnapshots, normalizeCompanyName } from "./modelDiff";
+import { createEmptyBacksolveData, createEmptyWeightingData } from "./detailedExtractor";
+import type { DetailedModelData, ParsedModel } from "@/types/excel";
+import type { ModelSnapshot } from "@/types/rollforward";
+
+function snapshot(overrides: Partial<ModelSnapshot> = {}): ModelSnapshot {
+  return {
+    companyName: "Acme Robotics, Inc.",
+    valuationDate: null,
+    currency: "USD",
+    concludedValue: null,
+    equityValue: null,
+    perShareValue: null,
+    dlom: null,
+    volatility: null,
+    timeToLiquidity: null,
+    discountRate: null,
+    ltmRevenue: null,
+    ltmEbitda: null,
+    gpcRevenueMultiple: null,
+    gpcEbitdaMultiple: null,
+    gtmRevenueMultiple: null,
+    gtmEbitdaMultiple: null,
+    approaches: [],
+    guidelineCompanies: [],
+    guidelineTransactions: [],
+    ...overrides,
+  };
+}
+
+describe("normalizeCompanyName", () => {
+  it("matches names that differ only in case, punctuation and legal suffix", () => {
+    expect(normalizeCompanyName("Acme, Inc.")).toBe("acme");
+    expect(normalizeCompanyName("ACME Corp")).toBe("acme");
+    expect(normalizeCompanyName("Smith & Wesson Holdings")).toBe("smith and wesson");
+  });
+});
+
+describe("createModelSnapshot", () => {
+  it("reads whole-percent rates as decimals but keeps volatility as stored", () => {
+    const parsed: ParsedModel = {
+      companyName: "Acme Robotics, Inc.",
+      valuationDate: new Date(Date.UTC(2025, 2, 31)),
+      exhibits: [],
+      summary: { approaches: [{ name: "OPM Backsolve", indicatedValue: 50000000, weight: 100 }], concludedValue: 50000000 },
+      dlom: 25,
+      errors: [],
+      warnings: [],
+      detailedData: {
+        weightingData: createEmptyWeightingData(),
+        backsolveData: { ...createEmptyBacksolveData(), volatility: 1.2, timeToLiquidity: 3 },
+      } as DetailedModelData,
+    };
+
+    expect(createModelSnapshot(parsed)).toMatchObject({
+      valuationDate: "2025-03-31T00:00:00.000Z",
+      currency: "USD",
+      concludedValue: 50000000,
+      dlom: 0.25,
+      volatility: 1.2,
+      timeToLiquidity: 3,
+      approaches: [{ name: "OPM Backsolve", indicatedValue: 50000000, weight: 1 }],
+    });
+  });
+});
+
+describe("diffModelSnapshots", () => {
+  it("compares figures present in either model", () => {
+    const diff = diffModelSnapshots(
+      snapshot({ valuationDate: "2024-03-31T00:00:00.000Z", concludedValue: 40000000, dlom: 0.3, ltmRevenue: 8000000 }),
+      snapshot({ valuationDate: "2025-03-31T00:00:00.000Z", concludedValue: 50000000, dlom: 0.25, ltmEbitda: 1500000 })
+    );
+
+    expect(diff.monthsElapsed).toBe(12);
+    expect(diff.priorCurrency).toBeNull();
+    expect(diff.metrics.map(m => m.metric)).toEqual(["concludedValue", "ltmRevenue", "ltmEbitda", "dlom"]);
+    expect(diff.metrics[0]).toMatchObject({ prior: 40000000, current: 50000000, change: 10000000, percentChange: 0.25 });
+    expect(diff.metrics[1]).toMatchObject({ prior: 8000000, current: null, change: null, percentChange: null });
+  });
+
+  it("gives percentage figures a change in points but no percent change", () => {
+    const dlom = diffModelSnapshots(snapshot({ dlom: 0.3 }), snapshot({ dlom: 0.25 })).metrics[0];
+    expect(dlom).toMatchObject({ metric: "dlom", format: "percent", change: expect.closeTo(-0.05), percentChange: null });
+  });
+
+  it("pairs renamed approaches by type and lists added and dropped approaches", () => {
+    const diff = diffModelSnapshots(
+      snapshot({
+        approaches: [
+          { name: "Market Approach - GPC", indicatedValue: 38000000, weight: 0.5 },
+          { name: "OPM Backsolve", indicatedValue: 42000000, weight: 0.5 },
+        ],
+      }),
+      snapshot({
+        approaches: [
+          { name: "Guideline Public Company Method", indicatedValue: 48000000, weight: 0.6 },
+          { name: "Discounted Cash Flow", indicatedValue: 53000000, weight: 0.4 },
+        ],
+      })
+    );
+
+    expect(diff.weights).toEqual([
+      { name: "Guideline Public Company Method", priorWeight: 0.5, currentWeight: 0.6, priorValue: 38000000, currentValue: 48000000 },
+      { name: "Discounted Cash Flow", priorWeight: null, currentWeight: 0.4, priorValue: null, currentValue: 53000000 },
+      { name: "OPM Backsolve", priorWeight: 0.5, currentWeight: null, priorValue: 42000000, currentValue: null },
+    ]);
+  });
+
+  it("matches comparables across name variants", () => {
+    const diff = diffModelSnapshots(
+      snapshot({ guidelineCompanies: ["Alpha Corp", "Beta, Inc.", "Gamma Ltd"] }),
+      snapshot({ guidelineCompanies: ["ALPHA Corporation", "Beta Inc", "Delta LLC"] })
+    );
+
+    expect(diff.guidelineCompanies).toEqual({
+      added: ["Delta LLC"],
+      removed: ["Gamma Ltd"],
+      retained: ["ALPHA Corporation", "Beta Inc"],
+    });
+  });
+
+  it("flags a change of currency between the models", () => {
+    const diff = diffModelSnapshots(snapshot({ currency: "EUR" }), snapshot({ currency: "USD" }));
+    expect(diff).toMatchObject({ currency: "USD", priorCurrency: "EUR", monthsElapsed: null });
+  });
+});
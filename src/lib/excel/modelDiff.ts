@@ -0,0 +1,230 @@
+/**
+ * Model Diff
+ * Reduces a parsed model to a snapshot of its key figures and compares a company's
+ * prior and current snapshots: concluded and per-share value, multiples, weights,
+ * DLOM, volatility and the comparable set
+ */
+
+import type { ParsedModel } from '@/types/excel';
+import type {
+  ModelSnapshot,
+  ModelDiff,
+  MetricChange,
+  MetricFormat,
+  RollforwardMetric,
+  WeightChange,
+  ComparableSetChange,
+} from '@/types/rollforward';
+import { DEFAULT_CURRENCY } from '@/lib/utils/currency';
+import { classifyExhibitApproach } from './exhibitNotes';
+
+// Compared figures in report order
+const METRICS: { metric: RollforwardMetric; label: string; format: MetricFormat }[] = [
+  { metric: 'concludedValue', label: 'Concluded Value', format: 'currency' },
+  { metric: 'equityValue', label: 'Equity Value After DLOM', format: 'currency' },
+  { metric: 'perShareValue', label: 'Per-Share Value', format: 'price' },
+  { metric: 'ltmRevenue', label: 'LTM Revenue', format: 'currency' },
+  { metric: 'ltmEbitda', label: 'LTM EBITDA', format: 'currency' },
+  { metric: 'gpcRevenueMultiple', label: 'Selected GPC Revenue Multiple', format: 'multiple' },
+  { metric: 'gpcEbitdaMultiple', label: 'Selected GPC EBITDA Multiple', format: 'multiple' },
+  { metric: 'gtmRevenueMultiple', label: 'Selected Transaction Revenue Multiple', format: 'multiple' },
+  { metric: 'gtmEbitdaMultiple', label: 'Selected Transaction EBITDA Multiple', format: 'multiple' },
+  { metric: 'discountRate', label: 'Discount Rate', format: 'percent' },
+  { metric: 'volatility', label: 'Volatility', format: 'percent' },
+  { metric: 'timeToLiquidity', label: 'Time to Liquidity', format: 'years' },
+  { metric: 'dlom', label: 'DLOM', format: 'percent' },
+];
+
+// Legal suffixes dropped when matching company names ("Acme, Inc." and "ACME Corp")
+const COMPANY_SUFFIXES = /\b(?:incorporated|inc|corporation|corp|company|co|limited|ltd|llc|plc|lp|holdings?|group|sa|ag|nv|se)\b/g;
+
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+
+/**
+ * Normalize a company name for matching across valuations and comparable sets
+ */
+export function normalizeCompanyName(name: string): string {
+  const normalized = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(COMPANY_SUFFIXES, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return normalized || name.toLowerCase().trim();
+}
+
+/**
+ * Rates are stored as decimals; some models enter them as whole percentages
+ * Only for rates that can't exceed 100% (weights, DLOM, discount rates): volatility
+ * routinely does, so it is compared as stored
+ */
+function toRate(value: number | null | undefined): number | null {
+  if (value === null || value === undefined || !Number.isFinite(value)) return null;
+  return value > 1 ? value / 100 : value;
+}
+
+/**
+ * First finite value, or null
+ */
+function firstValue(...values: (number | null | undefined)[]): number | null {
+  for (const value of values) {
+    if (value !== null && value !== undefined && Number.isFinite(value)) return value;
+  }
+  return null;
+}
+
+/**
+ * Reduce a parsed model to the figures compared in a later valuation
+ */
+export function createModelSnapshot(parsedModel: ParsedModel): ModelSnapshot {
+  const detailed = parsedModel.detailedData;
+  const weighting = detailed?.weightingData;
+  const backsolve = detailed?.backsolveData;
+
+  // Weighting exhibit approaches carry indicated values even when the summary sheet doesn't
+  const approaches = weighting?.approaches.length
+    ? weighting.approaches.map(a => ({ name: a.name, indicatedValue: a.indicatedValue, weight: toRate(a.weight) }))
+    : (parsedModel.summary?.approaches || []).map(a => ({
+      name: a.name,
+      indicatedValue: a.indicatedValue,
+      weight: toRate(a.weight),
+    }));
+
+  const dlomVolatilities = (detailed?.dlomAnalysis?.methods || [])
+    .map(m => m.volatility)
+    .filter((v): v is number => v !== null);
+
+  return {
+    companyName: parsedModel.companyName,
+    valuationDate: parsedModel.valuationDate ? new Date(parsedModel.valuationDate).toISOString() : null,
+    currency: parsedModel.currency ?? DEFAULT_CURRENCY,
+    concludedValue: firstValue(
+      parsedModel.summary?.concludedValue,
+      weighting?.concludedEquityValue,
+      weighting?.concludedEnterpriseValue
+    ),
+    equityValue: firstValue(weighting?.valueAfterDlom),
+    perShareValue: firstValue(
+      weighting?.perShareValueAfterDlom,
+      weighting?.perShareValue,
+      detailed?.pwermData?.probabilityWeightedCommonValue,
+      backsolve?.indicatedPerShareValue
+    ),
+    dlom: toRate(firstValue(parsedModel.dlom, detailed?.dlomAnalysis?.concludedDlom, weighting?.dlomPercentage)),
+    volatility: firstValue(backsolve?.volatility, dlomVolatilities[0]),
+    timeToLiquidity: firstValue(backsolve?.timeToLiquidity),
+    discountRate: toRate(firstValue(detailed?.incomeApproachData?.discountRate, detailed?.incomeApproachData?.wacc)),
+    ltmRevenue: firstValue(detailed?.companyFinancials?.ltmRevenue),
+    ltmEbitda: firstValue(detailed?.companyFinancials?.ltmEbitda),
+    gpcRevenueMultiple: firstValue(detailed?.gpcAnalysis?.selectedRevenueMultiple),
+    gpcEbitdaMultiple: firstValue(detailed?.gpcAnalysis?.selectedEbitdaMultiple),
+    gtmRevenueMultiple: firstValue(detailed?.transactionAnalysis?.selectedRevenueMultiple),
+    gtmEbitdaMultiple: firstValue(detailed?.transactionAnalysis?.selectedEbitdaMultiple),
+    approaches,
+    guidelineCompanies: (detailed?.guidelinePublicCompanies || []).map(c => c.name),
+    guidelineTransactions: (detailed?.guidelineTransactions || []).map(t => t.targetName),
+  };
+}
+
+/**
+ * Whole months between two ISO dates, or null when either is missing
+ */
+function monthsBetween(from: string | null, to: string | null): number | null {
+  if (!from || !to) return null;
+  const days = (new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000);
+  return Number.isFinite(days) ? Math.round(days / AVERAGE_DAYS_PER_MONTH) : null;
+}
+
+/**
+ * Change in one figure; percentages change in points, so they get no percent change
+ */
+function compareMetric(
+  definition: (typeof METRICS)[number],
+  prior: number | null,
+  current: number | null
+): MetricChange {
+  const change = prior !== null && current !== null ? current - prior : null;
+  const percentChange = change !== null && prior && definition.format !== 'percent'
+    ? change / Math.abs(prior)
+    : null;
+
+  return { ...definition, prior, current, change, percentChange };
+}
+
+/**
+ * Pair approaches by name, then by approach type for renamed approaches
+ * ("Market Approach - GPC" last year, "Guideline Public Company Method" this year)
+ */
+function compareWeights(prior: ModelSnapshot['approaches'], current: ModelSnapshot['approaches']): WeightChange[] {
+  const unmatched = [...prior];
+  const take = (match: (name: string) => boolean) => {
+    const index = unmatched.findIndex(a => match(a.name));
+    return index >= 0 ? unmatched.splice(index, 1)[0] : undefined;
+  };
+
+  const key = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const paired = current.map(approach => ({ approach, previous: take(name => key(name) === key(approach.name)) }));
+  for (const pair of paired) {
+    if (pair.previous) continue;
+    const type = classifyExhibitApproach(pair.approach.name);
+    if (type) pair.previous = take(name => classifyExhibitApproach(name) === type);
+  }
+
+  const changes: WeightChange[] = paired.map(({ approach, previous }) => ({
+    name: approach.name,
+    priorWeight: previous?.weight ?? null,
+    currentWeight: approach.weight,
+    priorValue: previous?.indicatedValue ?? null,
+    currentValue: approach.indicatedValue,
+  }));
+
+  for (const dropped of unmatched) {
+    changes.push({
+      name: dropped.name,
+      priorWeight: dropped.weight,
+      currentWeight: null,
+      priorValue: dropped.indicatedValue,
+      currentValue: null,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Guideline names added, removed and retained; names are shown as written in the
+ * current model, or the prior model for removed names
+ */
+function compareSets(prior: string[], current: string[]): ComparableSetChange {
+  const priorKeys = new Set(prior.map(normalizeCompanyName));
+  const currentKeys = new Set(current.map(normalizeCompanyName));
+
+  return {
+    added: current.filter(name => !priorKeys.has(normalizeCompanyName(name))),
+    removed: prior.filter(name => !currentKeys.has(normalizeCompanyName(name))),
+    retained: current.filter(name => priorKeys.has(normalizeCompanyName(name))),
+  };
+}
+
+/**
+ * Compare a company's prior valuation snapshot with the current one
+ * Figures missing from both models are left out
+ */
+export function diffModelSnapshots(prior: ModelSnapshot, current: ModelSnapshot): ModelDiff {
+  const metrics = METRICS
+    .map(definition => compareMetric(definition, prior[definition.metric], current[definition.metric]))
+    .filter(change => change.prior !== null || change.current !== null);
+
+  return {
+    priorValuationDate: prior.valuationDate,
+    currentValuationDate: current.valuationDate,
+    monthsElapsed: monthsBetween(prior.valuationDate, current.valuationDate),
+    currency: current.currency,
+    priorCurrency: prior.currency !== current.currency ? prior.currency : null,
+    metrics,
+    weights: compareWeights(prior.approaches, current.approaches),
+    guidelineCompanies: compareSets(prior.guidelineCompanies, current.guidelineCompanies),
+    guidelineTransactions: compareSets(prior.guidelineTransactions, current.guidelineTransactions),
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Model Health Scan
+ * Finds error cells, circular or uncached formulas and hidden content in the exhibit
+ * sheets, so a broken model is caught before a generation run
+ *
+ * The main parse skips stub cells and row styles to save memory, so the exhibit
+ * sheets are parsed again here with the formula, stub and row metadata the scan needs
+ */
+
+import type { WorkbookData, ModelHealthFinding, ModelHealthIssue } from '@/types/excel';
+import { toCellAddress } from './provenance';
+import { readSheets, getSheetRows } from './parser';
+
+// Addresses listed per finding; the count covers the rest
+const MAX_LISTED_CELLS = 8;
+
+// Above this many formula cells, cycle detection is skipped to bound scan time
+const MAX_FORMULA_CELLS = 50000;
+
+// Ranges larger than this are matched against the sheet's formula cells instead of expanded
+const MAX_EXPANDED_RANGE = 2000;
+
+const ISSUE_SEVERITY: Record<ModelHealthIssue, ModelHealthFinding['severity']> = {
+  errorCell: 'error',
+  circularReference: 'warning',
+  uncachedFormula: 'warning',
+  hiddenSheet: 'warning',
+  hiddenRows: 'info',
+};
+
+// Excel error codes as stored in cell values
+const ERROR_CODES: Record<number, string> = {
+  0x00: '#NULL!',
+  0x07: '#DIV/0!',
+  0x0F: '#VALUE!',
+  0x17: '#REF!',
+  0x1D: '#NAME?',
+  0x24: '#NUM!',
+  0x2A: '#N/A',
+  0x2B: '#GETTING_DATA',
+};
+
+// Cell reference with an optional sheet prefix, e.g. A1, $B$2, Sheet1!C3, 'DCF Model'!D4:E9
+const REFERENCE = /(?<![\w.])(?:(?:'((?:[^']|'')+)'|([A-Za-z_][\w.]*))!)?\$?([A-Z]{1,3})\$?(\d+)(?::\$?([A-Z]{1,3})\$?(\d+))?(?![\w(])/g;
+
+interface FormulaCell {
+  sheet: string;
+  row: number;
+  col: number;
+  formula: string;
+}
+
+/**
+ * Create a finding for a set of cells
+ */
+function createFinding(issue: ModelHealthIssue, sheet: string, cells: string[], message: string): ModelHealthFinding {
+  return {
+    issue,
+    severity: ISSUE_SEVERITY[issue],
+    sheet,
+    cells: cells.slice(0, MAX_LISTED_CELLS),
+    count: cells.length,
+    message,
+  };
+}
+
+/**
+ * List cells for a message, e.g. "C12, D14 and 3 more"
+ */
+function describeCells(cells: string[]): string {
+  const listed = cells.slice(0, MAX_LISTED_CELLS).join(', ');
+  return cells.length > MAX_LISTED_CELLS ? `${listed} and ${cells.length - MAX_LISTED_CELLS} more` : listed;
+}
+
+function columnIndex(letters: string): number {
+  return letters.split('').reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Formula cells each formula cell refers to directly
+ */
+function buildDependencies(
+  formulaCells: FormulaCell[],
+  bySheet: Map<string, Map<string, number>>
+): number[][] {
+  return formulaCells.map(cell => {
+    const edges = new Set<number>();
+    // Drop string literals so quoted text isn't read as references
+    const formula = cell.formula.replace(/"(?:[^"]|"")*"/g, '""');
+
+    for (const match of Array.from(formula.matchAll(REFERENCE))) {
+      const [, quotedSheet, bareSheet, startCol, startRow, endCol, endRow] = match;
+      const sheet = quotedSheet?.replace(/''/g, "'") ?? bareSheet ?? cell.sheet;
+      const targets = bySheet.get(sheet);
+      if (!targets) continue;
+
+      const r1 = parseInt(startRow) - 1;
+      const c1 = columnIndex(startCol);
+      const r2 = endRow ? parseInt(endRow) - 1 : r1;
+      const c2 = endCol ? columnIndex(endCol) : c1;
+      const [top, bottom] = [Math.min(r1, r2), Math.max(r1, r2)];
+      const [left, right] = [Math.min(c1, c2), Math.max(c1, c2)];
+
+      if ((bottom - top + 1) * (right - left + 1) <= MAX_EXPANDED_RANGE) {
+        for (let r = top; r <= bottom; r++) {
+          for (let c = left; c <= right; c++) {
+            const target = targets.get(toCellAddress(r, c));
+            if (target !== undefined) edges.add(target);
+          }
+        }
+      } else {
+        for (const target of Array.from(targets.values())) {
+          const t = formulaCells[target];
+          if (t.row >= top && t.row <= bottom && t.col >= left && t.col <= right) edges.add(target);
+        }
+      }
+    }
+
+    return Array.from(edges);
+  });
+}
+
+/**
+ * Find formula cells that take part in a dependency cycle
+ * Iterative DFS; a cell reached again while still on the stack closes a cycle
+ */
+function findCircularCells(dependencies: number[][]): Set<number> {
+  const state = new Uint8Array(dependencies.length); // 0 = unvisited, 1 = on stack, 2 = done
+  const circular = new Set<number>();
+
+  for (let start = 0; start < dependencies.length; start++) {
+    if (state[start] !== 0) continue;
+
+    const stack: { node: number; next: number }[] = [{ node: start, next: 0 }];
+    state[start] = 1;
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const edges = dependencies[frame.node];
+
+      if (frame.next >= edges.length) {
+        state[frame.node] = 2;
+        stack.pop();
+        continue;
+      }
+
+      const target = edges[frame.next++];
+      if (state[target] === 0) {
+        state[target] = 1;
+        stack.push({ node: target, next: 0 });
+      } else if (state[target] === 1) {
+        const from = stack.findIndex(f => f.node === target);
+        stack.slice(from).forEach(f => circular.add(f.node));
+      }
+    }
+  }
+
+  return circular;
+}
+
+/**
+ * Scan the exhibit sheets for formula-health problems
+ */
+export function scanModelHealth(
+  workbook: WorkbookData,
+  exhibitSheets: string[]
+): ModelHealthFinding[] {
+  const findings: ModelHealthFinding[] = [];
+  if (exhibitSheets.length === 0) return findings;
+
+  // Hidden sheets come from the main parse's workbook properties
+  const sheetProps = workbook.rawWorkbook.Workbook?.Sheets ?? [];
+  for (const name of exhibitSheets) {
+    const hidden = sheetProps.find(s => s.name === name)?.Hidden;
+    if (hidden) {
+      findings.push(createFinding('hiddenSheet', name, [],
+        `Exhibit sheet "${name}" is ${hidden === 2 ? 'very hidden' : 'hidden'}; confirm it belongs in the report`));
+    }
+  }
+
+  const detailed = readSheets(workbook, exhibitSheets, {
+    dense: true,
+    cellFormula: true,
+    cellStyles: true,  // Needed for hidden row flags
+    sheetStubs: true,  // Keeps formulas saved without a value
+    cellDates: false,
+    bookVBA: false,
+  });
+
+  const formulaCells: FormulaCell[] = [];
+  const bySheet = new Map<string, Map<string, number>>();
+
+  for (const name of exhibitSheets) {
+    const sheet = detailed.Sheets[name];
+    if (!sheet) continue;
+
+    const rows = getSheetRows(sheet) ?? [];
+    const errors = new Map<string, string[]>();
+    const uncached: string[] = [];
+    const addresses = new Map<string, number>();
+
+    rows.forEach((rowData, row) => {
+      (rowData || []).forEach((cell, col) => {
+        if (!cell) return;
+        const address = toCellAddress(row, col);
+
+        if (cell.t === 'e') {
+          const code = cell.w ?? ERROR_CODES[cell.v as number] ?? '#ERROR';
+          errors.set(code, [...(errors.get(code) ?? []), address]);
+        }
+        if (cell.f) {
+          if (cell.t === 'z' || cell.v === undefined) uncached.push(address);
+          addresses.set(address, formulaCells.length);
+          formulaCells.push({ sheet: name, row, col, formula: cell.f });
+        }
+      });
+    });
+    bySheet.set(name, addresses);
+
+    errors.forEach((cells, code) => {
+      findings.push(createFinding('errorCell', name, cells,
+        `${cells.length} ${code} error${cells.length === 1 ? '' : 's'} in "${name}" (${describeCells(cells)})`));
+    });
+
+    if (uncached.length > 0) {
+      findings.push(createFinding('uncachedFormula', name, uncached,
+        `${uncached.length} formula${uncached.length === 1 ? ' has' : 's have'} no calculated value in "${name}" (${describeCells(uncached)}); recalculate and save the model in Excel`));
+    }
+
+    const hiddenRows = (sheet['!rows'] ?? [])
+      .map((props, row) => (props?.hidden ? `${row + 1}:${row + 1}` : null))
+      .filter((row): row is string => row !== null);
+    if (hiddenRows.length > 0) {
+      findings.push(createFinding('hiddenRows', name, hiddenRows,
+        `${hiddenRows.length} hidden row${hiddenRows.length === 1 ? '' : 's'} in "${name}" (${describeCells(hiddenRows)}); hidden rows may hold figures that feed the exhibit`));
+    }
+  }
+
+  if (formulaCells.length > 0 && formulaCells.length <= MAX_FORMULA_CELLS) {
+    const circular = findCircularCells(buildDependencies(formulaCells, bySheet));
+    const circularBySheet = new Map<string, string[]>();
+    circular.forEach(index => {
+      const cell = formulaCells[index];
+      circularBySheet.set(cell.sheet, [...(circularBySheet.get(cell.sheet) ?? []), toCellAddress(cell.row, cell.col)]);
+    });
+    circularBySheet.forEach((cells, name) => {
+      findings.push(createFinding('circularReference', name, cells,
+        `Circular reference in "${name}" (${describeCells(cells)}); cached values may be stale unless iterative calculation is enabled`));
+    });
+  }
+
+  return findings;
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { percentile, computeMultipleRange, describeMultiplePosition, analyzeGuidelineCompanies } from "./multipleAnalysis";
+import { loadWorkbook } from "./parser";
+import { recordProvenance } from "./provenance";
+import { createEmptyCompanyFinancials, createEmptyWeightingData } from "./detailedExtractor";
+import { writeTestWorkbook } from "@/lib/test/workbook";
+import type { DetailedModelData, GuidelineCompany, MultipleRange, ProvenanceMap } from "@/types/excel";
+
+// Four multiples so every quartile falls between two observations
+const RANGE = computeMultipleRange([10, 2, null, 6, 4, undefined]) as MultipleRange;
+
+let cleanup: (() => void) | null = null;
+
+afterEach(() => {
+  cleanup?.();
+  cleanup = null;
+});
+
+function company(name: string, revenueMultiple: number, ebitdaMultiple: number): GuidelineCompany {
+  return {
+    name,
+    ticker: null,
+    description: null,
+    revenueMultiple,
+    ebitdaMultiple,
+    grossProfitMultiple: null,
+    revenue: null,
+    ebitda: null,
+    marketCap: null,
+    enterpriseValue: null,
+  };
+}
+
+describe("percentile", () => {
+  it("interpolates like Excel PERCENTILE.INC", () => {
+    expect(percentile([2, 4, 6, 10], 0.25)).toBeCloseTo(3.5);
+    expect(percentile([2, 4, 6, 10], 0.5)).toBeCloseTo(5);
+    expect(percentile([2, 4, 6, 10], 0.75)).toBeCloseTo(7);
+    expect(percentile([2, 4, 6, 10], 1)).toBe(10);
+  });
+
+  it("returns the only value of a single observation", () => {
+    expect(percentile([3.2], 0.25)).toBe(3.2);
+  });
+});
+
+describe("computeMultipleRange", () => {
+  it("sorts the multiples and skips missing ones", () => {
+    expect(RANGE).toEqual({
+      low: 2,
+      high: 10,
+      median: 5,
+      mean: 5.5,
+      percentile25: 3.5,
+      percentile75: 7,
+      count: 4,
+    });
+  });
+
+  it("returns null without any multiples", () => {
+    expect(computeMultipleRange([null, undefined, NaN])).toBeNull();
+  });
+});
+
+describe("describeMultiplePosition", () => {
+  it("names the statistic a selected multiple sits on", () => {
+    expect(describeMultiplePosition(5.004, RANGE)).toBe("at the median");
+    expect(describeMultiplePosition(5.5, RANGE)).toBe("at the mean");
+    expect(describeMultiplePosition(3.5, RANGE)).toBe("at the 25th percentile");
+    expect(describeMultiplePosition(7, RANGE)).toBe("at the 75th percentile");
+  });
+
+  it("places a selected multiple between the statistics around it", () => {
+    expect(describeMultiplePosition(1, RANGE)).toBe("below the low end of the range");
+    expect(describeMultiplePosition(3, RANGE)).toBe("between the low and the 25th percentile");
+    expect(describeMultiplePosition(4.5, RANGE)).toBe("between the 25th percentile and the median");
+    expect(describeMultiplePosition(6, RANGE)).toBe("between the median and the 75th percentile");
+    expect(describeMultiplePosition(8, RANGE)).toBe("between the 75th percentile and the high");
+    expect(describeMultiplePosition(12, RANGE)).toBe("above the high end of the range");
+  });
+});
+
+describe("analyzeGuidelineCompanies", () => {
+  it("reads the selected multiples and the metric they were applied to", async () => {
+    const file = writeTestWorkbook({
+      GPC: [
+        ["Company", "Ticker", "EV / LTM Revenue", "EV / LTM EBITDA"],
+        ["Alpha Corp", "ALP", 2, 8],
+        ["Beta Inc", "BET", 4, 12],
+        ["Gamma Co", "GAM", 6, 14],
+        ["Selected", null, 3, 10],
+      ],
+    });
+    cleanup = file.cleanup;
+    const workbook = await loadWorkbook(file.filePath);
+
+    const provenance: ProvenanceMap = {};
+    recordProvenance(provenance, "guidelinePublicCompanies[0].name", { sheet: "GPC", row: 1, col: 0, rule: "tableColumn" });
+    const detailed = {
+      guidelinePublicCompanies: [company("Alpha Corp", 2, 8), company("Beta Inc", 4, 12), company("Gamma Co", 6, 14)],
+      // 3.0x revenue reproduces the indicated value; 10.0x EBITDA would give 15,000,000
+      companyFinancials: { ...createEmptyCompanyFinancials(), ltmRevenue: 4000000, ltmEbitda: 1500000 },
+      weightingData: {
+        ...createEmptyWeightingData(),
+        approaches: [{ name: "Guideline Public Company Method", indicatedValue: 12000000, weight: 1, weightedValue: 12000000 }],
+      },
+      provenance,
+    } as unknown as DetailedModelData;
+
+    const analysis = analyzeGuidelineCompanies(workbook, detailed);
+
+    expect(analysis).toMatchObject({
+      selectedRevenueMultiple: 3,
+      selectedEbitdaMultiple: 10,
+      indicatedValue: 12000000,
+      appliedMetric: "revenue",
+      appliedMetricValue: 4000000,
+    });
+    expect(analysis?.revenueMultipleRange).toMatchObject({ low: 2, median: 4, high: 6, count: 3 });
+    expect(describeMultiplePosition(3, analysis?.revenueMultipleRange as MultipleRange)).toBe("at the 25th percentile");
+    expect(provenance).toHaveProperty(["gpcAnalysis.selectedRevenueMultiple", "cell"], "C5");
+  });
+});
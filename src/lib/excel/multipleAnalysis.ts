@@ -0,0 +1,244 @@
+/**
+ * Multiple Analysis
+ * Computes guideline company / transaction multiple statistics and detects
+ * the selected multiple and applied metric from the model
+ */
+
+import type {
+  WorkbookData,
+  DetailedModelData,
+  MultipleRange,
+  AppliedMetric,
+  GPCAnalysisSummary,
+  TransactionAnalysisSummary,
+  ProvenanceMap,
+} from '@/types/excel';
+import { getSheetData } from './parser';
+import { locateValueNearLabel } from './detailedExtractor';
+import { recordProvenance } from './provenance';
+
+const REVENUE_MULTIPLE_HEADER = /ev\s*\/\s*(?:ltm\s*|ntm\s*)?rev|revenue\s*mult|rev\s*mult|ev\s*\/\s*sales/i;
+const EBITDA_MULTIPLE_HEADER = /ev\s*\/\s*(?:ltm\s*|ntm\s*)?ebitda|ebitda\s*mult/i;
+const SELECTED_ROW_LABEL = /^\s*(?:selected|applied|concluded)\b/i;
+
+// How each applied metric is named in prompts and the report
+export const APPLIED_METRIC_LABELS: Record<AppliedMetric, string> = {
+  revenue: 'Revenue',
+  ebitda: 'EBITDA',
+  grossProfit: 'Gross Profit',
+};
+
+/**
+ * Percentile with linear interpolation (matches Excel PERCENTILE.INC)
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const rank = p * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Compute low/high/median/mean and quartiles for a set of multiples
+ */
+export function computeMultipleRange(values: (number | null | undefined)[]): MultipleRange | null {
+  const sorted = values
+    .filter((v): v is number => typeof v === 'number' && isFinite(v))
+    .sort((a, b) => a - b);
+
+  if (sorted.length === 0) return null;
+
+  return {
+    low: sorted[0],
+    high: sorted[sorted.length - 1],
+    median: percentile(sorted, 0.5),
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    percentile25: percentile(sorted, 0.25),
+    percentile75: percentile(sorted, 0.75),
+    count: sorted.length,
+  };
+}
+
+/**
+ * Describe where a selected multiple falls within the observed range
+ * e.g. "between the 25th percentile and the median"
+ */
+export function describeMultiplePosition(selected: number, range: MultipleRange): string {
+  const tolerance = 0.005;
+  const near = (a: number, b: number) => Math.abs(a - b) < tolerance;
+
+  if (near(selected, range.median)) return 'at the median';
+  if (near(selected, range.mean)) return 'at the mean';
+  if (near(selected, range.percentile25)) return 'at the 25th percentile';
+  if (near(selected, range.percentile75)) return 'at the 75th percentile';
+  if (selected < range.low) return 'below the low end of the range';
+  if (selected > range.high) return 'above the high end of the range';
+  if (selected < range.percentile25) return 'between the low and the 25th percentile';
+  if (selected < range.median) return 'between the 25th percentile and the median';
+  if (selected < range.percentile75) return 'between the median and the 75th percentile';
+  return 'between the 75th percentile and the high';
+}
+
+/**
+ * Find selected multiples on a comp sheet
+ * Looks for a "Selected" row under the multiple columns first, then for labelled cells
+ */
+function findSelectedMultiples(
+  data: unknown[][],
+  sheet: string,
+  provenance: ProvenanceMap,
+  prefix: string
+): { revenue: number | null; ebitda: number | null } {
+  let revenue: number | null = null;
+  let ebitda: number | null = null;
+  const isMultiple = (v: unknown): v is number => typeof v === 'number' && v > 0 && v < 100;
+
+  // Table layout: header row with multiple columns, "Selected" row below
+  for (let headerRow = 0; headerRow < Math.min(40, data.length); headerRow++) {
+    const headers = data[headerRow] || [];
+    const revCol = headers.findIndex(h => typeof h === 'string' && REVENUE_MULTIPLE_HEADER.test(h));
+    const ebitdaCol = headers.findIndex(h => typeof h === 'string' && EBITDA_MULTIPLE_HEADER.test(h));
+    if (revCol < 0 && ebitdaCol < 0) continue;
+
+    for (let row = headerRow + 1; row < Math.min(headerRow + 60, data.length); row++) {
+      const rowData = data[row] || [];
+      const labelCol = rowData
+        .slice(0, Math.min(4, rowData.length))
+        .findIndex(c => typeof c === 'string' && SELECTED_ROW_LABEL.test(c));
+      if (labelCol < 0) continue;
+
+      const label = rowData[labelCol] as string;
+      if (revenue === null && revCol >= 0 && isMultiple(rowData[revCol])) {
+        revenue = rowData[revCol] as number;
+        recordProvenance(provenance, `${prefix}.selectedRevenueMultiple`, {
+          sheet, row, col: revCol, label, rule: 'tableColumn',
+        });
+      }
+      if (ebitda === null && ebitdaCol >= 0 && isMultiple(rowData[ebitdaCol])) {
+        ebitda = rowData[ebitdaCol] as number;
+        recordProvenance(provenance, `${prefix}.selectedEbitdaMultiple`, {
+          sheet, row, col: ebitdaCol, label, rule: 'tableColumn',
+        });
+      }
+    }
+    break;
+  }
+
+  // Labelled cells, e.g. "Selected EV/Revenue Multiple"
+  const labelled: [('revenue' | 'ebitda'), RegExp[], string][] = [
+    ['revenue', [/(?:selected|applied).*(?:revenue|rev\b|sales)/i, /(?:revenue|sales).*multiple.*(?:selected|applied)/i], 'selectedRevenueMultiple'],
+    ['ebitda', [/(?:selected|applied).*ebitda/i, /ebitda.*multiple.*(?:selected|applied)/i], 'selectedEbitdaMultiple'],
+  ];
+
+  for (const [metric, patterns, field] of labelled) {
+    if ((metric === 'revenue' ? revenue : ebitda) !== null) continue;
+
+    const found = locateValueNearLabel(data, patterns, { minValue: 0.01, maxValue: 99.99 });
+    if (found && isMultiple(found.value)) {
+      if (metric === 'revenue') revenue = found.value;
+      else ebitda = found.value;
+      recordProvenance(provenance, `${prefix}.${field}`, {
+        sheet, row: found.row, col: found.col, label: found.label, rule: 'labelSearch',
+      });
+    }
+  }
+
+  return { revenue, ebitda };
+}
+
+/**
+ * Pick the metric the selected multiple was applied to
+ * When both multiples were selected, prefer the one that reproduces the indicated value
+ */
+function detectAppliedMetric(
+  candidates: { metric: AppliedMetric; multiple: number | null; metricValue: number | null }[],
+  indicatedValue: number | null
+): { metric: AppliedMetric | null; metricValue: number | null } {
+  const usable = candidates.filter(c => c.multiple !== null);
+  if (usable.length === 0) return { metric: null, metricValue: null };
+
+  const scored = usable
+    .filter(c => c.metricValue !== null && indicatedValue)
+    .map(c => ({ ...c, error: Math.abs((c.multiple as number) * (c.metricValue as number) - (indicatedValue as number)) / (indicatedValue as number) }))
+    .sort((a, b) => a.error - b.error);
+
+  const best = scored[0] ?? usable.find(c => c.metricValue !== null) ?? usable[0];
+  return { metric: best.metric, metricValue: best.metricValue };
+}
+
+/**
+ * Find the indicated value for an approach from the weighting table
+ */
+function findApproachIndicatedValue(detailed: DetailedModelData, pattern: RegExp): number | null {
+  const approach = detailed.weightingData?.approaches.find(a => pattern.test(a.name));
+  return approach?.indicatedValue ?? null;
+}
+
+/**
+ * Build the guideline public company analysis summary
+ */
+export function analyzeGuidelineCompanies(
+  workbook: WorkbookData,
+  detailed: DetailedModelData
+): GPCAnalysisSummary | null {
+  const companies = detailed.guidelinePublicCompanies;
+  if (companies.length === 0) return null;
+
+  const financials = detailed.companyFinancials;
+  const sheet = detailed.provenance['guidelinePublicCompanies[0].name']?.sheet;
+  const selected = sheet
+    ? findSelectedMultiples(getSheetData(workbook, sheet), sheet, detailed.provenance, 'gpcAnalysis')
+    : { revenue: null, ebitda: null };
+
+  const indicatedValue = findApproachIndicatedValue(detailed, /guideline.*public|gpc/i);
+  const applied = detectAppliedMetric([
+    { metric: 'revenue', multiple: selected.revenue, metricValue: financials?.ltmRevenue ?? financials?.currentYearRevenue ?? null },
+    { metric: 'ebitda', multiple: selected.ebitda, metricValue: financials?.ltmEbitda ?? financials?.currentYearEbitda ?? null },
+  ], indicatedValue);
+
+  return {
+    companies,
+    revenueMultipleRange: computeMultipleRange(companies.map(c => c.revenueMultiple)),
+    ebitdaMultipleRange: computeMultipleRange(companies.map(c => c.ebitdaMultiple)),
+    selectedRevenueMultiple: selected.revenue,
+    selectedEbitdaMultiple: selected.ebitda,
+    indicatedValue,
+    appliedMetric: applied.metric,
+    appliedMetricValue: applied.metricValue,
+  };
+}
+
+/**
+ * Build the guideline transaction analysis summary
+ */
+export function analyzeGuidelineTransactions(
+  workbook: WorkbookData,
+  detailed: DetailedModelData
+): TransactionAnalysisSummary | null {
+  const transactions = detailed.guidelineTransactions;
+  if (transactions.length === 0) return null;
+
+  const financials = detailed.companyFinancials;
+  const sheet = detailed.provenance['guidelineTransactions[0].targetName']?.sheet;
+  const selected = sheet
+    ? findSelectedMultiples(getSheetData(workbook, sheet), sheet, detailed.provenance, 'transactionAnalysis')
+    : { revenue: null, ebitda: null };
+
+  const indicatedValue = findApproachIndicatedValue(detailed, /transaction|m&a|gtm/i);
+  const applied = detectAppliedMetric([
+    { metric: 'revenue', multiple: selected.revenue, metricValue: financials?.ltmRevenue ?? financials?.currentYearRevenue ?? null },
+    { metric: 'ebitda', multiple: selected.ebitda, metricValue: financials?.ltmEbitda ?? financials?.currentYearEbitda ?? null },
+  ], indicatedValue);
+
+  return {
+    transactions,
+    revenueMultipleRange: computeMultipleRange(transactions.map(t => t.revenueMultiple)),
+    ebitdaMultipleRange: computeMultipleRange(transactions.map(t => t.ebitdaMultiple)),
+    selectedRevenueMultiple: selected.revenue,
+    selectedEbitdaMultiple: selected.ebitda,
+    indicatedValue,
+    appliedMetric: applied.metric === 'grossProfit' ? null : applied.metric,
+    appliedMetricValue: applied.metricValue,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Model Parse Worker
+ * Runs parseValuationModel, or parsePdfModel for PDF exhibits, off the request thread
+ * (see parseModelFile.ts)
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { parseValuationModel } from './parseValuationModel';
+import { parsePdfModel, isPdfFile } from '@/lib/pdf/parsePdfModel';
+import type { ParseWorkerInput, ParseWorkerResult } from './parseModelFile';
+
+const { filePath, profiles } = workerData as ParseWorkerInput;
+
+const parse = isPdfFile(filePath) ? parsePdfModel(filePath) : parseValuationModel(filePath, { profiles });
+
+parse
+  .then(model => parentPort?.postMessage({ model } satisfies ParseWorkerResult))
+  .catch(error => parentPort?.postMessage({ error: String(error) } satisfies ParseWorkerResult));
@@ -0,0 +1,162 @@
+/**
+ * Model File Parsing
+ * Parses valuation models (Excel workbooks or PDF exhibits) in a worker thread with a timeout and memory budget, and
+ * caches parsed models by file hash so the parse route and the generation pipeline
+ * don't parse the same upload twice
+ */
+
+import { Worker } from 'worker_threads';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import type { ParsedModel, ModelParseFailure } from '@/types/excel';
+import type { MappingProfileData } from '@/types/mapping';
+import { loadMappingProfiles } from '@/lib/utils/mappingProfile';
+import { isPdfFile } from '@/lib/pdf/parsePdfModel';
+import type { ParseModelOptions } from './parseValuationModel';
+
+// Limits for one parse; large .xlsm models can take well over a minute
+const PARSE_TIMEOUT_MS = Number(process.env.MODEL_PARSE_TIMEOUT_MS) || 120000;
+const PARSE_MEMORY_MB = Number(process.env.MODEL_PARSE_MEMORY_MB) || 2048;
+
+// Parsed models hold extracted values only, not sheet data, so a few dozen are cheap to keep
+const MAX_CACHED_MODELS = 20;
+
+export interface ParseWorkerInput {
+  filePath: string;
+  profiles: MappingProfileData[];
+}
+
+export type ParseWorkerResult = { model: ParsedModel } | { error: string };
+
+/**
+ * Error raised when the parse worker times out, runs out of memory or fails
+ */
+export class ModelParseError extends Error {
+  public readonly reason: ModelParseFailure;
+
+  constructor(reason: ModelParseFailure, message: string) {
+    super(message);
+    this.name = 'ModelParseError';
+    this.reason = reason;
+  }
+}
+
+// Least recently used first; re-inserted on each hit
+const parsedModels = new Map<string, ParsedModel>();
+const pendingParses = new Map<string, Promise<ParsedModel>>();
+
+/**
+ * SHA-256 of a file's contents
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * Cache key for a file parsed against a set of mapping profiles
+ * Editing a profile changes the key, so models are re-parsed with the new mappings
+ */
+function createCacheKey(fileHash: string, profiles: MappingProfileData[]): string {
+  const profileHash = createHash('sha256').update(JSON.stringify(profiles)).digest('hex');
+  return `${fileHash}:${profileHash.slice(0, 16)}`;
+}
+
+/**
+ * Store a parsed model, evicting the least recently used beyond the limit
+ */
+function rememberModel(key: string, model: ParsedModel): void {
+  parsedModels.delete(key);
+  parsedModels.set(key, model);
+  while (parsedModels.size > MAX_CACHED_MODELS) {
+    const oldest = parsedModels.keys().next().value as string;
+    parsedModels.delete(oldest);
+  }
+}
+
+/**
+ * Run parseValuationModel (or parsePdfModel) in a worker thread
+ * The worker is terminated when it exceeds the timeout; the memory budget caps its heap
+ */
+function runParseWorker(input: ParseWorkerInput): Promise<ParsedModel> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./parseModel.worker.ts', import.meta.url), {
+      workerData: input,
+      resourceLimits: { maxOldGenerationSizeMb: PARSE_MEMORY_MB },
+    });
+
+    let settled = false;
+    const settle = (finish: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      void worker.terminate();
+      finish();
+    };
+
+    const timer = setTimeout(() => settle(() => reject(new ModelParseError(
+      'timeout',
+      `Model parsing did not finish within ${Math.round(PARSE_TIMEOUT_MS / 1000)} seconds`
+    ))), PARSE_TIMEOUT_MS);
+
+    worker.on('message', (result: ParseWorkerResult) => settle(() => {
+      if ('model' in result) {
+        resolve(result.model);
+      } else {
+        reject(new ModelParseError('worker', result.error));
+      }
+    }));
+
+    worker.on('error', error => settle(() => reject(
+      (error as NodeJS.ErrnoException).code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? new ModelParseError('memory', `Model parsing exceeded the ${PARSE_MEMORY_MB} MB memory budget`)
+        : new ModelParseError('worker', `Model parsing failed: ${error.message}`)
+    )));
+
+    worker.on('exit', code => settle(() => reject(
+      new ModelParseError('worker', `Model parse worker exited with code ${code}`)
+    )));
+  });
+}
+
+/**
+ * Parse a valuation model file off the request thread, reusing a cached parse of
+ * the same file contents when available
+ * Throws ModelParseError when the worker times out, runs out of memory or fails
+ */
+export async function parseModelFile(
+  filePath: string,
+  options: ParseModelOptions = {}
+): Promise<ParsedModel> {
+  // Profiles come from the database, so they're loaded here rather than in the worker;
+  // they locate workbook cells and don't apply to PDFs
+  const profiles = isPdfFile(filePath) ? [] : options.profiles ?? await loadMappingProfiles();
+  const key = createCacheKey(await hashFile(filePath), profiles);
+
+  const cached = parsedModels.get(key);
+  if (cached) {
+    console.log(`Using cached parse of ${filePath}`);
+    rememberModel(key, cached);
+    return structuredClone(cached);
+  }
+
+  // Concurrent requests for the same file share one worker
+  let pending = pendingParses.get(key);
+  if (!pending) {
+    pending = runParseWorker({ filePath, profiles })
+      .then(model => {
+        rememberModel(key, model);
+        return model;
+      })
+      .finally(() => pendingParses.delete(key));
+    pendingParses.set(key, pending);
+  }
+
+  // Callers may adjust the model, so each gets its own copy
+  return structuredClone(await pending);
+}
@@ -1,20 +1,46 @@
-import type { ParsedModel, DetailedModelData } from '@/types/excel';
+import type { ParsedModel, DetailedModelData, ProvenanceMap, SheetUnits, ModelHealthFinding } from '@/types/excel';
 import { 
   loadWorkbook, 
   extractCompanyInfo, 
   extractExhibits, 
   extractSummaryData,
-  extractDLOM 
+  extractDLOM,
+  detectWorkbookUnits
 } from './parser';
+import { resolveModelCurrency, normalizeModelUnits } from './units';
 import { extractDetailedData } from './detailedExtractor';
+import {
+  selectMappingProfile,
+  applyMappingProfile,
+  applyProfileToDetailedData,
+  recordMappedProvenance,
+} from './mappingProfiles';
+import { analyzeGuidelineCompanies, analyzeGuidelineTransactions } from './multipleAnalysis';
+import { validateModelIntegrity } from './integrity';
+import { scanModelHealth } from './modelHealth';
+import { loadMappingProfiles } from '@/lib/utils/mappingProfile';
+import { MAPPABLE_FIELDS } from '@/types/mapping';
+import type { AppliedProfile, MappingProfileData } from '@/types/mapping';
+
+export interface ParseModelOptions {
+  /** Mapping profiles to match against; loaded from the database when omitted */
+  profiles?: MappingProfileData[];
+}
 
 /**
  * Main function to parse a valuation model Excel file
  * Orchestrates all extraction functions and collects errors/warnings
+ * A matching mapping profile takes precedence; heuristics fill any field it doesn't supply
  */
-export async function parseValuationModel(filePath: string): Promise<ParsedModel> {
+export async function parseValuationModel(
+  filePath: string,
+  options: ParseModelOptions = {}
+): Promise<ParsedModel> {
   const errors: string[] = [];
   const warnings: string[] = [];
+  let mappingProfile: ParsedModel['mappingProfile'] = null;
+  let applied: AppliedProfile | null = null;
+  const provenance: ProvenanceMap = {};
 
   let companyName: string | null = null;
   let valuationDate: Date | null = null;
@@ -22,21 +48,54 @@ export async function parseValuationModel(filePath: string): Promise<ParsedModel
   let summary: ParsedModel['summary'] = null;
   let dlom: number | null = null;
   let detailedData: DetailedModelData | undefined = undefined;
+  let currency: string | undefined = undefined;
+  let sheetUnits: SheetUnits[] = [];
+  let healthFindings: ModelHealthFinding[] = [];
 
   try {
     // Load the workbook
     const workbook = await loadWorkbook(filePath);
 
+    // Select and apply a mapping profile for known templates
+    try {
+      const profiles = options.profiles ?? await loadMappingProfiles();
+      const profile = selectMappingProfile(workbook, profiles);
+
+      if (profile) {
+        applied = applyMappingProfile(workbook, profile);
+        mappingProfile = { id: profile.id, name: profile.name };
+        console.log(`Using mapping profile "${profile.name}"`);
+
+        if (applied.unresolved.length > 0) {
+          const labels = applied.unresolved.map(f => MAPPABLE_FIELDS[f].label);
+          warnings.push(`Mapping profile "${profile.name}" could not resolve: ${labels.join(', ')}`);
+        }
+      }
+    } catch (error) {
+      warnings.push(`Failed to apply mapping profile: ${error}`);
+    }
+
+    const mapped = applied?.values ?? {};
+
+    // Detect each sheet's units and currency; amounts are normalized to whole units below
+    sheetUnits = detectWorkbookUnits(workbook);
+    const resolved = resolveModelCurrency(sheetUnits);
+    currency = resolved.currency;
+    if (resolved.conflicts.length > 0) {
+      warnings.push(`Multiple currencies found in model: ${resolved.conflicts.join('; ')}. Amounts are reported in ${currency}`);
+    }
+
     // Extract company info
     try {
-      const companyInfo = extractCompanyInfo(workbook);
-      companyName = companyInfo.companyName;
-      valuationDate = companyInfo.valuationDate;
+      const companyInfo = extractCompanyInfo(workbook, provenance);
+      companyName = (mapped.companyName as string | undefined) ?? companyInfo.companyName;
+      valuationDate = (mapped.valuationDate as Date | undefined) ?? companyInfo.valuationDate;
 
-      if (!companyName) {
+      // A field the profile maps already has its "could not resolve" warning
+      if (!companyName && !applied?.unresolved.includes('companyName')) {
         warnings.push('Company name not found in expected location (LEs!G819)');
       }
-      if (!valuationDate) {
+      if (!valuationDate && !applied?.unresolved.includes('valuationDate')) {
         warnings.push('Valuation date not found in expected location (LEs!G824)');
       }
     } catch (error) {
@@ -58,9 +117,25 @@ export async function parseValuationModel(filePath: string): Promise<ParsedModel
       errors.push(`Failed to extract exhibits: ${error}`);
     }
 
+    // Scan exhibits for error cells, broken formulas and hidden content
+    try {
+      healthFindings = scanModelHealth(workbook, exhibits.map(e => e.sheetName));
+      const broken = healthFindings.filter(f => f.severity === 'error');
+      if (broken.length > 0) {
+        console.log(`Model health: ${broken.length} error finding(s)`);
+      }
+    } catch (error) {
+      warnings.push(`Failed to scan model health: ${error}`);
+    }
+
     // Extract summary data
     try {
-      summary = extractSummaryData(workbook);
+      summary = extractSummaryData(workbook, provenance);
+
+      if (mapped.concludedValue !== undefined) {
+        summary = summary ?? { approaches: [], concludedValue: null };
+        summary.concludedValue = mapped.concludedValue as number;
+      }
       
       if (!summary) {
         warnings.push('Summary sheet not found or could not be parsed');
@@ -78,7 +153,7 @@ export async function parseValuationModel(filePath: string): Promise<ParsedModel
 
     // Extract DLOM
     try {
-      dlom = extractDLOM(workbook);
+      dlom = (mapped.dlom as number | undefined) ?? extractDLOM(workbook, provenance);
       
       if (dlom === null) {
         warnings.push('DLOM not found in workbook');
@@ -87,10 +162,34 @@ export async function parseValuationModel(filePath: string): Promise<ParsedModel
       warnings.push(`Failed to extract DLOM: ${error}`);
     }
 
+    // Profile-mapped values take precedence over the heuristic sources recorded above
+    if (applied) {
+      for (const field of ['companyName', 'valuationDate', 'concludedValue', 'dlom'] as const) {
+        if (mapped[field] !== undefined) {
+          recordMappedProvenance(provenance, field, applied);
+        }
+      }
+    }
+
+    normalizeModelUnits({ summary }, provenance, sheetUnits);
+
     // Extract detailed data for AI narrative generation
     try {
       console.log('Extracting detailed model data for AI narratives...');
       detailedData = extractDetailedData(workbook);
+
+      if (applied) {
+        applyProfileToDetailedData(detailedData, applied);
+      }
+
+      const normalized = normalizeModelUnits({ summary: null, detailedData }, {}, sheetUnits);
+      if (normalized.length > 0) {
+        console.log(`Normalized ${normalized.length} amounts to whole ${currency} units`);
+      }
+
+      // Multiple statistics use the final (profile-adjusted) financials and weightings
+      detailedData.gpcAnalysis = analyzeGuidelineCompanies(workbook, detailedData);
+      detailedData.transactionAnalysis = analyzeGuidelineTransactions(workbook, detailedData);
       
       // Add missing data items to warnings
       if (detailedData.missingData.length > 0) {
@@ -118,6 +217,13 @@ export async function parseValuationModel(filePath: string): Promise<ParsedModel
     errors.push(`Failed to load workbook: ${error}`);
   }
 
+  // Reconcile the model's own arithmetic
+  const integrityChecks = validateModelIntegrity({ summary, detailedData, dlom, currency });
+  const failedChecks = integrityChecks.filter(c => c.status === 'failed');
+  if (failedChecks.length > 0) {
+    console.log(`Model integrity: ${failedChecks.length} check(s) failed`);
+  }
+
   return {
     companyName,
     valuationDate,
@@ -127,6 +233,12 @@ export async function parseValuationModel(filePath: string): Promise<ParsedModel
     errors,
     warnings,
     detailedData,
+    mappingProfile,
+    provenance,
+    integrityChecks,
+    currency,
+    sheetUnits,
+    healthFindings,
   };
 }
 
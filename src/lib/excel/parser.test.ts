@@ -0,0 +1,87 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { loadWorkbook, getSheetData, getCellValue, getSheetComments, findNotesInSheet } from "./parser";
+import { readProjectionTable } from "./projections";
+import { writeTestWorkbook } from "@/lib/test/workbook";
+
+let cleanup: (() => void) | null = null;
+
+afterEach(() => {
+  cleanup?.();
+  cleanup = null;
+});
+
+/**
+ * Write a workbook and load it the way model parsing does
+ */
+async function load(...args: Parameters<typeof writeTestWorkbook>) {
+  const file = writeTestWorkbook(...args);
+  cleanup = file.cleanup;
+  return loadWorkbook(file.filePath);
+}
+
+describe("getSheetData", () => {
+  it("returns typed values from a real workbook", async () => {
+    const valuationDate = new Date(Date.UTC(2025, 2, 31));
+    const workbook = await load(
+      { Inputs: [["Label", "Value"], ["DLOM", 0.25], ["Revenue", 1250000], ["Valuation Date", valuationDate]] },
+      { formats: [{ sheet: "Inputs", address: "B2", format: "0%" }] }
+    );
+
+    const data = getSheetData(workbook, "Inputs");
+    expect(data[1]).toEqual(["DLOM", 0.25]);
+    expect(data[2]).toEqual(["Revenue", 1250000]);
+    expect(data[3][1]).toBeInstanceOf(Date);
+  });
+
+  it("indexes rows and columns from A1 when the sheet starts lower down", async () => {
+    const workbook = await load({ Offset: [[], [], [null, "Title"], [null, "Value", 42]] });
+
+    const data = getSheetData(workbook, "Offset");
+    expect(data[2][1]).toBe("Title");
+    expect(data[3][2]).toBe(42);
+    expect(getCellValue(workbook, "Offset", "C4")).toBe(42);
+  });
+
+  it("reads only the top of the sheet with maxRows", async () => {
+    const workbook = await load({ Rows: [["a"], ["b"], ["c"]] });
+    expect(getSheetData(workbook, "Rows", 2)).toEqual([["a"], ["b"]]);
+  });
+});
+
+describe("getSheetComments", () => {
+  it("reads cell comments from a real workbook", async () => {
+    const workbook = await load(
+      { GPC: [["Company", "EV/Revenue"], ["Alpha Corp", 4.2], ["Beta Inc", 9.8]] },
+      { comments: [{ sheet: "GPC", address: "B3", author: "Analyst", text: "Excluded as an outlier due to its pending acquisition" }] }
+    );
+
+    expect(getSheetComments(workbook, "GPC")).toEqual([
+      { cell: "B3", text: "Excluded as an outlier due to its pending acquisition" },
+    ]);
+    expect(findNotesInSheet(workbook, "GPC")).toEqual([
+      "Comment on B3: Excluded as an outlier due to its pending acquisition",
+    ]);
+  });
+});
+
+describe("readProjectionTable from an xlsx file", () => {
+  it("reads metric rows as numbers end to end", async () => {
+    const workbook = await load({
+      DCF: [
+        ["Discounted Cash Flow"],
+        [null, "2024A", "2025E", "2026E", "2027E"],
+        ["Revenue", 100, 120, 150, 180],
+        ["EBITDA", 20, 25, 33, 40],
+      ],
+    });
+
+    const table = readProjectionTable(getSheetData(workbook, "DCF"), "DCF");
+    expect(table?.metrics.revenue?.map(p => [p.year, p.value])).toEqual([
+      [2024, 100],
+      [2025, 120],
+      [2026, 150],
+      [2027, 180],
+    ]);
+    expect(table?.metrics.ebitda?.[1].growthRate).toBeCloseTo(0.25);
+  });
+});
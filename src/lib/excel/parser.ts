@@ -8,26 +8,84 @@ import type {
   CompanyInfo,
   ExhibitData,
   SummaryData,
-  ApproachData
+  ApproachData,
+  ProvenanceMap,
+  SheetUnits
 } from '@/types/excel';
+import { recordProvenance, toCellAddress } from './provenance';
+import { detectSheetUnits, toSheetUnits, UNIT_CAPTION_ROWS } from './units';
+import { harvestNotes, classifyExhibitApproach, type SheetComment } from './exhibitNotes';
+
+// Options for the main parse; modelHealth.ts re-reads exhibits with formula and style metadata
+const READ_OPTIONS: XLSX.ParsingOptions = {
+  cellDates: true,
+  cellNF: false,  // Don't parse number formats
+  cellStyles: false,  // Don't parse styles
+  sheetStubs: false,  // Don't create stubs for empty cells
+  bookVBA: false,  // Don't parse VBA macros
+  dense: true,  // Use dense array format - more memory efficient
+};
+
+// Parses workbook parts from an unzipped .xlsx/.xlsm container (not in the xlsx type definitions)
+const parseZip = (XLSX as unknown as {
+  parse_zip: (zip: unknown, options: XLSX.ParsingOptions) => XLSX.WorkBook;
+}).parse_zip;
+
+interface WorkbookSource {
+  buffer: Buffer;
+  zip: unknown | null; // Unzipped container; null for formats read in one pass (.xls)
+}
+
+// Source file of each loaded workbook, so sheets can be parsed on demand
+const workbookSources = new WeakMap<WorkbookData, WorkbookSource>();
+
+/**
+ * Check for the zip signature used by .xlsx and .xlsm files
+ */
+function isZipFile(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer[0] === 0x50 && buffer[1] === 0x4B && buffer[2] < 0x09 && buffer[3] < 0x09;
+}
+
+/**
+ * Replace each sheet with a getter that parses it on first access
+ * Sheets no extractor reads are never materialized
+ */
+function defineLazySheets(rawWorkbook: XLSX.WorkBook, zip: unknown): void {
+  const sheets: Record<string, XLSX.WorkSheet> = {};
+
+  for (const name of rawWorkbook.SheetNames) {
+    Object.defineProperty(sheets, name, {
+      enumerable: true,
+      configurable: true,
+      get() {
+        const parsed = parseZip(zip, { ...READ_OPTIONS, sheets: name }).Sheets[name];
+        Object.defineProperty(sheets, name, { value: parsed, enumerable: true, writable: true });
+        return parsed;
+      },
+    });
+  }
+
+  rawWorkbook.Sheets = sheets;
+}
 
 /**
  * Loads an Excel workbook from disk
+ * .xlsx/.xlsm sheets are parsed lazily, when first read
  */
 export async function loadWorkbook(filePath: string): Promise<WorkbookData> {
   try {
     const buffer = readFileSync(filePath);
-    
-    // Memory-efficient parsing - only get sheet structure, not cell data
-    const rawWorkbook = XLSX.read(buffer, { 
-      type: 'buffer',
-      cellDates: true,
-      cellNF: false,  // Don't parse number formats
-      cellStyles: false,  // Don't parse styles
-      sheetStubs: false,  // Don't create stubs for empty cells
-      bookVBA: false,  // Don't parse VBA macros
-      dense: true,  // Use dense array format - more memory efficient
-    });
+    let rawWorkbook: XLSX.WorkBook;
+    let zip: unknown | null = null;
+
+    if (isZipFile(buffer)) {
+      // Unzip once and read the workbook structure; sheet XML is parsed on demand
+      zip = XLSX.CFB.read(buffer, { type: 'buffer' });
+      rawWorkbook = parseZip(zip, { ...READ_OPTIONS, sheets: [] });
+      defineLazySheets(rawWorkbook, zip);
+    } else {
+      rawWorkbook = XLSX.read(buffer, { type: 'buffer', ...READ_OPTIONS });
+    }
 
     const sheets: SheetInfo[] = rawWorkbook.SheetNames.map((name, index) => ({
       name,
@@ -36,15 +94,36 @@ export async function loadWorkbook(filePath: string): Promise<WorkbookData> {
     
     console.log(`Loaded workbook with ${sheets.length} sheets: ${sheets.map(s => s.name).join(', ')}`);
 
-    return {
+    const workbook = {
       sheets,
       rawWorkbook,
     };
+    workbookSources.set(workbook, { buffer, zip });
+    return workbook;
   } catch (error) {
     throw new Error(`Failed to load workbook: ${error}`);
   }
 }
 
+/**
+ * Parses selected sheets of a loaded workbook again with different read options
+ * Reuses the unzipped file instead of reading it from disk
+ */
+export function readSheets(
+  workbook: WorkbookData,
+  sheetNames: string[],
+  options: XLSX.ParsingOptions
+): XLSX.WorkBook {
+  const source = workbookSources.get(workbook);
+  if (!source) {
+    throw new Error('Workbook was not loaded with loadWorkbook');
+  }
+
+  return source.zip
+    ? parseZip(source.zip, { ...options, sheets: sheetNames })
+    : XLSX.read(source.buffer, { ...options, type: 'buffer', sheets: sheetNames });
+}
+
 /**
  * Returns array of all sheet names
  */
@@ -97,6 +176,16 @@ function addressToRowCol(address: string): { row: number; col: number } | null {
   return { row, col };
 }
 
+/**
+ * Cell rows of a dense sheet, or null for a sparse one
+ * xlsx 0.18 returns dense sheets as an array of rows; later versions keep the rows in !data
+ */
+export function getSheetRows(sheet: XLSX.WorkSheet): (XLSX.CellObject | null | undefined)[][] | null {
+  if (sheet['!data']) return sheet['!data'] as (XLSX.CellObject | null | undefined)[][];
+  if (Array.isArray(sheet)) return sheet as (XLSX.CellObject | null | undefined)[][];
+  return null;
+}
+
 /**
  * Gets value from a specific cell
  * Supports both dense and sparse sheet formats
@@ -113,11 +202,11 @@ export function getCellValue(
 
   let cell;
   
-  // Check if using dense format (has !data property)
-  if (sheet['!data']) {
+  const rows = getSheetRows(sheet);
+  if (rows) {
     const pos = addressToRowCol(cellAddress);
     if (!pos) return null;
-    const row = sheet['!data'][pos.row];
+    const row = rows[pos.row];
     cell = row ? row[pos.col] : null;
   } else {
     // Sparse format - direct access
@@ -149,34 +238,108 @@ export function getCellValue(
 /**
  * Gets all data from a sheet as 2D array
  * Supports both dense and sparse sheet formats
+ * Pass maxRows to read only the top of the sheet
  */
-export function getSheetData(workbook: WorkbookData, sheetName: string): unknown[][] {
+export function getSheetData(workbook: WorkbookData, sheetName: string, maxRows?: number): unknown[][] {
   const sheet = workbook.rawWorkbook.Sheets[sheetName];
   if (!sheet) {
     return [];
   }
+  return sheetToData(sheet, maxRows);
+}
 
-  // For dense format, data is already in !data array
-  if (sheet['!data']) {
-    return (sheet['!data'] as unknown[][]).map(row => 
-      row ? row.map(cell => cell ? (cell as { v?: unknown }).v ?? null : null) : []
+/**
+ * Converts a parsed sheet to a 2D array of typed cell values (numbers, strings,
+ * dates), indexed from A1 so row and column numbers match the sheet
+ * Error cells (#REF!, #N/A, ...) are read as empty; modelHealth.ts reports them
+ */
+function sheetToData(sheet: XLSX.WorkSheet, maxRows?: number): unknown[][] {
+  const rows = getSheetRows(sheet);
+  if (rows) {
+    const count = maxRows !== undefined ? Math.min(maxRows, rows.length) : rows.length;
+    return Array.from({ length: count }, (_, row) =>
+      Array.from(rows[row] || [], cell => (cell && cell.t !== 'e' ? cell.v ?? null : null))
     );
   }
 
   // Sparse format - use xlsx utility
+  let range: XLSX.Range | undefined;
+  if (maxRows !== undefined && sheet['!ref']) {
+    range = XLSX.utils.decode_range(sheet['!ref']);
+    range.e.r = Math.min(range.e.r, range.s.r + maxRows - 1);
+  }
+
   const data = XLSX.utils.sheet_to_json(sheet, { 
     header: 1,
     defval: null,
-    raw: false,
+    raw: true,
+    ...(range ? { range } : {}),
   }) as unknown[][];
 
   return data;
 }
 
+/**
+ * Whether a sheet has been parsed (lazy sheets are parsed on first access)
+ */
+function isSheetLoaded(workbook: WorkbookData, sheetName: string): boolean {
+  const descriptor = Object.getOwnPropertyDescriptor(workbook.rawWorkbook.Sheets, sheetName);
+  return !!descriptor && !descriptor.get;
+}
+
+// Detected units per sheet, so extractors don't rescan the caption block
+const sheetUnitsCache = new WeakMap<WorkbookData, Map<string, SheetUnits>>();
+
+/**
+ * Gets the units cache for a workbook
+ */
+function getUnitsCache(workbook: WorkbookData): Map<string, SheetUnits> {
+  let cache = sheetUnitsCache.get(workbook);
+  if (!cache) {
+    cache = new Map();
+    sheetUnitsCache.set(workbook, cache);
+  }
+  return cache;
+}
+
+/**
+ * Gets the units and currency a sheet's amounts are stated in
+ */
+export function getSheetUnits(workbook: WorkbookData, sheetName: string): SheetUnits {
+  const cache = getUnitsCache(workbook);
+
+  let units = cache.get(sheetName);
+  if (!units) {
+    units = detectSheetUnits(getSheetData(workbook, sheetName, UNIT_CAPTION_ROWS), sheetName);
+    cache.set(sheetName, units);
+  }
+  return units;
+}
+
+/**
+ * Gets the detected units for every sheet in the workbook
+ * Sheets not yet parsed are read only down to the caption block
+ */
+export function detectWorkbookUnits(workbook: WorkbookData): SheetUnits[] {
+  const cache = getUnitsCache(workbook);
+  const names = getSheetNames(workbook);
+
+  const unread = names.filter(name => !cache.has(name) && !isSheetLoaded(workbook, name));
+  if (unread.length > 0) {
+    const captions = readSheets(workbook, unread, { ...READ_OPTIONS, sheetRows: UNIT_CAPTION_ROWS });
+    for (const name of unread) {
+      const sheet = captions.Sheets[name];
+      cache.set(name, detectSheetUnits(sheet ? sheetToData(sheet, UNIT_CAPTION_ROWS) : [], name));
+    }
+  }
+
+  return names.map(name => getSheetUnits(workbook, name));
+}
+
 /**
  * Extracts company name and valuation date from the model
  */
-export function extractCompanyInfo(workbook: WorkbookData): CompanyInfo {
+export function extractCompanyInfo(workbook: WorkbookData, provenance: ProvenanceMap = {}): CompanyInfo {
   // Try to find LEs sheet
   const leSheetNames = ['LEs', 'LE', 'Les', 'les', 'Liquidation Events'];
   let lesSheet: string | null = null;
@@ -196,6 +359,9 @@ export function extractCompanyInfo(workbook: WorkbookData): CompanyInfo {
     const rawCompanyName = getCellValue(workbook, lesSheet, 'G819');
     if (typeof rawCompanyName === 'string') {
       companyName = rawCompanyName;
+      recordProvenance(provenance, 'companyName', {
+        sheet: lesSheet, row: 818, col: 6, rule: 'fixedCell',
+      });
     }
 
     // Try G824 for valuation date
@@ -209,6 +375,11 @@ export function extractCompanyInfo(workbook: WorkbookData): CompanyInfo {
         valuationDate = new Date(excelDate.y, excelDate.m - 1, excelDate.d);
       }
     }
+    if (valuationDate) {
+      recordProvenance(provenance, 'valuationDate', {
+        sheet: lesSheet, row: 823, col: 6, rule: 'fixedCell',
+      });
+    }
   }
 
   // If not found in LEs, try to find in other common locations
@@ -228,6 +399,9 @@ export function extractCompanyInfo(workbook: WorkbookData): CompanyInfo {
                   !cell.toLowerCase().includes('date') &&
                   !cell.toLowerCase().includes('prepared')) {
                 companyName = cell;
+                recordProvenance(provenance, 'companyName', {
+                  sheet: sheetName, row, col, rule: 'rowScan',
+                });
                 break;
               }
             }
@@ -244,7 +418,7 @@ export function extractCompanyInfo(workbook: WorkbookData): CompanyInfo {
 
 /**
  * Extracts exhibits between start and end sheets
- * Only loads essential sheets to save memory
+ * Without Start/End sheets, falls back to sheets named like exhibits
  */
 export function extractExhibits(workbook: WorkbookData): ExhibitData[] {
   const boundaries = findExhibitBoundaries(workbook);
@@ -256,38 +430,22 @@ export function extractExhibits(workbook: WorkbookData): ExhibitData[] {
   ];
   
   if (!boundaries) {
-    // Only return key sheets to save memory (not ALL sheets)
+    // Without boundaries, only sheets named like exhibits count
     const keySheets = workbook.sheets.filter(sheet => 
       keyExhibitPatterns.some(pattern => pattern.test(sheet.name))
     );
     
-    // Limit to first 15 key sheets to prevent memory issues
-    const limitedSheets = keySheets.slice(0, 15);
-    
-    console.log(`Found ${limitedSheets.length} key exhibits: ${JSON.stringify(limitedSheets.map(s => s.name))}`);
+    console.log(`Found ${keySheets.length} key exhibits: ${JSON.stringify(keySheets.map(s => s.name))}`);
     
-    return limitedSheets.map(sheet => ({
-      sheetName: sheet.name,
-      data: [], // Don't load full data for memory efficiency
-      notes: [],
-    }));
+    return keySheets.map(sheet => describeExhibit(workbook, sheet.name));
   }
 
   const exhibits: ExhibitData[] = [];
   
-  // Limit exhibits to prevent memory issues
-  const maxExhibits = 20;
-  let count = 0;
-  
-  for (let i = boundaries.startIndex + 1; i < boundaries.endIndex && count < maxExhibits; i++) {
+  for (let i = boundaries.startIndex + 1; i < boundaries.endIndex; i++) {
     const sheet = workbook.sheets[i];
     if (sheet) {
-      exhibits.push({
-        sheetName: sheet.name,
-        data: [], // Don't load full data initially
-        notes: [],
-      });
-      count++;
+      exhibits.push(describeExhibit(workbook, sheet.name));
     }
   }
   
@@ -297,42 +455,58 @@ export function extractExhibits(workbook: WorkbookData): ExhibitData[] {
 }
 
 /**
- * Finds notes in a sheet by looking for "notes" label
+ * Gets the cell comments in a sheet
  */
-export function findNotesInSheet(workbook: WorkbookData, sheetName: string): string[] {
-  const data = getSheetData(workbook, sheetName);
-  const notes: string[] = [];
+export function getSheetComments(workbook: WorkbookData, sheetName: string): SheetComment[] {
+  const sheet = workbook.rawWorkbook.Sheets[sheetName];
+  if (!sheet) {
+    return [];
+  }
 
-  for (let row = 0; row < data.length; row++) {
-    for (let col = 0; col < (data[row] || []).length; col++) {
-      const cell = data[row]?.[col];
-      if (typeof cell === 'string' && cell.toLowerCase().includes('note')) {
-        // Found notes label, look for content in adjacent cells
-        // Check cells below
-        for (let nextRow = row + 1; nextRow < Math.min(row + 10, data.length); nextRow++) {
-          const noteContent = data[nextRow]?.[col];
-          if (typeof noteContent === 'string' && noteContent.trim()) {
-            notes.push(noteContent.trim());
-          }
-        }
-        // Check cells to the right
-        for (let nextCol = col + 1; nextCol < Math.min(col + 5, (data[row] || []).length); nextCol++) {
-          const noteContent = data[row]?.[nextCol];
-          if (typeof noteContent === 'string' && noteContent.trim()) {
-            notes.push(noteContent.trim());
-          }
-        }
-      }
+  const comments: SheetComment[] = [];
+  const addComments = (cell: XLSX.CellObject | null | undefined, address: string) => {
+    for (const comment of cell?.c ?? []) {
+      if (comment.t?.trim()) comments.push({ cell: address, text: comment.t });
+    }
+  };
+
+  const rows = getSheetRows(sheet);
+  if (rows) {
+    rows.forEach((rowData, row) => {
+      (rowData || []).forEach((cell, col) => addComments(cell, toCellAddress(row, col)));
+    });
+  } else {
+    for (const address of Object.keys(sheet)) {
+      if (!address.startsWith('!')) addComments(sheet[address] as XLSX.CellObject, address);
     }
   }
 
-  return Array.from(new Set(notes)); // Remove duplicates
+  return comments;
+}
+
+/**
+ * Finds the analyst's notes, footnotes and cell comments in a sheet
+ */
+export function findNotesInSheet(workbook: WorkbookData, sheetName: string): string[] {
+  return harvestNotes(getSheetData(workbook, sheetName), getSheetComments(workbook, sheetName));
+}
+
+/**
+ * Reads an exhibit's notes and maps it to its valuation approach
+ */
+function describeExhibit(workbook: WorkbookData, sheetName: string): ExhibitData {
+  return {
+    sheetName,
+    data: [], // Don't keep full data for memory efficiency
+    notes: findNotesInSheet(workbook, sheetName),
+    approach: classifyExhibitApproach(sheetName, getSheetData(workbook, sheetName, UNIT_CAPTION_ROWS)),
+  };
 }
 
 /**
  * Extracts summary data from Summary sheet
  */
-export function extractSummaryData(workbook: WorkbookData): SummaryData | null {
+export function extractSummaryData(workbook: WorkbookData, provenance: ProvenanceMap = {}): SummaryData | null {
   const summarySheetNames = ['Summary', 'SUMMARY', 'Valuation Summary', 'Conclusion'];
   let summarySheet: string | null = null;
 
@@ -351,6 +525,9 @@ export function extractSummaryData(workbook: WorkbookData): SummaryData | null {
   const approaches: ApproachData[] = [];
   let concludedValue: number | null = null;
 
+  // Values must exceed $1,000 (and 1 in the sheet's units, so weights aren't taken as values)
+  const minValue = Math.max(toSheetUnits(1000, getSheetUnits(workbook, summarySheet)), 1);
+
   // Common approach names to look for
   const approachPatterns = [
     { pattern: /guideline.*public.*compan|gpc/i, name: 'Guideline Public Company' },
@@ -375,20 +552,35 @@ export function extractSummaryData(workbook: WorkbookData): SummaryData | null {
             // Look for value and weight in adjacent cells
             let indicatedValue: number | null = null;
             let weight: number | null = null;
+            let valueCol = -1;
+            let weightCol = -1;
 
             for (let searchCol = col + 1; searchCol < Math.min(col + 5, rowData.length); searchCol++) {
               const adjacentCell = rowData[searchCol];
               if (typeof adjacentCell === 'number') {
-                if (indicatedValue === null && adjacentCell > 1000) {
+                if (indicatedValue === null && adjacentCell > minValue) {
                   indicatedValue = adjacentCell;
+                  valueCol = searchCol;
                 } else if (weight === null && adjacentCell >= 0 && adjacentCell <= 1) {
                   weight = adjacentCell;
+                  weightCol = searchCol;
                 }
               }
             }
 
             // Avoid duplicates
             if (!approaches.find(a => a.name === name)) {
+              const prefix = `summary.approaches[${approaches.length}]`;
+              if (valueCol >= 0) {
+                recordProvenance(provenance, `${prefix}.indicatedValue`, {
+                  sheet: summarySheet, row, col: valueCol, label: cell, rule: 'rowScan',
+                });
+              }
+              if (weightCol >= 0) {
+                recordProvenance(provenance, `${prefix}.weight`, {
+                  sheet: summarySheet, row, col: weightCol, label: cell, rule: 'rowScan',
+                });
+              }
               approaches.push({ name, indicatedValue, weight });
             }
           }
@@ -398,8 +590,11 @@ export function extractSummaryData(workbook: WorkbookData): SummaryData | null {
         if (/concluded.*value|conclusion|final.*value|enterprise.*value/i.test(cell)) {
           for (let searchCol = col + 1; searchCol < Math.min(col + 5, rowData.length); searchCol++) {
             const adjacentCell = rowData[searchCol];
-            if (typeof adjacentCell === 'number' && adjacentCell > 1000) {
+            if (typeof adjacentCell === 'number' && adjacentCell > minValue) {
               concludedValue = adjacentCell;
+              recordProvenance(provenance, 'concludedValue', {
+                sheet: summarySheet, row, col: searchCol, label: cell, rule: 'rowScan',
+              });
               break;
             }
           }
@@ -418,7 +613,7 @@ export function extractSummaryData(workbook: WorkbookData): SummaryData | null {
  * Extracts DLOM (Discount for Lack of Marketability) from exhibits
  * Only scans sheets likely to contain DLOM to save memory
  */
-export function extractDLOM(workbook: WorkbookData): number | null {
+export function extractDLOM(workbook: WorkbookData, provenance: ProvenanceMap = {}): number | null {
   const sheets = getSheetNames(workbook);
   
   // Only check sheets likely to contain DLOM
@@ -429,14 +624,11 @@ export function extractDLOM(workbook: WorkbookData): number | null {
 
   for (const sheetName of relevantSheets) {
     const data = getSheetData(workbook, sheetName);
-
-    // Limit rows scanned to save memory
-    const maxRows = Math.min(100, data.length);
     
-    for (let row = 0; row < maxRows; row++) {
+    for (let row = 0; row < data.length; row++) {
       const rowData = data[row] || [];
       
-      for (let col = 0; col < Math.min(20, rowData.length); col++) {
+      for (let col = 0; col < rowData.length; col++) {
         const cell = rowData[col];
         
         if (typeof cell === 'string' && /dlom|discount.*lack.*marketability/i.test(cell)) {
@@ -445,6 +637,11 @@ export function extractDLOM(workbook: WorkbookData): number | null {
             const adjacentCell = rowData[searchCol];
             if (typeof adjacentCell === 'number') {
               // DLOM is typically between 0% and 50%
+              if (adjacentCell > 0 && adjacentCell <= 50) {
+                recordProvenance(provenance, 'dlom', {
+                  sheet: sheetName, row, col: searchCol, label: cell, rule: 'rowScan',
+                });
+              }
               if (adjacentCell > 0 && adjacentCell <= 0.5) {
                 return adjacentCell;
               } else if (adjacentCell > 0 && adjacentCell <= 50) {
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import { parsePeriodLabel, readProjectionTable, applyGrowthRates } from "./projections";
+import { createEmptyIncomeApproachData } from "./detailedExtractor";
+import { buildIncomeApproachPrompt } from "@/lib/ai/prompts/valuationNarrative";
+import type { DetailedModelData } from "@/types/excel";
+
+// A projection sheet with an undated LTM column between the last actual and the first estimate
+const LTM_SHEET: unknown[][] = [
+  ["Projections", null, null, null, null],
+  [null, "2024A", "LTM", "2025E", "2026E"],
+  ["Revenue", 100, 110, 120, 150],
+  ["EBITDA", 20, 22, 25, 33],
+];
+
+describe("parsePeriodLabel", () => {
+  it("reads fiscal-year labels", () => {
+    expect(parsePeriodLabel("2025E")).toEqual({ year: 2025, label: "2025E", period: "projected" });
+    expect(parsePeriodLabel("FY24A")).toEqual({ year: 2024, label: "FY24A", period: "historical" });
+    expect(parsePeriodLabel(2026)).toEqual({ year: 2026, label: "2026", period: "projected" });
+  });
+
+  it("gives LTM periods no fiscal year", () => {
+    expect(parsePeriodLabel("LTM")).toEqual({ year: null, label: "LTM", period: "ltm" });
+    expect(parsePeriodLabel("LTM Sep-2024")).toEqual({ year: null, label: "LTM Sep-2024", period: "ltm" });
+  });
+
+  it("ignores plain numbers that are not years", () => {
+    expect(parsePeriodLabel(25)).toBeNull();
+    expect(parsePeriodLabel("25")).toBeNull();
+  });
+});
+
+describe("readProjectionTable", () => {
+  it("keeps an undated LTM column apart from the fiscal year before it", () => {
+    const table = readProjectionTable(LTM_SHEET, "DCF");
+    const revenue = table?.metrics.revenue ?? [];
+
+    expect(revenue.map(p => [p.label, p.year, p.period])).toEqual([
+      ["2024A", 2024, "historical"],
+      ["LTM", null, "ltm"],
+      ["2025E", 2025, "projected"],
+      ["2026E", 2026, "projected"],
+    ]);
+  });
+
+  it("measures growth from the prior fiscal year, not the LTM column", () => {
+    const revenue = readProjectionTable(LTM_SHEET, "DCF")?.metrics.revenue ?? [];
+
+    expect(revenue[1].growthRate).toBeUndefined();
+    expect(revenue[2].growthRate).toBeCloseTo(0.2);
+    expect(revenue[3].growthRate).toBeCloseTo(0.25);
+  });
+});
+
+describe("applyGrowthRates", () => {
+  it("skips LTM periods in the growth chain", () => {
+    const result = applyGrowthRates([
+      { year: 2024, value: 100, period: "historical" },
+      { year: null, value: 130, label: "LTM", period: "ltm" },
+      { year: 2025, value: 110, period: "projected" },
+    ]);
+
+    expect(result.map(p => p.growthRate)).toEqual([undefined, undefined, expect.closeTo(0.1)]);
+  });
+});
+
+describe("formatProjections via buildIncomeApproachPrompt", () => {
+  it("lists the LTM period alongside the fiscal year it overlaps", () => {
+    const table = readProjectionTable(LTM_SHEET, "DCF");
+    const incomeApproachData = {
+      ...createEmptyIncomeApproachData(),
+      revenueProjections: table?.metrics.revenue ?? [],
+      ebitdaProjections: table?.metrics.ebitda ?? [],
+    };
+
+    const prompt = buildIncomeApproachPrompt(
+      { name: "Discounted Cash Flow", indicatedValue: 1000, weight: 1 },
+      { detailedData: { incomeApproachData } as DetailedModelData, companyName: "Acme", valuationDate: "2025-03-31", reportType: "FIFTY_NINE_SIXTY" }
+    );
+
+    expect(prompt).toContain("- 2024A - Actual: Revenue");
+    expect(prompt).toContain("- LTM: Revenue");
+    expect(prompt).toContain("- 2025E: Revenue");
+    expect(prompt).toMatch(/- 2025E: Revenue [^\n]*\(20\.0% growth\)/);
+  });
+});
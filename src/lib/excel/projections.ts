@@ -0,0 +1,191 @@
+/**
+ * Projection Table Reader
+ * Locates the year header row of a projection table, parses fiscal-year labels
+ * (2025, FY25, 2025E, LTM) and reads each metric row by period. LTM columns are
+ * kept by their label rather than a fiscal year, and stay out of the growth chain
+ */
+
+import type { ProvenanceMap, YearlyProjection, ProjectionPeriodType } from '@/types/excel';
+import { recordProvenance } from './provenance';
+
+export type ProjectionMetric = 'revenue' | 'grossProfit' | 'ebitda' | 'capex' | 'nwcChange' | 'freeCashFlow';
+
+export interface ProjectionTable {
+  sheet: string;
+  headerRow: number;
+  metrics: Partial<Record<ProjectionMetric, YearlyProjection[]>>;
+}
+
+interface PeriodColumn {
+  col: number;
+  year: number | null;
+  label: string;
+  period: ProjectionPeriodType;
+}
+
+/**
+ * Metric row labels, checked in order
+ */
+const METRIC_PATTERNS: { metric: ProjectionMetric; pattern: RegExp }[] = [
+  { metric: 'grossProfit', pattern: /gross\s*profit/i },
+  { metric: 'ebitda', pattern: /ebitda/i },
+  { metric: 'capex', pattern: /cap(?:ital)?\s*ex|capital\s*expenditure/i },
+  { metric: 'nwcChange', pattern: /(?:change|increase|decrease|inc\.?|chg|investment)\b.*(?:working\s*capital|nwc)|(?:working\s*capital|nwc).*(?:change|investment|inc|dec)/i },
+  { metric: 'freeCashFlow', pattern: /free\s*cash\s*flow|\bfcf\b|(?:unlevered|debt[-\s]*free|net)\s*cash\s*flow/i },
+  { metric: 'revenue', pattern: /^\s*(?:total\s*|net\s*)?(?:revenues?|sales)\b/i },
+];
+
+// Rows that mention a metric but are not the metric itself
+const EXCLUDED_ROW = /margin|%|growth|per\s*share|present\s*value|\bpv\b|discount\s*(?:factor|period)|as\s*a\s*percent/i;
+
+const MAX_ROWS_TO_SCAN = 300;
+
+/**
+ * Parse a header cell as a fiscal period
+ * Handles 2025, "2025E", "FY25", "FY 2025A", "CY2026P", "LTM", "TTM" and date cells
+ * LTM periods have no fiscal year, even when the label carries a date
+ */
+export function parsePeriodLabel(cell: unknown): { year: number | null; label: string; period: ProjectionPeriodType } | null {
+  if (typeof cell === 'number') {
+    if (Number.isInteger(cell) && cell >= 1990 && cell <= 2100) {
+      return { year: cell, label: String(cell), period: 'projected' };
+    }
+    return null;
+  }
+
+  if (cell instanceof Date) {
+    return { year: cell.getFullYear(), label: `FY${cell.getFullYear()}`, period: 'projected' };
+  }
+
+  if (typeof cell !== 'string') return null;
+
+  const label = cell.trim();
+  if (/^(?:ltm|ttm)\b/i.test(label)) {
+    return { year: null, label, period: 'ltm' };
+  }
+
+  const match = label.match(/^(?:fy|cy|fye)?\s*'?((?:19|20)?\d{2})\s*([aepbf])?(?:\s*\((?:actual|estimated|projected|budget|forecast)\))?$/i);
+  if (!match) return null;
+
+  // Two-digit years only count with an FY/CY prefix or an A/E suffix, so plain numbers don't match
+  if (match[1].length === 2 && !/^(?:fy|cy|fye)|'/i.test(label) && !match[2]) return null;
+
+  const year = match[1].length === 2 ? 2000 + parseInt(match[1]) : parseInt(match[1]);
+  if (year < 1990 || year > 2100) return null;
+
+  const isActual = match[2]?.toLowerCase() === 'a' || /actual/i.test(label);
+  return { year, label, period: isActual ? 'historical' : 'projected' };
+}
+
+/**
+ * Find the row with the most fiscal period headers (at least three, two of them fiscal years)
+ */
+function findYearHeaderRow(data: unknown[][]): { row: number; columns: PeriodColumn[] } | null {
+  let best: { row: number; columns: PeriodColumn[] } | null = null;
+
+  for (let row = 0; row < Math.min(MAX_ROWS_TO_SCAN, data.length); row++) {
+    const rowData = data[row] || [];
+    const parsed = rowData
+      .map((cell, col) => ({ col, period: parsePeriodLabel(cell) }))
+      .filter((p): p is { col: number; period: NonNullable<ReturnType<typeof parsePeriodLabel>> } => p.period !== null);
+
+    if (parsed.length < 3 || (best && parsed.length <= best.columns.length)) continue;
+
+    const columns: PeriodColumn[] = parsed.map(p => ({ col: p.col, ...p.period }));
+
+    // Fiscal years should run left to right; LTM columns sit wherever the model puts them
+    const years = columns.flatMap(c => (c.year !== null ? [c.year] : []));
+    const ascending = years.every((year, i) => i === 0 || year >= years[i - 1]);
+    if (years.length >= 2 && ascending) {
+      best = { row, columns };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Fill growth rates from the prior fiscal year's value
+ * LTM periods overlap the fiscal years around them, so they get no growth rate
+ * and are skipped when finding the prior year
+ */
+export function applyGrowthRates(projections: YearlyProjection[]): YearlyProjection[] {
+  let prev: YearlyProjection | undefined;
+  return projections.map(p => {
+    if (p.period === 'ltm') return p;
+    const base = prev;
+    prev = p;
+    if (!base || base.value <= 0) return p;
+    return { ...p, growthRate: p.value / base.value - 1 };
+  });
+}
+
+/**
+ * Read a projection table from sheet data
+ * Returns null when no year header row or metric rows are found
+ */
+export function readProjectionTable(
+  data: unknown[][],
+  sheet: string,
+  provenance?: ProvenanceMap,
+  fieldPrefix = 'incomeApproachData'
+): ProjectionTable | null {
+  const header = findYearHeaderRow(data);
+  if (!header) return null;
+
+  const firstPeriodCol = header.columns[0].col;
+  const metrics: ProjectionTable['metrics'] = {};
+  const rows: Partial<Record<ProjectionMetric, number>> = {};
+
+  for (let row = header.row + 1; row < Math.min(header.row + 80, data.length); row++) {
+    const rowData = data[row] || [];
+    const labelCol = rowData.findIndex((c, col) => col < firstPeriodCol && typeof c === 'string' && c.trim().length > 0);
+    if (labelCol < 0) continue;
+
+    const label = (rowData[labelCol] as string).trim();
+    if (EXCLUDED_ROW.test(label)) continue;
+
+    const match = METRIC_PATTERNS.find(m => m.pattern.test(label));
+    if (!match || metrics[match.metric]) continue;
+
+    const projections: YearlyProjection[] = [];
+    for (const column of header.columns) {
+      const value = rowData[column.col];
+      if (typeof value !== 'number' || !isFinite(value)) continue;
+      projections.push({ year: column.year, value, label: column.label, period: column.period });
+    }
+
+    if (projections.length >= 2) {
+      metrics[match.metric] = applyGrowthRates(projections);
+      rows[match.metric] = row;
+    }
+  }
+
+  if (Object.keys(metrics).length === 0) return null;
+
+  if (provenance) {
+    for (const [metric, row] of Object.entries(rows) as [ProjectionMetric, number][]) {
+      const label = String(data[row].find(c => typeof c === 'string'));
+      const field = `${fieldPrefix}.${PROJECTION_FIELDS[metric]}`;
+      metrics[metric]!.forEach((p, i) => {
+        const column = header.columns.find(c => c.label === p.label && c.period === p.period);
+        if (!column) return;
+        recordProvenance(provenance, `${field}[${i}]`, { sheet, row, col: column.col, label, rule: 'tableColumn' });
+      });
+    }
+  }
+
+  return { sheet, headerRow: header.row, metrics };
+}
+
+/**
+ * IncomeApproachData field for each projection metric
+ */
+export const PROJECTION_FIELDS = {
+  revenue: 'revenueProjections',
+  grossProfit: 'grossProfitProjections',
+  ebitda: 'ebitdaProjections',
+  capex: 'capexProjections',
+  nwcChange: 'nwcChangeProjections',
+  freeCashFlow: 'cashFlowProjections',
+} as const satisfies Record<ProjectionMetric, string>;
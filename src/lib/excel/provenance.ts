@@ -0,0 +1,94 @@
+/**
+ * Value Provenance
+ * Records and describes the workbook cell each extracted value came from
+ * Kept free of xlsx imports so client components can format provenance
+ */
+
+import type { ExtractionRule, ParsedModel, ProvenanceMap, ValueProvenance } from '@/types/excel';
+import { MAPPABLE_FIELDS } from '@/types/mapping';
+import type { MappableField } from '@/types/mapping';
+
+export const EXTRACTION_RULE_LABELS: Record<ExtractionRule, string> = {
+  fixedCell: 'template cell',
+  labelSearch: 'label search',
+  rowScan: 'row scan',
+  tableColumn: 'table column',
+  mappingProfile: 'mapping profile',
+  derived: 'derived',
+};
+
+/**
+ * Converts 0-based row/col indices to an A1-style address
+ */
+export function toCellAddress(row: number, col: number): string {
+  let letters = '';
+  let n = col + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letters = String.fromCharCode(65 + rem) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return `${letters}${row + 1}`;
+}
+
+/**
+ * Records the source of an extracted value
+ */
+export function recordProvenance(
+  provenance: ProvenanceMap,
+  field: string,
+  source: { sheet: string; row: number; col: number; label?: string | null; rule: ExtractionRule }
+): void {
+  provenance[field] = {
+    sheet: source.sheet,
+    cell: toCellAddress(source.row, source.col),
+    label: typeof source.label === 'string' ? source.label.trim() : null,
+    rule: source.rule,
+  };
+}
+
+/**
+ * Formats a source as a sheet-qualified reference, e.g. 'Valuation Summary'!D14
+ */
+export function formatCellReference(source: ValueProvenance): string {
+  const sheet = /^[A-Za-z0-9_]+$/.test(source.sheet) ? source.sheet : `'${source.sheet}'`;
+  return `${sheet}!${source.cell}`;
+}
+
+/**
+ * Describes a source for reviewers, e.g. Summary!D14 ("Concluded Value", label search)
+ */
+export function describeProvenance(source: ValueProvenance): string {
+  const details = [
+    source.label ? `"${source.label}"` : null,
+    EXTRACTION_RULE_LABELS[source.rule],
+  ].filter(Boolean);
+  return `${formatCellReference(source)} (${details.join(', ')})`;
+}
+
+/**
+ * Human-readable name for a provenance field path
+ */
+export function formatProvenanceField(field: string): string {
+  if (field in MAPPABLE_FIELDS) {
+    return MAPPABLE_FIELDS[field as MappableField].label;
+  }
+
+  return field
+    .replace(/\[(\d+)\]/g, (_, i) => ` #${Number(i) + 1}`)
+    .split('.')
+    .map(part => part
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/^./, c => c.toUpperCase()))
+    .join(' › ');
+}
+
+/**
+ * Combines top-level and detailed provenance for a parsed model
+ */
+export function collectProvenance(parsed: ParsedModel): ProvenanceMap {
+  return {
+    ...(parsed.provenance || {}),
+    ...(parsed.detailedData?.provenance || {}),
+  };
+}
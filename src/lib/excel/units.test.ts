@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { detectSheetUnits, resolveModelCurrency, normalizeModelUnits, toSheetUnits } from "./units";
+import { createEmptyIncomeApproachData, createEmptyWeightingData } from "./detailedExtractor";
+import type { DetailedModelData, ProvenanceMap, SheetUnits, SummaryData } from "@/types/excel";
+
+function units(sheet: string, scale: number, currency: string | null = null): SheetUnits {
+  return { sheet, scale, currency, caption: null };
+}
+
+function source(sheet: string) {
+  return { sheet, cell: "B2", label: null, rule: "labelSearch" as const };
+}
+
+describe("detectSheetUnits", () => {
+  it("reads the scale and currency from the units caption", () => {
+    expect(detectSheetUnits([["Acme, Inc."], ["($ in 000s)"]], "DCF")).toEqual({
+      sheet: "DCF",
+      scale: 1000,
+      currency: "USD",
+      caption: "($ in 000s)",
+    });
+    expect(detectSheetUnits([["EUR millions"]], "GPC")).toMatchObject({ scale: 1000000, currency: "EUR" });
+    expect(detectSheetUnits([["Figures in C$ thousands"]], "GTM")).toMatchObject({ scale: 1000, currency: "CAD" });
+    expect(detectSheetUnits([["Revenue (£m)"]], "Inputs")).toMatchObject({ scale: 1000000, currency: "GBP" });
+  });
+
+  it("takes a currency code from any title cell", () => {
+    expect(detectSheetUnits([["Valuation Summary"], ["Currency", "JPY"]], "Summary")).toMatchObject({
+      scale: 1,
+      currency: "JPY",
+      caption: null,
+    });
+  });
+
+  it("ignores a bare currency symbol outside a units caption", () => {
+    expect(detectSheetUnits([["Selected Multiple"], ["$"]], "GPC")).toMatchObject({ scale: 1, currency: null });
+  });
+
+  it("ignores captions below the title block", () => {
+    const data: unknown[][] = Array.from({ length: 20 }, () => ["Row"]);
+    data[18] = ["($ in millions)"];
+    expect(detectSheetUnits(data, "Notes")).toMatchObject({ scale: 1, caption: null });
+  });
+});
+
+describe("toSheetUnits", () => {
+  it("states a whole-unit amount in the sheet's units", () => {
+    expect(toSheetUnits(5000000, units("DCF", 1000))).toBe(5000);
+    expect(toSheetUnits(5000000, null)).toBe(5000000);
+  });
+});
+
+describe("resolveModelCurrency", () => {
+  it("picks the most common currency and lists conflicts", () => {
+    expect(resolveModelCurrency([units("Summary", 1, "EUR"), units("DCF", 1000, "EUR"), units("GPC", 1, "USD")])).toEqual({
+      currency: "EUR",
+      conflicts: ["EUR (Summary, DCF)", "USD (GPC)"],
+    });
+  });
+
+  it("defaults to USD when no sheet states a currency", () => {
+    expect(resolveModelCurrency([units("Summary", 1)])).toEqual({ currency: "USD", conflicts: [] });
+  });
+});
+
+describe("normalizeModelUnits", () => {
+  it("scales amounts by the units of the sheet they came from", () => {
+    const summary: SummaryData = {
+      approaches: [{ name: "Discounted Cash Flow", indicatedValue: 12500, weight: 1 }],
+      concludedValue: 12500,
+    };
+    const detailedData = {
+      incomeApproachData: {
+        ...createEmptyIncomeApproachData(),
+        revenueProjections: [{ year: 2025, value: 4000 }, { year: 2026, value: 5000 }],
+      },
+      weightingData: {
+        ...createEmptyWeightingData(),
+        approaches: [{ name: "Discounted Cash Flow", indicatedValue: 12500, weight: 1, weightedValue: 12500 }],
+        perShareValue: 1.25,
+      },
+      provenance: {
+        "incomeApproachData.revenueProjections[0]": source("DCF"),
+        "incomeApproachData.revenueProjections[1]": source("DCF"),
+        "weightingData.approaches[0].indicatedValue": source("Summary"),
+        "weightingData.perShareValue": source("Summary"),
+      },
+    } as unknown as DetailedModelData;
+    const provenance: ProvenanceMap = { concludedValue: source("Summary") };
+
+    const normalized = normalizeModelUnits({ summary, detailedData }, provenance, [units("Summary", 1000), units("DCF", 1000000)]);
+
+    expect(normalized.sort()).toEqual([
+      "concludedValue",
+      "incomeApproachData.revenueProjections[0]",
+      "incomeApproachData.revenueProjections[1]",
+      "weightingData.approaches[0].indicatedValue",
+    ]);
+    expect(summary.concludedValue).toBe(12500000);
+    expect(detailedData.incomeApproachData?.revenueProjections.map(p => p.value)).toEqual([4000000000, 5000000000]);
+    expect(detailedData.weightingData?.approaches[0]).toMatchObject({ indicatedValue: 12500000, weightedValue: 12500000 });
+    // Per-share prices are stated in whole units whatever the sheet caption says
+    expect(detailedData.weightingData?.perShareValue).toBe(1.25);
+  });
+
+  it("leaves a model in whole units untouched", () => {
+    const summary: SummaryData = { approaches: [], concludedValue: 12500 };
+    expect(normalizeModelUnits({ summary }, { concludedValue: source("Summary") }, [units("Summary", 1)])).toEqual([]);
+    expect(summary.concludedValue).toBe(12500);
+  });
+});
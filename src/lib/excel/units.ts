@@ -0,0 +1,193 @@
+/**
+ * Units and Currency Detection
+ * Reads unit captions ("$ in 000s", "USD millions") and currency codes from the top of
+ * each sheet, and normalizes extracted amounts to whole currency units
+ */
+
+import type {
+  DetailedModelData,
+  ProvenanceMap,
+  SheetUnits,
+  SummaryData,
+} from '@/types/excel';
+import { DEFAULT_CURRENCY } from '@/lib/utils/currency';
+
+// Captions sit in the title block above the first table
+export const UNIT_CAPTION_ROWS = 15;
+const MAX_CAPTION_LENGTH = 80;
+
+const CURRENCY_CODE_LIST = 'USD|EUR|GBP|CAD|AUD|NZD|JPY|CHF|CNY|RMB|INR|SEK|NOK|DKK|SGD|HKD|ILS|BRL|MXN|ZAR|KRW';
+const CURRENCY_CODES = new RegExp(`\\b(${CURRENCY_CODE_LIST})\\b`);
+
+// Abbreviations like "m" or "k" only count directly after a currency, e.g. "$m", "EUR k"
+const CURRENCY_PREFIX = `(?:[$€£¥]|\\b(?:${CURRENCY_CODE_LIST}))\\s*`;
+
+const SCALE_PATTERNS: { scale: number; pattern: RegExp }[] = [
+  { scale: 1000000000, pattern: new RegExp(`\\bbillions\\b|\\bin\\s+billions?\\b|${CURRENCY_PREFIX}bn?\\b|\\(\\s*bn\\s*\\)`, 'i') },
+  { scale: 1000000, pattern: new RegExp(`\\bmillions\\b|\\bin\\s+millions?\\b|${CURRENCY_PREFIX}(?:mm|mn|m)\\b|\\(\\s*(?:mm|m)\\s*\\)`, 'i') },
+  { scale: 1000, pattern: new RegExp(`\\bthousands\\b|\\bin\\s+thousands?\\b|(?:^|[\\s($€£¥'])000'?s?\\b|${CURRENCY_PREFIX}k\\b|\\(\\s*k\\s*\\)`, 'i') },
+];
+
+// Checked in order so C$ / A$ win over a bare $
+const CURRENCY_SYMBOLS: { currency: string; pattern: RegExp }[] = [
+  { currency: 'CAD', pattern: /\bC(?:A|DN)?\$/ },
+  { currency: 'AUD', pattern: /\bA(?:U)?\$/ },
+  { currency: 'EUR', pattern: /€|\beuros?\b/i },
+  { currency: 'GBP', pattern: /£|\bsterling\b/i },
+  { currency: 'JPY', pattern: /¥|\byen\b/i },
+  { currency: 'INR', pattern: /₹/ },
+  { currency: 'USD', pattern: /\$/ },
+];
+
+/**
+ * Amount fields stated in the units of their source sheet
+ * Per-share prices, share counts, rates and multiples are not scaled
+ */
+const AMOUNT_FIELDS = new Set([
+  'ltmRevenue', 'currentYearRevenue', 'projectedRevenue', 'ltmEbitda', 'currentYearEbitda',
+  'grossProfit', 'netIncome', 'totalAssets', 'totalEquity', 'totalDebt', 'cash',
+  'enterpriseValue', 'equityValue', 'concludedEnterpriseValue', 'concludedEquityValue',
+  'revenue', 'ebitda', 'marketCap', 'dealValue', 'targetRevenue', 'targetEbitda',
+  'indicatedValue', 'concludedValue', 'valueAfterDlom', 'transactionAmount',
+  'preMoneyValuation', 'postMoneyValuation', 'impliedEquityValue',
+  'presentValueCashFlows', 'terminalValue', 'presentValueTerminal',
+  'exitValue', 'amount', 'liquidationPreferenceAmount',
+]);
+
+// Series whose elements are { year, value } amounts
+const AMOUNT_SERIES = /Projections$/;
+
+/**
+ * Detect the units and currency stated at the top of a sheet
+ * Sheets without a caption are taken to be in whole units
+ */
+export function detectSheetUnits(data: unknown[][], sheet: string): SheetUnits {
+  const units: SheetUnits = { sheet, scale: 1, currency: null, caption: null };
+
+  for (let row = 0; row < Math.min(UNIT_CAPTION_ROWS, data.length); row++) {
+    for (const cell of data[row] || []) {
+      if (typeof cell !== 'string' || cell.length > MAX_CAPTION_LENGTH) continue;
+
+      const scale = units.caption === null ? SCALE_PATTERNS.find(s => s.pattern.test(cell)) : undefined;
+      if (scale) {
+        units.scale = scale.scale;
+        units.caption = cell.trim();
+      }
+
+      if (units.currency === null) {
+        const code = cell.match(CURRENCY_CODES)?.[1];
+        units.currency = code === 'RMB' ? 'CNY' : code ?? null;
+      }
+      // A bare symbol only counts on the units caption itself
+      if (units.currency === null && scale) {
+        units.currency = CURRENCY_SYMBOLS.find(c => c.pattern.test(cell))?.currency ?? null;
+      }
+    }
+  }
+
+  return units;
+}
+
+/**
+ * Convert a whole-unit amount to the units a sheet is stated in
+ * Used to keep magnitude thresholds meaningful on sheets in thousands or millions
+ */
+export function toSheetUnits(amount: number, units: SheetUnits | null): number {
+  return units ? amount / units.scale : amount;
+}
+
+/**
+ * Resolve the model's currency from the per-sheet detections
+ * The most common stated currency wins; conflicts are listed for review
+ */
+export function resolveModelCurrency(sheetUnits: SheetUnits[]): { currency: string; conflicts: string[] } {
+  const counts = new Map<string, string[]>();
+  for (const units of sheetUnits) {
+    if (!units.currency) continue;
+    counts.set(units.currency, [...(counts.get(units.currency) ?? []), units.sheet]);
+  }
+
+  const ranked = Array.from(counts.entries()).sort((a, b) => b[1].length - a[1].length);
+  if (ranked.length === 0) {
+    return { currency: DEFAULT_CURRENCY, conflicts: [] };
+  }
+
+  const conflicts = ranked.length > 1
+    ? ranked.map(([currency, sheets]) => `${currency} (${sheets.join(', ')})`)
+    : [];
+  return { currency: ranked[0][0], conflicts };
+}
+
+/**
+ * Scale extracted amounts to whole currency units using the sheet each value came from
+ * Values without a recorded source are left as extracted
+ * Returns the fields that were rescaled
+ */
+export function normalizeModelUnits(
+  model: { summary: SummaryData | null; detailedData?: DetailedModelData },
+  provenance: ProvenanceMap,
+  sheetUnits: SheetUnits[]
+): string[] {
+  const scales = new Map(sheetUnits.filter(u => u.scale !== 1).map(u => [u.sheet, u.scale]));
+  if (scales.size === 0) return [];
+
+  const root: Record<string, unknown> = { ...model.detailedData, summary: model.summary };
+  const normalized = new Set<string>();
+
+  for (const map of [provenance, model.detailedData?.provenance ?? {}]) {
+    for (const [field, source] of Object.entries(map)) {
+      const scale = scales.get(source.sheet);
+      if (!scale || normalized.has(field)) continue;
+
+      // The summary's concluded value is recorded at the top level
+      const path = field === 'concludedValue' ? 'summary.concludedValue' : field;
+      const target = resolveAmountTarget(root, path);
+      if (!target) continue;
+
+      const value = target.parent[target.key];
+      if (typeof value === 'number') {
+        target.parent[target.key] = value * scale;
+        normalized.add(field);
+      }
+    }
+  }
+
+  // Weighted values are computed from the indicated values, so follow their scale
+  for (const approach of model.detailedData?.weightingData?.approaches ?? []) {
+    approach.weightedValue = approach.indicatedValue * approach.weight;
+  }
+
+  return Array.from(normalized);
+}
+
+/**
+ * Resolve a provenance path (e.g. guidelinePublicCompanies[2].revenue) to the amount it names
+ * Returns null for paths that aren't amounts
+ */
+function resolveAmountTarget(
+  root: Record<string, unknown>,
+  path: string
+): { parent: Record<string, unknown>; key: string } | null {
+  const parts = path.split('.').flatMap(part => {
+    const match = part.match(/^(\w+)\[(\d+)\]$/);
+    return match ? [match[1], match[2]] : [part];
+  });
+
+  let parent: unknown = root;
+  for (const part of parts.slice(0, -1)) {
+    if (parent === null || typeof parent !== 'object') return null;
+    parent = (parent as Record<string, unknown>)[part];
+  }
+  if (parent === null || typeof parent !== 'object') return null;
+
+  const key = parts[parts.length - 1];
+  const container = parts[parts.length - 2];
+
+  // Projection series are recorded per element: incomeApproachData.revenueProjections[0]
+  if (/^\d+$/.test(key) && container && AMOUNT_SERIES.test(container)) {
+    const element = (parent as Record<string, unknown>)[key];
+    return element && typeof element === 'object' ? { parent: element as Record<string, unknown>, key: 'value' } : null;
+  }
+
+  return AMOUNT_FIELDS.has(key) ? { parent: parent as Record<string, unknown>, key } : null;
+}
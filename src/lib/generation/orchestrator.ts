@@ -6,19 +6,26 @@
 
 import prisma from "@/lib/db/prisma";
 import { researchCompany, researchIndustry, formatIndustryWithCitations } from "@/lib/research";
-import { generateAllNarratives } from "@/lib/narrative";
-import { generateWithPDF, isPdfFile } from "@/lib/ai/generateWithPDF";
 import {
-  VALUATION_SYSTEM_PROMPT,
-  GUIDELINE_PUBLIC_COMPANY_PROMPT,
-  GUIDELINE_TRANSACTION_PROMPT,
-  INCOME_APPROACH_PROMPT,
-  CONCLUSION_PROMPT,
-  COMPANY_OVERVIEW_PROMPT,
-  INDUSTRY_OUTLOOK_PROMPT,
-} from "@/lib/ai/prompts/approachPrompts";
+  generateAllNarratives,
+  shouldGenerateNarrative,
+  buildBacksolveMethodology,
+  buildDLOMMethodology,
+  generateRollforwardNarrative,
+} from "@/lib/narrative";
+import { generateWithPDF, analyzePdfSections } from "@/lib/ai/generateWithPDF";
+import { withUsageContext } from "@/lib/ai/usage";
+import { isPdfFile, classifyPdfPages, selectPdfPages } from "@/lib/pdf";
+import type { PdfPageClass } from "@/lib/pdf";
+import { collectProvenance } from "@/lib/excel/provenance";
+import { validateModelIntegrity } from "@/lib/excel/integrity";
+import { createModelSnapshot, diffModelSnapshots } from "@/lib/excel/modelDiff";
+import { findSourceConflicts, supplementFromExhibits } from "@/lib/excel/combinedSources";
+import { saveValuationSnapshot, loadPriorSnapshot } from "@/lib/utils/valuationSnapshot";
+import { loadStyleGuide, formatStyleReference } from "@/lib/style";
+import { VALUATION_SYSTEM_PROMPT, PDF_SECTION_PROMPTS } from "@/lib/ai/prompts/approachPrompts";
 import type { Engagement } from "@prisma/client";
-import type { ParsedModel } from "@/types/excel";
+import type { ParsedModel, ExhibitApproach } from "@/types/excel";
 import type {
   ReportContent,
   SectionContent,
@@ -29,6 +36,8 @@ import type {
 } from "@/types/generation";
 import type { CompanyResearch, Citation } from "@/types/research";
 import type { ApproachNarrative } from "@/types/narrative";
+import type { PdfAnalysisResult, PdfSectionKey } from "@/types/ai";
+import type { StyleGuide } from "@/types/style";
 import { existsSync, readFileSync } from "fs";
 import mammoth from "mammoth";
 
@@ -40,15 +49,54 @@ const DEFAULT_OPTIONS: GenerationOptions = {
   includeCompanyResearch: true,
   maxRetries: 2,
   skipFailedSections: true,
+  singlePassPdf: true,
+};
+
+/**
+ * Approaches selected on the engagement (stored as JSON)
+ */
+interface SelectedApproaches {
+  guidelinePublicCompany?: boolean;
+  guidelineTransaction?: boolean;
+  incomeApproach?: boolean;
+  pwerm?: boolean;
+}
+
+/**
+ * A PDF engagement's document, its page classification and the single-pass analysis
+ */
+interface PdfSource {
+  filePath: string;
+  // null when the pages couldn't be classified; prompts then get the whole document
+  pageClasses: PdfPageClass[] | null;
+  analysis: PdfAnalysisResult | null;
+  // Style references quoted in the section prompts
+  styleGuide: StyleGuide;
+}
+
+/**
+ * Exhibit approaches whose pages each PDF section reads, alongside the valuation summary
+ * Company and industry sections draw on every exhibit, so they get the whole document
+ */
+const PDF_SECTION_EXHIBITS: Record<PdfSectionKey, ExhibitApproach[] | null> = {
+  companyOverview: null,
+  industryOutlook: null,
+  guidelinePublicCompany: ["gpc"],
+  guidelineTransaction: ["gtm"],
+  incomeApproach: ["income"],
+  conclusion: ["conclusion", "dlom"],
 };
 
 /**
  * Generate all report content
+ * With `exhibitsModel` (the engagement's exhibits PDF, parsed alongside an Excel model),
+ * numbers come from the Excel model and the PDF supplies narrative context
  */
 export async function generateReportContent(
   engagement: Engagement,
   parsedModel: ParsedModel,
-  options: GenerationOptions = {}
+  options: GenerationOptions = {},
+  exhibitsModel: ParsedModel | null = null
 ): Promise<ReportContent> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
   const startTime = Date.now();
@@ -57,6 +105,19 @@ export async function generateReportContent(
 
   console.log(`Starting report content generation for engagement ${engagement.id}`);
 
+  // Combined mode: flag figures the model and exhibits disagree on, then fill in
+  // comparable descriptions and notes the workbook lacks
+  if (exhibitsModel) {
+    for (const conflict of findSourceConflicts(parsedModel, exhibitsModel)) {
+      flags.push({
+        section: "Model vs Exhibits",
+        message: conflict.message,
+        type: "review",
+      });
+    }
+    parsedModel = supplementFromExhibits(parsedModel, exhibitsModel);
+  }
+
   // Extract basic info
   const companyName = parsedModel.companyName || engagement.companyName || "Subject Company";
   const valuationDate = parsedModel.valuationDate || engagement.valuationDate || new Date();
@@ -67,25 +128,89 @@ export async function generateReportContent(
   let economicOutlook: SectionContent = createEmptySection("Economic outlook not loaded");
   let industryCitations: Citation[] = [];
 
-  // Check if we have a PDF file - if so, use PDF analysis for company and industry
+  // Flag model arithmetic that doesn't foot before any narrative quotes it
+  const integrityChecks = parsedModel.integrityChecks ?? validateModelIntegrity(parsedModel);
+  for (const result of integrityChecks) {
+    if (result.status === "failed") {
+      flags.push({
+        section: "Model Integrity",
+        message: result.message,
+        type: "error",
+        check: result.check,
+      });
+    }
+  }
+
   const modelFilePath = engagement.modelFilePath;
-  const hasPdfFile = modelFilePath && isPdfFile(modelFilePath);
+  const modelIsPdf = Boolean(modelFilePath && isPdfFile(modelFilePath));
+  // The PDF prompts read: the model itself, or the exhibits uploaded alongside an Excel model
+  const pdfFilePath = modelIsPdf ? modelFilePath : engagement.exhibitsFilePath;
 
   // 1. Load required resources
   console.log("Loading resources...");
   const economicOutlookDoc = await loadEconomicOutlook(valuationDate);
 
+  // Passages from the firm's example reports, quoted in prompts as style references
+  let styleGuide: StyleGuide = {};
+  try {
+    styleGuide = await loadStyleGuide(engagement.reportType);
+  } catch (error) {
+    console.warn("Could not load style examples:", error);
+    warnings.push("Style examples could not be loaded - sections written without style references");
+  }
+
+  // Parse selectedApproaches from engagement (stored as JSON)
+  const selectedApproaches = engagement.selectedApproaches as SelectedApproaches | null;
+
+  // Check if we have a PDF file - if so, use PDF analysis for company and industry,
+  // and for the narratives unless an Excel model supplies the numbers
+  let pdfSource: PdfSource | null = null;
+  if (pdfFilePath) {
+    pdfSource = { filePath: pdfFilePath, pageClasses: null, analysis: null, styleGuide };
+
+    // Tag pages by exhibit so each prompt is sent only the pages it discusses
+    try {
+      pdfSource.pageClasses = await classifyPdfPages(pdfFilePath);
+    } catch (error) {
+      console.warn("Could not classify PDF pages - sending the whole document:", error);
+    }
+
+    // Send the PDF once for every section it writes; sections missing from the
+    // analysis (or all of them, if it fails) are generated with their own call
+    if (opts.singlePassPdf) {
+      const sections = selectPdfSections(opts, selectedApproaches, modelIsPdf);
+      const pages = pagesForSections(pdfSource.pageClasses, sections);
+      try {
+        pdfSource.analysis = await withUsageContext({ section: "pdfAnalysis" }, () =>
+          analyzePdfSections(
+            pdfFilePath,
+            sections,
+            VALUATION_SYSTEM_PROMPT,
+            engagement.qualitativeContext || undefined,
+            pages,
+            styleGuide
+          )
+        );
+        if (pdfSource.analysis.failed.length > 0) {
+          warnings.push(`Single-pass PDF analysis fell back to separate calls for: ${pdfSource.analysis.failed.join(", ")}`);
+        }
+      } catch (error) {
+        console.error("Single-pass PDF analysis failed:", error);
+        warnings.push("Single-pass PDF analysis failed - sections generated separately");
+      }
+    }
+  }
+
   // 2. Generate company overview
   let companyResearch: CompanyResearch | null = null;
   if (opts.includeCompanyResearch) {
-    if (hasPdfFile && modelFilePath) {
+    if (pdfSource) {
       // Use PDF analysis for company overview
       try {
-        console.log(`Generating company overview from PDF: ${modelFilePath}`);
-        const pdfCompanyOverview = await generateWithPDF(
-          modelFilePath,
-          VALUATION_SYSTEM_PROMPT,
-          COMPANY_OVERVIEW_PROMPT,
+        console.log(`Generating company overview from PDF: ${pdfSource.filePath}`);
+        const pdfCompanyOverview = await resolvePdfSection(
+          pdfSource,
+          "companyOverview",
           engagement.qualitativeContext || undefined
         );
 
@@ -108,7 +233,13 @@ export async function generateReportContent(
       // Use web research for company overview
       try {
         console.log(`Researching company: ${companyName}`);
-        companyResearch = await researchCompany(companyName, engagement.qualitativeContext || undefined);
+        companyResearch = await withUsageContext({ section: "companyOverview" }, () =>
+          researchCompany(
+            companyName,
+            engagement.qualitativeContext || undefined,
+            formatStyleReference(styleGuide.companyOverview)
+          )
+        );
 
         companyOverview = {
           content: companyResearch.companyDescription,
@@ -138,18 +269,13 @@ export async function generateReportContent(
 
   // 3. Generate industry outlook
   if (opts.includeIndustryResearch) {
-    if (hasPdfFile && modelFilePath) {
-      // Wait between API calls to avoid rate limits
-      console.log("Waiting 15s between API calls to avoid rate limits...");
-      await new Promise(resolve => setTimeout(resolve, 15000));
-      
+    if (pdfSource) {
       // Use PDF analysis for industry outlook
       try {
-        console.log(`Generating industry outlook from PDF: ${modelFilePath}`);
-        const pdfIndustryOutlook = await generateWithPDF(
-          modelFilePath,
-          VALUATION_SYSTEM_PROMPT,
-          INDUSTRY_OUTLOOK_PROMPT,
+        console.log(`Generating industry outlook from PDF: ${pdfSource.filePath}`);
+        const pdfIndustryOutlook = await resolvePdfSection(
+          pdfSource,
+          "industryOutlook",
           engagement.qualitativeContext || undefined
         );
 
@@ -174,9 +300,12 @@ export async function generateReportContent(
 
       try {
         console.log(`Researching industry: ${industryName}`);
-        const industryResearch = await researchIndustry(
-          industryName,
-          companyResearch?.companyDescription
+        const industryResearch = await withUsageContext({ section: "industryOutlook" }, () =>
+          researchIndustry(
+            industryName,
+            companyResearch?.companyDescription,
+            formatStyleReference(styleGuide.industryOutlook)
+          )
         );
 
         const formatted = formatIndustryWithCitations(industryResearch);
@@ -224,29 +353,15 @@ export async function generateReportContent(
   // 5. Generate valuation narratives
   console.log("Generating valuation narratives...");
   
-  // Parse selectedApproaches from engagement (stored as JSON)
-  const selectedApproaches = engagement.selectedApproaches as {
-    guidelinePublicCompany?: boolean;
-    guidelineTransaction?: boolean;
-    incomeApproach?: boolean;
-  } | null;
-  
-  // Use the PDF analysis flag already determined above
-  const usePdfAnalysis = hasPdfFile;
-  
   let narrativeSet: { approachNarratives: ApproachNarrative[]; conclusion: string; warnings: string[] };
   
-  if (usePdfAnalysis && modelFilePath) {
+  if (pdfSource && modelIsPdf) {
     console.log("=== Using PDF Document Analysis ===");
-    console.log("PDF file path:", modelFilePath);
-    
-    // Wait between API calls to avoid rate limits (after industry outlook generation)
-    console.log("Waiting 15s before starting valuation narrative generation...");
-    await new Promise(resolve => setTimeout(resolve, 15000));
-    
+    console.log("PDF file path:", pdfSource.filePath);
+
     // Generate narratives by analyzing the PDF directly
     narrativeSet = await generatePdfNarratives(
-      modelFilePath,
+      pdfSource,
       selectedApproaches,
       engagement.qualitativeContext || undefined
     );
@@ -264,7 +379,9 @@ export async function generateReportContent(
         guidelinePublicCompany: selectedApproaches.guidelinePublicCompany ?? false,
         guidelineTransaction: selectedApproaches.guidelineTransaction ?? false,
         incomeApproach: selectedApproaches.incomeApproach ?? false,
-      } : undefined
+        pwerm: selectedApproaches.pwerm ?? false,
+      } : undefined,
+      styleGuide
     );
   }
 
@@ -289,6 +406,51 @@ export async function generateReportContent(
   // Add narrative warnings
   warnings.push(...narrativeSet.warnings);
 
+  // Templated OPM backsolve section (not AI-generated)
+  let backsolveMethodology: SectionContent | undefined;
+  const backsolveData = parsedModel.detailedData?.backsolveData ?? null;
+  const hasBacksolveApproach = (parsedModel.summary?.approaches || []).some(a => !shouldGenerateNarrative(a.name));
+  // The template describes an OPM backsolve; PWERM and current-value models don't get it
+  const usesOpmBacksolve = backsolveData?.methodology
+    ? backsolveData.methodology === "opm" || backsolveData.methodology === "backsolve"
+    : hasBacksolveApproach;
+  if (usesOpmBacksolve) {
+    const filled = buildBacksolveMethodology(backsolveData, { companyName, valuationDate, currency: parsedModel.currency });
+    backsolveMethodology = {
+      content: filled.content,
+      source: "template",
+      confidence: filled.missing.length === 0 ? 1 : 0.6,
+      warnings: filled.missing.map(label => `${label} not found in model`),
+    };
+    for (const label of filled.missing) {
+      flags.push({
+        section: "OPM Backsolve",
+        message: `${label} not found in model - fill in the templated backsolve section`,
+        type: "missing",
+      });
+    }
+  }
+
+  // Templated DLOM section (not AI-generated)
+  let dlomMethodology: SectionContent | undefined;
+  const dlomAnalysis = parsedModel.detailedData?.dlomAnalysis ?? null;
+  if (dlomAnalysis || parsedModel.dlom !== null) {
+    const filled = buildDLOMMethodology(dlomAnalysis, { companyName, valuationDate, dlom: parsedModel.dlom });
+    dlomMethodology = {
+      content: filled.content,
+      source: "template",
+      confidence: filled.missing.length === 0 ? 1 : 0.6,
+      warnings: filled.missing.map(label => `${label} not found in model`),
+    };
+    for (const label of filled.missing) {
+      flags.push({
+        section: "DLOM",
+        message: `${label} not found in model - fill in the templated DLOM section`,
+        type: "missing",
+      });
+    }
+  }
+
   // 6. Create conclusion section
   const conclusion: SectionContent = {
     content: narrativeSet.conclusion,
@@ -296,6 +458,55 @@ export async function generateReportContent(
     confidence: 0.7,
   };
 
+  // 7. Compare against the prior valuation, then keep this model's figures for the next one
+  const snapshot = createModelSnapshot(parsedModel);
+  let priorValuationChanges: ReportContent["priorValuationChanges"];
+  if (engagement.priorSnapshotId) {
+    try {
+      const priorSnapshot = await loadPriorSnapshot(engagement);
+      if (priorSnapshot) {
+        const diff = diffModelSnapshots(priorSnapshot, snapshot);
+        const narrative = await withUsageContext({ section: "priorValuationChanges" }, () =>
+          generateRollforwardNarrative(diff, {
+            companyName,
+            valuationDate: valuationDate.toISOString(),
+            reportType: engagement.reportType,
+            qualitativeContext: engagement.qualitativeContext || undefined,
+            currency: parsedModel.currency,
+          })
+        );
+        priorValuationChanges = {
+          diff,
+          narrative: { content: narrative, source: "ai", confidence: diff.metrics.length > 0 ? 0.7 : 0.3 },
+        };
+        if (diff.priorCurrency) {
+          flags.push({
+            section: "Changes Since Prior Valuation",
+            message: `Prior valuation was in ${diff.priorCurrency} - amounts are not directly comparable`,
+            type: "review",
+          });
+        }
+      } else {
+        flags.push({
+          section: "Changes Since Prior Valuation",
+          message: "Linked prior valuation no longer exists",
+          type: "missing",
+        });
+      }
+    } catch (error) {
+      console.error("Rollforward narrative failed:", error);
+      warnings.push("Failed to generate changes since prior valuation");
+    }
+  }
+
+  if (snapshot.concludedValue !== null || snapshot.approaches.length > 0) {
+    try {
+      await saveValuationSnapshot(engagement, snapshot);
+    } catch (error) {
+      console.warn("Could not save valuation snapshot:", error);
+    }
+  }
+
   // Calculate duration
   const duration = Date.now() - startTime;
   console.log(`Report content generation completed in ${duration}ms`);
@@ -337,6 +548,28 @@ export async function generateReportContent(
       revenue: parsedModel.detailedData.companyFinancials.ltmRevenue || undefined,
       ebitda: parsedModel.detailedData.companyFinancials.ltmEbitda || undefined,
     } : undefined,
+    gpcAnalysis: parsedModel.detailedData.gpcAnalysis ? {
+      revenueMultipleRange: parsedModel.detailedData.gpcAnalysis.revenueMultipleRange,
+      ebitdaMultipleRange: parsedModel.detailedData.gpcAnalysis.ebitdaMultipleRange,
+      selectedRevenueMultiple: parsedModel.detailedData.gpcAnalysis.selectedRevenueMultiple,
+      selectedEbitdaMultiple: parsedModel.detailedData.gpcAnalysis.selectedEbitdaMultiple,
+      indicatedValue: parsedModel.detailedData.gpcAnalysis.indicatedValue,
+      appliedMetric: parsedModel.detailedData.gpcAnalysis.appliedMetric,
+      appliedMetricValue: parsedModel.detailedData.gpcAnalysis.appliedMetricValue,
+    } : undefined,
+    transactionAnalysis: parsedModel.detailedData.transactionAnalysis ? {
+      revenueMultipleRange: parsedModel.detailedData.transactionAnalysis.revenueMultipleRange,
+      ebitdaMultipleRange: parsedModel.detailedData.transactionAnalysis.ebitdaMultipleRange,
+      selectedRevenueMultiple: parsedModel.detailedData.transactionAnalysis.selectedRevenueMultiple,
+      selectedEbitdaMultiple: parsedModel.detailedData.transactionAnalysis.selectedEbitdaMultiple,
+      indicatedValue: parsedModel.detailedData.transactionAnalysis.indicatedValue,
+      appliedMetric: parsedModel.detailedData.transactionAnalysis.appliedMetric,
+      appliedMetricValue: parsedModel.detailedData.transactionAnalysis.appliedMetricValue,
+    } : undefined,
+    capTable: parsedModel.detailedData.capTable || undefined,
+    equityBridge: parsedModel.detailedData.equityBridge || undefined,
+    pwerm: parsedModel.detailedData.pwermData || undefined,
+    dlomAnalysis: parsedModel.detailedData.dlomAnalysis || undefined,
   } : undefined;
 
   return {
@@ -349,10 +582,15 @@ export async function generateReportContent(
     valuationAnalysis,
     conclusion,
     approachNarratives: narrativeSet.approachNarratives,
+    backsolveMethodology,
+    dlomMethodology,
+    priorValuationChanges,
     industryCitations,
     detailedData,
+    provenance: collectProvenance(parsedModel),
     dlom: parsedModel.dlom,
     concludedValue: parsedModel.summary?.concludedValue || null,
+    currency: parsedModel.currency,
     flags,
     warnings,
     generatedAt: new Date(),
@@ -408,46 +646,110 @@ export function validateContent(content: ReportContent): ValidationResult {
 }
 
 /**
- * Helper: Wait between API calls to avoid rate limits
+ * Approaches to narrate from a PDF; all of them when the engagement has no selection
+ */
+function resolvePdfApproaches(selectedApproaches: SelectedApproaches | null): SelectedApproaches {
+  return selectedApproaches || {
+    guidelinePublicCompany: true,
+    guidelineTransaction: true,
+    incomeApproach: true,
+  };
+}
+
+/**
+ * Helper: List the report sections a PDF engagement writes from the document
+ * Combined engagements narrate the approaches from the Excel model instead
+ */
+function selectPdfSections(
+  opts: GenerationOptions,
+  selectedApproaches: SelectedApproaches | null,
+  includeNarratives: boolean
+): PdfSectionKey[] {
+  const sections: PdfSectionKey[] = [];
+
+  if (opts.includeCompanyResearch) sections.push("companyOverview");
+  if (opts.includeIndustryResearch) sections.push("industryOutlook");
+  if (!includeNarratives) return sections;
+
+  const approaches = resolvePdfApproaches(selectedApproaches);
+  if (approaches.guidelinePublicCompany) sections.push("guidelinePublicCompany");
+  if (approaches.guidelineTransaction) sections.push("guidelineTransaction");
+  if (approaches.incomeApproach) sections.push("incomeApproach");
+  if (approaches.guidelinePublicCompany || approaches.guidelineTransaction || approaches.incomeApproach) {
+    sections.push("conclusion");
+  }
+
+  return sections;
+}
+
+/**
+ * Helper: Pages the given sections read, or undefined for the whole document
+ * Falls back to the whole document when a section's exhibits can't be found
  */
-async function waitForRateLimit(seconds: number): Promise<void> {
-  console.log(`Waiting ${seconds}s between API calls to avoid rate limits...`);
-  await new Promise(resolve => setTimeout(resolve, seconds * 1000));
+function pagesForSections(
+  pageClasses: PdfPageClass[] | null,
+  sections: PdfSectionKey[]
+): number[] | undefined {
+  if (!pageClasses) return undefined;
+
+  const pages = new Set<number>();
+  for (const section of sections) {
+    const exhibits = PDF_SECTION_EXHIBITS[section];
+    const selected = exhibits ? selectPdfPages(pageClasses, exhibits) : null;
+    if (!selected) return undefined;
+    selected.forEach(page => pages.add(page));
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
+/**
+ * Helper: Take a section from the single-pass PDF analysis, or generate it on its own
+ * from just the pages it discusses
+ */
+async function resolvePdfSection(
+  pdfSource: PdfSource,
+  section: PdfSectionKey,
+  qualitativeContext?: string
+): Promise<string> {
+  const analyzed = pdfSource.analysis?.sections[section];
+  if (analyzed) {
+    return analyzed;
+  }
+
+  console.log(`Generating ${section} from PDF with a dedicated call...`);
+  return withUsageContext({ section }, () =>
+    generateWithPDF(
+      pdfSource.filePath,
+      VALUATION_SYSTEM_PROMPT,
+      PDF_SECTION_PROMPTS[section] + formatStyleReference(pdfSource.styleGuide[section]),
+      qualitativeContext,
+      pagesForSections(pdfSource.pageClasses, [section])
+    )
+  );
 }
 
 /**
  * Generate narratives by analyzing a PDF document with Claude
  */
 async function generatePdfNarratives(
-  pdfFilePath: string,
-  selectedApproaches: {
-    guidelinePublicCompany?: boolean;
-    guidelineTransaction?: boolean;
-    incomeApproach?: boolean;
-  } | null,
+  pdfSource: PdfSource,
+  selectedApproaches: SelectedApproaches | null,
   qualitativeContext?: string
 ): Promise<{ approachNarratives: ApproachNarrative[]; conclusion: string; warnings: string[] }> {
   const approachNarratives: ApproachNarrative[] = [];
   const warnings: string[] = [];
   
-  const approaches = selectedApproaches || {
-    guidelinePublicCompany: true,
-    guidelineTransaction: true,
-    incomeApproach: true,
-  };
-
-  // Delay between API calls (in seconds) to stay under rate limits
-  const API_DELAY = 15;
+  const approaches = resolvePdfApproaches(selectedApproaches);
 
   try {
     // Generate Guideline Public Company narrative
     if (approaches.guidelinePublicCompany) {
       console.log("Generating Guideline Public Company narrative from PDF...");
       try {
-        const narrative = await generateWithPDF(
-          pdfFilePath,
-          VALUATION_SYSTEM_PROMPT,
-          GUIDELINE_PUBLIC_COMPANY_PROMPT,
+        const narrative = await resolvePdfSection(
+          pdfSource,
+          "guidelinePublicCompany",
           qualitativeContext
         );
         approachNarratives.push({
@@ -471,13 +773,11 @@ async function generatePdfNarratives(
 
     // Generate Guideline Transaction narrative
     if (approaches.guidelineTransaction) {
-      await waitForRateLimit(API_DELAY);
       console.log("Generating Guideline Transaction narrative from PDF...");
       try {
-        const narrative = await generateWithPDF(
-          pdfFilePath,
-          VALUATION_SYSTEM_PROMPT,
-          GUIDELINE_TRANSACTION_PROMPT,
+        const narrative = await resolvePdfSection(
+          pdfSource,
+          "guidelineTransaction",
           qualitativeContext
         );
         approachNarratives.push({
@@ -501,13 +801,11 @@ async function generatePdfNarratives(
 
     // Generate Income Approach narrative
     if (approaches.incomeApproach) {
-      await waitForRateLimit(API_DELAY);
       console.log("Generating Income Approach narrative from PDF...");
       try {
-        const narrative = await generateWithPDF(
-          pdfFilePath,
-          VALUATION_SYSTEM_PROMPT,
-          INCOME_APPROACH_PROMPT,
+        const narrative = await resolvePdfSection(
+          pdfSource,
+          "incomeApproach",
           qualitativeContext
         );
         approachNarratives.push({
@@ -532,15 +830,9 @@ async function generatePdfNarratives(
     // Generate Conclusion
     let conclusion = "";
     if (approachNarratives.length > 0) {
-      await waitForRateLimit(API_DELAY);
       console.log("Generating Conclusion narrative from PDF...");
       try {
-        conclusion = await generateWithPDF(
-          pdfFilePath,
-          VALUATION_SYSTEM_PROMPT,
-          CONCLUSION_PROMPT,
-          qualitativeContext
-        );
+        conclusion = await resolvePdfSection(pdfSource, "conclusion", qualitativeContext);
         console.log("✓ Conclusion narrative generated");
       } catch (error) {
         console.error("Error generating conclusion:", error);
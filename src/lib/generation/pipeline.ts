@@ -4,11 +4,16 @@
  */
 
 import prisma from "@/lib/db/prisma";
-import { parseValuationModel } from "@/lib/excel/parseValuationModel";
+import { parseModelFile } from "@/lib/excel/parseModelFile";
+import { isPdfFile } from "@/lib/pdf";
 import { generateReportContent, validateContent } from "./orchestrator";
+import { withUsageContext } from "@/lib/ai/usage";
 import { updateEngagementStatus, markComplete, markError } from "./status";
 import { assembleReport, saveReport } from "@/lib/document/assembler";
 import { notifyReportComplete, notifyReportFailed } from "@/lib/email/notify";
+import type { Engagement } from "@prisma/client";
+import type { ParsedModel } from "@/types/excel";
+import type { AIUsageContext } from "@/types/ai";
 import type { GenerationResult } from "@/types/generation";
 import type { JobStage } from "@/types/jobs";
 
@@ -68,7 +73,7 @@ export async function generateReport(engagementId: string): Promise<GenerationRe
     console.log(`Parsing model file: ${engagement.modelFilePath}`);
     let parsedModel;
     try {
-      parsedModel = await parseValuationModel(engagement.modelFilePath);
+      parsedModel = await parseModelFile(engagement.modelFilePath);
       warnings.push(...parsedModel.warnings);
 
       if (parsedModel.errors.length > 0) {
@@ -85,11 +90,15 @@ export async function generateReport(engagementId: string): Promise<GenerationRe
       };
     }
 
+    const exhibitsModel = await parseExhibitsFile(engagement, warnings);
+
     // 3. Generate all content
     console.log("Generating report content...");
     let content;
     try {
-      content = await generateReportContent(engagement, parsedModel);
+      content = await withUsageContext(usageContextFor(engagement, parsedModel), () =>
+        generateReportContent(engagement, parsedModel, {}, exhibitsModel)
+      );
       warnings.push(...content.warnings);
     } catch (error) {
       const errorMsg = `Content generation failed: ${error instanceof Error ? error.message : "Unknown error"}`;
@@ -253,7 +262,7 @@ export async function generateReportWithCallbacks(
 
     let parsedModel;
     try {
-      parsedModel = await parseValuationModel(engagement.modelFilePath);
+      parsedModel = await parseModelFile(engagement.modelFilePath);
       warnings.push(...parsedModel.warnings);
       if (parsedModel.errors.length > 0) {
         warnings.push(...parsedModel.errors.map((e) => `Parse error: ${e}`));
@@ -265,6 +274,8 @@ export async function generateReportWithCallbacks(
       return { success: false, error: errorMsg, warnings: [] };
     }
 
+    const exhibitsModel = await parseExhibitsFile(engagement, warnings);
+
     // 3. Generate company research
     onProgress('researching_company', 20, 'Researching company information...');
 
@@ -276,7 +287,9 @@ export async function generateReportWithCallbacks(
 
     let content;
     try {
-      content = await generateReportContent(engagement, parsedModel);
+      content = await withUsageContext(usageContextFor(engagement, parsedModel), () =>
+        generateReportContent(engagement, parsedModel, {}, exhibitsModel)
+      );
       warnings.push(...content.warnings);
     } catch (error) {
       const errorMsg = `Content generation failed: ${error instanceof Error ? error.message : "Unknown error"}`;
@@ -364,3 +377,35 @@ export async function generateReportWithCallbacks(
     return { success: false, error: errorMsg, warnings };
   }
 }
+
+/**
+ * Parse the exhibits PDF uploaded alongside an Excel model
+ * The report can still be written from the model alone, so failures are warnings
+ */
+async function parseExhibitsFile(engagement: Engagement, warnings: string[]): Promise<ParsedModel | null> {
+  if (!engagement.exhibitsFilePath || !engagement.modelFilePath || isPdfFile(engagement.modelFilePath)) {
+    return null;
+  }
+
+  console.log(`Parsing exhibits file: ${engagement.exhibitsFilePath}`);
+  try {
+    const exhibitsModel = await parseModelFile(engagement.exhibitsFilePath);
+    warnings.push(...exhibitsModel.warnings.map((w) => `Exhibits: ${w}`));
+    return exhibitsModel;
+  } catch (error) {
+    console.error("Failed to parse exhibits file:", error);
+    warnings.push(`Failed to parse exhibits PDF - model figures were not cross-checked: ${error instanceof Error ? error.message : "Unknown error"}`);
+    return null;
+  }
+}
+
+/**
+ * Bill a generation run's AI calls to the engagement and its client
+ */
+function usageContextFor(engagement: Engagement, parsedModel: ParsedModel): AIUsageContext {
+  return {
+    engagementId: engagement.id,
+    userId: engagement.userId,
+    companyName: parsedModel.companyName || engagement.companyName,
+  };
+}
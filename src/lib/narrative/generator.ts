@@ -5,19 +5,24 @@
  * Enhanced to use detailed data extraction for company-specific narratives
  */
 
-import { generateText } from "@/lib/ai";
+import { generateText, withUsageContext } from "@/lib/ai";
+import { formatStyleReference } from "@/lib/style";
 import {
   VALUATION_NARRATIVE_SYSTEM_PROMPT,
   buildGuidelineCompanyPrompt,
   buildMATransactionPrompt,
   buildIncomeApproachPrompt,
+  buildPWERMPrompt,
   buildConclusionPrompt,
+  buildRollforwardPrompt,
   buildGenericApproachPrompt,
   canGenerateApproachSection,
   getDataAvailabilitySummary,
   type ExtendedNarrativeContext,
 } from "@/lib/ai/prompts/valuationNarrative";
 import type { ApproachData, ParsedModel, DetailedModelData } from "@/types/excel";
+import type { ModelDiff } from "@/types/rollforward";
+import type { StyleGuide, StyleSectionKey } from "@/types/style";
 import type {
   NarrativeSet,
   ApproachNarrative,
@@ -27,6 +32,8 @@ import type {
   ApproachSelection,
 } from "@/types/narrative";
 
+const PWERM_APPROACH_NAME = "Probability-Weighted Expected Return Method (PWERM)";
+
 /**
  * Identify the type of valuation approach from its name
  * Note: Backsolve/OPM uses templated language, not AI-generated narratives
@@ -34,6 +41,9 @@ import type {
 export function identifyApproachType(approachName: string): ApproachType {
   const name = approachName.toLowerCase();
 
+  if (name.includes("pwerm") || name.includes("probability-weighted") || name.includes("probability weighted")) {
+    return "pwerm";
+  }
   if (name.includes("guideline") && name.includes("public")) {
     return "guideline_public_company";
   }
@@ -61,6 +71,10 @@ export function identifyApproachType(approachName: string): ApproachType {
  */
 export function shouldGenerateNarrative(approachName: string): boolean {
   const name = approachName.toLowerCase();
+  // Hybrid OPM/PWERM sections are scenario-specific and still get a narrative
+  if (identifyApproachType(approachName) === "pwerm") {
+    return true;
+  }
   // Backsolve/OPM use templated methodology language, not company-specific AI narrative
   if (name.includes("backsolve") || name.includes("back-solve") || 
       name.includes("opm") || name.includes("option pricing")) {
@@ -72,7 +86,7 @@ export function shouldGenerateNarrative(approachName: string): boolean {
 /**
  * Map approach type to detailed data check type
  */
-function getApproachCheckType(approachType: ApproachType): 'gpc' | 'gtm' | 'income' | null {
+function getApproachCheckType(approachType: ApproachType): 'gpc' | 'gtm' | 'income' | 'pwerm' | null {
   switch (approachType) {
     case "guideline_public_company":
       return 'gpc';
@@ -81,6 +95,25 @@ function getApproachCheckType(approachType: ApproachType): 'gpc' | 'gtm' | 'inco
     case "income_dcf":
     case "income_ccf":
       return 'income';
+    case "pwerm":
+      return 'pwerm';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Helper: Style example section that reads like an approach's narrative
+ */
+function getStyleSection(approachType: ApproachType): StyleSectionKey | null {
+  switch (approachType) {
+    case "guideline_public_company":
+      return "guidelinePublicCompany";
+    case "guideline_transaction":
+      return "guidelineTransaction";
+    case "income_dcf":
+    case "income_ccf":
+      return "incomeApproach";
     default:
       return null;
   }
@@ -124,10 +157,18 @@ export async function generateApproachNarrative(
     case "income_ccf":
       prompt = buildIncomeApproachPrompt(approach, context);
       break;
+    case "pwerm":
+      prompt = buildPWERMPrompt(approach, context);
+      break;
     default:
       prompt = buildGenericApproachPrompt(approach, context);
   }
 
+  const styleSection = getStyleSection(approachType);
+  if (styleSection) {
+    prompt += formatStyleReference(context?.styleGuide?.[styleSection]);
+  }
+
   console.log(`Generating narrative for approach: ${approach.name} (${approachType}) - confidence: ${confidence}`);
 
   const narrative = await generateText(prompt, {
@@ -229,7 +270,8 @@ export async function generateConclusionNarrative(
     weight: a.weight || 0,
   }));
 
-  const prompt = buildConclusionPrompt(approaches, weights, context);
+  const prompt = buildConclusionPrompt(approaches, weights, context) +
+    formatStyleReference(context?.styleGuide?.conclusion);
 
   console.log("Generating conclusion narrative with detailed data");
 
@@ -242,6 +284,28 @@ export async function generateConclusionNarrative(
   return narrative;
 }
 
+/**
+ * Generate the Changes Since Prior Valuation narrative from a model diff
+ */
+export async function generateRollforwardNarrative(
+  diff: ModelDiff,
+  context?: ExtendedNarrativeContext
+): Promise<string> {
+  if (diff.metrics.length === 0 && diff.weights.length === 0) {
+    return "No comparable figures were found in the prior and current models. Manual rollforward discussion required.";
+  }
+
+  const prompt = buildRollforwardPrompt(diff, context);
+
+  console.log("Generating rollforward narrative against prior valuation");
+
+  return generateText(prompt, {
+    systemPrompt: VALUATION_NARRATIVE_SYSTEM_PROMPT,
+    maxTokens: 1200,
+    temperature: 0.6,
+  });
+}
+
 /**
  * Determine which approaches to generate narratives for
  * Only generates sections for approaches with available data
@@ -297,6 +361,8 @@ function filterApproachesBySelection(
       case "income_dcf":
       case "income_ccf":
         return selectedApproaches.incomeApproach;
+      case "pwerm":
+        return selectedApproaches.pwerm;
       default:
         return true; // Include other approaches by default
     }
@@ -312,7 +378,8 @@ export async function generateAllNarratives(
   qualitativeContext?: string,
   companyResearch?: { description: string; industry: string },
   reportType: "FOUR09A" | "FIFTY_NINE_SIXTY" = "FOUR09A",
-  selectedApproaches?: ApproachSelection
+  selectedApproaches?: ApproachSelection,
+  styleGuide?: StyleGuide
 ): Promise<NarrativeSet> {
   const warnings: string[] = [];
   const allApproaches = parsedModel.summary?.approaches || [];
@@ -320,6 +387,17 @@ export async function generateAllNarratives(
   
   // Filter approaches based on user selection
   const approaches = filterApproachesBySelection(allApproaches, selectedApproaches);
+
+  // PWERM is often an allocation method rather than a weighted approach in the summary,
+  // so add it from the extracted scenarios when it was selected but not listed
+  const includePwerm = selectedApproaches ? selectedApproaches.pwerm : true;
+  if (
+    includePwerm &&
+    detailedData?.pwermData?.scenarios.length &&
+    !approaches.some(a => identifyApproachType(a.name) === "pwerm")
+  ) {
+    approaches.push({ name: PWERM_APPROACH_NAME, indicatedValue: null, weight: null });
+  }
   
   console.log(`\n=== Generating narratives for ${approaches.length} approaches ===`);
   if (selectedApproaches) {
@@ -340,7 +418,10 @@ export async function generateAllNarratives(
     qualitativeContext,
     companyDescription: companyResearch?.description,
     industry: companyResearch?.industry,
+    currency: parsedModel.currency,
     detailedData,
+    exhibits: parsedModel.exhibits,
+    styleGuide,
   };
 
   // Determine which approaches have sufficient data
@@ -363,7 +444,9 @@ export async function generateAllNarratives(
         warnings.push(`Limited data for ${approach.name}: ${reason}`);
       }
       
-      const narrative = await generateApproachNarrative(approach, context);
+      const narrative = await withUsageContext({ section: approach.name }, () =>
+        generateApproachNarrative(approach, context)
+      );
       approachNarratives.push(narrative);
     } catch (error) {
       console.error(`Failed to generate narrative for ${approach.name}:`, error);
@@ -380,7 +463,9 @@ export async function generateAllNarratives(
   // Generate conclusion
   let conclusion: string;
   try {
-    conclusion = await generateConclusionNarrative(parsedModel, context);
+    conclusion = await withUsageContext({ section: "conclusion" }, () =>
+      generateConclusionNarrative(parsedModel, context)
+    );
   } catch (error) {
     console.error("Failed to generate conclusion narrative:", error);
     warnings.push("Failed to generate conclusion narrative");
@@ -5,8 +5,22 @@
 export {
   generateApproachNarrative,
   generateConclusionNarrative,
+  generateRollforwardNarrative,
   generateAllNarratives,
   identifyApproachType,
+  shouldGenerateNarrative,
   analyzeWeighting,
 } from "./generator";
 
+export {
+  fillTemplate,
+  buildBacksolveMethodology,
+  buildDLOMMethodology,
+  OPM_BACKSOLVE_TEMPLATE,
+  DLOM_INTRO_TEMPLATE,
+  DLOM_METHOD_TEMPLATES,
+  DLOM_CONCLUSION_TEMPLATE,
+} from "./templates";
+
+export type { TemplateField, FilledTemplate } from "./templates";
+
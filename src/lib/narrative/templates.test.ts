@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { fillTemplate, buildBacksolveMethodology, buildDLOMMethodology } from "./templates";
+import { createEmptyBacksolveData } from "@/lib/excel/detailedExtractor";
+import type { BacksolveData, DLOMMethodIndication } from "@/types/excel";
+
+const CONTEXT = { companyName: "Acme Robotics, Inc.", valuationDate: "2025-03-31T00:00:00.000Z" };
+
+describe("fillTemplate", () => {
+  it("fills required fields", () => {
+    const filled = fillTemplate("{{name}} was valued as of {{date}}.", {
+      name: { label: "Company name", value: "Acme" },
+      date: { label: "Valuation date", value: "March 31, 2025" },
+    });
+
+    expect(filled).toEqual({ content: "Acme was valued as of March 31, 2025.", missing: [] });
+  });
+
+  it("marks absent required fields and lists each label once", () => {
+    const filled = fillTemplate("{{price}} per share; issued at {{price}} to {{investor}}.", {
+      price: { label: "Price per share", value: null },
+    });
+
+    expect(filled.content).toBe("[MISSING: Price per share] per share; issued at [MISSING: Price per share] to [MISSING: investor].");
+    expect(filled.missing).toEqual(["Price per share", "investor"]);
+  });
+
+  it("drops an optional segment when any field inside it is absent", () => {
+    const template = "Issued at {{price}}.[[ Post-money value was {{postMoney}} on {{date}}.]]";
+    const fields = {
+      price: { label: "Price per share", value: "$1.25" },
+      postMoney: { label: "Post-money valuation", value: "$40.0 million" },
+      date: { label: "Transaction date", value: null },
+    };
+
+    expect(fillTemplate(template, fields)).toEqual({ content: "Issued at $1.25.", missing: [] });
+    expect(fillTemplate(template, { ...fields, date: { label: "Transaction date", value: "March 1, 2025" } }).content).toBe(
+      "Issued at $1.25. Post-money value was $40.0 million on March 1, 2025."
+    );
+  });
+
+  it("keeps empty strings as values", () => {
+    expect(fillTemplate("[{{suffix}}]", { suffix: { label: "Suffix", value: "" } })).toEqual({ content: "[]", missing: [] });
+  });
+});
+
+describe("buildBacksolveMethodology", () => {
+  const backsolve: BacksolveData = {
+    ...createEmptyBacksolveData(),
+    transactionDate: new Date(Date.UTC(2025, 0, 15)),
+    securityType: "Series B Preferred Stock",
+    pricePerShare: 2.5,
+    postMoneyValuation: 40000000,
+    volatility: 0.55,
+    riskFreeRate: 0.042,
+    timeToLiquidity: 3,
+    indicatedPerShareValue: 0.8812,
+  };
+
+  it("fills the section from backsolve data", () => {
+    const filled = buildBacksolveMethodology(backsolve, CONTEXT);
+
+    expect(filled.missing).toEqual([]);
+    expect(filled.content).toContain("On January 15, 2025, the Company issued its Series B Preferred Stock at a price of $2.50 per share.");
+    expect(filled.content).toContain("The financing implied a post-money valuation of $40.0 million.");
+    expect(filled.content).toContain("a volatility of 55.0%");
+    expect(filled.content).toContain("a risk-free rate of 4.2%, based on the yield of U.S. Treasury securities");
+    expect(filled.content).toContain("an expected term of 3.0 years");
+    expect(filled.content).toContain("a value for the common stock of $0.8812 per share");
+    expect(filled.content).toContain("Valuation Date of March 31, 2025");
+    // No implied equity value, so its optional sentence is dropped
+    expect(filled.content).not.toContain("backsolved total equity value was");
+  });
+
+  it("writes prices and the risk-free source in the model's currency", () => {
+    const filled = buildBacksolveMethodology(backsolve, { ...CONTEXT, currency: "EUR" });
+
+    expect(filled.content).toContain("at a price of €2.50 per share");
+    expect(filled.content).toContain("based on the yield of EUR-denominated government bonds");
+  });
+
+  it("marks every required input as missing without backsolve data", () => {
+    const filled = buildBacksolveMethodology(null, CONTEXT);
+
+    expect(filled.missing).toEqual([
+      "Transaction date",
+      "Security issued",
+      "Price per share",
+      "Volatility",
+      "Risk-free rate",
+      "Expected term",
+      "Indicated common value",
+    ]);
+    expect(filled.content).toContain("On [MISSING: Transaction date], the Company issued its [MISSING: Security issued]");
+    expect(filled.content).not.toContain("post-money valuation");
+  });
+});
+
+describe("buildDLOMMethodology", () => {
+  const finnerty: DLOMMethodIndication = {
+    method: "finnerty",
+    name: "Finnerty",
+    volatility: 0.6,
+    term: 2,
+    riskFreeRate: null,
+    dividendYield: null,
+    indication: 0.22,
+    weight: 0.5,
+  };
+  const chaffee: DLOMMethodIndication = {
+    method: "chaffee",
+    name: "Chaffee",
+    volatility: 0.6,
+    term: 2,
+    riskFreeRate: 0.04,
+    dividendYield: null,
+    indication: 0.28,
+    weight: 0.5,
+  };
+
+  it("writes one paragraph per method between the introduction and conclusion", () => {
+    const filled = buildDLOMMethodology({ methods: [finnerty, chaffee], concludedDlom: 0.25 }, { ...CONTEXT, dlom: 0.25 });
+    const paragraphs = filled.content.split("\n\n");
+
+    expect(filled.missing).toEqual([]);
+    expect(paragraphs).toHaveLength(4);
+    expect(paragraphs[0]).toContain("we considered the Finnerty model and the Chaffee model.");
+    expect(paragraphs[1]).toBe(
+      "The Finnerty model estimates the DLOM as the value of an average-strike put option, reflecting the cost of protecting against a decline in value over the expected holding period when the holder cannot sell at the most favorable time. Using a volatility of 60.0% and an expected term of 2.0 years, the Finnerty model indicated a DLOM of 22.0%."
+    );
+    expect(paragraphs[2]).toContain("a risk-free rate of 4.0%, the protective put model indicated a DLOM of 28.0%.");
+    expect(paragraphs[3]).toBe(
+      "Based on the indications above and the weighting reflected in the DLOM exhibit (Finnerty 50.0%, Chaffee 50.0%), we concluded that a DLOM of 25.0% is appropriate for the common stock of Acme Robotics, Inc. as of March 31, 2025."
+    );
+  });
+
+  it("falls back to the summary DLOM and names missing method inputs", () => {
+    const filled = buildDLOMMethodology(
+      { methods: [{ ...chaffee, riskFreeRate: null, weight: null }], concludedDlom: null },
+      { ...CONTEXT, dlom: 0.3 }
+    );
+
+    expect(filled.missing).toEqual(["Chaffee risk-free rate"]);
+    expect(filled.content).toContain("a risk-free rate of [MISSING: Chaffee risk-free rate]");
+    expect(filled.content).toContain("Based on the indications above, we concluded that a DLOM of 30.0% is appropriate");
+  });
+
+  it("marks the methods and concluded DLOM missing without a DLOM exhibit", () => {
+    expect(buildDLOMMethodology(null, { ...CONTEXT, dlom: null }).missing).toEqual(["DLOM methods used", "Concluded DLOM"]);
+  });
+});
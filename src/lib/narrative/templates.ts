@@ -0,0 +1,206 @@
+/**
+ * Templated Methodology Sections
+ * Deterministic, firm-approved language filled from extracted model data.
+ * Used for sections that should read the same across reports (e.g. OPM backsolve)
+ * instead of AI-generated narrative.
+ *
+ * Template syntax:
+ * - {{field}}   required value; rendered as [MISSING: label] when absent
+ * - [[ ... ]]   optional segment; dropped when any field inside it is absent
+ */
+
+import type { BacksolveData, DLOMAnalysis, DLOMMethodIndication } from "@/types/excel";
+import { DEFAULT_CURRENCY, currencySymbol, formatCurrencyPrice } from "@/lib/utils/currency";
+
+export interface TemplateField {
+  label: string;
+  value: string | null;
+}
+
+export interface FilledTemplate {
+  content: string;
+  // Labels of required fields that were absent
+  missing: string[];
+}
+
+const FIELD_TOKEN = /\{\{(\w+)\}\}/g;
+const OPTIONAL_SEGMENT = /\[\[([\s\S]*?)\]\]/g;
+
+/**
+ * Fill a template with field values
+ */
+export function fillTemplate(
+  template: string,
+  fields: Record<string, TemplateField>
+): FilledTemplate {
+  const missing: string[] = [];
+  const hasValue = (key: string) => fields[key]?.value != null;
+
+  const withOptional = template.replace(OPTIONAL_SEGMENT, (_, segment: string) => {
+    const keys = Array.from(segment.matchAll(FIELD_TOKEN), m => m[1]);
+    return keys.every(hasValue) ? segment : "";
+  });
+
+  const content = withOptional.replace(FIELD_TOKEN, (_, key: string) => {
+    const field = fields[key];
+    if (field?.value != null) return field.value;
+
+    const label = field?.label ?? key;
+    if (!missing.includes(label)) missing.push(label);
+    return `[MISSING: ${label}]`;
+  });
+
+  return { content, missing };
+}
+
+/**
+ * Format a decimal rate as a percentage
+ */
+function formatRate(value: number | null): string | null {
+  if (value === null) return null;
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format a per-share price
+ */
+function formatPrice(value: number | null, currency?: string): string | null {
+  if (value === null) return null;
+  return formatCurrencyPrice(value, currency);
+}
+
+/**
+ * Format a total value, or a per-share value when it is small
+ */
+function formatValue(value: number | null, currency?: string): string | null {
+  if (value === null) return null;
+  if (Math.abs(value) < 1000) return `${formatPrice(value, currency)} per share`;
+  if (Math.abs(value) >= 1000000) return `${currencySymbol(currency)}${(value / 1000000).toFixed(1)} million`;
+  return `${currencySymbol(currency)}${Math.round(value).toLocaleString("en-US")}`;
+}
+
+/**
+ * Format a date in long form (e.g. March 31, 2025)
+ * Accepts strings since parsed models may have been round-tripped through JSON
+ */
+function formatLongDate(value: Date | string | null): string | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric", timeZone: "UTC" });
+}
+
+/**
+ * Firm-approved OPM backsolve methodology language
+ * Paragraphs are separated by blank lines
+ */
+export const OPM_BACKSOLVE_TEMPLATE = `In estimating the fair value of the common stock of {{companyName}}, we considered the Company's most recent arm's-length equity financing. On {{transactionDate}}, the Company issued its {{securityType}} at a price of {{pricePerShare}} per share.[[ The financing implied a post-money valuation of {{postMoneyValuation}}.]] Because the financing was negotiated with unrelated investors and occurred within a reasonable period of the Valuation Date of {{valuationDate}}, we consider the price paid to be an indication of the fair value of the Company's equity.
+
+We applied the Option Pricing Method ("OPM") to backsolve the total equity value implied by the financing. The OPM treats each class of equity as a call option on the Company's total equity value, with exercise prices based on the liquidation preferences, participation rights and conversion features of each class. The total equity value was solved iteratively such that the value allocated to the {{securityType}} equals its issue price of {{pricePerShare}} per share.[[ The backsolved total equity value was {{impliedEquityValue}}.]]
+
+The key assumptions applied in the OPM were as follows: a volatility of {{volatility}}, selected with reference to the historical equity volatility of the guideline public companies over a period commensurate with the expected term; a risk-free rate of {{riskFreeRate}}, based on the yield of {{riskFreeSource}} with a maturity matching the expected term; and an expected term of {{term}} years, based on management's expectations regarding the timing of a liquidity event.
+
+Based on the allocation of the backsolved equity value, the OPM indicated a value for the common stock of {{commonValue}} on a marketable, minority basis, prior to the application of a discount for lack of marketability.`;
+
+/**
+ * Fill the OPM backsolve methodology section from extracted backsolve data
+ */
+export function buildBacksolveMethodology(
+  backsolve: BacksolveData | null,
+  context: { companyName: string; valuationDate: Date | string | null; currency?: string }
+): FilledTemplate {
+  const { currency } = context;
+  const fields: Record<string, TemplateField> = {
+    companyName: { label: "Company name", value: context.companyName || null },
+    valuationDate: { label: "Valuation date", value: formatLongDate(context.valuationDate) },
+    transactionDate: { label: "Transaction date", value: formatLongDate(backsolve?.transactionDate ?? null) },
+    securityType: { label: "Security issued", value: backsolve?.securityType ?? null },
+    pricePerShare: { label: "Price per share", value: formatPrice(backsolve?.pricePerShare ?? null, currency) },
+    postMoneyValuation: { label: "Post-money valuation", value: formatValue(backsolve?.postMoneyValuation ?? null, currency) },
+    impliedEquityValue: { label: "Implied equity value", value: formatValue(backsolve?.impliedEquityValue ?? null, currency) },
+    volatility: { label: "Volatility", value: formatRate(backsolve?.volatility ?? null) },
+    riskFreeRate: { label: "Risk-free rate", value: formatRate(backsolve?.riskFreeRate ?? null) },
+    riskFreeSource: {
+      label: "Risk-free rate source",
+      value: !currency || currency === DEFAULT_CURRENCY ? "U.S. Treasury securities" : `${currency}-denominated government bonds`,
+    },
+    term: { label: "Expected term", value: backsolve?.timeToLiquidity != null ? backsolve.timeToLiquidity.toFixed(1) : null },
+    commonValue: {
+      label: "Indicated common value",
+      value: formatValue(backsolve?.indicatedPerShareValue ?? backsolve?.indicatedCommonValue ?? null, currency),
+    },
+  };
+
+  return fillTemplate(OPM_BACKSOLVE_TEMPLATE, fields);
+}
+
+/**
+ * Firm-approved DLOM methodology language
+ * The introduction and conclusion frame one paragraph per method used
+ */
+export const DLOM_INTRO_TEMPLATE = `A discount for lack of marketability ("DLOM") reflects the fact that there is no ready market for the common stock of {{companyName}}. An investor in a privately held company cannot readily convert the investment to cash and bears the risk of price changes while holding an illiquid security. To estimate an appropriate DLOM, we considered {{methodList}}.`;
+
+export const DLOM_METHOD_TEMPLATES: Record<DLOMMethodIndication["method"], string> = {
+  finnerty: `The Finnerty model estimates the DLOM as the value of an average-strike put option, reflecting the cost of protecting against a decline in value over the expected holding period when the holder cannot sell at the most favorable time. Using a volatility of {{volatility}} and an expected term of {{term}} years[[, with a dividend yield of {{dividendYield}}]], the Finnerty model indicated a DLOM of {{indication}}.`,
+  chaffee: `The Chaffee protective put model estimates the DLOM as the cost of a European put option that would allow the holder to sell the shares at their current value at the end of the expected holding period. Using a volatility of {{volatility}}, an expected term of {{term}} years and a risk-free rate of {{riskFreeRate}}, the protective put model indicated a DLOM of {{indication}}.`,
+  longstaff: `The Longstaff lookback put model estimates an upper bound on the DLOM as the value of a lookback put option, which compensates the holder for the inability to sell at the highest price during the holding period. Using a volatility of {{volatility}} and an expected term of {{term}} years, the Longstaff model indicated a DLOM of {{indication}}.`,
+  ghaidarov: `The Ghaidarov average-strike put model estimates the DLOM as the value of a put option struck at the average price over the holding period. Using a volatility of {{volatility}} and an expected term of {{term}} years, the Ghaidarov model indicated a DLOM of {{indication}}.`,
+  restrictedStock: `We also considered empirical studies of restricted stock transactions, which compare the prices of unregistered shares of public companies to the prices of their freely traded counterparts. Adjusted for the Company's facts and circumstances, these studies indicated a DLOM of {{indication}}.`,
+  other: `The {{methodName}} indicated a DLOM of {{indication}}.`,
+};
+
+export const DLOM_CONCLUSION_TEMPLATE = `Based on the indications above[[ and the weighting reflected in the DLOM exhibit ({{weights}})]], we concluded that a DLOM of {{concludedDlom}} is appropriate for the common stock of {{companyName}} as of {{valuationDate}}.`;
+
+/**
+ * Fill the DLOM methodology section from the DLOM exhibit
+ * Falls back to the summary DLOM when no concluded DLOM is labelled in the exhibit
+ */
+export function buildDLOMMethodology(
+  analysis: DLOMAnalysis | null,
+  context: { companyName: string; valuationDate: Date | string | null; dlom: number | null }
+): FilledTemplate {
+  const methods = analysis?.methods ?? [];
+  const shared: Record<string, TemplateField> = {
+    companyName: { label: "Company name", value: context.companyName || null },
+    valuationDate: { label: "Valuation date", value: formatLongDate(context.valuationDate) },
+  };
+
+  const methodNames = methods.map(m => (m.method === "restrictedStock" ? "restricted stock studies" : `the ${m.name} model`));
+  const parts: FilledTemplate[] = [
+    fillTemplate(DLOM_INTRO_TEMPLATE, {
+      ...shared,
+      methodList: {
+        label: "DLOM methods used",
+        value: methodNames.length > 1
+          ? `${methodNames.slice(0, -1).join(", ")} and ${methodNames[methodNames.length - 1]}`
+          : methodNames[0] ?? null,
+      },
+    }),
+  ];
+
+  for (const method of methods) {
+    parts.push(fillTemplate(DLOM_METHOD_TEMPLATES[method.method], {
+      methodName: { label: "DLOM method", value: method.name },
+      volatility: { label: `${method.name} volatility`, value: formatRate(method.volatility) },
+      term: { label: `${method.name} term`, value: method.term !== null ? method.term.toFixed(1) : null },
+      riskFreeRate: { label: `${method.name} risk-free rate`, value: formatRate(method.riskFreeRate) },
+      dividendYield: { label: `${method.name} dividend yield`, value: formatRate(method.dividendYield) },
+      indication: { label: `${method.name} indicated DLOM`, value: formatRate(method.indication) },
+    }));
+  }
+
+  const weighted = methods.filter(m => m.weight !== null && m.weight > 0);
+  parts.push(fillTemplate(DLOM_CONCLUSION_TEMPLATE, {
+    ...shared,
+    weights: {
+      label: "DLOM method weights",
+      value: weighted.length > 0 ? weighted.map(m => `${m.name} ${formatRate(m.weight)}`).join(", ") : null,
+    },
+    concludedDlom: { label: "Concluded DLOM", value: formatRate(analysis?.concludedDlom ?? context.dlom) },
+  }));
+
+  return {
+    content: parts.map(p => p.content).join("\n\n"),
+    missing: Array.from(new Set(parts.flatMap(p => p.missing))),
+  };
+}
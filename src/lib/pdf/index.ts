@@ -0,0 +1,9 @@
+// PDF exhibit parsing utilities
+export { parsePdfModel, isPdfFile } from './parsePdfModel';
+
+export { readPdfPages } from './textLayout';
+
+export { classifyPdfPages, selectPdfPages } from './pageClassifier';
+
+export type { PdfPage, PdfLine, PdfCell } from './textLayout';
+export type { PdfPageClass } from './pageClassifier';
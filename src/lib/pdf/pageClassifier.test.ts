@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import path from "path";
+import { classifyPdfPages } from "./pageClassifier";
+
+// Exhibits-only export of a 409A report bundled at the repo root
+const SAMPLE_EXHIBITS = path.join(process.cwd(), "Go Away_59-60_5-30-25_EXHIBITS ONLY.pdf");
+
+describe("classifyPdfPages on the sample exhibits PDF", () => {
+  it("tags each page with its exhibit's approach", async () => {
+    const classes = await classifyPdfPages(SAMPLE_EXHIBITS);
+
+    expect(classes.map(c => [c.pageNumber, c.approach])).toEqual([
+      [1, "conclusion"],
+      [2, null], // Balance Sheet
+      [3, null], // Common Size Balance Sheet
+      [4, null], // Income Statement
+      [5, null], // Common Size Income Statement
+      [6, null], // Capitalization & Ownership
+      [7, "gpc"],
+      [8, "gpc"],
+      [9, "gpc"],
+      [10, "gpc"],
+      [11, "gpc"],
+      [12, "gpc"],
+      [13, "gpc"],
+      [14, "gpc"],
+      [15, "gtm"],
+      [16, "gtm"],
+      [17, "gtm"],
+      [18, "gtm"],
+      [19, "backsolve"], // OPM allocation of value
+      [20, null], // Equity volatility
+      [21, "dlom"],
+    ]);
+  });
+
+  it("keeps the historical income statement out of the income approach", async () => {
+    const classes = await classifyPdfPages(SAMPLE_EXHIBITS);
+
+    expect(classes[3].exhibit).toBe("Exhibit 4 - Income Statement");
+    expect(classes.filter(c => c.approach === "income")).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * PDF Page Classifier
+ * Tags each page of an exhibits PDF with the exhibit and valuation approach it
+ * belongs to, so prompts can be sent only the pages they discuss
+ */
+
+import type { ExhibitApproach } from '@/types/excel';
+import { readPdfPages } from './textLayout';
+import { readPdfExhibits } from './parsePdfModel';
+
+/**
+ * Exhibit a PDF page belongs to
+ */
+export interface PdfPageClass {
+  pageNumber: number;
+  // Exhibit name ("Exhibit 7-B - Guideline Public Companies"), null for blank pages
+  exhibit: string | null;
+  approach: ExhibitApproach | null;
+}
+
+/**
+ * Classify every page of a PDF from its text layer
+ * Blank and scanned pages come back unclassified
+ */
+export async function classifyPdfPages(filePath: string): Promise<PdfPageClass[]> {
+  const pages = await readPdfPages(filePath);
+  const classes: PdfPageClass[] = pages.map(page => ({
+    pageNumber: page.pageNumber,
+    exhibit: null,
+    approach: null,
+  }));
+
+  for (const exhibit of readPdfExhibits(pages)) {
+    for (const pageNumber of exhibit.pageNumbers) {
+      const pageClass = classes[pageNumber - 1];
+      pageClass.exhibit = exhibit.sheetName;
+      pageClass.approach = exhibit.approach;
+    }
+  }
+
+  return classes;
+}
+
+/**
+ * Pages for the given approaches plus the valuation summary, in document order
+ * Returns null when none of the approaches has a page of its own, so the caller
+ * falls back to the whole document rather than sending only the summary
+ */
+export function selectPdfPages(
+  classes: PdfPageClass[],
+  approaches: ExhibitApproach[]
+): number[] | null {
+  const matched = classes.filter(c => c.approach !== null && approaches.includes(c.approach));
+  if (matched.length === 0) {
+    return null;
+  }
+
+  return classes
+    .filter(c => c.approach !== null && (approaches.includes(c.approach) || c.approach === 'conclusion'))
+    .map(c => c.pageNumber);
+}
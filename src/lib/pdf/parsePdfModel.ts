@@ -0,0 +1,909 @@
+/**
+ * PDF Model Parsing
+ * Reads valuation exhibits exported to PDF into the same ParsedModel the Excel parser
+ * produces: the title block, Valuation Summary approaches and conclusion, comparable
+ * company and transaction tables and the selected DLOM. Works offline from the PDF's
+ * text layer; scanned PDFs without one fall back to manual entry
+ */
+
+import type {
+  ParsedModel,
+  ExhibitData,
+  ExhibitApproach,
+  SummaryData,
+  ApproachData,
+  DetailedModelData,
+  CompanyFinancials,
+  WeightingData,
+  GuidelineCompany,
+  GuidelineTransaction,
+  AppliedMetric,
+  SheetUnits,
+} from '@/types/excel';
+import { detectSheetUnits, resolveModelCurrency } from '@/lib/excel/units';
+import { classifyExhibitApproach } from '@/lib/excel/exhibitNotes';
+import { computeMultipleRange } from '@/lib/excel/multipleAnalysis';
+import { validateModelIntegrity } from '@/lib/excel/integrity';
+import { createEmptyCompanyFinancials, createEmptyWeightingData } from '@/lib/excel/detailedExtractor';
+import { normalizeCompanyName } from '@/lib/excel/modelDiff';
+import { readPdfPages } from './textLayout';
+import type { PdfPage, PdfLine, PdfCell } from './textLayout';
+
+// Lines at the top of each page holding the company, report title, date and exhibit label
+const TITLE_BLOCK_LINES = 6;
+const EXHIBIT_LABEL = /^exhibit\s+(\d+)(?:[-.\s]?([a-z]))?$/i;
+const AS_OF_DATE = /^as\s+of\s+(.+)$/i;
+const VALUATION_DATE_LABEL = /^valuation\s+date:?$/i;
+
+// Table headers stack up to a few lines above the first row
+const MAX_HEADER_LINES = 4;
+const HEADER_LINE_GAP = 25;
+// How far (in points) a header's center may sit from the column it labels
+const HEADER_REACH = 50;
+
+// Footnotes wrap onto following lines; a wider gap ends the notes block
+const NOTE_LINE_GAP = 20;
+const NOTE_INDENT = 12;
+
+// Description paragraphs are separated by a blank line
+const PARAGRAPH_GAP = 18;
+const MIN_DESCRIPTION_LENGTH = 60;
+
+type PdfValueKind = 'amount' | 'number' | 'percent' | 'multiple';
+
+interface PdfValue {
+  value: number;
+  kind: PdfValueKind;
+}
+
+export interface PdfExhibit {
+  sheetName: string;
+  // Exhibit number without its suffix ("7" for "Exhibit 7-B")
+  number: string | null;
+  title: string;
+  // Body lines of each page, title block removed
+  pages: PdfLine[][];
+  // 1-based page numbers the exhibit spans
+  pageNumbers: number[];
+  approach: ExhibitApproach | null;
+  units: SheetUnits;
+}
+
+interface TableValue {
+  value: number | null;
+  kind: PdfValueKind | null;
+  header: string;
+}
+
+interface TableRow {
+  // Text cells before the first value: name, or date, target and buyer
+  lead: string[];
+  values: TableValue[];
+}
+
+interface SummaryApproach extends ApproachData {
+  approach: ExhibitApproach | null;
+  selectedMultiple: number | null;
+  appliedMetric: AppliedMetric | null;
+  appliedMetricValue: number | null;
+}
+
+// "$1,234", "($9,648)", "-$12,793", "31.2%", "-.3%", "2.75x", "0.609"
+const NUMBER_PATTERN = /^(\()?([-−])?\s*([$€£¥])?\s*([-−])?((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?|\.\d+)\s*(%|x)?\)?$/i;
+
+// Printed in place of a value: not meaningful, not available, column too narrow
+const PLACEHOLDER = /^(?:nm|n\/?a|--?|—|#+)$/i;
+
+const NUMERIC_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const WRITTEN_DATE = /^([a-z]{3,})\.?\s+(\d{1,2}),?\s+(\d{4})$/i;
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Valuation Summary labels
+const APPROACH_HEADING = /\b(?:approach|method)\b/i;
+const INDICATION_LABEL = /^indicat(?:ion|ed)\s+(?:of\s+)?value:?$/i;
+const WEIGHT_LABEL = /^weight(?:ing)?:?$/i;
+const CONCLUDED_LABEL = /^(?:concluded|conclusion\s+of)\b.*\bvalue\b|^total\s+equity\s+value\b/i;
+const MARKETABLE_PER_SHARE_LABEL = /^marketable\s+value\s+per\s+(?:common\s+)?share/i;
+const FAIR_PER_SHARE_LABEL = /^(?:fair|non-?marketable|minority)\s+(?:market\s+)?value\s+per\s+(?:common\s+)?share/i;
+const DLOM_LABEL = /^discount\s+for\s+lack\s+of\s+marketability:?$|^dlom:?$/i;
+const SELECTED_DLOM_LABEL = /^(?:selected|concluded|applied)\s+(?:dlom|discount)/i;
+const FOOTNOTE_REFERENCE = /\s*\[\d{1,2}\]/g;
+
+// Subject company figures shown beside the market approach calculations
+const FINANCIAL_LABELS: { field: keyof CompanyFinancials; pattern: RegExp }[] = [
+  { field: 'ltmRevenue', pattern: /^(?:ltm|ttm)\b.*\b(?:revenues?|sales)\b/i },
+  { field: 'currentYearRevenue', pattern: /^(?:cye|cy|fy)\b.*\b(?:revenues?|sales)\b/i },
+  { field: 'projectedRevenue', pattern: /^ntm\b.*\b(?:revenues?|sales)\b/i },
+  { field: 'ltmEbitda', pattern: /^(?:ltm|ttm)\b.*\bebitda\b/i },
+  { field: 'currentYearEbitda', pattern: /^(?:cye|cy|fy)\b.*\bebitda\b/i },
+  { field: 'cash', pattern: /^cash\b/i },
+  { field: 'totalDebt', pattern: /^(?:interest[-\s]bearing\s+|total\s+)?debt\b/i },
+];
+
+// Comparable table rows that aren't comparables
+const STATISTIC_LABEL = /^(?:min(?:imum)?|max(?:imum)?|average|mean|median|high|low|count|(?:first|second|third|upper|lower)\s+quartile|\d{1,2}(?:st|nd|rd|th)\s+percentile)\b/i;
+const PERIOD_LABEL = /^(?:ltm|ntm|ttm|cye|cy|fy|total|selected|applied|concluded|subject)\b/i;
+
+// Comparable table column headers
+const REVENUE_HEADER = /revenue|sales/i;
+const EBITDA_HEADER = /ebitda/i;
+const EV_HEADER = /enterprise\s+value|\bev\b|\btev\b/i;
+// "EV to Revenue", "EV / EBITDA"; amount columns never read this way
+const MULTIPLE_HEADER = /\bto\b|\//i;
+const EBITDA_EXCLUDED_HEADER = /margin|\bto\b|\//i;
+const LTM_HEADER = /latest\s+twelve|\bltm\b|\bttm\b|trailing/i;
+const OTHER_PERIOD_HEADER = /next\s+twelve|\bntm\b|forward|calendar|\bcye?\b|\bfy\b/i;
+
+const NOTE_LABEL = /^(notes?|sources?):?$/i;
+const NOTE_MARKER = /^(?:\[\d{1,2}\]|\(\d{1,2}\)|\[[^\]]{1,4}\]|\*)\s*/;
+const DESCRIPTION_TITLE = /description/i;
+
+/**
+ * Check if a file is a PDF
+ */
+export function isPdfFile(filePath: string): boolean {
+  return filePath.toLowerCase().endsWith('.pdf');
+}
+
+/**
+ * Parse a printed number, percentage or multiple
+ * Parentheses and minus signs are negative; percentages become decimals
+ */
+function parsePdfNumber(text: string): PdfValue | null {
+  const match = text.trim().match(NUMBER_PATTERN);
+  if (!match) return null;
+
+  const [, open, sign, symbol, innerSign, digits, suffix] = match;
+  const magnitude = Number(digits.replace(/,/g, ''));
+  if (!Number.isFinite(magnitude)) return null;
+
+  const value = open || sign || innerSign ? -magnitude : magnitude;
+  if (suffix === '%') return { value: value / 100, kind: 'percent' };
+  if (suffix?.toLowerCase() === 'x') return { value, kind: 'multiple' };
+  return { value, kind: symbol ? 'amount' : 'number' };
+}
+
+/**
+ * Parse "5/30/2025" or "May 30, 2025"
+ */
+function parsePdfDate(text: string): Date | null {
+  const trimmed = text.trim();
+
+  const numeric = trimmed.match(NUMERIC_DATE);
+  if (numeric) {
+    return new Date(Number(numeric[3]), Number(numeric[1]) - 1, Number(numeric[2]));
+  }
+
+  const written = trimmed.match(WRITTEN_DATE);
+  if (written) {
+    const month = MONTHS.indexOf(written[1].slice(0, 3).toLowerCase());
+    if (month >= 0) return new Date(Number(written[3]), month, Number(written[2]));
+  }
+
+  return null;
+}
+
+/**
+ * Whether a cell holds a value (or a placeholder printed in place of one)
+ */
+function isValueCell(cell: PdfCell): boolean {
+  return parsePdfNumber(cell.text) !== null || PLACEHOLDER.test(cell.text);
+}
+
+/**
+ * Most frequent entry, or null
+ */
+function mostCommon(values: string[]): string | null {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  return ranked[0]?.[0] ?? null;
+}
+
+/**
+ * Locate the "Exhibit N" label in a page's title block
+ */
+function findExhibitHeading(page: PdfPage): { lineIndex: number; label: RegExpMatchArray; title: string } | null {
+  for (let index = 0; index < Math.min(TITLE_BLOCK_LINES, page.lines.length); index++) {
+    const cells = page.lines[index].cells;
+    const labelCell = cells.find(c => EXHIBIT_LABEL.test(c.text));
+    if (labelCell) {
+      return {
+        lineIndex: index,
+        label: labelCell.text.match(EXHIBIT_LABEL) as RegExpMatchArray,
+        title: cells.filter(c => c !== labelCell).map(c => c.text).join(' '),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Group pages into exhibits by their "Exhibit N" labels
+ * Pages without a label continue the exhibit before them
+ */
+function groupExhibits(pages: PdfPage[]): PdfExhibit[] {
+  const exhibits: PdfExhibit[] = [];
+
+  for (const page of pages) {
+    if (page.lines.length === 0) continue;
+
+    const heading = findExhibitHeading(page);
+    const body = heading ? page.lines.slice(heading.lineIndex + 1) : page.lines;
+    const sheetName = heading
+      ? [heading.label[0], heading.title].filter(Boolean).join(' - ')
+      : null;
+
+    const current = exhibits[exhibits.length - 1];
+    if (current && (sheetName === null || sheetName === current.sheetName)) {
+      current.pages.push(body);
+      current.pageNumbers.push(page.pageNumber);
+      continue;
+    }
+
+    exhibits.push({
+      sheetName: sheetName ?? `Page ${page.pageNumber}`,
+      number: heading ? heading.label[1] : null,
+      title: heading?.title ?? '',
+      pages: [body],
+      pageNumbers: [page.pageNumber],
+      approach: null,
+      units: { sheet: '', scale: 1, currency: null, caption: null },
+    });
+  }
+
+  return exhibits;
+}
+
+/**
+ * Group pages into exhibits, then classify and detect units per exhibit
+ * Suffixed exhibits ("7-B") follow their parent's approach
+ */
+export function readPdfExhibits(pages: PdfPage[]): PdfExhibit[] {
+  const exhibits = groupExhibits(pages);
+
+  for (const exhibit of exhibits) {
+    const data = toExhibitData(exhibit);
+    const parent = exhibits.find(e => e.number === exhibit.number && e !== exhibit && e.approach);
+    exhibit.approach = classifyExhibitApproach(exhibit.sheetName, data) ?? parent?.approach ?? null;
+    exhibit.units = detectSheetUnits(data, exhibit.sheetName);
+  }
+
+  return exhibits;
+}
+
+/**
+ * Exhibit body as rows of cell values, the shape ExhibitData carries for Excel sheets
+ */
+function toExhibitData(exhibit: PdfExhibit): unknown[][] {
+  return exhibit.pages.flat().map(line => line.cells.map(cell => parsePdfNumber(cell.text)?.value ?? cell.text));
+}
+
+/**
+ * Read the company name and valuation date from the page title blocks
+ * Every page repeats them, so the most common reading wins
+ */
+function readTitleBlock(pages: PdfPage[], exhibits: PdfExhibit[]): { companyName: string | null; valuationDate: Date | null } {
+  const names: string[] = [];
+  const dates: string[] = [];
+
+  for (const page of pages) {
+    const heading = findExhibitHeading(page);
+    if (!heading) continue;
+
+    const titleLines = page.lines.slice(0, heading.lineIndex);
+    // The first line is the company unless the label line is the only one
+    if (titleLines.length >= 2) {
+      names.push(titleLines[0].cells.map(c => c.text).join(' '));
+    }
+    for (const line of titleLines) {
+      const asOf = line.cells[0].text.match(AS_OF_DATE);
+      if (asOf && parsePdfDate(asOf[1])) dates.push(asOf[1]);
+    }
+  }
+
+  // Exhibits without an "As of" line may state the date in a labelled cell
+  if (dates.length === 0) {
+    for (const line of exhibits.flatMap(e => e.pages.flat())) {
+      const index = line.cells.findIndex(c => VALUATION_DATE_LABEL.test(c.text));
+      const next = index >= 0 ? line.cells[index + 1]?.text : undefined;
+      if (next && parsePdfDate(next)) dates.push(next);
+    }
+  }
+
+  const date = mostCommon(dates);
+  return {
+    companyName: mostCommon(names),
+    valuationDate: date ? parsePdfDate(date) : null,
+  };
+}
+
+/**
+ * Harvest "Notes:" and "Source:" blocks, joining footnotes that wrap onto several lines
+ */
+function readExhibitNotes(lines: PdfLine[]): string[] {
+  const notes: string[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const cells = lines[index].cells;
+    const labelIndex = cells.findIndex(c => NOTE_LABEL.test(c.text));
+    if (labelIndex < 0) continue;
+
+    const label = cells[labelIndex];
+    const prefix = /^sources?/i.test(label.text) ? 'Source: ' : '';
+    const beside = cells[labelIndex + 1];
+
+    // Notes start beside the label when it's followed by a footnote or sentence,
+    // otherwise they're listed below it
+    const besideIsNote = beside && (NOTE_MARKER.test(beside.text) || /[.!?]$/.test(beside.text));
+    const column = besideIsNote ? beside.x : label.x;
+    const block: string[] = besideIsNote ? [beside.text] : [];
+
+    let previousY = lines[index].y;
+    for (let next = index + 1; next < lines.length; next++) {
+      const line = lines[next];
+      if (previousY - line.y > NOTE_LINE_GAP) break;
+      previousY = line.y;
+
+      const cell = line.cells.find(c => c.x >= column - 3 && c.x <= column + NOTE_INDENT);
+      if (!cell) continue;
+      if (NOTE_MARKER.test(cell.text) || block.length === 0) {
+        block.push(cell.text);
+      } else {
+        block[block.length - 1] = `${block[block.length - 1]} ${cell.text}`;
+      }
+    }
+
+    notes.push(...block.map(note => `${prefix}${note.replace(/\s+/g, ' ').trim()}`));
+  }
+
+  return Array.from(new Set(notes));
+}
+
+/**
+ * First value after a label matching the pattern, on any line
+ */
+function findLabeledValue(lines: PdfLine[], pattern: RegExp, kinds?: PdfValueKind[]): PdfValue | null {
+  for (const line of lines) {
+    for (let index = 0; index < line.cells.length; index++) {
+      if (!pattern.test(line.cells[index].text)) continue;
+      for (const cell of line.cells.slice(index + 1)) {
+        const parsed = parsePdfNumber(cell.text);
+        if (parsed && (!kinds || kinds.includes(parsed.kind))) return parsed;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the approach blocks on the Valuation Summary: each starts with an approach
+ * heading and carries its indication, weighting and the selected multiple row
+ */
+function readSummaryApproaches(lines: PdfLine[], scale: number): SummaryApproach[] {
+  const blocks: { name: string; lines: PdfLine[] }[] = [];
+
+  for (const line of lines) {
+    const first = line.cells[0]?.text ?? '';
+    const isHeading = APPROACH_HEADING.test(first)
+      && !NOTE_LABEL.test(first)
+      && !NOTE_MARKER.test(first)
+      && first.length <= 100;
+
+    if (isHeading) {
+      blocks.push({ name: first.replace(FOOTNOTE_REFERENCE, '').trim(), lines: [line] });
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  }
+
+  return blocks.flatMap(block => {
+    const indication = findLabeledValue(block.lines, INDICATION_LABEL, ['amount', 'number']);
+    const weight = findLabeledValue(block.lines, WEIGHT_LABEL, ['percent']);
+    if (!indication && !weight) return [];
+
+    // The selected multiple sits on the row of the metric it's applied to
+    let selectedMultiple: number | null = null;
+    let appliedMetric: AppliedMetric | null = null;
+    let appliedMetricValue: number | null = null;
+
+    for (const line of block.lines) {
+      const multipleIndex = line.cells.findIndex(c => parsePdfNumber(c.text)?.kind === 'multiple');
+      if (multipleIndex < 0) continue;
+
+      const label = line.cells[0].text;
+      selectedMultiple = parsePdfNumber(line.cells[multipleIndex].text)?.value ?? null;
+      appliedMetric = EBITDA_HEADER.test(label) ? 'ebitda'
+        : /gross\s+profit/i.test(label) ? 'grossProfit'
+          : REVENUE_HEADER.test(label) ? 'revenue'
+            : null;
+      const metric = line.cells.slice(1, multipleIndex).reverse()
+        .map(c => parsePdfNumber(c.text))
+        .find(v => v?.kind === 'amount' || v?.kind === 'number');
+      appliedMetricValue = metric ? metric.value * scale : null;
+      break;
+    }
+
+    return [{
+      name: block.name,
+      indicatedValue: indication ? indication.value * scale : null,
+      weight: weight?.value ?? null,
+      approach: classifyExhibitApproach(block.name),
+      selectedMultiple,
+      appliedMetric,
+      appliedMetricValue,
+    }];
+  });
+}
+
+/**
+ * Read the subject company's figures listed on the Valuation Summary
+ * Labels repeat across approach blocks; the first occurrence is used
+ */
+function readCompanyFinancials(lines: PdfLine[], scale: number): CompanyFinancials {
+  const financials = createEmptyCompanyFinancials();
+
+  for (const line of lines) {
+    const labelIndex = line.cells.findIndex(c => !isValueCell(c));
+    if (labelIndex < 0) continue;
+
+    const label = line.cells[labelIndex].text;
+    const entry = FINANCIAL_LABELS.find(f => f.pattern.test(label));
+    if (!entry || financials[entry.field] !== null) continue;
+
+    const value = parsePdfNumber(line.cells[labelIndex + 1]?.text ?? '');
+    if (value && (value.kind === 'amount' || value.kind === 'number')) {
+      financials[entry.field] = value.value * scale;
+    }
+  }
+
+  return financials;
+}
+
+/**
+ * Label for a value cell: the nearest header cell on each stacked header line
+ */
+function columnHeader(cell: PdfCell, headers: PdfLine[]): string {
+  const center = (cell.x + cell.right) / 2;
+
+  return headers.flatMap(line => {
+    const nearest = line.cells
+      .map(h => ({ text: h.text, distance: Math.abs((h.x + h.right) / 2 - center) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    return nearest && nearest.distance <= HEADER_REACH ? [nearest.text] : [];
+  }).join(' ');
+}
+
+/**
+ * Split a line into its leading text cells and value cells; null for lines that
+ * aren't table rows (no leading text, or fewer than two values)
+ */
+function splitRow(line: PdfLine): { lead: PdfCell[]; values: PdfCell[] } | null {
+  const firstValue = line.cells.findIndex(isValueCell);
+  if (firstValue <= 0) return null;
+
+  const values = line.cells.slice(firstValue).filter(isValueCell);
+  return values.length >= 2 ? { lead: line.cells.slice(0, firstValue), values } : null;
+}
+
+/**
+ * Read a page's tables as rows of header-labelled values
+ * A table is a run of rows with values; its headers are the text lines stacked above it
+ */
+function readTables(lines: PdfLine[]): TableRow[][] {
+  const tables: TableRow[][] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (!splitRow(lines[index])) {
+      index++;
+      continue;
+    }
+
+    const headers: PdfLine[] = [];
+    for (let above = index - 1; above >= 0 && headers.length < MAX_HEADER_LINES; above--) {
+      const line = lines[above];
+      const below = headers[0] ?? lines[index];
+      if (line.y - below.y > HEADER_LINE_GAP || line.cells.some(isValueCell)) break;
+      headers.unshift(line);
+    }
+
+    const rows: TableRow[] = [];
+    for (let split = splitRow(lines[index]); split; split = splitRow(lines[++index] ?? { y: 0, cells: [] })) {
+      rows.push({
+        lead: split.lead.map(c => c.text),
+        values: split.values.map(cell => {
+          const parsed = parsePdfNumber(cell.text);
+          return { value: parsed?.value ?? null, kind: parsed?.kind ?? null, header: columnHeader(cell, headers) };
+        }),
+      });
+    }
+    tables.push(rows);
+  }
+
+  return tables;
+}
+
+/**
+ * Pick a row's value from the column whose header matches, preferring the LTM column
+ * Placeholders ("nm", "NA") in the chosen column give null
+ */
+function pickValue(row: TableRow, kinds: PdfValueKind[], header: RegExp, exclude?: RegExp): number | null | undefined {
+  const candidates = row.values.filter(v =>
+    (v.kind === null || kinds.includes(v.kind))
+    && header.test(v.header)
+    && !(exclude && exclude.test(v.header))
+  );
+
+  const chosen = candidates.find(v => LTM_HEADER.test(v.header))
+    ?? candidates.find(v => !OTHER_PERIOD_HEADER.test(v.header))
+    ?? candidates[0];
+  return chosen ? chosen.value : undefined;
+}
+
+/**
+ * Multiples outside a sensible range are treated as not meaningful, as in the Excel extractor
+ */
+function toMultiple(value: number | null | undefined): number | null {
+  return typeof value === 'number' && value > 0 && value < 100 ? Math.round(value * 100) / 100 : null;
+}
+
+/**
+ * Whether a table row's label names a comparable rather than a statistic or period
+ */
+function isComparableName(text: string): boolean {
+  return /[a-z]{2}/i.test(text)
+    && !STATISTIC_LABEL.test(text)
+    && !PERIOD_LABEL.test(text)
+    && !NOTE_MARKER.test(text)
+    && parsePdfDate(text) === null;
+}
+
+/**
+ * Scale an amount to whole currency units
+ */
+function scaled(value: number | null | undefined, scale: number): number | null {
+  return typeof value === 'number' ? value * scale : null;
+}
+
+/**
+ * Read guideline public companies from the GPC exhibits' tables
+ * Fundamentals and multiples tables list the same companies; rows are merged by name
+ */
+function readGuidelineCompanies(exhibits: PdfExhibit[]): GuidelineCompany[] {
+  const companies = new Map<string, GuidelineCompany>();
+
+  for (const exhibit of exhibits) {
+    for (const row of exhibit.pages.flatMap(readTables).flat()) {
+      const name = row.lead[0];
+      if (row.lead.length !== 1 || !isComparableName(name)) continue;
+
+      const key = normalizeCompanyName(name);
+      const company = companies.get(key) ?? {
+        name,
+        ticker: null,
+        description: null,
+        revenueMultiple: null,
+        ebitdaMultiple: null,
+        grossProfitMultiple: null,
+        revenue: null,
+        ebitda: null,
+        marketCap: null,
+        enterpriseValue: null,
+      };
+
+      const scale = exhibit.units.scale;
+      company.revenueMultiple ??= toMultiple(pickValue(row, ['multiple'], REVENUE_HEADER));
+      company.ebitdaMultiple ??= toMultiple(pickValue(row, ['multiple'], EBITDA_HEADER, /margin/i));
+      company.enterpriseValue ??= scaled(pickValue(row, ['amount', 'number'], EV_HEADER, MULTIPLE_HEADER), scale);
+      company.revenue ??= scaled(pickValue(row, ['amount', 'number'], REVENUE_HEADER, MULTIPLE_HEADER), scale);
+      company.ebitda ??= scaled(pickValue(row, ['amount', 'number'], EBITDA_HEADER, EBITDA_EXCLUDED_HEADER), scale);
+      companies.set(key, company);
+    }
+  }
+
+  // Rows from tables unrelated to the comparables (no figures read) are dropped
+  return Array.from(companies.values()).filter(c =>
+    [c.revenueMultiple, c.ebitdaMultiple, c.enterpriseValue, c.revenue, c.ebitda].some(v => v !== null)
+  );
+}
+
+/**
+ * Read guideline transactions from the GTM exhibits' tables
+ * Rows lead with the closing date, target and buyer; tables are merged by target and date
+ */
+function readGuidelineTransactions(exhibits: PdfExhibit[]): GuidelineTransaction[] {
+  const transactions = new Map<string, GuidelineTransaction>();
+
+  for (const exhibit of exhibits) {
+    for (const row of exhibit.pages.flatMap(readTables).flat()) {
+      const dateIndex = row.lead.findIndex(text => parsePdfDate(text) !== null);
+      const names = row.lead.filter((_, index) => index !== dateIndex);
+      if (names.length === 0 || !isComparableName(names[0])) continue;
+
+      const transactionDate = dateIndex >= 0 ? parsePdfDate(row.lead[dateIndex]) : null;
+      const key = `${normalizeCompanyName(names[0])}|${transactionDate?.toISOString() ?? ''}`;
+      const transaction = transactions.get(key) ?? {
+        targetName: names[0],
+        acquirerName: names[1] ?? null,
+        transactionDate,
+        dealValue: null,
+        revenueMultiple: null,
+        ebitdaMultiple: null,
+        targetRevenue: null,
+        targetEbitda: null,
+        description: null,
+      };
+
+      const scale = exhibit.units.scale;
+      transaction.revenueMultiple ??= toMultiple(pickValue(row, ['multiple'], REVENUE_HEADER));
+      transaction.ebitdaMultiple ??= toMultiple(pickValue(row, ['multiple'], EBITDA_HEADER, /margin/i));
+      transaction.dealValue ??= scaled(pickValue(row, ['amount', 'number'], EV_HEADER, MULTIPLE_HEADER), scale);
+      transaction.targetRevenue ??= scaled(pickValue(row, ['amount', 'number'], REVENUE_HEADER, MULTIPLE_HEADER), scale);
+      transaction.targetEbitda ??= scaled(pickValue(row, ['amount', 'number'], EBITDA_HEADER, EBITDA_EXCLUDED_HEADER), scale);
+      transactions.set(key, transaction);
+    }
+  }
+
+  return Array.from(transactions.values()).filter(t =>
+    [t.revenueMultiple, t.ebitdaMultiple, t.dealValue, t.targetRevenue, t.targetEbitda].some(v => v !== null)
+  );
+}
+
+/**
+ * Read business descriptions from a description exhibit: paragraphs in a wide text
+ * column, each with the company name beside it
+ */
+function readDescriptions(lines: PdfLine[]): Map<string, string> {
+  const descriptions = new Map<string, string>();
+
+  const textColumn = mostCommon(lines
+    .map(line => line.cells[line.cells.length - 1])
+    .filter(cell => cell.text.length >= MIN_DESCRIPTION_LENGTH)
+    .map(cell => String(Math.round(cell.x))));
+  if (textColumn === null) return descriptions;
+
+  const textX = Number(textColumn) - 2;
+  const paragraphs: { top: number; bottom: number; parts: string[] }[] = [];
+  const names: { y: number; text: string }[] = [];
+
+  for (const line of lines) {
+    for (const cell of line.cells) {
+      if (cell.x >= textX) {
+        const current = paragraphs[paragraphs.length - 1];
+        if (current && current.bottom - line.y <= PARAGRAPH_GAP) {
+          current.parts.push(cell.text);
+          current.bottom = line.y;
+        } else {
+          paragraphs.push({ top: line.y, bottom: line.y, parts: [cell.text] });
+        }
+      } else if (cell.right < textX) {
+        names.push({ y: line.y, text: cell.text });
+      }
+    }
+  }
+
+  for (const paragraph of paragraphs) {
+    const name = names.find(n => n.y <= paragraph.top + 4 && n.y >= paragraph.bottom - 4);
+    if (name) {
+      descriptions.set(normalizeCompanyName(name.text), paragraph.parts.join(' ').replace(/\s+/g, ' '));
+    }
+  }
+
+  return descriptions;
+}
+
+/**
+ * Parse a PDF of valuation exhibits into a ParsedModel
+ * Mirrors parseValuationModel's errors and warnings; provenance isn't recorded as PDF
+ * positions don't map to cells
+ */
+export async function parsePdfModel(filePath: string): Promise<ParsedModel> {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let companyName: string | null = null;
+  let valuationDate: Date | null = null;
+  let exhibits: ExhibitData[] = [];
+  let summary: SummaryData | null = null;
+  let dlom: number | null = null;
+  let detailedData: DetailedModelData | undefined = undefined;
+  let currency: string | undefined = undefined;
+  let sheetUnits: SheetUnits[] = [];
+
+  try {
+    const pages = await readPdfPages(filePath);
+
+    if (pages.every(page => page.lines.length === 0)) {
+      warnings.push('PDF has no text layer (it may be scanned) - please enter company name, valuation date and approaches manually');
+      return {
+        companyName, valuationDate, exhibits, summary, dlom, errors, warnings,
+        provenance: {}, integrityChecks: [], sheetUnits, healthFindings: [],
+      };
+    }
+
+    const pdfExhibits = readPdfExhibits(pages);
+
+    const summaryExhibit = pdfExhibits.find(e => e.approach === 'conclusion')
+      ?? pdfExhibits.find(e => /summary|conclusion/i.test(e.title));
+
+    // Comparable exhibits restate the summary's calculations, so an exhibit without a
+    // caption of its own is stated in the summary's units
+    for (const exhibit of pdfExhibits) {
+      if (summaryExhibit && exhibit.units.caption === null && (exhibit.approach === 'gpc' || exhibit.approach === 'gtm')) {
+        exhibit.units = { ...summaryExhibit.units, sheet: exhibit.sheetName, currency: null };
+      }
+    }
+
+    sheetUnits = pdfExhibits.map(e => e.units);
+    const resolved = resolveModelCurrency(sheetUnits);
+    currency = resolved.currency;
+    if (resolved.conflicts.length > 0) {
+      warnings.push(`Multiple currencies found in model: ${resolved.conflicts.join('; ')}. Amounts are reported in ${currency}`);
+    }
+
+    exhibits = pdfExhibits.map(exhibit => ({
+      sheetName: exhibit.sheetName,
+      data: toExhibitData(exhibit),
+      notes: DESCRIPTION_TITLE.test(exhibit.title) ? [] : exhibit.pages.flatMap(readExhibitNotes),
+      approach: exhibit.approach,
+    }));
+    console.log(`Found ${exhibits.length} PDF exhibits:`, exhibits.map(e => e.sheetName));
+
+    const titleBlock = readTitleBlock(pages, pdfExhibits);
+    companyName = titleBlock.companyName;
+    valuationDate = titleBlock.valuationDate;
+    if (!companyName) {
+      warnings.push('Company name not found in the exhibit title block');
+    }
+    if (!valuationDate) {
+      warnings.push('Valuation date not found in the exhibit title block');
+    }
+
+    // Valuation Summary: approaches, conclusion, per-share values and DLOM
+    const missingData: string[] = [];
+    const summaryLines = summaryExhibit?.pages.flat() ?? [];
+    const scale = summaryExhibit?.units.scale ?? 1;
+    const approaches = readSummaryApproaches(summaryLines, scale);
+    const concluded = findLabeledValue(summaryLines, CONCLUDED_LABEL, ['amount', 'number']);
+
+    if (!summaryExhibit) {
+      warnings.push('Valuation Summary exhibit not found');
+      missingData.push('Valuation summary sheet not found');
+    } else {
+      summary = {
+        approaches: approaches.map(({ name, indicatedValue, weight }) => ({ name, indicatedValue, weight })),
+        concludedValue: concluded ? concluded.value * scale : null,
+      };
+      if (summary.approaches.length === 0) {
+        warnings.push('No valuation approaches found in Summary');
+        missingData.push('No valuation approach weightings found');
+      }
+      if (summary.concludedValue === null) {
+        warnings.push('Concluded value not found in Summary');
+      }
+    }
+
+    const dlomExhibits = pdfExhibits.filter(e => e.approach === 'dlom');
+    const selectedDlom = findLabeledValue(dlomExhibits.flatMap(e => e.pages.flat()), SELECTED_DLOM_LABEL, ['percent']);
+    dlom = findLabeledValue(summaryLines, DLOM_LABEL, ['percent'])?.value ?? selectedDlom?.value ?? null;
+    if (dlom === null) {
+      warnings.push('DLOM not found in exhibits');
+    }
+
+    const weightingData: WeightingData = {
+      ...createEmptyWeightingData(),
+      approaches: approaches
+        .filter(a => a.indicatedValue !== null && a.weight !== null)
+        .map(a => ({
+          name: a.name,
+          indicatedValue: a.indicatedValue as number,
+          weight: a.weight as number,
+          weightedValue: (a.indicatedValue as number) * (a.weight as number),
+        })),
+      concludedEquityValue: summary?.concludedValue ?? null,
+      dlomPercentage: dlom,
+      perShareValue: findLabeledValue(summaryLines, MARKETABLE_PER_SHARE_LABEL, ['amount', 'number'])?.value ?? null,
+      perShareValueAfterDlom: findLabeledValue(summaryLines, FAIR_PER_SHARE_LABEL, ['amount', 'number'])?.value ?? null,
+    };
+
+    // Comparables, with business descriptions from the description exhibits
+    const descriptions = new Map<string, string>();
+    for (const exhibit of pdfExhibits.filter(e => DESCRIPTION_TITLE.test(e.title))) {
+      for (const lines of exhibit.pages) {
+        readDescriptions(lines).forEach((text, key) => descriptions.set(key, text));
+      }
+    }
+
+    const gpcExhibits = pdfExhibits.filter(e => e.approach === 'gpc' && !DESCRIPTION_TITLE.test(e.title));
+    const gtmExhibits = pdfExhibits.filter(e => e.approach === 'gtm' && !DESCRIPTION_TITLE.test(e.title));
+
+    const guidelinePublicCompanies = readGuidelineCompanies(gpcExhibits);
+    for (const company of guidelinePublicCompanies) {
+      company.description = descriptions.get(normalizeCompanyName(company.name)) ?? null;
+    }
+    const guidelineTransactions = readGuidelineTransactions(gtmExhibits);
+    for (const transaction of guidelineTransactions) {
+      transaction.description = descriptions.get(normalizeCompanyName(transaction.targetName)) ?? null;
+    }
+
+    if (gpcExhibits.length > 0 && guidelinePublicCompanies.length === 0) {
+      missingData.push('No guideline public companies extracted');
+    }
+    if (gtmExhibits.length > 0 && guidelineTransactions.length === 0) {
+      missingData.push('No guideline transactions extracted');
+    }
+
+    const companyFinancials = readCompanyFinancials(summaryLines, scale);
+    if (companyFinancials.ltmRevenue === null && companyFinancials.currentYearRevenue === null) {
+      missingData.push('Subject company revenue not found');
+    }
+
+    const gpcApproach = approaches.find(a => a.approach === 'gpc');
+    const gtmApproach = approaches.find(a => a.approach === 'gtm');
+
+    detailedData = {
+      companyFinancials,
+      guidelinePublicCompanies,
+      guidelineTransactions,
+      incomeApproachData: null,
+      backsolveData: null,
+      weightingData: weightingData.approaches.length > 0 || weightingData.concludedEquityValue !== null ? weightingData : null,
+      capTable: null,
+      equityBridge: null,
+      pwermData: null,
+      dlomAnalysis: dlomExhibits.length > 0 ? { methods: [], concludedDlom: selectedDlom?.value ?? null } : null,
+      gpcAnalysis: guidelinePublicCompanies.length > 0 ? {
+        companies: guidelinePublicCompanies,
+        revenueMultipleRange: computeMultipleRange(guidelinePublicCompanies.map(c => c.revenueMultiple)),
+        ebitdaMultipleRange: computeMultipleRange(guidelinePublicCompanies.map(c => c.ebitdaMultiple)),
+        selectedRevenueMultiple: gpcApproach?.appliedMetric === 'revenue' ? gpcApproach.selectedMultiple : null,
+        selectedEbitdaMultiple: gpcApproach?.appliedMetric === 'ebitda' ? gpcApproach.selectedMultiple : null,
+        indicatedValue: gpcApproach?.indicatedValue ?? null,
+        appliedMetric: gpcApproach?.appliedMetric ?? null,
+        appliedMetricValue: gpcApproach?.appliedMetricValue ?? null,
+      } : null,
+      transactionAnalysis: guidelineTransactions.length > 0 ? {
+        transactions: guidelineTransactions,
+        revenueMultipleRange: computeMultipleRange(guidelineTransactions.map(t => t.revenueMultiple)),
+        ebitdaMultipleRange: computeMultipleRange(guidelineTransactions.map(t => t.ebitdaMultiple)),
+        selectedRevenueMultiple: gtmApproach?.appliedMetric === 'revenue' ? gtmApproach.selectedMultiple : null,
+        selectedEbitdaMultiple: gtmApproach?.appliedMetric === 'ebitda' ? gtmApproach.selectedMultiple : null,
+        indicatedValue: gtmApproach?.indicatedValue ?? null,
+        appliedMetric: gtmApproach?.appliedMetric === 'grossProfit' ? null : gtmApproach?.appliedMetric ?? null,
+        appliedMetricValue: gtmApproach?.appliedMetricValue ?? null,
+      } : null,
+      missingData,
+      provenance: {},
+    };
+
+    missingData.forEach(item => warnings.push(`[AI Data] ${item}`));
+    console.log('PDF extraction summary:', {
+      approaches: approaches.length,
+      gpcCount: guidelinePublicCompanies.length,
+      transactionCount: guidelineTransactions.length,
+    });
+  } catch (error) {
+    errors.push(`Failed to read PDF: ${error}`);
+  }
+
+  // Reconcile the model's own arithmetic
+  const integrityChecks = validateModelIntegrity({ summary, detailedData, dlom, currency });
+
+  return {
+    companyName,
+    valuationDate,
+    exhibits,
+    summary,
+    dlom,
+    errors,
+    warnings,
+    detailedData,
+    mappingProfile: null,
+    provenance: {},
+    integrityChecks,
+    currency,
+    sheetUnits,
+    healthFindings: [],
+  };
+}
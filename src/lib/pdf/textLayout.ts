@@ -0,0 +1,135 @@
+/**
+ * PDF Text Layout
+ * Reads the text layer of a PDF with pdf.js and rebuilds each page as lines of
+ * positioned cells, so exhibit tables can be read by label and column position
+ */
+
+import { readFile } from 'fs/promises';
+
+/**
+ * A run of text on one line; x and right are in PDF points from the left edge
+ */
+export interface PdfCell {
+  text: string;
+  x: number;
+  right: number;
+}
+
+/**
+ * Cells sharing a baseline, left to right
+ */
+export interface PdfLine {
+  y: number;
+  cells: PdfCell[];
+}
+
+/**
+ * A page's lines, top to bottom
+ */
+export interface PdfPage {
+  pageNumber: number;
+  lines: PdfLine[];
+}
+
+// Text items closer than this fraction of the font size belong to the same cell
+const CELL_GAP_RATIO = 0.35;
+// Gaps wider than this fraction of the font size are a space between words
+const WORD_GAP_RATIO = 0.1;
+// Baselines within this fraction of the font size are the same line
+const LINE_TOLERANCE_RATIO = 0.5;
+
+interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+/**
+ * Group text runs into lines, then merge adjacent runs into cells
+ */
+function layoutRuns(runs: TextRun[]): PdfLine[] {
+  const sorted = [...runs].sort((a, b) => b.y - a.y || a.x - b.x);
+  const grouped: { y: number; fontSize: number; runs: TextRun[] }[] = [];
+
+  for (const run of sorted) {
+    const line = grouped[grouped.length - 1];
+    if (line && Math.abs(line.y - run.y) <= Math.max(line.fontSize, run.fontSize) * LINE_TOLERANCE_RATIO) {
+      line.runs.push(run);
+    } else {
+      grouped.push({ y: run.y, fontSize: run.fontSize, runs: [run] });
+    }
+  }
+
+  return grouped.map(line => {
+    const cells: PdfCell[] = [];
+    let fontSize = 0;
+
+    for (const run of line.runs.sort((a, b) => a.x - b.x)) {
+      const previous = cells[cells.length - 1];
+      const gap = previous ? run.x - previous.right : Infinity;
+
+      if (previous && gap <= Math.max(fontSize, run.fontSize) * CELL_GAP_RATIO) {
+        const space = gap > run.fontSize * WORD_GAP_RATIO ? ' ' : '';
+        previous.text = `${previous.text}${space}${run.text}`;
+        previous.right = Math.max(previous.right, run.x + run.width);
+      } else {
+        cells.push({ text: run.text, x: run.x, right: run.x + run.width });
+      }
+      fontSize = run.fontSize;
+    }
+
+    return {
+      y: line.y,
+      cells: cells.map(c => ({ ...c, text: c.text.replace(/\s+/g, ' ').trim() })).filter(c => c.text),
+    };
+  }).filter(line => line.cells.length > 0);
+}
+
+/**
+ * Read every page of a PDF as positioned text lines
+ * Scanned PDFs without a text layer come back with empty pages
+ */
+export async function readPdfPages(filePath: string): Promise<PdfPage[]> {
+  // pdf.js is ESM-only and only needed for PDF uploads
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  const data = new Uint8Array(await readFile(filePath));
+  const document = await getDocument({
+    data,
+    isEvalSupported: false,
+    disableFontFace: true,
+    useSystemFonts: false,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const pages: PdfPage[] = [];
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const runs: TextRun[] = [];
+
+      for (const item of content.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        const [scaleX, , , scaleY, x, y] = item.transform as number[];
+        runs.push({
+          text: item.str,
+          x,
+          y,
+          width: item.width,
+          fontSize: Math.abs(scaleY) || Math.abs(scaleX) || 1,
+        });
+      }
+
+      pages.push({ pageNumber, lines: layoutRuns(runs) });
+      page.cleanup();
+    }
+
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+}
@@ -9,6 +9,7 @@ import {
   buildCompanyResearchPrompt,
   buildCompanyOverviewPrompt,
 } from "@/lib/ai/prompts/companyResearch";
+import { companyResearchSchema } from "./schemas";
 import type {
   CompanyResearch,
   ParsedCompanyResearch,
@@ -20,21 +21,24 @@ import type {
  * 
  * @param companyName - The name of the company to research
  * @param additionalContext - Optional context from voice transcript or other sources
+ * @param styleReference - Optional example passages the description should read like
  * @returns Structured company research data
  */
 export async function researchCompany(
   companyName: string,
-  additionalContext?: string
+  additionalContext?: string,
+  styleReference?: string
 ): Promise<CompanyResearch> {
   console.log(`Researching company: ${companyName}`);
 
-  const prompt = buildCompanyResearchPrompt(companyName, additionalContext);
+  const prompt = buildCompanyResearchPrompt(companyName, additionalContext, styleReference);
 
   try {
     // Get structured research from AI
     const parsed = await generateJSON<ParsedCompanyResearch>(
       prompt,
-      COMPANY_RESEARCH_SYSTEM_PROMPT
+      COMPANY_RESEARCH_SYSTEM_PROMPT,
+      companyResearchSchema
     );
 
     // Parse and validate the response
@@ -42,7 +46,7 @@ export async function researchCompany(
   } catch (error) {
     console.error("Failed to get structured company research:", error);
 
-    // Fallback: try to get unstructured response
+    // Fallback once repair attempts are exhausted: try to get unstructured response
     try {
       const textResponse = await generateText(prompt, {
         systemPrompt: COMPANY_RESEARCH_SYSTEM_PROMPT,
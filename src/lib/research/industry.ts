@@ -9,51 +9,37 @@ import {
   buildIndustryResearchPrompt,
   buildIndustryOverviewPrompt,
 } from "@/lib/ai/prompts/industryResearch";
+import { industryResearchSchema } from "./schemas";
 import type {
   IndustryResearch,
+  ParsedIndustryResearch,
   Citation,
   ResearchConfidence,
 } from "@/types/research";
 
-/**
- * Raw parsed industry research from AI
- */
-interface ParsedIndustryResearch {
-  industryName?: string;
-  overview?: string;
-  marketSize?: string;
-  growthRate?: string;
-  keyDrivers?: string[];
-  competitiveLandscape?: string;
-  regulatoryEnvironment?: string;
-  recentTrends?: string[];
-  majorPlayers?: string[];
-  outlook?: string;
-  headwinds?: string[];
-  tailwinds?: string[];
-  citations?: Array<{ text: string; source: string }>;
-}
-
 /**
  * Research an industry using AI
  * 
  * @param industry - The name of the industry to research
  * @param companyContext - Optional context about the company being valued
+ * @param styleReference - Optional example passages the overview should read like
  * @returns Structured industry research data
  */
 export async function researchIndustry(
   industry: string,
-  companyContext?: string
+  companyContext?: string,
+  styleReference?: string
 ): Promise<IndustryResearch> {
   console.log(`Researching industry: ${industry}`);
 
-  const prompt = buildIndustryResearchPrompt(industry, companyContext);
+  const prompt = buildIndustryResearchPrompt(industry, companyContext, styleReference);
 
   try {
     // Get structured research from AI
     const parsed = await generateJSON<ParsedIndustryResearch>(
       prompt,
-      INDUSTRY_RESEARCH_SYSTEM_PROMPT
+      INDUSTRY_RESEARCH_SYSTEM_PROMPT,
+      industryResearchSchema
     );
 
     // Parse and validate the response
@@ -61,7 +47,7 @@ export async function researchIndustry(
   } catch (error) {
     console.error("Failed to get structured industry research:", error);
 
-    // Fallback: try to get unstructured response
+    // Fallback once repair attempts are exhausted: try to get unstructured response
     try {
       const textResponse = await generateText(
         buildIndustryOverviewPrompt(industry, companyContext),
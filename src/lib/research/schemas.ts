@@ -0,0 +1,74 @@
+/**
+ * Research Response Schemas
+ * Runtime validation of the JSON the research prompts ask for. Error messages
+ * are written for the model: they are sent back to it when a response is repaired
+ */
+
+import { z } from "zod";
+import type { ParsedCompanyResearch, ParsedIndustryResearch } from "@/types/research";
+
+const text = z
+  .string({ required_error: "is required", invalid_type_error: "must be a string" })
+  .trim()
+  .min(1, "must not be empty");
+
+const textList = z.array(text, { required_error: "is required", invalid_type_error: "must be an array of strings" });
+
+/**
+ * Prose field expected to run to at least `minLength` characters
+ */
+function prose(minLength: number, description: string) {
+  return z
+    .string({ required_error: "is required", invalid_type_error: "must be a string" })
+    .trim()
+    .min(minLength, `must be ${description} (at least ${minLength} characters)`);
+}
+
+// "High", "high - well documented" and the like all read as high
+const confidence = z
+  .string({ required_error: "is required", invalid_type_error: "must be a string" })
+  .transform((value, ctx) => {
+    const match = value.match(/\b(high|medium|low)\b/i);
+    if (!match) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be "high", "medium" or "low"' });
+      return z.NEVER;
+    }
+    return match[1].toLowerCase();
+  });
+
+const citation = z.object({
+  text,
+  source: text,
+});
+
+export const companyResearchSchema: z.ZodType<ParsedCompanyResearch, z.ZodTypeDef, unknown> = z.object({
+  companyDescription: prose(50, "a full description of the company"),
+  businessModel: text,
+  products: textList,
+  revenueStreams: text,
+  targetMarket: text,
+  competitivePosition: text,
+  recentDevelopments: text,
+  keyFacts: textList,
+  industry: text,
+  confidence,
+});
+
+export const industryResearchSchema: z.ZodType<ParsedIndustryResearch, z.ZodTypeDef, unknown> = z.object({
+  industryName: text,
+  overview: prose(50, "a 2-3 paragraph overview of the industry"),
+  marketSize: text,
+  growthRate: text,
+  keyDrivers: textList.min(1, "must list at least one driver"),
+  competitiveLandscape: text,
+  regulatoryEnvironment: text,
+  recentTrends: textList,
+  majorPlayers: textList,
+  outlook: text,
+  headwinds: textList.optional(),
+  tailwinds: textList.optional(),
+  citations: z.array(citation, {
+    required_error: "is required",
+    invalid_type_error: "must be an array of { text, source } objects",
+  }),
+});
@@ -54,6 +54,11 @@ export async function cleanupExpiredFiles(): Promise<CleanupResult> {
           result.filesDeleted++;
         }
 
+        if (engagement.exhibitsFilePath) {
+          await deleteFile(engagement.exhibitsFilePath);
+          result.filesDeleted++;
+        }
+
         // Delete reports from database
         await prisma.generatedReport.deleteMany({
           where: {
@@ -0,0 +1,121 @@
+/**
+ * Style Example Extraction
+ * Reads an uploaded example report with mammoth and splits it into the report
+ * sections prompts ask for, keeping only prose paragraphs
+ */
+
+import { readFile, stat } from "fs/promises";
+import mammoth from "mammoth";
+import type { StyleSection, StyleSectionKey } from "@/types/style";
+
+// Headings that open each section, matched against the heading text
+const SECTION_HEADINGS: [StyleSectionKey, RegExp][] = [
+  ["companyOverview", /\b(company|business)\s+(overview|background|description|history)\b|\b(overview|description)\s+of\s+the\s+(company|business)\b/i],
+  ["industryOutlook", /\bindustry\s+(overview|outlook|analysis|background)\b/i],
+  ["guidelinePublicCompany", /\bguideline\s+public\s+compan|\bpublic\s+company\s+method\b/i],
+  ["guidelineTransaction", /\bguideline\s+transaction|\btransaction\s+method\b|\bm&a\s+transaction|\bprecedent\s+transaction/i],
+  ["incomeApproach", /\bdiscounted\s+cash\s+flow|\bincome\s+approach\b|\bdcf\b/i],
+  ["conclusion", /\bconclusion\b|\breconciliation\b|\bweighting\s+of\b|\bconcluded\s+value\b/i],
+];
+
+// Bold paragraphs longer than this are emphasis, not headings
+const MAX_HEADING_LENGTH = 100;
+// Bold-only paragraphs rank below every Word heading level
+const BOLD_HEADING_LEVEL = 7;
+
+interface Block {
+  kind: "heading" | "paragraph";
+  text: string;
+  level: number;
+}
+
+// Cache keyed by file path; an example is re-read only when its file changes
+const sectionCache = new Map<string, { modifiedAt: number; sections: StyleSection[] }>();
+
+/**
+ * Sections of an example report, in document order
+ * A section runs from its heading to the next heading at the same level or above;
+ * headings that match no section end the current one the same way
+ */
+export async function extractStyleSections(filePath: string): Promise<StyleSection[]> {
+  const { mtimeMs } = await stat(filePath);
+  const cached = sectionCache.get(filePath);
+  if (cached && cached.modifiedAt === mtimeMs) {
+    return cached.sections;
+  }
+
+  const buffer = await readFile(filePath);
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+
+  const sections: StyleSection[] = [];
+  let current: { section: StyleSection; level: number } | null = null;
+
+  for (const block of readBlocks(html)) {
+    if (block.kind === "heading") {
+      const key = matchSection(block.text);
+      if (key) {
+        current = { section: { key, heading: block.text, paragraphs: [] }, level: block.level };
+        sections.push(current.section);
+      } else if (current && block.level <= current.level) {
+        current = null;
+      }
+      continue;
+    }
+
+    current?.section.paragraphs.push(block.text);
+  }
+
+  const found = sections.filter(section => section.paragraphs.length > 0);
+  sectionCache.set(filePath, { modifiedAt: mtimeMs, sections: found });
+  return found;
+}
+
+/**
+ * Section a heading opens, if any
+ */
+export function matchSection(heading: string): StyleSectionKey | null {
+  const match = SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading));
+  return match ? match[0] : null;
+}
+
+/**
+ * Headings and paragraphs of mammoth's HTML, with tables dropped
+ */
+function readBlocks(html: string): Block[] {
+  const blocks: Block[] = [];
+  const pattern = /<(h[1-6]|p|table)\b[^>]*>([\s\S]*?)<\/\1>/g;
+
+  for (const match of Array.from(html.matchAll(pattern))) {
+    const [, tag, inner] = match;
+    if (tag === "table") continue;
+
+    const text = htmlToText(inner);
+    if (!text) continue;
+
+    if (tag.startsWith("h")) {
+      blocks.push({ kind: "heading", text, level: Number(tag.slice(1)) });
+    } else if (/^<strong>[\s\S]*<\/strong>$/.test(inner.trim()) && text.length <= MAX_HEADING_LENGTH) {
+      blocks.push({ kind: "heading", text, level: BOLD_HEADING_LEVEL });
+    } else {
+      blocks.push({ kind: "paragraph", text, level: 0 });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Plain text of an HTML fragment
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,13 @@
+/**
+ * Style Module - Main entry point
+ * Uploaded example reports as writing-style references for prompts
+ */
+
+export { extractStyleSections, matchSection } from "./extract";
+
+export {
+  loadStyleGuide,
+  selectExcerpt,
+  formatStyleReference,
+  STYLE_TOKEN_BUDGET,
+} from "./select";
@@ -0,0 +1,138 @@
+/**
+ * Style Reference Selection
+ * Picks passages from the uploaded example reports of an engagement's report type
+ * and formats them as style references for prompts, within a token budget
+ */
+
+import prisma from "@/lib/db/prisma";
+import { extractStyleSections } from "./extract";
+import type { ReportType } from "@prisma/client";
+import type { StyleExcerpt, StyleGuide, StyleSection } from "@/types/style";
+
+// Prompt tokens spent on style references for one section
+export const STYLE_TOKEN_BUDGET = 1200;
+// Examples quoted per section; more adds length, not guidance
+const MAX_EXAMPLES_PER_SECTION = 2;
+const CHARS_PER_TOKEN = 4;
+// Shorter paragraphs are captions, labels and fragments rather than prose
+const MIN_PARAGRAPH_WORDS = 25;
+
+/**
+ * Style references for a report type, newest examples first
+ * Examples that can't be read are skipped with a warning
+ */
+export async function loadStyleGuide(reportType: ReportType): Promise<StyleGuide> {
+  const examples = await prisma.styleExample.findMany({
+    where: { type: reportType },
+    orderBy: { uploadedAt: "desc" },
+  });
+
+  const guide: StyleGuide = {};
+
+  for (const example of examples) {
+    let sections: StyleSection[];
+    try {
+      sections = await extractStyleSections(example.filePath.trim());
+    } catch (error) {
+      console.warn(`Could not read style example "${example.name}":`, error);
+      continue;
+    }
+
+    for (const section of sections) {
+      const excerpts = guide[section.key] ?? [];
+      // The first matching section of each example is its main treatment of the topic
+      if (excerpts.length >= MAX_EXAMPLES_PER_SECTION || excerpts.some(e => e.exampleName === example.name)) {
+        continue;
+      }
+
+      const excerpt = selectExcerpt(example.name, section, STYLE_TOKEN_BUDGET / MAX_EXAMPLES_PER_SECTION);
+      if (excerpt) {
+        guide[section.key] = [...excerpts, excerpt];
+      }
+    }
+  }
+
+  const found = Object.keys(guide);
+  console.log(
+    found.length > 0
+      ? `Style references for ${reportType}: ${found.join(", ")} from ${examples.length} example(s)`
+      : `No style references found for ${reportType}`
+  );
+  return guide;
+}
+
+/**
+ * Best passage of a section within `budgetTokens`
+ * Prefers explanatory prose over paragraphs dense with figures (which are specific to
+ * the example's company), keeping the chosen paragraphs in document order
+ */
+export function selectExcerpt(
+  exampleName: string,
+  section: StyleSection,
+  budgetTokens: number
+): StyleExcerpt | null {
+  const candidates = section.paragraphs
+    .map((text, index) => ({ text, index, score: scoreParagraph(text) }))
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const budgetChars = budgetTokens * CHARS_PER_TOKEN;
+  const chosen: typeof candidates = [];
+  let used = 0;
+
+  for (const candidate of candidates) {
+    if (used + candidate.text.length > budgetChars) continue;
+    chosen.push(candidate);
+    used += candidate.text.length;
+  }
+
+  // Every paragraph is over budget: quote the best one up to a sentence end
+  if (chosen.length === 0 && candidates.length > 0) {
+    const best = candidates[0];
+    const cut = best.text.slice(0, budgetChars);
+    chosen.push({ ...best, text: cut.slice(0, cut.lastIndexOf(". ") + 1) || cut });
+  }
+
+  if (chosen.length === 0) return null;
+
+  const text = chosen
+    .sort((a, b) => a.index - b.index)
+    .map(candidate => candidate.text)
+    .join("\n\n");
+
+  return {
+    exampleName,
+    section: section.key,
+    text,
+    tokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+  };
+}
+
+/**
+ * Style reference block for a prompt, or an empty string when there is none
+ */
+export function formatStyleReference(excerpts: StyleExcerpt[] | undefined): string {
+  if (!excerpts || excerpts.length === 0) return "";
+
+  const quoted = excerpts
+    .map((excerpt, index) => `--- Example ${index + 1} (${excerpt.exampleName}) ---\n${excerpt.text}`)
+    .join("\n\n");
+
+  return `
+
+STYLE REFERENCE:
+The excerpts below are from reports our firm has issued. Match their tone, structure, terminology and level of detail. They describe other companies: do not reuse their facts, figures or names.
+
+${quoted}`;
+}
+
+/**
+ * Helper: How useful a paragraph is as a style reference; 0 to leave it out
+ */
+function scoreParagraph(text: string): number {
+  const words = text.split(/\s+/).length;
+  if (words < MIN_PARAGRAPH_WORDS) return 0;
+
+  const figures = (text.match(/\d[\d,.]*%?/g) || []).length;
+  return words / (1 + figures);
+}
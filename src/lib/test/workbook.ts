@@ -0,0 +1,56 @@
+/**
+ * Test Workbook Files
+ * Writes small .xlsx files with the xlsx library so parser tests run against real
+ * workbooks rather than hand-built sheet objects. Not exported from the index:
+ * it writes to disk and only tests import it
+ */
+
+import * as XLSX from "xlsx";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+export interface TestWorkbookOptions {
+  // Defined names, e.g. { Name: "DLOM", Ref: "Inputs!$B$2" }
+  names?: { Name: string; Ref: string }[];
+  // Number formats by sheet and address, e.g. { sheet: "Inputs", address: "B2", format: "0%" }
+  formats?: { sheet: string; address: string; format: string }[];
+  // Cell comments by sheet and address
+  comments?: { sheet: string; address: string; author?: string; text: string }[];
+}
+
+/**
+ * Write a workbook with one sheet per entry to a temporary .xlsx file
+ * Call cleanup() to remove it
+ */
+export function writeTestWorkbook(
+  sheets: Record<string, unknown[][]>,
+  options: TestWorkbookOptions = {}
+): { filePath: string; cleanup: () => void } {
+  const workbook = XLSX.utils.book_new();
+
+  for (const [name, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows, { cellDates: true }), name);
+  }
+
+  for (const { sheet, address, format } of options.formats ?? []) {
+    const cell = workbook.Sheets[sheet][address] as XLSX.CellObject | undefined;
+    if (cell) cell.z = format;
+  }
+
+  for (const { sheet, address, author, text } of options.comments ?? []) {
+    const target = workbook.Sheets[sheet];
+    target[address] ??= { t: "s", v: "" };
+    XLSX.utils.cell_add_comment(target[address] as XLSX.CellObject, text, author);
+  }
+
+  if (options.names) {
+    workbook.Workbook = { Names: options.names };
+  }
+
+  const dir = mkdtempSync(path.join(tmpdir(), "meld-test-"));
+  const filePath = path.join(dir, "model.xlsx");
+  writeFileSync(filePath, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }));
+
+  return { filePath, cleanup: () => rmSync(dir, { recursive: true, force: true }) };
+}
@@ -0,0 +1,114 @@
+import { prisma } from '@/lib/db/prisma';
+import type { EngagementUsage, MonthlyUsage } from '@/types/ai';
+
+// Calls made outside an engagement (test pages, ad hoc research)
+const UNBILLED_CLIENT = 'Unassigned';
+
+/**
+ * An engagement's AI spend, in total and by report section
+ */
+export async function getEngagementUsage(engagementId: string): Promise<EngagementUsage> {
+  const groups = await prisma.aiUsage.groupBy({
+    by: ['section'],
+    where: { engagementId },
+    _count: { _all: true },
+    _sum: { inputTokens: true, outputTokens: true, costUsd: true },
+  });
+
+  const sections = groups
+    .map(group => ({
+      section: group.section ?? 'other',
+      calls: group._count._all,
+      inputTokens: group._sum.inputTokens ?? 0,
+      outputTokens: group._sum.outputTokens ?? 0,
+      costUsd: group._sum.costUsd ?? 0,
+    }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  return {
+    engagementId,
+    calls: sections.reduce((sum, s) => sum + s.calls, 0),
+    inputTokens: sections.reduce((sum, s) => sum + s.inputTokens, 0),
+    outputTokens: sections.reduce((sum, s) => sum + s.outputTokens, 0),
+    costUsd: sections.reduce((sum, s) => sum + s.costUsd, 0),
+    sections,
+  };
+}
+
+/**
+ * Total AI spend of each engagement, for listing them
+ */
+export async function getEngagementCosts(engagementIds: string[]): Promise<Map<string, number>> {
+  if (engagementIds.length === 0) return new Map();
+
+  const groups = await prisma.aiUsage.groupBy({
+    by: ['engagementId'],
+    where: { engagementId: { in: engagementIds } },
+    _sum: { costUsd: true },
+  });
+
+  return new Map(
+    groups
+      .filter(group => group.engagementId !== null)
+      .map(group => [group.engagementId as string, group._sum.costUsd ?? 0])
+  );
+}
+
+/**
+ * AI spend for each of the last `months` calendar months (UTC), most recent first,
+ * broken down by client
+ */
+export async function getMonthlyUsage(months: number): Promise<MonthlyUsage[]> {
+  const now = new Date();
+  const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1));
+
+  const records = await prisma.aiUsage.findMany({
+    where: { createdAt: { gte: since } },
+    select: {
+      createdAt: true,
+      engagementId: true,
+      companyName: true,
+      inputTokens: true,
+      outputTokens: true,
+      costUsd: true,
+    },
+  });
+
+  const byMonth = new Map<string, MonthlyUsage>();
+  const engagementsByClient = new Map<string, Set<string>>();
+
+  for (const record of records) {
+    const month = record.createdAt.toISOString().slice(0, 7);
+    let usage = byMonth.get(month);
+    if (!usage) {
+      usage = { month, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, clients: [] };
+      byMonth.set(month, usage);
+    }
+
+    usage.calls += 1;
+    usage.inputTokens += record.inputTokens;
+    usage.outputTokens += record.outputTokens;
+    usage.costUsd += record.costUsd;
+
+    const companyName = record.companyName || UNBILLED_CLIENT;
+    let client = usage.clients.find(c => c.companyName === companyName);
+    if (!client) {
+      client = { companyName, engagements: 0, calls: 0, costUsd: 0 };
+      usage.clients.push(client);
+    }
+    client.calls += 1;
+    client.costUsd += record.costUsd;
+
+    if (record.engagementId) {
+      const key = `${month}\u0000${companyName}`;
+      const engagementIds = engagementsByClient.get(key) ?? new Set<string>();
+      engagementIds.add(record.engagementId);
+      engagementsByClient.set(key, engagementIds);
+      client.engagements = engagementIds.size;
+    }
+  }
+
+  const report = Array.from(byMonth.values()).sort((a, b) => b.month.localeCompare(a.month));
+  report.forEach(usage => usage.clients.sort((a, b) => b.costUsd - a.costUsd));
+  return report;
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { currencySymbol, formatCurrencyAmount, formatCurrencyPrice } from "./currency";
+
+describe("currencySymbol", () => {
+  it("writes a symbol where one exists and the code otherwise", () => {
+    expect(currencySymbol("eur")).toBe("€");
+    expect(currencySymbol("CAD")).toBe("C$");
+    expect(currencySymbol("CHF")).toBe("CHF ");
+    expect(currencySymbol(null)).toBe("$");
+  });
+});
+
+describe("formatCurrencyAmount", () => {
+  it("writes amounts in words at their magnitude", () => {
+    expect(formatCurrencyAmount(12500000, "USD")).toBe("$12.5 million");
+    expect(formatCurrencyAmount(1250000000, "GBP")).toBe("£1.25 billion");
+    expect(formatCurrencyAmount(450000, "EUR")).toBe("€450 thousand");
+    expect(formatCurrencyAmount(-2100000, "CHF")).toBe("-CHF 2.1 million");
+    expect(formatCurrencyAmount(950)).toBe("$950");
+  });
+});
+
+describe("formatCurrencyPrice", () => {
+  it("keeps four decimals for sub-unit prices", () => {
+    expect(formatCurrencyPrice(0.8812, "USD")).toBe("$0.8812");
+    expect(formatCurrencyPrice(12.5, "EUR")).toBe("€12.50");
+  });
+});
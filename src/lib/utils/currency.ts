@@ -0,0 +1,63 @@
+/**
+ * Currency formatting shared by narratives, templates and the report document
+ * Amounts are in whole currency units (see lib/excel/units.ts for normalization)
+ */
+
+// Models parsed before currency detection, and models without a stated currency, are USD
+export const DEFAULT_CURRENCY = 'USD';
+
+// Prefix used when writing amounts; codes without a symbol are written as "CHF 1.2 million"
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  CAD: 'C$',
+  AUD: 'A$',
+  NZD: 'NZ$',
+  SGD: 'S$',
+  HKD: 'HK$',
+  EUR: '€',
+  GBP: '£',
+  JPY: '¥',
+  CNY: 'CN¥',
+  INR: '₹',
+  ILS: '₪',
+  KRW: '₩',
+  BRL: 'R$',
+  MXN: 'MX$',
+};
+
+/**
+ * Symbol (or code and space) written before an amount
+ */
+export function currencySymbol(currency?: string | null): string {
+  const code = (currency || DEFAULT_CURRENCY).toUpperCase();
+  return CURRENCY_SYMBOLS[code] ?? `${code} `;
+}
+
+/**
+ * Format an amount in words for narrative text, e.g. $12.5 million, €450 thousand, -$2.1 million
+ */
+export function formatCurrencyAmount(value: number, currency?: string | null): string {
+  const symbol = currencySymbol(currency);
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+
+  if (abs >= 1000000000) {
+    return `${sign}${symbol}${(abs / 1000000000).toFixed(2)} billion`;
+  }
+  if (abs >= 1000000) {
+    return `${sign}${symbol}${(abs / 1000000).toFixed(1)} million`;
+  }
+  if (abs >= 1000) {
+    return `${sign}${symbol}${(abs / 1000).toFixed(0)} thousand`;
+  }
+  return `${sign}${symbol}${abs.toLocaleString('en-US')}`;
+}
+
+/**
+ * Format a per-share price, keeping four decimals for sub-unit prices
+ */
+export function formatCurrencyPrice(value: number, currency?: string | null): string {
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+  return `${sign}${currencySymbol(currency)}${abs.toFixed(abs < 1 ? 4 : 2)}`;
+}
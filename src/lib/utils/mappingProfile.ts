@@ -0,0 +1,184 @@
+import { prisma } from '@/lib/db/prisma';
+import { MAPPABLE_FIELDS } from '@/types/mapping';
+import type {
+  CellLocator,
+  FieldMapping,
+  MappableField,
+  MappingProfileData,
+  MarkerCell,
+  ProfileFingerprint,
+} from '@/types/mapping';
+
+const CELL_ADDRESS_REGEX = /^\$?[A-Z]{1,3}\$?\d+$/i;
+
+export interface MappingProfileInput {
+  name: string;
+  description: string | null;
+  fingerprint: ProfileFingerprint;
+  mappings: FieldMapping[];
+}
+
+/**
+ * Converts a database record into a typed mapping profile
+ */
+export function toMappingProfileData(record: {
+  id: string;
+  name: string;
+  description: string | null;
+  fingerprint: unknown;
+  mappings: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}): MappingProfileData {
+  const fingerprint = (record.fingerprint || {}) as Partial<ProfileFingerprint>;
+
+  return {
+    id: record.id,
+    name: record.name,
+    description: record.description,
+    fingerprint: {
+      sheetNames: fingerprint.sheetNames || [],
+      markerCells: fingerprint.markerCells || [],
+    },
+    mappings: Array.isArray(record.mappings) ? (record.mappings as FieldMapping[]) : [],
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
+
+/**
+ * Loads all mapping profiles, returning an empty list if the database is unavailable
+ */
+export async function loadMappingProfiles(): Promise<MappingProfileData[]> {
+  try {
+    const records = await prisma.mappingProfile.findMany({
+      orderBy: { name: 'asc' },
+    });
+    return records.map(toMappingProfileData);
+  } catch (error) {
+    console.warn('Could not load mapping profiles:', error);
+    return [];
+  }
+}
+
+/**
+ * Validates a single locator from user input
+ */
+function validateLocator(locator: unknown): CellLocator | string {
+  if (!locator || typeof locator !== 'object') {
+    return 'Locator is required';
+  }
+
+  const l = locator as Record<string, unknown>;
+
+  switch (l.type) {
+    case 'cell':
+      if (typeof l.sheet !== 'string' || !l.sheet.trim()) return 'Cell locator requires a sheet';
+      if (typeof l.address !== 'string' || !CELL_ADDRESS_REGEX.test(l.address.trim())) {
+        return `Invalid cell address: ${String(l.address)}`;
+      }
+      return {
+        type: 'cell',
+        sheet: l.sheet.trim(),
+        address: l.address.trim().replace(/\$/g, '').toUpperCase(),
+      };
+
+    case 'namedRange':
+      if (typeof l.name !== 'string' || !l.name.trim()) return 'Named range locator requires a name';
+      return { type: 'namedRange', name: l.name.trim() };
+
+    case 'label': {
+      if (typeof l.pattern !== 'string' || !l.pattern.trim()) return 'Label locator requires a pattern';
+      try {
+        new RegExp(l.pattern, 'i');
+      } catch {
+        return `Invalid label pattern: ${l.pattern}`;
+      }
+      const sheet = typeof l.sheet === 'string' && l.sheet.trim() ? l.sheet.trim() : undefined;
+      const lookRight = typeof l.lookRight === 'number' && l.lookRight > 0 ? Math.floor(l.lookRight) : undefined;
+      const lookBelow = typeof l.lookBelow === 'number' && l.lookBelow > 0 ? Math.floor(l.lookBelow) : undefined;
+      return { type: 'label', pattern: l.pattern, sheet, lookRight, lookBelow };
+    }
+
+    default:
+      return `Unknown locator type: ${String(l.type)}`;
+  }
+}
+
+/**
+ * Validates and normalizes a mapping profile request body
+ */
+export function validateMappingProfileInput(
+  body: unknown
+): { data: MappingProfileInput } | { error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid request body' };
+  }
+
+  const b = body as Record<string, unknown>;
+
+  if (typeof b.name !== 'string' || !b.name.trim()) {
+    return { error: 'Profile name is required' };
+  }
+
+  const rawFingerprint = (b.fingerprint || {}) as Record<string, unknown>;
+  const sheetNames = Array.isArray(rawFingerprint.sheetNames)
+    ? rawFingerprint.sheetNames.filter((s): s is string => typeof s === 'string' && s.trim().length > 0).map(s => s.trim())
+    : [];
+
+  const markerCells: MarkerCell[] = [];
+  if (Array.isArray(rawFingerprint.markerCells)) {
+    for (const marker of rawFingerprint.markerCells as Record<string, unknown>[]) {
+      if (
+        typeof marker?.sheet !== 'string' || !marker.sheet.trim() ||
+        typeof marker.address !== 'string' || !CELL_ADDRESS_REGEX.test(marker.address.trim()) ||
+        typeof marker.contains !== 'string' || !marker.contains.trim()
+      ) {
+        return { error: 'Marker cells require a sheet, a valid address and the text they contain' };
+      }
+      markerCells.push({
+        sheet: marker.sheet.trim(),
+        address: marker.address.trim().replace(/\$/g, '').toUpperCase(),
+        contains: marker.contains.trim(),
+      });
+    }
+  }
+
+  if (sheetNames.length === 0 && markerCells.length === 0) {
+    return { error: 'Fingerprint requires at least one sheet name or marker cell' };
+  }
+
+  if (!Array.isArray(b.mappings) || b.mappings.length === 0) {
+    return { error: 'At least one field mapping is required' };
+  }
+
+  const mappings: FieldMapping[] = [];
+  const seen = new Set<MappableField>();
+
+  for (const mapping of b.mappings as Record<string, unknown>[]) {
+    const field = mapping?.field as MappableField;
+    if (typeof field !== 'string' || !(field in MAPPABLE_FIELDS)) {
+      return { error: `Unknown field: ${String(mapping?.field)}` };
+    }
+    if (seen.has(field)) {
+      return { error: `Field mapped more than once: ${MAPPABLE_FIELDS[field].label}` };
+    }
+
+    const locator = validateLocator(mapping.locator);
+    if (typeof locator === 'string') {
+      return { error: `${MAPPABLE_FIELDS[field].label}: ${locator}` };
+    }
+
+    seen.add(field);
+    mappings.push({ field, locator });
+  }
+
+  return {
+    data: {
+      name: b.name.trim(),
+      description: typeof b.description === 'string' && b.description.trim() ? b.description.trim() : null,
+      fingerprint: { sheetNames, markerCells },
+      mappings,
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { prisma } from '@/lib/db/prisma';
+import type { Engagement, Prisma } from '@prisma/client';
+import type { ModelSnapshot, PriorValuationSummary } from '@/types/rollforward';
+import { normalizeCompanyName } from '@/lib/excel/modelDiff';
+
+// Prior valuations offered per company; older ones are rarely rolled forward from
+const MAX_PRIOR_VALUATIONS = 10;
+
+/**
+ * Store an engagement's model snapshot, replacing the one from an earlier generation
+ * Snapshots outlive the engagement so next year's valuation can be compared against it
+ */
+export async function saveValuationSnapshot(
+  engagement: Engagement,
+  snapshot: ModelSnapshot
+): Promise<void> {
+  const companyName = snapshot.companyName || engagement.companyName;
+  if (!companyName) return;
+
+  const data = {
+    companyName,
+    companyKey: normalizeCompanyName(companyName),
+    valuationDate: snapshot.valuationDate ? new Date(snapshot.valuationDate) : engagement.valuationDate,
+    reportType: engagement.reportType,
+    snapshot: snapshot as unknown as Prisma.InputJsonValue,
+  };
+
+  await prisma.valuationSnapshot.upsert({
+    where: { engagementId: engagement.id },
+    create: { ...data, userId: engagement.userId, engagementId: engagement.id },
+    update: data,
+  });
+}
+
+/**
+ * Load the snapshot of the prior valuation an engagement rolls forward from
+ */
+export async function loadPriorSnapshot(engagement: Engagement): Promise<ModelSnapshot | null> {
+  if (!engagement.priorSnapshotId) return null;
+
+  const record = await prisma.valuationSnapshot.findUnique({
+    where: { id: engagement.priorSnapshotId },
+  });
+  return record ? (record.snapshot as unknown as ModelSnapshot) : null;
+}
+
+/**
+ * List a user's prior valuations of a company, most recent valuation date first
+ */
+export async function listPriorValuations(
+  userId: string,
+  companyName: string
+): Promise<PriorValuationSummary[]> {
+  const records = await prisma.valuationSnapshot.findMany({
+    where: { userId, companyKey: normalizeCompanyName(companyName) },
+    orderBy: [{ valuationDate: 'desc' }, { createdAt: 'desc' }],
+    take: MAX_PRIOR_VALUATIONS,
+  });
+
+  return records.map(record => {
+    const snapshot = record.snapshot as unknown as ModelSnapshot;
+    return {
+      id: record.id,
+      companyName: record.companyName,
+      valuationDate: record.valuationDate?.toISOString() ?? null,
+      reportType: record.reportType,
+      concludedValue: snapshot.concludedValue ?? null,
+      perShareValue: snapshot.perShareValue ?? null,
+      currency: snapshot.currency,
+      createdAt: record.createdAt.toISOString(),
+    };
+  });
+}
+
+/**
+ * Whether a snapshot belongs to the user, for linking it to a new engagement
+ */
+export async function isOwnSnapshot(userId: string, snapshotId: string): Promise<boolean> {
+  const record = await prisma.valuationSnapshot.findFirst({
+    where: { id: snapshotId, userId },
+    select: { id: true },
+  });
+  return record !== null;
+}
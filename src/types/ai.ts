@@ -20,6 +20,26 @@ export interface GenerateResponse {
   stopReason: string | null;
 }
 
+// A single completion request, independent of the provider serving it
+export interface LLMRequest {
+  prompt: string;
+  systemPrompt?: string;
+  // Base64-encoded PDF sent ahead of the prompt
+  pdfBase64?: string;
+  maxTokens: number;
+  temperature?: number;
+  stopSequences?: string[];
+}
+
+// Backend that serves completions: the Anthropic API, or recorded fixtures offline
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  complete(request: LLMRequest): Promise<GenerateResponse>;
+}
+
+export type LLMProviderName = "anthropic" | "fixture";
+
 // Context for prompts
 export interface PromptContext {
   companyName?: string;
@@ -68,3 +88,72 @@ export const EXTENDED_MODEL_CONFIG: ModelConfig = {
   temperature: 0.7,
 };
 
+
+// Report sections that can be written from PDF exhibits
+export type PdfSectionKey =
+  | "companyOverview"
+  | "industryOutlook"
+  | "guidelinePublicCompany"
+  | "guidelineTransaction"
+  | "incomeApproach"
+  | "conclusion";
+
+// Result of a single-pass PDF analysis; failed sections need their own call
+export interface PdfAnalysisResult {
+  sections: Partial<Record<PdfSectionKey, string>>;
+  failed: PdfSectionKey[];
+}
+
+// Who an AI call is billed to; set around a generation run and narrowed per section
+export interface AIUsageContext {
+  engagementId?: string;
+  userId?: string;
+  companyName?: string | null;
+  section?: string;
+  // Scheduling priority; defaults from the section (see lib/ai/scheduler.ts)
+  priority?: AIPriority;
+}
+
+// Order in which waiting AI calls are started
+export type AIPriority = "high" | "normal" | "low";
+
+// Price per million tokens, in USD
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// Spend on one report section of an engagement
+export interface SectionUsage {
+  section: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+// An engagement's total AI spend
+export interface EngagementUsage {
+  engagementId: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  sections: SectionUsage[];
+}
+
+// A month's AI spend, in total and by client
+export interface MonthlyUsage {
+  // "2026-10"
+  month: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  clients: {
+    companyName: string;
+    engagements: number;
+    calls: number;
+    costUsd: number;
+  }[];
+}
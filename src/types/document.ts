@@ -64,6 +64,7 @@ export interface ValuationSummaryData {
   concludedValue: number;
   dlom?: number;
   finalValue?: number;
+  currency?: string; // ISO 4217 code, defaults to USD
 }
 
 // Valuation approach row
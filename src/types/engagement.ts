@@ -1,4 +1,5 @@
 import type { ReportType, EngagementStatus } from "@prisma/client";
+import type { EngagementUsage } from "./ai";
 
 export interface EngagementListItem {
   id: string;
@@ -10,6 +11,8 @@ export interface EngagementListItem {
   createdAt: Date | string;
   updatedAt: Date | string;
   expiresAt: Date | string;
+  // Total spent on AI calls for this engagement, in USD
+  aiCostUsd: number;
   generatedReports: {
     id: string;
     version: number;
@@ -19,7 +22,9 @@ export interface EngagementListItem {
 
 export interface EngagementDetail extends EngagementListItem {
   modelFilePath: string | null;
+  exhibitsFilePath: string | null;
   voiceTranscript: string | null;
+  aiUsage: EngagementUsage;
 }
 
 export type { ReportType, EngagementStatus };
@@ -22,11 +22,136 @@ export interface ParsedModel {
   warnings: string[];
   // Enhanced detailed data for AI narrative generation
   detailedData?: DetailedModelData;
+  // Mapping profile used to locate fields, if one matched
+  mappingProfile?: { id: string; name: string } | null;
+  // Source cells for top-level fields (companyName, valuationDate, concludedValue, dlom, ...)
+  provenance?: ProvenanceMap;
+  // Recomputed model arithmetic (weights, weighted value, DLOM, per-share)
+  integrityChecks?: IntegrityCheckResult[];
+  // ISO 4217 code for all amounts; absent on models parsed before currency detection (USD)
+  currency?: string;
+  // Unit captions detected per sheet; amounts above are normalized to whole currency units
+  sheetUnits?: SheetUnits[];
+  // Error cells, circular/uncached formulas and hidden content in the exhibits
+  healthFindings?: ModelHealthFinding[];
 }
 
+/**
+ * Why a worker-thread model parse failed
+ */
+export type ModelParseFailure =
+  | 'timeout'   // Exceeded the parse time limit
+  | 'memory'    // Exceeded the worker's memory budget
+  | 'worker';   // Worker crashed or parseValuationModel threw
+
+/**
+ * Formula-health problems found in the exhibit sheets
+ */
+export type ModelHealthIssue =
+  | 'errorCell'          // #REF!, #DIV/0!, #N/A, #VALUE! ...
+  | 'circularReference'  // Formulas that depend on themselves
+  | 'uncachedFormula'    // Formulas saved without a calculated value
+  | 'hiddenSheet'        // Hidden exhibit sheet
+  | 'hiddenRows';        // Hidden rows inside an exhibit
+
+export interface ModelHealthFinding {
+  issue: ModelHealthIssue;
+  severity: 'error' | 'warning' | 'info';
+  sheet: string;
+  cells: string[]; // A1 addresses (first few when there are many)
+  count: number;
+  message: string;
+}
+
+/**
+ * Units a sheet's amounts are stated in, read from captions like "$ in 000s" or "USD millions"
+ */
+export interface SheetUnits {
+  sheet: string;
+  scale: number; // Multiplier to whole currency units (1, 1,000, 1,000,000, ...)
+  currency: string | null; // ISO 4217 code, when the sheet states one
+  caption: string | null; // Cell text the units were read from
+}
+
+/**
+ * Model arithmetic checks run before generation
+ */
+export type IntegrityCheckId =
+  | 'weightsSum'        // Approach weights sum to 100%
+  | 'weightedValue'     // Σ(indicated value × weight) = concluded value
+  | 'valueAfterDlom'    // Concluded × (1 − DLOM) = value after DLOM
+  | 'perShareValue'     // Equity ÷ shares = per-share value
+  | 'dlomConsistency';  // Summary DLOM agrees with weighting DLOM
+
+export interface IntegrityCheckResult {
+  check: IntegrityCheckId;
+  status: 'passed' | 'failed' | 'skipped';
+  message: string;
+  expected: number | null;
+  actual: number | null;
+}
+
+/**
+ * A figure that differs between an engagement's Excel model and its issued exhibits PDF
+ */
+export interface SourceConflict {
+  // Snapshot metric, 'companyName', 'valuationDate', 'weight' or a comparable set
+  field: string;
+  label: string;
+  excelValue: string | null;
+  pdfValue: string | null;
+  message: string;
+}
+
+/**
+ * Rule used to extract a value from the workbook
+ */
+export type ExtractionRule =
+  | 'fixedCell'       // Known template cell (e.g. LEs!G819)
+  | 'labelSearch'     // Value right of / below a matching label
+  | 'rowScan'         // Value in the same row as a matching label
+  | 'tableColumn'     // Table row under a matching column header
+  | 'mappingProfile'  // Location defined by a mapping profile
+  | 'derived';        // Copied from another extracted field
+
+/**
+ * Where an extracted value came from
+ */
+export interface ValueProvenance {
+  sheet: string;
+  cell: string; // A1 address
+  label: string | null; // Matched label or column header text
+  rule: ExtractionRule;
+}
+
+// Field path (e.g. "incomeApproachData.wacc", "guidelinePublicCompanies[2].revenueMultiple") to source
+export type ProvenanceMap = Record<string, ValueProvenance>;
+
 export interface ExhibitData {
   sheetName: string;
   data: unknown[][];
+  // Analyst notes, footnotes and cell comments on the exhibit
+  notes: string[];
+  // Valuation approach the exhibit supports, from its sheet name or title
+  approach?: ExhibitApproach | null;
+}
+
+/**
+ * Valuation approach an exhibit sheet belongs to
+ */
+export type ExhibitApproach =
+  | 'gpc'         // Guideline public companies
+  | 'gtm'         // Guideline transactions
+  | 'income'      // DCF, projections, discount rate
+  | 'pwerm'       // Scenario weighting
+  | 'backsolve'   // OPM backsolve and allocation
+  | 'dlom'        // Discount for lack of marketability
+  | 'conclusion'; // Summary and approach weighting
+
+// Notes harvested from one exhibit, as returned to the client
+export interface ExhibitNotes {
+  sheetName: string;
+  approach: ExhibitApproach | null;
   notes: string[];
 }
 
@@ -64,6 +189,12 @@ export interface ParsedModelResponse {
   errors: string[];
   // Enhanced detailed data
   detailedData?: DetailedModelData;
+  mappingProfileName?: string | null;
+  provenance?: ProvenanceMap;
+  integrityChecks?: IntegrityCheckResult[];
+  currency?: string;
+  healthFindings?: ModelHealthFinding[];
+  exhibitNotes?: ExhibitNotes[];
 }
 
 // ============================================
@@ -80,7 +211,15 @@ export interface DetailedModelData {
   incomeApproachData: IncomeApproachData | null;
   backsolveData: BacksolveData | null;
   weightingData: WeightingData | null;
+  capTable: CapTable | null;
+  equityBridge: EquityBridge | null;
+  pwermData: PWERMData | null;
+  dlomAnalysis: DLOMAnalysis | null;
+  // Multiple statistics, computed after extraction (see multipleAnalysis.ts)
+  gpcAnalysis: GPCAnalysisSummary | null;
+  transactionAnalysis: TransactionAnalysisSummary | null;
   missingData: string[];
+  provenance: ProvenanceMap;
 }
 
 /**
@@ -130,17 +269,32 @@ export interface GuidelineCompany {
   enterpriseValue: number | null;
 }
 
+/**
+ * Descriptive statistics for a set of observed multiples
+ */
+export interface MultipleRange {
+  low: number;
+  high: number;
+  median: number;
+  mean: number;
+  percentile25: number;
+  percentile75: number;
+  count: number;
+}
+
+export type AppliedMetric = 'revenue' | 'ebitda' | 'grossProfit';
+
 /**
  * Guideline public company analysis summary
  */
 export interface GPCAnalysisSummary {
   companies: GuidelineCompany[];
-  revenueMultipleRange: { low: number; high: number; median: number; mean: number } | null;
-  ebitdaMultipleRange: { low: number; high: number; median: number; mean: number } | null;
+  revenueMultipleRange: MultipleRange | null;
+  ebitdaMultipleRange: MultipleRange | null;
   selectedRevenueMultiple: number | null;
   selectedEbitdaMultiple: number | null;
   indicatedValue: number | null;
-  appliedMetric: 'revenue' | 'ebitda' | 'grossProfit' | null;
+  appliedMetric: AppliedMetric | null;
   appliedMetricValue: number | null;
 }
 
@@ -168,11 +322,13 @@ export interface GuidelineTransaction {
  */
 export interface TransactionAnalysisSummary {
   transactions: GuidelineTransaction[];
-  revenueMultipleRange: { low: number; high: number; median: number; mean: number } | null;
-  ebitdaMultipleRange: { low: number; high: number; median: number; mean: number } | null;
+  revenueMultipleRange: MultipleRange | null;
+  ebitdaMultipleRange: MultipleRange | null;
   selectedRevenueMultiple: number | null;
   selectedEbitdaMultiple: number | null;
   indicatedValue: number | null;
+  appliedMetric: Exclude<AppliedMetric, 'grossProfit'> | null;
+  appliedMetricValue: number | null;
 }
 
 /**
@@ -185,8 +341,11 @@ export interface IncomeApproachData {
   
   // Projections by year
   revenueProjections: YearlyProjection[];
+  grossProfitProjections: YearlyProjection[];
   ebitdaProjections: YearlyProjection[];
-  cashFlowProjections: YearlyProjection[];
+  capexProjections: YearlyProjection[];
+  nwcChangeProjections: YearlyProjection[];
+  cashFlowProjections: YearlyProjection[]; // free cash flow
   
   // Key assumptions
   discountRate: number | null;
@@ -194,6 +353,7 @@ export interface IncomeApproachData {
   terminalGrowthRate: number | null;
   terminalMultiple: number | null;
   terminalMethodology: 'perpetuity' | 'exitMultiple' | null;
+  waccBuildUp: WACCBuildUp | null;
   
   // Results
   presentValueCashFlows: number | null;
@@ -205,12 +365,45 @@ export interface IncomeApproachData {
   keyAssumptions: string[];
 }
 
+/**
+ * Discount rate build-up (CAPM cost of equity, cost of debt, capital structure)
+ * Rates and weights are decimals (0.045 = 4.5%)
+ */
+export interface WACCBuildUp {
+  // Cost of equity
+  riskFreeRate: number | null;
+  equityRiskPremium: number | null;
+  leveredBeta: number | null;
+  unleveredBeta: number | null;
+  sizePremium: number | null;
+  industryRiskPremium: number | null;
+  companySpecificRiskPremium: number | null;
+  costOfEquity: number | null;
+
+  // Cost of debt
+  preTaxCostOfDebt: number | null;
+  taxRate: number | null;
+  afterTaxCostOfDebt: number | null;
+
+  // Capital structure
+  equityWeight: number | null;
+  debtWeight: number | null;
+
+  wacc: number | null;
+}
+
 export interface YearlyProjection {
-  year: number;
+  // Fiscal year; null for LTM periods, which are identified by their label
+  year: number | null;
   value: number;
   growthRate?: number;
+  // Column header as shown in the model (e.g. "FY25", "2025E", "LTM")
+  label?: string;
+  period?: ProjectionPeriodType;
 }
 
+export type ProjectionPeriodType = 'historical' | 'ltm' | 'projected';
+
 /**
  * Backsolve / Recent transaction data
  */
@@ -237,6 +430,66 @@ export interface BacksolveData {
   methodology: 'backsolve' | 'opm' | 'pwerm' | 'cva' | null;
 }
 
+/**
+ * PWERM exit scenario
+ * Probability and discount rate are decimals; exit timing is years from the valuation date
+ */
+export interface PWERMScenario {
+  name: string;
+  type: 'ipo' | 'sale' | 'dissolution' | 'stayPrivate' | 'other';
+  probability: number | null;
+  exitTiming: number | null;
+  exitValue: number | null;
+  discountRate: number | null;
+  perShareValues: ScenarioClassValue[];
+}
+
+/**
+ * Per-share value of a share class in one scenario
+ */
+export interface ScenarioClassValue {
+  className: string;
+  value: number;
+}
+
+/**
+ * Probability-weighted expected return method data
+ */
+export interface PWERMData {
+  scenarios: PWERMScenario[];
+  // True when one of the scenarios is itself valued with an OPM (hybrid method)
+  isHybrid: boolean;
+  probabilityWeightedCommonValue: number | null;
+}
+
+/**
+ * DLOM methods recognized in the DLOM exhibit
+ */
+export type DLOMMethodId = 'finnerty' | 'chaffee' | 'longstaff' | 'ghaidarov' | 'restrictedStock' | 'other';
+
+/**
+ * Inputs and indication for one DLOM method
+ * Rates are decimals; term is in years
+ */
+export interface DLOMMethodIndication {
+  method: DLOMMethodId;
+  name: string;
+  volatility: number | null;
+  term: number | null;
+  riskFreeRate: number | null;
+  dividendYield: number | null;
+  indication: number | null;
+  weight: number | null;
+}
+
+/**
+ * DLOM exhibit analysis
+ */
+export interface DLOMAnalysis {
+  methods: DLOMMethodIndication[];
+  concludedDlom: number | null;
+}
+
 /**
  * Weighting and conclusion data
  */
@@ -264,3 +517,55 @@ export interface WeightedApproach {
   rationale?: string;
 }
 
+/**
+ * Adjustment between enterprise value and equity value
+ * Amount is signed: positive adds to equity value, negative subtracts
+ */
+export interface EquityBridgeItem {
+  label: string;
+  category: 'cash' | 'debt' | 'debtLike' | 'nonOperating' | 'other';
+  amount: number;
+}
+
+/**
+ * Enterprise-to-equity value bridge
+ */
+export interface EquityBridge {
+  enterpriseValue: number | null;
+  items: EquityBridgeItem[];
+  equityValue: number | null;
+}
+
+/**
+ * Equity share class from the cap table
+ */
+export interface ShareClass {
+  name: string;
+  type: 'common' | 'preferred';
+  sharesOutstanding: number | null;
+  originalIssuePrice: number | null;
+  liquidationPreference: number | null; // Multiple of OIP (1 = 1.0x)
+  liquidationPreferenceAmount: number | null;
+  participating: boolean | null;
+  participationCap: number | null; // Multiple of OIP, if capped
+  conversionRatio: number | null;
+}
+
+/**
+ * Option or warrant tranche
+ */
+export interface DilutiveSecurity {
+  name: string;
+  type: 'option' | 'warrant';
+  quantity: number | null;
+  strikePrice: number | null;
+}
+
+/**
+ * Capital structure and security terms
+ */
+export interface CapTable {
+  shareClasses: ShareClass[];
+  dilutiveSecurities: DilutiveSecurity[];
+  totalFullyDilutedShares: number | null;
+}
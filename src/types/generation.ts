@@ -4,6 +4,17 @@
 
 import type { ApproachNarrative } from "./narrative";
 import type { Citation } from "./research";
+import type { ModelDiff } from "./rollforward";
+import type {
+  ProvenanceMap,
+  GPCAnalysisSummary,
+  TransactionAnalysisSummary,
+  IntegrityCheckId,
+  CapTable,
+  EquityBridge,
+  PWERMData,
+  DLOMAnalysis,
+} from "./excel";
 
 // Content source types
 export type ContentSource = "ai" | "template" | "stored" | "manual";
@@ -24,6 +35,8 @@ export interface Flag {
   section: string;
   message: string;
   type: FlagType;
+  // Set when the flag comes from a failed model integrity check
+  check?: IntegrityCheckId;
 }
 
 // Complete report content
@@ -43,6 +56,18 @@ export interface ReportContent {
   // Approach narratives
   approachNarratives: ApproachNarrative[];
 
+  // Templated OPM backsolve methodology (filled from model data, not AI-generated)
+  backsolveMethodology?: SectionContent;
+
+  // Templated DLOM methodology (filled from the DLOM exhibit, not AI-generated)
+  dlomMethodology?: SectionContent;
+
+  // Changes since the prior valuation the engagement rolls forward from
+  priorValuationChanges?: {
+    diff: ModelDiff;
+    narrative: SectionContent;
+  };
+
   // Citations for industry section
   industryCitations: Citation[];
   
@@ -59,11 +84,22 @@ export interface ReportContent {
       valueAfterDlom?: number;
     };
     companyFinancials?: { revenue?: number; ebitda?: number };
+    gpcAnalysis?: Omit<GPCAnalysisSummary, "companies">;
+    transactionAnalysis?: Omit<TransactionAnalysisSummary, "transactions">;
+    capTable?: CapTable;
+    equityBridge?: EquityBridge;
+    pwerm?: PWERMData;
+    dlomAnalysis?: DLOMAnalysis;
   };
 
+  // Source cells for extracted figures, keyed by field path
+  provenance?: ProvenanceMap;
+
   // DLOM data
   dlom: number | null;
   concludedValue: number | null;
+  // ISO 4217 code for amounts in the report (USD when not stated)
+  currency?: string;
 
   // Metadata
   flags: Flag[];
@@ -87,6 +123,8 @@ export interface GenerationOptions {
   includeCompanyResearch?: boolean;
   maxRetries?: number;
   skipFailedSections?: boolean;
+  // Write all PDF sections from one structured call; off sends one call per section
+  singlePassPdf?: boolean;
 }
 
 // Generation result
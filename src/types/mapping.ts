@@ -0,0 +1,121 @@
+/**
+ * Model Mapping Profile Types
+ * Named profiles that map ParsedModel / DetailedModelData fields to
+ * explicit workbook locations for a given model template
+ */
+
+// Fields that a profile can map to a workbook location
+export type MappableField =
+  | "companyName"
+  | "valuationDate"
+  | "concludedValue"
+  | "dlom"
+  | "companyFinancials.ltmRevenue"
+  | "companyFinancials.currentYearRevenue"
+  | "companyFinancials.ltmEbitda"
+  | "companyFinancials.grossProfit"
+  | "companyFinancials.netIncome"
+  | "companyFinancials.totalDebt"
+  | "companyFinancials.cash"
+  | "incomeApproachData.discountRate"
+  | "incomeApproachData.terminalGrowthRate"
+  | "incomeApproachData.terminalMultiple"
+  | "incomeApproachData.indicatedValue"
+  | "backsolveData.pricePerShare"
+  | "backsolveData.postMoneyValuation"
+  | "backsolveData.volatility"
+  | "backsolveData.riskFreeRate"
+  | "backsolveData.timeToLiquidity"
+  | "backsolveData.indicatedCommonValue"
+  | "weightingData.concludedEnterpriseValue"
+  | "weightingData.concludedEquityValue"
+  | "weightingData.dlomPercentage"
+  | "weightingData.valueAfterDlom"
+  | "weightingData.sharesOutstanding"
+  | "weightingData.perShareValue";
+
+export type MappedValueType = "string" | "date" | "number" | "percentage";
+
+// Display label and expected value type for each mappable field. Numeric percentages
+// above maxFraction (1 when not given) are whole percentages, matching the heuristic extractors
+export const MAPPABLE_FIELDS: Record<MappableField, { label: string; valueType: MappedValueType; maxFraction?: number }> = {
+  companyName: { label: "Company Name", valueType: "string" },
+  valuationDate: { label: "Valuation Date", valueType: "date" },
+  concludedValue: { label: "Concluded Value", valueType: "number" },
+  dlom: { label: "DLOM", valueType: "percentage", maxFraction: 0.5 },
+  "companyFinancials.ltmRevenue": { label: "LTM Revenue", valueType: "number" },
+  "companyFinancials.currentYearRevenue": { label: "Current Year Revenue", valueType: "number" },
+  "companyFinancials.ltmEbitda": { label: "LTM EBITDA", valueType: "number" },
+  "companyFinancials.grossProfit": { label: "Gross Profit", valueType: "number" },
+  "companyFinancials.netIncome": { label: "Net Income", valueType: "number" },
+  "companyFinancials.totalDebt": { label: "Total Debt", valueType: "number" },
+  "companyFinancials.cash": { label: "Cash", valueType: "number" },
+  "incomeApproachData.discountRate": { label: "DCF Discount Rate", valueType: "percentage" },
+  "incomeApproachData.terminalGrowthRate": { label: "Terminal Growth Rate", valueType: "percentage" },
+  "incomeApproachData.terminalMultiple": { label: "Terminal Multiple", valueType: "number" },
+  "incomeApproachData.indicatedValue": { label: "DCF Indicated Value", valueType: "number" },
+  "backsolveData.pricePerShare": { label: "Transaction Price per Share", valueType: "number" },
+  "backsolveData.postMoneyValuation": { label: "Post-Money Valuation", valueType: "number" },
+  "backsolveData.volatility": { label: "OPM Volatility", valueType: "percentage", maxFraction: 2 },
+  "backsolveData.riskFreeRate": { label: "OPM Risk-Free Rate", valueType: "percentage" },
+  "backsolveData.timeToLiquidity": { label: "Time to Liquidity (years)", valueType: "number" },
+  "backsolveData.indicatedCommonValue": { label: "Indicated Common Value", valueType: "number" },
+  "weightingData.concludedEnterpriseValue": { label: "Concluded Enterprise Value", valueType: "number" },
+  "weightingData.concludedEquityValue": { label: "Concluded Equity Value", valueType: "number" },
+  "weightingData.dlomPercentage": { label: "Weighting DLOM", valueType: "percentage", maxFraction: 0.5 },
+  "weightingData.valueAfterDlom": { label: "Value After DLOM", valueType: "number" },
+  "weightingData.sharesOutstanding": { label: "Shares Outstanding", valueType: "number" },
+  "weightingData.perShareValue": { label: "Per Share Value", valueType: "number" },
+};
+
+// Where to read a mapped value from
+export type CellLocator =
+  | { type: "cell"; sheet: string; address: string }
+  | { type: "namedRange"; name: string }
+  | { type: "label"; sheet?: string; pattern: string; lookRight?: number; lookBelow?: number };
+
+export interface FieldMapping {
+  field: MappableField;
+  locator: CellLocator;
+}
+
+// Marker cell whose text identifies a template
+export interface MarkerCell {
+  sheet: string;
+  address: string;
+  contains: string;
+}
+
+// Workbook fingerprint used to auto-select a profile
+export interface ProfileFingerprint {
+  sheetNames: string[];
+  markerCells: MarkerCell[];
+}
+
+// Mapping profile as stored in the database
+export interface MappingProfileData {
+  id: string;
+  name: string;
+  description: string | null;
+  fingerprint: ProfileFingerprint;
+  mappings: FieldMapping[];
+  createdAt: Date | string;
+  updatedAt: Date | string;
+}
+
+// Result of resolving a locator against a workbook
+export interface ResolvedCell {
+  value: unknown;
+  sheet: string;
+  address: string;
+  label?: string;
+}
+
+// Values produced by applying a profile to a workbook
+export interface AppliedProfile {
+  profileId: string;
+  profileName: string;
+  values: Partial<Record<MappableField, string | number | Date>>;
+  sources: Partial<Record<MappableField, ResolvedCell>>;
+  unresolved: MappableField[];
+}
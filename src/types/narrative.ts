@@ -29,6 +29,7 @@ export type ApproachType =
   | "guideline_transaction"
   | "income_dcf"
   | "income_ccf"
+  | "pwerm"
   | "asset"
   | "other";
 
@@ -37,6 +38,7 @@ export interface ApproachSelection {
   guidelinePublicCompany: boolean;
   guidelineTransaction: boolean;
   incomeApproach: boolean;
+  pwerm: boolean;
 }
 
 // Weight data for approach weighting
@@ -64,6 +66,8 @@ export interface NarrativeContext {
   qualitativeContext?: string;
   companyDescription?: string;
   industry?: string;
+  // ISO 4217 code amounts are written in (USD when not stated)
+  currency?: string;
 }
 
 // Approach data with additional context
@@ -59,6 +59,23 @@ export interface ParsedCompanyResearch {
   confidence?: string;
 }
 
+// Raw parsed industry research from AI
+export interface ParsedIndustryResearch {
+  industryName?: string;
+  overview?: string;
+  marketSize?: string;
+  growthRate?: string;
+  keyDrivers?: string[];
+  competitiveLandscape?: string;
+  regulatoryEnvironment?: string;
+  recentTrends?: string[];
+  majorPlayers?: string[];
+  outlook?: string;
+  headwinds?: string[];
+  tailwinds?: string[];
+  citations?: Array<{ text: string; source: string }>;
+}
+
 // Research request options
 export interface ResearchOptions {
   includeIndustry?: boolean;
@@ -0,0 +1,130 @@
+/**
+ * Valuation Rollforward Types
+ * Snapshots of a parsed model kept across engagements, and the differences
+ * between a company's prior and current valuation
+ */
+
+import type { ReportType } from "@prisma/client";
+
+/**
+ * Key figures from a parsed model, stored as JSON so the comparison survives
+ * after the prior engagement and its model file are deleted
+ * Rates (DLOM, volatility, discount rate, weights) are decimals
+ */
+export interface ModelSnapshot {
+  companyName: string | null;
+  valuationDate: string | null; // ISO format
+  currency: string;
+
+  // Concluded values
+  concludedValue: number | null;
+  equityValue: number | null; // After DLOM where the model shows it
+  perShareValue: number | null;
+
+  // Key assumptions
+  dlom: number | null;
+  volatility: number | null;
+  timeToLiquidity: number | null; // Years
+  discountRate: number | null;
+  ltmRevenue: number | null;
+  ltmEbitda: number | null;
+
+  // Selected multiples
+  gpcRevenueMultiple: number | null;
+  gpcEbitdaMultiple: number | null;
+  gtmRevenueMultiple: number | null;
+  gtmEbitdaMultiple: number | null;
+
+  approaches: SnapshotApproach[];
+  guidelineCompanies: string[];
+  guidelineTransactions: string[];
+}
+
+export interface SnapshotApproach {
+  name: string;
+  indicatedValue: number | null;
+  weight: number | null;
+}
+
+// Snapshot figures compared between valuations
+export type RollforwardMetric =
+  | "concludedValue"
+  | "equityValue"
+  | "perShareValue"
+  | "dlom"
+  | "volatility"
+  | "timeToLiquidity"
+  | "discountRate"
+  | "ltmRevenue"
+  | "ltmEbitda"
+  | "gpcRevenueMultiple"
+  | "gpcEbitdaMultiple"
+  | "gtmRevenueMultiple"
+  | "gtmEbitdaMultiple";
+
+export type MetricFormat = "currency" | "price" | "percent" | "multiple" | "years";
+
+/**
+ * Change in one figure between the prior and current valuation
+ * Change is current minus prior; percent change is relative to prior
+ */
+export interface MetricChange {
+  metric: RollforwardMetric;
+  label: string;
+  format: MetricFormat;
+  prior: number | null;
+  current: number | null;
+  change: number | null;
+  percentChange: number | null;
+}
+
+/**
+ * Weight and indicated value of an approach in each valuation
+ * Null on one side when the approach was added or dropped
+ */
+export interface WeightChange {
+  name: string;
+  priorWeight: number | null;
+  currentWeight: number | null;
+  priorValue: number | null;
+  currentValue: number | null;
+}
+
+/**
+ * Guideline companies or transactions added, removed and retained
+ */
+export interface ComparableSetChange {
+  added: string[];
+  removed: string[];
+  retained: string[];
+}
+
+/**
+ * Differences between a company's prior and current valuation
+ */
+export interface ModelDiff {
+  priorValuationDate: string | null;
+  currentValuationDate: string | null;
+  monthsElapsed: number | null;
+  currency: string;
+  // Set when the two models are in different currencies, so amounts aren't comparable
+  priorCurrency: string | null;
+  metrics: MetricChange[];
+  weights: WeightChange[];
+  guidelineCompanies: ComparableSetChange;
+  guidelineTransactions: ComparableSetChange;
+}
+
+/**
+ * Prior valuation offered when creating an engagement
+ */
+export interface PriorValuationSummary {
+  id: string;
+  companyName: string;
+  valuationDate: string | null;
+  reportType: ReportType;
+  concludedValue: number | null;
+  perShareValue: number | null;
+  currency: string;
+  createdAt: string;
+}
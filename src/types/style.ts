@@ -0,0 +1,34 @@
+/**
+ * Style Example Types
+ * Sections of uploaded example reports used as writing-style references
+ */
+
+// Report sections style examples are segmented into
+export type StyleSectionKey =
+  | "companyOverview"
+  | "industryOutlook"
+  | "guidelinePublicCompany"
+  | "guidelineTransaction"
+  | "incomeApproach"
+  | "conclusion";
+
+// A section found in an example report
+export interface StyleSection {
+  key: StyleSectionKey;
+  // Heading as written in the example
+  heading: string;
+  // Prose paragraphs under the heading; tables are left out
+  paragraphs: string[];
+}
+
+// Passage of an example report chosen as a style reference for a prompt
+export interface StyleExcerpt {
+  exampleName: string;
+  section: StyleSectionKey;
+  text: string;
+  // Estimated prompt tokens
+  tokens: number;
+}
+
+// Style references for one report type, already within the per-section token budget
+export type StyleGuide = Partial<Record<StyleSectionKey, StyleExcerpt[]>>;